@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from './engine.js';
+import type { AnalysisBundle, AnalyzeManyProgress, SajuRequest } from './types.js';
+import { clearCalendarCaches } from '../calendar/cache.js';
+import { createLruCache } from '../utils/lru.js';
+
+const requests: SajuRequest[] = [
+  { birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' },
+  { birth: { instant: '1990-07-15T14:00:00+09:00' }, sex: 'F' },
+  { birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' },
+  { birth: { instant: '2023-02-15T08:00:00+09:00', calendar: 'koreanLunar', isLeapMonth: true }, sex: 'F' },
+  { birth: { instant: '1988-07-01T14:30:00+09:00', timeZone: 'Asia/Seoul' }, sex: 'M' },
+];
+
+async function collect(it: AsyncIterable<AnalysisBundle>): Promise<AnalysisBundle[]> {
+  const out: AnalysisBundle[] = [];
+  for await (const b of it) out.push(b);
+  return out;
+}
+
+describe('engine.analyzeMany', () => {
+  it('yields the same bytes as analyze() in a loop, in input order', async () => {
+    const engine = createEngine();
+    const looped = requests.map((r) => JSON.stringify(engine.analyze(r)));
+
+    clearCalendarCaches();
+    const batched = await collect(engine.analyzeMany(requests, { concurrency: 2 }));
+    expect(batched.map((b) => JSON.stringify(b))).toEqual(looped);
+
+    const yielded = await collect(engine.analyzeMany(requests, { concurrency: 4, yieldEvery: 1 }));
+    expect(yielded.map((b) => JSON.stringify(b))).toEqual(looped);
+  });
+
+  it('deduplicates identical normalized requests and reports progress', async () => {
+    const progress: AnalyzeManyProgress[] = [];
+    const batched = await collect(createEngine().analyzeMany(requests, { onProgress: (p) => progress.push(p) }));
+
+    expect(batched[2]).toEqual(batched[0]);
+    expect(batched[2]).not.toBe(batched[0]);
+    (batched[0]!.summary as any).mutated = true;
+    expect(batched[2]!.summary).not.toHaveProperty('mutated');
+    expect(progress.at(-1)).toEqual({ done: 5, total: 5, deduplicated: 1 });
+  });
+
+  it('accepts async iterables (total unknown)', async () => {
+    async function* gen() {
+      for (const r of requests.slice(0, 2)) yield r;
+    }
+    const progress: AnalyzeManyProgress[] = [];
+    const batched = await collect(createEngine().analyzeMany(gen(), { onProgress: (p) => progress.push(p) }));
+    expect(batched).toHaveLength(2);
+    expect(progress[0]).toEqual({ done: 1, total: null, deduplicated: 0 });
+  });
+});
+
+describe('engine.analyze shared calendar caches', () => {
+  it('does not let a mutated bundle leak into later analyses', () => {
+    const engine = createEngine();
+    const request = requests[0]!;
+    const first = engine.analyze(request);
+    const expected = JSON.stringify(engine.analyze(request));
+
+    for (const key of ['calendar.solarTermsAround', 'calendar.jieBoundariesAround']) {
+      const fact = first.report.facts[key] as { baseYear: number; terms: { utcMs: number }[] };
+      expect(fact.terms.length).toBeGreaterThan(0);
+      fact.baseYear = 0;
+      fact.terms[0]!.utcMs = 0;
+      fact.terms.reverse();
+    }
+
+    expect(JSON.stringify(engine.analyze(request))).toBe(expected);
+  });
+});
+
+describe('createLruCache', () => {
+  it('evicts the least recently used entry', () => {
+    const lru = createLruCache<string, number>(2);
+    lru.set('a', 1);
+    lru.set('b', 2);
+    expect(lru.get('a')).toBe(1); // a is now most recent
+    lru.set('c', 3);
+    expect(lru.get('b')).toBeUndefined();
+    expect(lru.getOrCompute('a', () => 99)).toBe(1);
+    expect(lru.size()).toBe(2);
+  });
+});
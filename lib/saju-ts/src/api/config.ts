@@ -62,6 +62,30 @@ function parsePresetIds(x: unknown): string[] {
   return uniq;
 }
 
+/**
+ * School preset ids requested by a config, in application order.
+ * Sources: school.id → extensions.presets.school / preset.school / school → strategies.school / schoolId.
+ */
+export function schoolPresetIdsOf(config: Partial<EngineConfig> | unknown): string[] {
+  const c: any = config ?? {};
+  const presetRef: unknown = (() => {
+    const bySchool = c?.school?.id;
+    if (bySchool != null) return bySchool;
+
+    const ext: any = c?.extensions ?? {};
+    const byExt = ext?.presets?.school ?? ext?.preset?.school ?? ext?.school;
+    if (byExt != null) return byExt;
+
+    const st: any = c?.strategies ?? {};
+    const byStrat = st?.school ?? st?.schoolId;
+    if (byStrat != null) return byStrat;
+
+    return null;
+  })();
+
+  return parsePresetIds(presetRef);
+}
+
 /**
  * Minimal normalization:
  * - apply defaults
@@ -77,22 +101,7 @@ export function normalizeConfig(input: Partial<EngineConfig> | unknown): EngineC
   // This keeps API stable while enabling new schools without code changes.
   const packs = resolveSchoolPresetPacks(migrated);
 
-  const presetRef: unknown = (() => {
-    const bySchool = (migrated as any)?.school?.id;
-    if (bySchool != null) return bySchool;
-
-    const ext: any = (migrated.extensions as any) ?? {};
-    const byExt = ext?.presets?.school ?? ext?.preset?.school ?? ext?.school;
-    if (byExt != null) return byExt;
-
-    const st: any = (migrated.strategies as any) ?? {};
-    const byStrat = st?.school ?? st?.schoolId;
-    if (byStrat != null) return byStrat;
-
-    return null;
-  })();
-
-  const presetIds = parsePresetIds(presetRef);
+  const presetIds = schoolPresetIdsOf(migrated);
 
   let base: EngineConfig = defaultConfig;
   for (const id of presetIds) {
@@ -1,14 +1,37 @@
-import type { AnalysisBundle, EngineConfig, FourPillars, SajuRequest, SummaryReport, TenGod } from './types.js';
+import type {
+  AnalysisBundle,
+  AnalyzeManyOptions,
+  CompatibilityBundle,
+  CompatibilitySummary,
+  Diagnostic,
+  EngineConfig,
+  FourPillars,
+  PillarView,
+  SajuRequest,
+  SummaryReport,
+  TenGod,
+} from './types.js';
 import { normalizeConfig } from './config.js';
 import { sha256Hex } from '../utils/hash.js';
 import { stableStringify } from '../utils/json.js';
 import { buildGraph } from '../graph/graphFactory.js';
 import { evaluate } from '../graph/evaluator.js';
+import { toDiagnosticsReport } from '../graph/diagnostics.js';
+import { buildCompatibilityGraph } from '../graph/compatibilityGraph.js';
 import { normalizeRequest } from '../calendar/normalizeRequest.js';
-import { toBranchView, toHiddenStemTenGodView, toHiddenStemView, toPillarView, toStemView } from './views.js';
+import { createLruCache } from '../utils/lru.js';
+import {
+  toBranchView,
+  toHiddenStemTenGodView,
+  toHiddenStemView,
+  toLuckInteractionView,
+  toPillarView,
+  toSaryeongView,
+  toStemView,
+} from './views.js';
 import { packAnalysisBundleZip } from '../artifacts/analysisZip.js';
 import { ENGINE_NAME, ENGINE_VERSION } from '../meta/version.js';
-import type { FortuneTimeline } from '../fortune/types.js';
+import type { FortuneTimeline, LuckInteraction, LuckInteractions } from '../fortune/types.js';
 import type { StrengthFacts } from '../rules/facts.js';
 import type { YongshinResult } from '../rules/yongshin.js';
 import type { GyeokgukResult } from '../rules/gyeokguk.js';
@@ -16,14 +39,57 @@ import type { ShinsalResult } from '../rules/shinsal.js';
 import type { PillarIdx } from '../core/cycle.js';
 import type { DetectedRelation } from '../core/branchRelations.js';
 import type { HiddenStem } from '../core/hiddenStems.js';
+import type { MonthSaryeong } from '../core/saryeong.js';
 import type { ElementDistribution } from '../core/elementDistribution.js';
 import type { StemRelation } from '../core/stemRelations.js';
+import type {
+  CompatibilityChart,
+  CompatibilityScore,
+  DayBranchCompatibility,
+  DayMasterCompatibility,
+  ElementComplementarity,
+  YongshinSupport,
+} from '../compatibility/types.js';
 
 export interface Engine {
   config: EngineConfig;
   analyze(request: SajuRequest): AnalysisBundle;
+  /**
+   * Batch `analyze`: yields one bundle per request, in input order, identical to calling `analyze` in a loop.
+   * Runs on the calling thread, one request at a time; `concurrency` / `yieldEvery` only set how often it yields to the event loop.
+   * Identical normalized requests are analysed once; repeats get a structured clone of that bundle,
+   * so mutating one yielded bundle never changes another.
+   */
+  analyzeMany(
+    requests: Iterable<SajuRequest> | AsyncIterable<SajuRequest>,
+    options?: AnalyzeManyOptions,
+  ): AsyncIterableIterator<AnalysisBundle>;
+  /** Two-person compatibility (궁합). Scores are symmetric: compare(a, b) and compare(b, a) agree. */
+  compare(a: SajuRequest, b: SajuRequest): CompatibilityBundle;
+  /**
+   * Four pillars of any instant under this engine's calendar policy (절기 boundaries, day boundary,
+   * true solar time) — e.g. the 세운/월운/일진 of a report date. Ignores config.toggles.
+   */
+  pillarsAt(request: SajuRequest): FourPillars<PillarView>;
 }
 
+const PILLAR_NODES = ['pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour'];
+
+const DEFAULT_BATCH_YIELD_EVERY = 16;
+/** Recent distinct requests remembered by one analyzeMany run for deduplication. */
+const BATCH_DEDUPE_CAPACITY = 1024;
+
+function nextTurn(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Chart nodes read by the compatibility graph, evaluated regardless of config.toggles. */
+const COMPATIBILITY_CHART_NODES = [
+  ...PILLAR_NODES,
+  'elements.distribution',
+  'rules.yongshin',
+];
+
 function readAnalysisZipStrategy(config: EngineConfig): {
   explicit: boolean;
   enabled: boolean;
@@ -65,7 +131,35 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
   // Build the calculation graph once per engine instance (pure DAG).
   // This avoids rebuilding NodeSpecs on every analyze() call.
   const graph = buildGraph();
-  return {
+  const compatibilityGraph = buildCompatibilityGraph();
+
+  const chartOf = (
+    request: SajuRequest,
+  ): { normalizedRequest: SajuRequest; chart: CompatibilityChart; diagnostics: Diagnostic[] } => {
+    const { request: normalizedRequest, parsed } = normalizeRequest(request);
+    const { results, diagnostics } = evaluate(
+      graph,
+      { request: normalizedRequest, parsed, config: normalizedConfig },
+      COMPATIBILITY_CHART_NODES,
+      { overrides: normalizedRequest.overrides },
+    );
+    return {
+      normalizedRequest,
+      diagnostics,
+      chart: {
+        pillars: {
+          year: results.get('pillars.year') as PillarIdx,
+          month: results.get('pillars.month') as PillarIdx,
+          day: results.get('pillars.day') as PillarIdx,
+          hour: results.get('pillars.hour') as PillarIdx,
+        },
+        elements: (results.get('elements.distribution') as ElementDistribution).total,
+        yongshin: (results.get('rules.yongshin') as YongshinResult).best,
+      },
+    };
+  };
+
+  const engine: Engine = {
     config: normalizedConfig,
 
     analyze(request: SajuRequest): AnalysisBundle {
@@ -78,7 +172,7 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
       };
 
 
-      const wanted: string[] = [];
+      const wanted: string[] = ['policy.schoolPresets'];
       if (normalizedConfig.toggles.pillars) {
         wanted.push('pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour');
       }
@@ -86,7 +180,7 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
         wanted.push('tenGods.stems');
       }
       if (normalizedConfig.toggles.hiddenStems) {
-        wanted.push('hiddenStems.branches');
+        wanted.push('hiddenStems.branches', 'hiddenStems.saryeong');
         if (normalizedConfig.toggles.tenGods) wanted.push('tenGods.hiddenStems');
       }
       if (normalizedConfig.toggles.elementDistribution) {
@@ -104,16 +198,20 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
 
       if (normalizedConfig.toggles.fortune) {
         wanted.push('fortune.timeline');
+        if (normalizedConfig.toggles.rules) wanted.push('fortune.interactions');
       }
 
       if (normalizedConfig.toggles.rules) {
         wanted.push('strength.index', 'rules.yongshin', 'rules.gyeokguk', 'rules.shinsal');
       }
 
-      const { results, trace } = evaluate(graph, ctx, wanted);
+      const { results, trace, diagnostics } = evaluate(graph, ctx, wanted, { overrides: normalizedRequest.overrides });
 
       const summary: SummaryReport = {};
 
+      const civilTime = results.get('time.civilTime') as SummaryReport['civilTime'] | null | undefined;
+      if (civilTime) summary.civilTime = civilTime;
+
       if (normalizedConfig.toggles.pillars) {
         const year = results.get('pillars.year') as PillarIdx;
         const month = results.get('pillars.month') as PillarIdx;
@@ -141,6 +239,9 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
           hour: hs.hour.map(toHiddenStemView),
         };
 
+        const saryeong = results.get('hiddenStems.saryeong') as MonthSaryeong | null;
+        if (saryeong) summary.saryeong = toSaryeongView(saryeong);
+
         if (normalizedConfig.toggles.tenGods) {
           const tg = results.get('tenGods.hiddenStems') as FourPillars<HiddenStemTenGod[]>;
           summary.tenGodsHiddenStems = {
@@ -166,6 +267,8 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
           type: r.type,
           members: r.members.map(toStemView),
           resultElement: r.resultElement,
+          placements: r.placements,
+          intensity: r.intensity,
         }));
       }
 
@@ -174,11 +277,18 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
         summary.relations = relations.map((r) => ({
           type: r.type,
           members: r.members.map(toBranchView),
+          ...(r.missing ? { missing: r.missing.map(toBranchView) } : {}),
+          ...(r.hiddenStems ? { hiddenStems: r.hiddenStems.map(toStemView) } : {}),
+          ...(r.resultElement ? { resultElement: r.resultElement } : {}),
+          placements: r.placements,
+          intensity: r.intensity,
         }));
       }
 
       if (normalizedConfig.toggles.fortune) {
         const ft = results.get('fortune.timeline') as FortuneTimeline;
+        const li = results.get('fortune.interactions') as LuckInteractions | undefined;
+        const interactionOf = (x: LuckInteraction | undefined) => (x ? { interaction: toLuckInteractionView(x) } : {});
 
         summary.fortune = {
           start: {
@@ -190,23 +300,25 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
             startUtcMsApprox: ft.start.startUtcMsApprox,
             formula: ft.start.formula,
           },
-          decades: ft.decades.map((d) => ({
+          decades: ft.decades.map((d, i) => ({
             index: d.index,
             startAgeYears: d.startAgeYears,
             endAgeYears: d.endAgeYears,
             pillar: toPillarView(d.pillar),
             startUtcMs: d.startUtcMs,
             endUtcMs: d.endUtcMs,
+            ...interactionOf(li?.decades[i]),
           })),
-          years: ft.years.slice(0, 30).map((y) => ({
+          years: ft.years.slice(0, 30).map((y, i) => ({
             solarYear: y.solarYear,
             pillar: toPillarView(y.pillar),
             startUtcMs: y.startUtcMs,
             endUtcMs: y.endUtcMs,
             approxStartAgeYears: y.approxStartAgeYears,
             approxEndAgeYears: y.approxEndAgeYears,
+            ...interactionOf(li?.years[i]),
           })),
-          months: ft.months?.slice(0, 24).map((m) => ({
+          months: ft.months?.slice(0, 24).map((m, i) => ({
             solarYear: m.solarYear,
             monthOrder: m.monthOrder,
             startJie: m.startJie,
@@ -215,6 +327,7 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
             endUtcMs: m.endUtcMs,
             approxStartAgeYears: m.approxStartAgeYears,
             approxEndAgeYears: m.approxEndAgeYears,
+            ...interactionOf(li?.months?.[i]),
           })),
           days: ft.days?.slice(0, 60).map((d) => ({
             localDate: d.localDate,
@@ -300,10 +413,7 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
         report: {
           facts: Object.fromEntries(results.entries()),
           trace,
-          diagnostics: {
-            warnings: [],
-            notes: [],
-          },
+          diagnostics: toDiagnosticsReport(diagnostics),
         },
         artifacts: {},
       };
@@ -324,5 +434,101 @@ export function createEngine(config: Partial<EngineConfig> = {}): Engine {
 
       return bundle;
     },
+
+    async *analyzeMany(requests, options = {}) {
+      const chunk = Math.max(1, Math.floor(options.yieldEvery ?? options.concurrency ?? DEFAULT_BATCH_YIELD_EVERY));
+      const total = Array.isArray(requests) ? requests.length : null;
+      const seen = createLruCache<string, AnalysisBundle>(BATCH_DEDUPE_CAPACITY);
+      let done = 0;
+      let deduplicated = 0;
+
+      for await (const request of requests) {
+        const { request: normalizedRequest } = normalizeRequest(request);
+        const key = `${configDigest}:${sha256Hex(stableStringify(normalizedRequest))}`;
+        const first = seen.get(key);
+        let bundle: AnalysisBundle;
+        if (first) {
+          deduplicated++;
+          bundle = structuredClone(first);
+        } else {
+          bundle = engine.analyze(request);
+          seen.set(key, structuredClone(bundle));
+        }
+
+        done++;
+        options.onProgress?.({ done, total, deduplicated });
+        yield bundle;
+        if (done % chunk === 0) await nextTurn();
+      }
+    },
+
+    pillarsAt(request: SajuRequest): FourPillars<PillarView> {
+      const { request: normalizedRequest, parsed } = normalizeRequest(request);
+      const { results } = evaluate(graph, { request: normalizedRequest, parsed, config: normalizedConfig }, PILLAR_NODES);
+      return {
+        year: toPillarView(results.get('pillars.year') as PillarIdx),
+        month: toPillarView(results.get('pillars.month') as PillarIdx),
+        day: toPillarView(results.get('pillars.day') as PillarIdx),
+        hour: toPillarView(results.get('pillars.hour') as PillarIdx),
+      };
+    },
+
+    compare(requestA: SajuRequest, requestB: SajuRequest): CompatibilityBundle {
+      const a = chartOf(requestA);
+      const b = chartOf(requestB);
+
+      const { results, trace, diagnostics } = evaluate(
+        compatibilityGraph,
+        { a: a.chart, b: b.chart, config: normalizedConfig },
+        ['compatibility.score'],
+      );
+
+      const dayMaster = results.get('compatibility.dayMaster') as DayMasterCompatibility;
+      const dayBranch = results.get('compatibility.dayBranch') as DayBranchCompatibility;
+
+      const summary: CompatibilitySummary = {
+        score: results.get('compatibility.score') as CompatibilityScore,
+        dayMaster: {
+          a: toStemView(a.chart.pillars.day.stem),
+          b: toStemView(b.chart.pillars.day.stem),
+          ...dayMaster,
+        },
+        dayBranch: {
+          a: toBranchView(a.chart.pillars.day.branch),
+          b: toBranchView(b.chart.pillars.day.branch),
+          ...dayBranch,
+        },
+        elements: results.get('compatibility.elements') as ElementComplementarity,
+        yongshin: results.get('compatibility.yongshin') as YongshinSupport,
+      };
+
+      return {
+        apiVersion: '1',
+        engine: {
+          name: ENGINE_NAME,
+          version: ENGINE_VERSION,
+        },
+        config: {
+          schemaVersion: normalizedConfig.schemaVersion,
+          digest: configDigest,
+        },
+        input: {
+          a: a.normalizedRequest,
+          b: b.normalizedRequest,
+        },
+        summary,
+        report: {
+          facts: Object.fromEntries(results.entries()),
+          trace,
+          diagnostics: toDiagnosticsReport([
+            ...a.diagnostics.map((d) => ({ ...d, subject: 'a' as const })),
+            ...b.diagnostics.map((d) => ({ ...d, subject: 'b' as const })),
+            ...diagnostics,
+          ]),
+        },
+      };
+    },
   };
+
+  return engine;
 }
@@ -2,21 +2,63 @@ import type { BranchIdx, PillarIdx, StemIdx } from '../core/cycle.js';
 import type { ElementVector } from '../core/elementVector.js';
 import type { HiddenStemRole, HiddenStemWeightPolicy } from '../core/hiddenStems.js';
 import type { LifeStage } from '../core/lifeStage.js';
+import type { RelationPlacement } from '../core/relationPlacement.js';
 import type { RelationType } from '../core/branchRelations.js';
 import type { StemRelationType } from '../core/stemRelations.js';
 import type { TenGod } from '../core/tenGod.js';
+import type { LuckQuality, LuckRelationPartner } from '../fortune/types.js';
+import type {
+  CompatibilityScore,
+  DayMasterRelationType,
+  ElementComplementarity,
+  YongshinSupport,
+} from '../compatibility/types.js';
 
 export type { HiddenStemRole, HiddenStemWeightPolicy } from '../core/hiddenStems.js';
 export type { LifeStage } from '../core/lifeStage.js';
+export type { PillarPosition, RelationPlacement } from '../core/relationPlacement.js';
 export type { RelationType } from '../core/branchRelations.js';
 export type { StemRelationType } from '../core/stemRelations.js';
 export type { TenGod } from '../core/tenGod.js';
+export type { LuckQuality, LuckRelationPartner } from '../fortune/types.js';
+export type {
+  CompatibilityScore,
+  DayMasterRelationType,
+  ElementComplementarity,
+  YongshinSupport,
+} from '../compatibility/types.js';
 
 export interface SajuRequest {
   birth: {
-    /** ISO-8601 with offset (e.g. 1990-01-01T12:34:00+09:00) or Z */
+    /**
+     * ISO-8601 with offset (e.g. 1990-01-01T12:34:00+09:00) or Z.
+     *
+     * With calendar='koreanLunar' the date part is read as a Korean lunar date
+     * (e.g. 1990-05-30 = 음력 5월 30일); time and offset are civil wall-clock as usual.
+     */
     instant: string;
-    calendar?: 'gregorian';
+    calendar?: 'gregorian' | 'koreanLunar';
+    /** calendar='koreanLunar' only: the lunar month is the intercalary month (윤달). */
+    isLeapMonth?: boolean;
+    /**
+     * Set by normalization when the input was converted to Gregorian.
+     * Keeps the caller-provided lunar instant for provenance.
+     */
+    source?: {
+      calendar: 'koreanLunar';
+      instant: string;
+      isLeapMonth: boolean;
+    };
+    /**
+     * Time zone of the wall-clock time in `instant`.
+     *
+     * 'Asia/Seoul' resolves the wall-clock time against the built-in Korean civil-time history
+     * (UTC+8:30 eras, 1948–1988 summer time) and ignores the offset written in `instant`.
+     * Summer time is then removed, so graph nodes see local standard time.
+     */
+    timeZone?: 'Asia/Seoul';
+    /** Set by normalization when `timeZone` was resolved. */
+    civilTime?: CivilTimeView;
   };
 
   sex: 'M' | 'F' | 'U';
@@ -29,6 +71,16 @@ export interface SajuRequest {
   };
 
   meta?: Record<string, unknown>;
+  /**
+   * Manual overrides keyed by graph node id; downstream nodes see the override instead of the
+   * computed value, and the trace keeps the computed one (`TraceNode.overridden.computed`).
+   *
+   * - 'pillars.year' | 'pillars.month' | 'pillars.day' | 'pillars.hour': `{ stem, branch }` or '甲子'
+   * - 'rules.yongshin': an element ('FIRE') or `{ best: 'FIRE' }`
+   *
+   * Other ids are ignored with an OVERRIDE_IGNORED diagnostic; a malformed value keeps the computed
+   * one and reports OVERRIDE_INVALID.
+   */
   overrides?: Record<string, unknown>;
 }
 
@@ -128,6 +180,40 @@ export interface TraceNode {
   explain?: string;
   input?: unknown;
   output?: unknown;
+  /** Set when `output` came from SajuRequest.overrides; `computed` is what the node produced. */
+  overridden?: { computed: unknown };
+}
+
+export type DiagnosticSeverity = 'warning' | 'info';
+
+export type DiagnosticCode =
+  /** 출생 시각이 절입(節入) 시각에 가까움 → 월주(입춘이면 연주)가 경계선상 */
+  | 'JIE_BOUNDARY_NEAR'
+  /** 출생 시각이 시지 경계(홀수 정시)에 가까움 → 시주가 경계선상 */
+  | 'HOUR_BOUNDARY_NEAR'
+  /** 진태양시가 켜져 있지만 location.lon이 없어 보정하지 않음 */
+  | 'TRUE_SOLAR_TIME_NO_LOCATION'
+  /** DSL 규칙의 assert가 실패함 */
+  | 'RULE_ASSERTION_FAILED'
+  /** normalizeConfig가 알 수 없는 유파 프리셋 id를 무시함 */
+  | 'UNKNOWN_PRESET'
+  /** 절기 시각을 근사식(calendar.solarTerms.method = 'approx')으로 계산함 */
+  | 'APPROX_SOLAR_TERMS'
+  /** SajuRequest.overrides에 덮어쓸 수 없는(없는) 노드 id가 있어 무시함 */
+  | 'OVERRIDE_IGNORED'
+  /** SajuRequest.overrides 값이 해당 노드 형식에 맞지 않아 계산값을 유지함 */
+  | 'OVERRIDE_INVALID';
+
+/** One diagnostic item written by a graph node (stable `code`, human-readable `message`). */
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  /** Graph node that raised it. */
+  nodeId: string;
+  message: string;
+  /** compare(): which chart the item belongs to (absent for the pair itself). */
+  subject?: 'a' | 'b';
+  data?: Record<string, unknown>;
 }
 
 export interface FullReport {
@@ -137,12 +223,19 @@ export interface FullReport {
     edges: Array<{ from: string; to: string }>;
   };
   diagnostics: {
+    /** Messages of the `warning` items. */
     warnings: string[];
+    /** Messages of the `info` items. */
     notes: string[];
+    /** Structured items, in evaluation order. */
+    items: Diagnostic[];
   };
 }
 
 export interface SummaryReport {
+  /** Optional: 출생 시각의 표준시/서머타임 보정 (birth.timeZone 지정 시) */
+  civilTime?: CivilTimeView;
+
   pillars?: {
     year: PillarView;
     month: PillarView;
@@ -160,6 +253,9 @@ export interface SummaryReport {
 
   tenGodsHiddenStems?: FourPillars<HiddenStemTenGodView[]>;
 
+  /** Optional: 월지 지장간 사령(司令) — 절입일로부터 지난 날수 기준 (절기 경계가 없으면 생략) */
+  saryeong?: SaryeongView;
+
   elementDistribution?: ElementDistributionView;
 
   /** Optional (future): 十二運星 */
@@ -195,6 +291,20 @@ export interface SummaryReport {
   shinsalScoresAdjusted?: Array<{ key: string; score: number }>;
 }
 
+export interface CivilTimeView {
+  timeZone: 'Asia/Seoul';
+  /** Wall-clock time as given (YYYY-MM-DDTHH:mm), after any lunar conversion. */
+  wallClock: string;
+  /** Offset written in the caller's instant (ignored for the calculation). */
+  inputOffsetMinutes: number;
+  /** Historical standard-time offset (e.g. 510 for UTC+8:30). */
+  standardOffsetMinutes: number;
+  /** Summer-time shift removed from the wall clock (0 or 60). */
+  dstMinutes: number;
+  /** 'gap': skipped by a clock change (pre-transition offset used); 'overlap': occurred twice (earlier instant used). */
+  status: 'ok' | 'gap' | 'overlap';
+}
+
 export interface StemView {
   idx: StemIdx;
   text: string;
@@ -224,6 +334,19 @@ export interface HiddenStemTenGodView extends HiddenStemView {
   tenGod: TenGod;
 }
 
+export interface SaryeongView {
+  stem: StemView;
+  role: HiddenStemRole;
+  /** 1-based day counted from the month-opening 절. */
+  dayInMonth: number;
+  variant: 'STANDARD' | 'NO_RESIDUAL_EARTH';
+  /** True when dayInMonth is past the schedule (정기 keeps command). */
+  overflow: boolean;
+  jie: { id: string; utcMs: number };
+  phases: Array<{ stem: StemView; role: HiddenStemRole; startDay: number; endDay: number; isActive: boolean }>;
+  reasoning: string;
+}
+
 export interface ElementDistributionView {
   heaven: ElementVector;
   hidden: ElementVector;
@@ -235,6 +358,10 @@ export interface StemRelationView {
   members: StemView[];
   /** For HAP, the classical “resulting element” label (化) without extra conditions. */
   resultElement?: string;
+  /** Pillars holding the members (every combination, strongest first), distance and intensity. */
+  placements?: RelationPlacement[];
+  /** Strongest placement intensity (0..1). */
+  intensity?: number;
 }
 
 export interface FortuneStartView {
@@ -254,6 +381,25 @@ export interface DecadeLuckView {
   pillar: PillarView;
   startUtcMs?: number;
   endUtcMs?: number;
+  /** Interaction with the natal chart (requires toggles.rules). */
+  interaction?: LuckInteractionView;
+}
+
+/** How a luck pillar (대운/세운/월운) meets the natal chart. */
+export interface LuckInteractionView {
+  /** Ten gods of the luck stem and of the luck branch's main hidden stem. */
+  tenGods: { stem: TenGod; branch: TenGod };
+  /** 십이운성 of the day master at the luck branch. */
+  lifeStage: LifeStage;
+  stemRelations: Array<{ type: StemRelationType; with: LuckRelationPartner[]; members: StemView[]; resultElement?: string }>;
+  branchRelations: Array<{ type: RelationType; with: LuckRelationPartner[]; members: BranchView[] }>;
+  /** Strength index before/with this pillar and the change. */
+  strength: { before: number; after: number; delta: number };
+  isYongshinElement: boolean;
+  isGisinElement: boolean;
+  quality: LuckQuality;
+  isTransitionPeriod: boolean;
+  summary: string;
 }
 
 export interface YearLuckView {
@@ -263,6 +409,8 @@ export interface YearLuckView {
   endUtcMs: number;
   approxStartAgeYears: number;
   approxEndAgeYears: number;
+  /** Interaction with the natal chart (requires toggles.rules). */
+  interaction?: LuckInteractionView;
 }
 
 export interface MonthLuckView {
@@ -274,6 +422,8 @@ export interface MonthLuckView {
   endUtcMs: number;
   approxStartAgeYears: number;
   approxEndAgeYears: number;
+  /** Interaction with the natal chart (requires toggles.rules). */
+  interaction?: LuckInteractionView;
 }
 
 export interface DayLuckView {
@@ -364,6 +514,16 @@ export interface FourPillars<T> {
 export interface DetectedRelationView {
   type: RelationType;
   members: BranchView[];
+  /** BANHAP/HEOHAP: absent 삼합 member; GONGHYEOP: absent branch in between. */
+  missing?: BranchView[];
+  /** AMHAP: the combining hidden stems. */
+  hiddenStems?: StemView[];
+  /** BANHAP/HEOHAP/AMHAP: resulting element. */
+  resultElement?: string;
+  /** Pillars holding the members (every combination, strongest first), distance and intensity. */
+  placements?: RelationPlacement[];
+  /** Strongest placement intensity (0..1). */
+  intensity?: number;
 }
 
 export interface AnalysisBundle {
@@ -396,3 +556,79 @@ export interface PillarsResult {
   day: PillarIdx;
   hour: PillarIdx;
 }
+
+export interface CompatibilitySummary {
+  /** Weighted total (0..100) with per-component breakdown; identical for compare(a, b) and compare(b, a) */
+  score: CompatibilityScore;
+
+  /** 일간(日干) 궁합 */
+  dayMaster: {
+    a: StemView;
+    b: StemView;
+    relation: DayMasterRelationType;
+    /** For HAP, the classical resulting element (化). */
+    resultElement?: string;
+    /** B's day stem as a ten god of A's day master (and vice versa). */
+    tenGodAtoB: TenGod;
+    tenGodBtoA: TenGod;
+    score: number;
+  };
+
+  /** 일지(日支, 배우자궁) 궁합: 합/충/형/파/해/원진 */
+  dayBranch: {
+    a: BranchView;
+    b: BranchView;
+    relations: RelationType[];
+    score: number;
+  };
+
+  /** 오행 보완 */
+  elements: ElementComplementarity;
+
+  /** 용신 상호 보완 */
+  yongshin: YongshinSupport;
+}
+
+export interface CompatibilityBundle {
+  apiVersion: '1';
+
+  engine: {
+    name: string;
+    version: string;
+    build?: string;
+  };
+
+  config: {
+    schemaVersion: string;
+    digest: string;
+  };
+
+  input: {
+    a: SajuRequest;
+    b: SajuRequest;
+  };
+
+  summary: CompatibilitySummary;
+  /** facts/trace of the compatibility graph (input.a/input.b hold each chart's facts) */
+  report: FullReport;
+}
+
+export interface AnalyzeManyProgress {
+  /** Bundles yielded so far. */
+  done: number;
+  /** Number of requests when known up front (arrays), else null. */
+  total: number | null;
+  /** Requests answered from an identical earlier request instead of being re-analysed. */
+  deduplicated: number;
+}
+
+export interface AnalyzeManyOptions {
+  /**
+   * Requests analysed back to back per event-loop turn (default 16). Not parallelism: analysis is
+   * synchronous and single-threaded, so exactly one request is in flight at a time whatever the value.
+   */
+  concurrency?: number;
+  /** Requests analysed between event-loop yields; overrides `concurrency` when both are given. */
+  yieldEvery?: number;
+  onProgress?: (progress: AnalyzeManyProgress) => void;
+}
@@ -2,7 +2,9 @@ import type {
   BranchView,
   HiddenStemTenGodView,
   HiddenStemView,
+  LuckInteractionView,
   PillarView,
+  SaryeongView,
   StemRelationView,
   StemView,
   TenGod,
@@ -10,6 +12,8 @@ import type {
 import type { BranchIdx, PillarIdx, StemIdx } from '../core/cycle.js';
 import type { HiddenStemRole } from '../core/hiddenStems.js';
 import type { StemRelation } from '../core/stemRelations.js';
+import type { MonthSaryeong } from '../core/saryeong.js';
+import type { LuckInteraction } from '../fortune/types.js';
 import {
   branchElement,
   branchHanja,
@@ -66,10 +70,49 @@ export function toHiddenStemTenGodView(h: {
   };
 }
 
+export function toSaryeongView(s: MonthSaryeong): SaryeongView {
+  return {
+    stem: toStemView(s.commandingStem),
+    role: s.commandingRole,
+    dayInMonth: s.dayInMonth,
+    variant: s.variant,
+    overflow: s.overflow,
+    jie: s.jie,
+    phases: s.phases.map((p) => ({ ...p, stem: toStemView(p.stem) })),
+    reasoning: s.reasoning,
+  };
+}
+
 export function toStemRelationView(rel: StemRelation): StemRelationView {
   return {
     type: rel.type,
     members: rel.members.map(toStemView),
     resultElement: rel.resultElement,
+    placements: rel.placements,
+    intensity: rel.intensity,
+  };
+}
+
+export function toLuckInteractionView(li: LuckInteraction): LuckInteractionView {
+  return {
+    tenGods: li.tenGods,
+    lifeStage: li.lifeStage,
+    stemRelations: li.stemRelations.map((r) => ({
+      type: r.type,
+      with: r.with,
+      members: r.members.map(toStemView),
+      resultElement: r.resultElement,
+    })),
+    branchRelations: li.branchRelations.map((r) => ({
+      type: r.type,
+      with: r.with,
+      members: r.members.map(toBranchView),
+    })),
+    strength: li.strength,
+    isYongshinElement: li.isYongshinElement,
+    isGisinElement: li.isGisinElement,
+    quality: li.quality,
+    isTransitionPeriod: li.isTransitionPeriod,
+    summary: li.summary,
   };
 }
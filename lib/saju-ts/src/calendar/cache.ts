@@ -0,0 +1,23 @@
+import type { LruCache } from '../utils/lru.js';
+import { createLruCache } from '../utils/lru.js';
+
+/**
+ * Process-wide LRU caches for calendar astronomy (solar terms, new moons), keyed by year and method.
+ * Shared by every engine instance so batch runs (`analyzeMany`) compute each year once.
+ */
+
+/** Entries kept per cache; older years are recomputed on demand. */
+export const CALENDAR_CACHE_CAPACITY = 512;
+
+const registry: Array<LruCache<unknown, unknown>> = [];
+
+export function createCalendarCache<K, V>(): LruCache<K, V> {
+  const cache = createLruCache<K, V>(CALENDAR_CACHE_CAPACITY);
+  registry.push(cache as LruCache<unknown, unknown>);
+  return cache;
+}
+
+/** Drop every cached calendar computation (tests, long-running workers). */
+export function clearCalendarCaches(): void {
+  for (const cache of registry) cache.clear();
+}
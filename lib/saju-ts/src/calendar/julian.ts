@@ -33,6 +33,25 @@ export function gregorianToJdn(date: LocalDate): number {
   );
 }
 
+/**
+ * Julian Day Number (JDN) → proleptic Gregorian calendar date.
+ * Inverse of `gregorianToJdn`.
+ */
+export function jdnToGregorian(jdn: number): LocalDate {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+
+  return {
+    y: 100 * b + d - 4800 + Math.floor(m / 10),
+    m: m + 3 - 12 * Math.floor(m / 10),
+    d: e - Math.floor((153 * m + 2) / 5) + 1,
+  };
+}
+
 /**
  * UTC milliseconds → Julian Day (JD).
  *
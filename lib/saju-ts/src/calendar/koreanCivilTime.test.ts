@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { KOREAN_DST_RANGES, koreanDstOffsetMinutes, koreanStandardOffsetMinutesAtUtc, resolveKoreanCivilTime } from './koreanCivilTime.js';
+
+describe('koreanCivilTime', () => {
+  it('follows the 1949–1951 summer-time boundaries (end exclusive)', () => {
+    expect(koreanDstOffsetMinutes(1949, 4, 2)).toBe(0);
+    expect(koreanDstOffsetMinutes(1949, 4, 3)).toBe(60);
+    expect(koreanDstOffsetMinutes(1949, 9, 10)).toBe(60);
+    expect(koreanDstOffsetMinutes(1949, 9, 11)).toBe(0);
+
+    expect(koreanDstOffsetMinutes(1950, 3, 31)).toBe(0);
+    expect(koreanDstOffsetMinutes(1950, 4, 1)).toBe(60);
+    expect(koreanDstOffsetMinutes(1950, 9, 10)).toBe(0);
+
+    expect(koreanDstOffsetMinutes(1951, 5, 6)).toBe(60);
+    expect(koreanDstOffsetMinutes(1951, 9, 9)).toBe(0);
+
+    for (const [m, d] of [[1, 15], [4, 15], [7, 15], [10, 15]] as const) {
+      expect(koreanDstOffsetMinutes(1952, m, d)).toBe(0);
+    }
+
+    const p1950 = KOREAN_DST_RANGES.find((p) => p.startYear === 1950)!;
+    expect([p1950.startMonth, p1950.startDay, p1950.endMonth, p1950.endDay]).toEqual([4, 1, 9, 10]);
+  });
+
+  it('uses UTC+8:30 standard time from 1954-03-21 to 1961-08-10', () => {
+    expect(koreanStandardOffsetMinutesAtUtc(Date.UTC(1953, 6, 1))).toBe(540);
+    expect(koreanStandardOffsetMinutesAtUtc(Date.UTC(1958, 0, 1))).toBe(510);
+    expect(koreanStandardOffsetMinutesAtUtc(Date.UTC(1962, 0, 1))).toBe(540);
+
+    // 1958 summer: +8:30 standard + 1h summer time
+    const r = resolveKoreanCivilTime({ y: 1958, m: 7, d: 1 }, { h: 12, min: 0 });
+    expect(r).toMatchObject({ offsetMinutes: 570, standardOffsetMinutes: 510, dstMinutes: 60, status: 'ok' });
+    expect(r.utcMs).toBe(Date.UTC(1958, 6, 1, 2, 30));
+  });
+
+  it('switches 1987–1988 summer time at 02:00/03:00', () => {
+    expect(resolveKoreanCivilTime({ y: 1988, m: 5, d: 8 }, { h: 1, min: 59 }).dstMinutes).toBe(0);
+    expect(resolveKoreanCivilTime({ y: 1988, m: 5, d: 8 }, { h: 3, min: 0 }).dstMinutes).toBe(60);
+    expect(koreanDstOffsetMinutes(1988, 7, 1)).toBe(60);
+    expect(koreanDstOffsetMinutes(1988, 12, 1)).toBe(0);
+  });
+
+  it('flags skipped and repeated wall-clock times', () => {
+    // 1988-05-08 02:00 → 03:00 (skipped hour)
+    const gap = resolveKoreanCivilTime({ y: 1988, m: 5, d: 8 }, { h: 2, min: 30 });
+    expect(gap).toMatchObject({ status: 'gap', offsetMinutes: 540, dstMinutes: 0 });
+
+    // 1988-10-09 03:00 → 02:00 (02:xx happens twice); the earlier (summer-time) instant wins
+    const overlap = resolveKoreanCivilTime({ y: 1988, m: 10, d: 9 }, { h: 2, min: 30 });
+    expect(overlap).toMatchObject({ status: 'overlap', offsetMinutes: 600, dstMinutes: 60 });
+
+    // 1954-03-21 00:00 +9 → 1954-03-20 23:30 +8:30
+    const eraOverlap = resolveKoreanCivilTime({ y: 1954, m: 3, d: 20 }, { h: 23, min: 45 });
+    expect(eraOverlap).toMatchObject({ status: 'overlap', offsetMinutes: 540 });
+  });
+});
@@ -0,0 +1,161 @@
+import type { LocalDate, LocalTime } from './iso.js';
+
+/**
+ * Korean civil-time history (Asia/Seoul), self-contained so results do not depend on
+ * the host's ICU/tzdata build.
+ *
+ * Standard time:
+ * - UTC+8:30 until 1912-01-01 (local mean time before 1908-04-01 is approximated as +8:30)
+ * - UTC+9:00 from 1912-01-01
+ * - UTC+8:30 from 1954-03-21
+ * - UTC+9:00 from 1961-08-10
+ *
+ * Summer time (+60 min): 1948–1951, 1955–1960, 1987–1988 (IANA `ROK` rules).
+ */
+
+export const KOREA_TIME_ZONE = 'Asia/Seoul';
+
+/**
+ * One summer-time period in local wall-clock terms.
+ * Starts at `start*` standard time; ends (exclusive) at `end*` daylight time.
+ * A "24:00" end is stored as 00:00 of the next day.
+ */
+export interface KoreanDstRange {
+  startYear: number;
+  startMonth: number;
+  startDay: number;
+  startHour: number;
+  endYear: number;
+  endMonth: number;
+  endDay: number;
+  endHour: number;
+}
+
+function dst(
+  year: number,
+  start: [month: number, day: number, hour: number],
+  end: [month: number, day: number, hour: number],
+): KoreanDstRange {
+  return {
+    startYear: year,
+    startMonth: start[0],
+    startDay: start[1],
+    startHour: start[2],
+    endYear: year,
+    endMonth: end[0],
+    endDay: end[1],
+    endHour: end[2],
+  };
+}
+
+export const KOREAN_DST_RANGES: readonly KoreanDstRange[] = [
+  dst(1948, [6, 1, 0], [9, 13, 0]),
+  dst(1949, [4, 3, 0], [9, 11, 0]),
+  dst(1950, [4, 1, 0], [9, 10, 0]),
+  dst(1951, [5, 6, 0], [9, 9, 0]),
+  dst(1955, [5, 5, 0], [9, 9, 0]),
+  dst(1956, [5, 20, 0], [9, 30, 0]),
+  dst(1957, [5, 5, 0], [9, 22, 0]),
+  dst(1958, [5, 4, 0], [9, 21, 0]),
+  dst(1959, [5, 3, 0], [9, 20, 0]),
+  dst(1960, [5, 1, 0], [9, 18, 0]),
+  dst(1987, [5, 10, 2], [10, 11, 3]),
+  dst(1988, [5, 8, 2], [10, 9, 3]),
+];
+
+const DST_MINUTES = 60;
+
+const STANDARD_OFFSETS: ReadonlyArray<{ fromUtcMs: number; offsetMinutes: number }> = [
+  { fromUtcMs: Number.NEGATIVE_INFINITY, offsetMinutes: 510 },
+  { fromUtcMs: Date.UTC(1911, 11, 31, 15, 30), offsetMinutes: 540 },
+  { fromUtcMs: Date.UTC(1954, 2, 20, 15, 0), offsetMinutes: 510 },
+  { fromUtcMs: Date.UTC(1961, 7, 9, 15, 30), offsetMinutes: 540 },
+];
+
+/** Korean standard-time offset (no summer time) in effect at a UTC instant. */
+export function koreanStandardOffsetMinutesAtUtc(utcMs: number): number {
+  let offset = STANDARD_OFFSETS[0]!.offsetMinutes;
+  for (const e of STANDARD_OFFSETS) {
+    if (utcMs >= e.fromUtcMs) offset = e.offsetMinutes;
+    else break;
+  }
+  return offset;
+}
+
+function wallMs(y: number, m: number, d: number, h: number, min = 0): number {
+  return Date.UTC(y, m - 1, d, h, min);
+}
+
+/** Summer-time windows as UTC half-open intervals [fromUtcMs, toUtcMs). */
+const DST_WINDOWS_UTC: ReadonlyArray<{ fromUtcMs: number; toUtcMs: number }> = KOREAN_DST_RANGES.map((r) => {
+  const start = wallMs(r.startYear, r.startMonth, r.startDay, r.startHour);
+  const std = koreanStandardOffsetMinutesAtUtc(start - 540 * 60_000);
+  const end = wallMs(r.endYear, r.endMonth, r.endDay, r.endHour);
+  return {
+    fromUtcMs: start - std * 60_000,
+    toUtcMs: end - (std + DST_MINUTES) * 60_000,
+  };
+});
+
+/** Summer-time shift (0 or 60 minutes) in effect at a UTC instant. */
+export function koreanDstMinutesAtUtc(utcMs: number): number {
+  return DST_WINDOWS_UTC.some((w) => utcMs >= w.fromUtcMs && utcMs < w.toUtcMs) ? DST_MINUTES : 0;
+}
+
+function totalOffsetAtUtc(utcMs: number): number {
+  return koreanStandardOffsetMinutesAtUtc(utcMs) + koreanDstMinutesAtUtc(utcMs);
+}
+
+export interface KoreanCivilTimeResolution {
+  utcMs: number;
+  /** standardOffsetMinutes + dstMinutes */
+  offsetMinutes: number;
+  standardOffsetMinutes: number;
+  dstMinutes: number;
+  /**
+   * - 'gap': the wall time was skipped by a clock change; read with the pre-transition offset
+   * - 'overlap': the wall time occurred twice; the earlier instant is used
+   */
+  status: 'ok' | 'gap' | 'overlap';
+}
+
+const CANDIDATE_OFFSETS = [600, 570, 540, 510] as const;
+
+/**
+ * Resolve a Korean wall-clock date/time to a UTC instant using the civil-time history.
+ */
+export function resolveKoreanCivilTime(date: LocalDate, time: LocalTime): KoreanCivilTimeResolution {
+  const wall = wallMs(date.y, date.m, date.d, time.h, time.min);
+
+  // Larger offsets first, so an overlap resolves to the earlier instant.
+  const valid = CANDIDATE_OFFSETS.filter((o) => totalOffsetAtUtc(wall - o * 60_000) === o);
+
+  let offsetMinutes: number;
+  let status: KoreanCivilTimeResolution['status'];
+  if (valid.length > 0) {
+    offsetMinutes = valid[0]!;
+    status = valid.length > 1 ? 'overlap' : 'ok';
+  } else {
+    // Any instant before the transition works; transitions are never closer than hours apart.
+    offsetMinutes = totalOffsetAtUtc(wall - CANDIDATE_OFFSETS[0] * 60_000);
+    status = 'gap';
+  }
+
+  const utcMs = wall - offsetMinutes * 60_000;
+  const probe = status === 'gap' ? wall - CANDIDATE_OFFSETS[0] * 60_000 : utcMs;
+  const dstMinutes = koreanDstMinutesAtUtc(probe);
+  return {
+    utcMs,
+    offsetMinutes,
+    standardOffsetMinutes: offsetMinutes - dstMinutes,
+    dstMinutes,
+    status,
+  };
+}
+
+/**
+ * Summer-time shift for a Korean wall-clock time (defaults to local noon of the day).
+ */
+export function koreanDstOffsetMinutes(year: number, month: number, day: number, hour = 12, minute = 0): number {
+  return resolveKoreanCivilTime({ y: year, m: month, d: day }, { h: hour, min: minute }).dstMinutes;
+}
@@ -0,0 +1,237 @@
+import { koreanStandardOffsetMinutesAtUtc } from './koreanCivilTime.js';
+import { gregorianToJdn, jdnToGregorian, julianDayToUtcMs, utcMsToJulianDay } from './julian.js';
+import { newMoonOnOrAfterJd, trueNewMoonJDE } from './lunarNewYear.js';
+import { getSolarTerms, solarTermUtcMsForLongitude } from './solarTerms.js';
+import { createCalendarCache } from './cache.js';
+
+/**
+ * Korean lunisolar calendar (음력) ↔ Gregorian conversion.
+ *
+ * Algorithmic (no KASI lookup table), using the same astronomy as the rest of the calendar layer:
+ * - A month starts on the local civil day containing a true new moon (Meeus Ch. 49).
+ * - The month containing the winter solstice (270°) is always month 11.
+ * - If a solstice-to-solstice span (歲) holds 13 months, the first month after month 11
+ *   without a principal term (中氣, multiples of 30°) is the leap month (윤달) and repeats
+ *   the number of the month before it.
+ *
+ * Local days are taken in the Korean standard time of the era (UTC+8:30 / UTC+9, see `koreanCivilTime.ts`).
+ * TT≈UTC (ΔT ignored), as in `lunarNewYear.ts`; this only matters when a new moon falls
+ * within about a minute of local midnight.
+ */
+
+export const MIN_LUNAR_YEAR = 1899;
+export const MAX_LUNAR_YEAR = 2050;
+
+/** First Gregorian date covered by the converter. */
+const MIN_SOLAR_JDN = gregorianToJdn({ y: 1900, m: 1, d: 1 });
+
+const MS_PER_DAY = 86_400_000;
+const JDN_UNIX_EPOCH = 2_440_588;
+
+export interface LunarDate {
+  year: number;
+  month: number; // 1..12
+  day: number; // 1..30
+  isLeapMonth: boolean;
+}
+
+export interface SolarDate {
+  year: number;
+  month: number; // 1..12
+  day: number; // 1..31
+}
+
+export interface LunarMonth {
+  month: number;
+  isLeapMonth: boolean;
+  /** JDN of the first day (초하루). */
+  startJdn: number;
+  /** 29 (소월) or 30 (대월). */
+  days: number;
+}
+
+export type LunarDateIssue = 'OUT_OF_RANGE' | 'NO_SUCH_LEAP_MONTH' | 'DAY_OUT_OF_RANGE';
+
+export type LunarDateResolution =
+  | { ok: true; solar: SolarDate; month: LunarMonth }
+  | { ok: false; issue: LunarDateIssue; message: string };
+
+/** A lunar birth date that cannot be converted; `issue` is the `resolveLunarDate` code. */
+export class LunarDateError extends Error {
+  readonly issue: LunarDateIssue;
+  readonly date: LunarDate;
+
+  constructor(issue: LunarDateIssue, date: LunarDate, message: string) {
+    super(message);
+    this.name = 'LunarDateError';
+    this.issue = issue;
+    this.date = date;
+  }
+}
+
+function localJdnOfUtcMs(utcMs: number): number {
+  const localMs = utcMs + koreanStandardOffsetMinutesAtUtc(utcMs) * 60_000;
+  return Math.floor(localMs / MS_PER_DAY) + JDN_UNIX_EPOCH;
+}
+
+function newMoonLocalJdn(k: number): number {
+  return localJdnOfUtcMs(Math.round(julianDayToUtcMs(trueNewMoonJDE(k))));
+}
+
+/** Index k of the new moon that starts the month containing the given local day. */
+function newMoonIndexOnOrBefore(jdn: number): number {
+  // JD of the *end* of the local day is a safe upper bound for the search.
+  const jd = utcMsToJulianDay((jdn - JDN_UNIX_EPOCH + 1) * MS_PER_DAY);
+  let k = newMoonOnOrAfterJd(jd).k;
+  while (newMoonLocalJdn(k) > jdn) k -= 1;
+  return k;
+}
+
+function winterSolsticeJdn(gregorianYear: number): number {
+  return localJdnOfUtcMs(solarTermUtcMsForLongitude(gregorianYear, 270, 'meeus'));
+}
+
+function principalTermJdns(fromYear: number, toYear: number): number[] {
+  const out: number[] = [];
+  for (let y = fromYear; y <= toYear; y++) {
+    for (const t of getSolarTerms(y, 'meeus')) {
+      if (t.longitude % 30 === 0) out.push(localJdnOfUtcMs(t.utcMs));
+    }
+  }
+  return out.sort((a, b) => a - b);
+}
+
+/**
+ * Months of the 歲 that starts with month 11 of lunar year `gregorianYear`
+ * (winter solstice of `gregorianYear` → winter solstice of `gregorianYear + 1`).
+ */
+function monthsOfSui(gregorianYear: number): LunarMonth[] {
+  const k0 = newMoonIndexOnOrBefore(winterSolsticeJdn(gregorianYear));
+  const k1 = newMoonIndexOnOrBefore(winterSolsticeJdn(gregorianYear + 1));
+
+  const starts: number[] = [];
+  for (let k = k0; k <= k1; k++) starts.push(newMoonLocalJdn(k));
+
+  const count = k1 - k0;
+  const zhongqi = count === 13 ? principalTermJdns(gregorianYear, gregorianYear + 1) : [];
+  let leapAt = -1;
+  if (count === 13) {
+    for (let i = 1; i < count; i++) {
+      const a = starts[i]!;
+      const b = starts[i + 1]!;
+      if (!zhongqi.some((j) => j >= a && j < b)) {
+        leapAt = i;
+        break;
+      }
+    }
+  }
+
+  const months: LunarMonth[] = [];
+  let num = 10;
+  for (let i = 0; i < count; i++) {
+    const isLeapMonth = i === leapAt;
+    if (!isLeapMonth) num = (num % 12) + 1;
+    months.push({ month: num, isLeapMonth, startJdn: starts[i]!, days: starts[i + 1]! - starts[i]! });
+  }
+  return months;
+}
+
+const cacheSui = createCalendarCache<number, LunarMonth[]>();
+const cacheYearMonths = createCalendarCache<number, LunarMonth[]>();
+
+/**
+ * All months (including a leap month, if any) of a lunar year, in calendar order.
+ */
+export function lunarYearMonths(year: number): LunarMonth[] {
+  return cacheYearMonths.getOrCompute(year, () => {
+    const prev = cacheSui.getOrCompute(year - 1, () => monthsOfSui(year - 1));
+    const curr = cacheSui.getOrCompute(year, () => monthsOfSui(year));
+
+    const firstIdx = prev.findIndex((m) => m.month === 1 && !m.isLeapMonth);
+    const nextNewYearIdx = curr.findIndex((m) => m.month === 1 && !m.isLeapMonth);
+
+    return [...prev.slice(firstIdx), ...curr.slice(0, nextNewYearIdx)];
+  });
+}
+
+/** Leap month number of a lunar year, or null if the year has none. */
+export function leapMonthOf(year: number): number | null {
+  if (year < MIN_LUNAR_YEAR || year > MAX_LUNAR_YEAR) return null;
+  return lunarYearMonths(year).find((m) => m.isLeapMonth)?.month ?? null;
+}
+
+export function createLunarDate(year: number, month: number, day: number, isLeapMonth = false): LunarDate {
+  if (!Number.isInteger(year)) throw new RangeError(`Invalid lunar year: ${year}`);
+  if (!Number.isInteger(month) || month < 1 || month > 12) throw new RangeError(`Invalid lunar month: ${month}`);
+  if (!Number.isInteger(day) || day < 1 || day > 30) throw new RangeError(`Invalid lunar day: ${day}`);
+  return { year, month, day, isLeapMonth };
+}
+
+export function lunarDateEquals(a: LunarDate, b: LunarDate): boolean {
+  return a.year === b.year && a.month === b.month && a.day === b.day && a.isLeapMonth === b.isLeapMonth;
+}
+
+export function formatLunarDate(d: LunarDate): string {
+  return `음력 ${d.year}년 ${d.isLeapMonth ? '윤' : ''}${d.month}월 ${d.day}일`;
+}
+
+/**
+ * Resolve a lunar date, reporting why it is invalid instead of returning null.
+ */
+export function resolveLunarDate(date: LunarDate): LunarDateResolution {
+  const label = formatLunarDate(date);
+  if (date.year < MIN_LUNAR_YEAR || date.year > MAX_LUNAR_YEAR) {
+    return { ok: false, issue: 'OUT_OF_RANGE', message: `${label}: supported lunar years are ${MIN_LUNAR_YEAR}..${MAX_LUNAR_YEAR}` };
+  }
+
+  const month = lunarYearMonths(date.year).find((m) => m.month === date.month && m.isLeapMonth === date.isLeapMonth);
+  if (!month) {
+    const leap = leapMonthOf(date.year);
+    const hint = leap == null ? 'the year has no leap month' : `the leap month is 윤${leap}월`;
+    return { ok: false, issue: 'NO_SUCH_LEAP_MONTH', message: `${label}: ${hint}` };
+  }
+
+  if (date.day > month.days) {
+    return { ok: false, issue: 'DAY_OUT_OF_RANGE', message: `${label}: the month has only ${month.days} days` };
+  }
+
+  const jdn = month.startJdn + date.day - 1;
+  if (jdn < MIN_SOLAR_JDN) {
+    return { ok: false, issue: 'OUT_OF_RANGE', message: `${label}: dates before 1900-01-01 are not supported` };
+  }
+
+  const g = jdnToGregorian(jdn);
+  return { ok: true, solar: { year: g.y, month: g.m, day: g.d }, month };
+}
+
+export function lunarToSolar(date: LunarDate): SolarDate | null {
+  const r = resolveLunarDate(date);
+  return r.ok ? r.solar : null;
+}
+
+export function solarToLunar(date: SolarDate): LunarDate | null {
+  const jdn = gregorianToJdn({ y: date.year, m: date.month, d: date.day });
+  if (jdn < MIN_SOLAR_JDN) return null;
+
+  // A Gregorian date belongs to lunar year (y-1) or y.
+  for (const year of [date.year, date.year - 1]) {
+    if (year < MIN_LUNAR_YEAR || year > MAX_LUNAR_YEAR) continue;
+    const months = lunarYearMonths(year);
+    const first = months[0]!;
+    const last = months[months.length - 1]!;
+    if (jdn < first.startJdn || jdn >= last.startJdn + last.days) continue;
+
+    for (const m of months) {
+      if (jdn >= m.startJdn && jdn < m.startJdn + m.days) {
+        return { year, month: m.month, day: jdn - m.startJdn + 1, isLeapMonth: m.isLeapMonth };
+      }
+    }
+  }
+  return null;
+}
+
+/** Object-style facade (kept for parity with the legacy converter API). */
+export const KoreanLunarAlgorithmicConverter = {
+  lunarToSolar,
+  solarToLunar,
+} as const;
@@ -1,5 +1,6 @@
 import { utcMsToJulianDay, julianDayToUtcMs } from './julian.js';
 import { solarTermUtcMsForLongitude, type SolarTermMethod } from './solarTerms.js';
+import { createCalendarCache } from './cache.js';
 
 /**
  * Lunar New Year boundary helper (설날/춘절).
@@ -154,7 +155,10 @@ function newMoonIndexNear(jd: number): number {
   return Math.floor((jd - NEW_MOON_BASE_JDE) / SYNODIC_MONTH_DAYS);
 }
 
-function newMoonOnOrAfterJd(jd: number): { k: number; jde: number } {
+/**
+ * First true new moon at or after the given JD (TT≈UTC).
+ */
+export function newMoonOnOrAfterJd(jd: number): { k: number; jde: number } {
   let k = newMoonIndexNear(jd);
   let nm = trueNewMoonJDE(k);
   if (nm < jd) {
@@ -164,6 +168,8 @@ function newMoonOnOrAfterJd(jd: number): { k: number; jde: number } {
   return { k, jde: nm };
 }
 
+const cacheBoundary = createCalendarCache<string, LunarNewYearBoundary>();
+
 /**
  * Compute Lunar New Year boundary for a given local civil year.
  */
@@ -171,6 +177,16 @@ export function computeLunarNewYearBoundary(
   localYear: number,
   offsetMinutes: number,
   method: SolarTermMethod,
+): LunarNewYearBoundary {
+  return cacheBoundary.getOrCompute(`${method}:${localYear}:${offsetMinutes}`, () =>
+    computeBoundaryUncached(localYear, offsetMinutes, method),
+  );
+}
+
+function computeBoundaryUncached(
+  localYear: number,
+  offsetMinutes: number,
+  method: SolarTermMethod,
 ): LunarNewYearBoundary {
   // Winter solstice (270°) occurs in Dec of (localYear-1).
   const winterSolsticeUtcMs = solarTermUtcMsForLongitude(localYear - 1, 270, method);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { LunarDateError } from './koreanLunar.js';
+import { normalizeRequest } from './normalizeRequest.js';
+
+describe('normalizeRequest (koreanLunar)', () => {
+  it('converts the lunar date part and keeps time/offset verbatim', () => {
+    const { request, parsed } = normalizeRequest({
+      birth: { instant: '2024-08-15T07:30:00+09:00', calendar: 'koreanLunar' },
+      sex: 'F',
+    });
+
+    // 음력 2024-08-15 (추석) = 양력 2024-09-17
+    expect(request.birth.instant).toBe('2024-09-17T07:30:00+09:00');
+    expect(request.birth.calendar).toBe('gregorian');
+    expect(request.birth.source).toEqual({ calendar: 'koreanLunar', instant: '2024-08-15T07:30:00+09:00', isLeapMonth: false });
+    expect(parsed.localDateTime.date).toEqual({ y: 2024, m: 9, d: 17 });
+  });
+
+  it('resolves leap months (윤달) when isLeapMonth=true', () => {
+    const regular = normalizeRequest({ birth: { instant: '2023-02-15T12:00:00+09:00', calendar: 'koreanLunar' }, sex: 'M' });
+    const leap = normalizeRequest({ birth: { instant: '2023-02-15T12:00:00+09:00', calendar: 'koreanLunar', isLeapMonth: true }, sex: 'M' });
+
+    expect(regular.request.birth.instant).toBe('2023-03-06T12:00:00+09:00');
+    expect(leap.request.birth.instant).toBe('2023-04-05T12:00:00+09:00');
+  });
+
+  it('rejects a leap month that does not exist in that year', () => {
+    expect(() =>
+      normalizeRequest({ birth: { instant: '2024-03-01T12:00:00+09:00', calendar: 'koreanLunar', isLeapMonth: true }, sex: 'M' }),
+    ).toThrow(/NO_SUCH_LEAP_MONTH/);
+  });
+
+  it('rejects day 30 in a 29-day lunar month', () => {
+    // 음력 2024년 1월 is a 29-day month.
+    expect(() =>
+      normalizeRequest({ birth: { instant: '2024-01-30T12:00:00+09:00', calendar: 'koreanLunar' }, sex: 'M' }),
+    ).toThrow(/DAY_OUT_OF_RANGE/);
+  });
+
+  it('throws a LunarDateError carrying the issue code', () => {
+    const error = (() => {
+      try {
+        normalizeRequest({ birth: { instant: '1850-01-01T12:00:00+09:00', calendar: 'koreanLunar' }, sex: 'M' });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(LunarDateError);
+    expect(error).toMatchObject({ name: 'LunarDateError', issue: 'OUT_OF_RANGE', date: { year: 1850, month: 1, day: 1, isLeapMonth: false } });
+  });
+});
+
+describe('normalizeRequest (timeZone=Asia/Seoul)', () => {
+  it('removes summer time and writes the historical standard offset', () => {
+    const { request, parsed } = normalizeRequest({
+      birth: { instant: '1988-07-01T14:30:00+09:00', timeZone: 'Asia/Seoul' },
+      sex: 'M',
+    });
+
+    expect(request.birth.instant).toBe('1988-07-01T13:30:00+09:00');
+    expect(request.birth.civilTime).toEqual({
+      timeZone: 'Asia/Seoul',
+      wallClock: '1988-07-01T14:30',
+      inputOffsetMinutes: 540,
+      standardOffsetMinutes: 540,
+      dstMinutes: 60,
+      status: 'ok',
+    });
+    expect(parsed.utcMs).toBe(Date.UTC(1988, 6, 1, 4, 30));
+  });
+
+  it('ignores the caller offset in favour of the UTC+8:30 era', () => {
+    const { request, parsed } = normalizeRequest({
+      birth: { instant: '1960-01-10T08:00:00+09:00', timeZone: 'Asia/Seoul' },
+      sex: 'F',
+    });
+
+    expect(request.birth.instant).toBe('1960-01-10T08:00:00+08:30');
+    expect(parsed.utcMs).toBe(Date.UTC(1960, 0, 9, 23, 30));
+  });
+
+  it('rejects unsupported time zones', () => {
+    expect(() =>
+      normalizeRequest({ birth: { instant: '1990-01-01T00:00:00+09:00', timeZone: 'Asia/Tokyo' as any }, sex: 'M' }),
+    ).toThrow(/Unsupported SajuRequest.birth.timeZone/);
+  });
+});
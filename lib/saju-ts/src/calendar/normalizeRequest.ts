@@ -1,25 +1,114 @@
-import type { SajuRequest } from '../api/types.js';
+import type { CivilTimeView, SajuRequest } from '../api/types.js';
 import { parseIsoInstant, type ParsedInstant } from './iso.js';
+import { KOREA_TIME_ZONE, resolveKoreanCivilTime } from './koreanCivilTime.js';
+import { LunarDateError, resolveLunarDate } from './koreanLunar.js';
 
 export interface NormalizedRequestInternal {
   request: SajuRequest;
   parsed: ParsedInstant;
 }
 
+const ISO_DATE_PREFIX = /^(\d{4})-(\d{2})-(\d{2})(?=T)/;
+
+/**
+ * Rewrite the date part of a lunar ISO instant to its Gregorian equivalent.
+ * Time-of-day and offset are kept verbatim.
+ */
+function lunarInstantToGregorian(instant: string, isLeapMonth: boolean): string {
+  const m = instant.match(ISO_DATE_PREFIX);
+  if (!m) {
+    throw new Error(`Invalid ISO instant (requires offset and minutes): ${instant}`);
+  }
+
+  const month = Number(m[2]);
+  const day = Number(m[3]);
+  if (month < 1 || month > 12 || day < 1 || day > 30) {
+    throw new Error(`Invalid Korean lunar date: ${m[0]}`);
+  }
+
+  const date = { year: Number(m[1]), month, day, isLeapMonth };
+  const r = resolveLunarDate(date);
+  if (!r.ok) {
+    throw new LunarDateError(r.issue, date, `Invalid Korean lunar date (${r.issue}): ${r.message}`);
+  }
+
+  const y = String(r.solar.year).padStart(4, '0');
+  const mo = String(r.solar.month).padStart(2, '0');
+  const d = String(r.solar.day).padStart(2, '0');
+  return instant.replace(ISO_DATE_PREFIX, `${y}-${mo}-${d}`);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes >= 0 ? '+' : '-';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Re-read the wall-clock part of an instant as Korean civil time and rewrite it
+ * as local standard time (summer time removed) with the historical standard offset.
+ */
+function koreanCivilInstant(instant: string): { instant: string; civilTime: CivilTimeView } {
+  const given = parseIsoInstant(instant);
+  const { date, time } = given.localDateTime;
+  const r = resolveKoreanCivilTime(date, time);
+
+  // Keep seconds from the caller's instant; only the offset interpretation changes.
+  const wallMs = given.utcMs + given.offsetMinutes * 60_000;
+  const standardWallMs = wallMs - r.dstMinutes * 60_000;
+  const standardInstant = new Date(standardWallMs).toISOString().slice(0, 19) + formatOffset(r.standardOffsetMinutes);
+
+  return {
+    instant: standardInstant,
+    civilTime: {
+      timeZone: KOREA_TIME_ZONE,
+      wallClock: instant.slice(0, 16),
+      inputOffsetMinutes: given.offsetMinutes,
+      standardOffsetMinutes: r.standardOffsetMinutes,
+      dstMinutes: r.dstMinutes,
+      status: r.status,
+    },
+  };
+}
+
 export function normalizeRequest(input: SajuRequest): NormalizedRequestInternal {
   if (!input?.birth?.instant) {
     throw new Error('SajuRequest.birth.instant is required');
   }
 
-  // Do not mutate/shift the caller-provided instant here.
+  const calendar = input.birth.calendar ?? 'gregorian';
+  if (calendar !== 'gregorian' && calendar !== 'koreanLunar') {
+    throw new Error(`Unsupported SajuRequest.birth.calendar: ${String(calendar)}`);
+  }
+
+  // Lunar input is converted to a Gregorian civil instant up front, so every graph node
+  // keeps working on a single calendar.
+  const isLeapMonth = input.birth.isLeapMonth === true;
+  const civilInstant = calendar === 'koreanLunar'
+    ? lunarInstantToGregorian(input.birth.instant, isLeapMonth)
+    : input.birth.instant;
+
+  const timeZone = input.birth.timeZone;
+  if (timeZone != null && timeZone !== KOREA_TIME_ZONE) {
+    throw new Error(`Unsupported SajuRequest.birth.timeZone: ${String(timeZone)}`);
+  }
+  // Civil-time history only fixes which instant the wall clock denotes (offset, summer time).
+  const civil = timeZone ? koreanCivilInstant(civilInstant) : null;
+  const instant = civil?.instant ?? civilInstant;
+
+  // Do not otherwise shift the instant here.
   // Time corrections (e.g., true solar time) are handled in the graph layer via config.calendar.trueSolarTime.
-  const parsed = parseIsoInstant(input.birth.instant);
+  const parsed = parseIsoInstant(instant);
 
   // Shallow-copy to ensure we don't mutate caller object.
   const request: SajuRequest = {
     birth: {
-      instant: input.birth.instant,
-      calendar: input.birth.calendar ?? 'gregorian',
+      instant,
+      calendar: 'gregorian',
+      ...(calendar === 'koreanLunar'
+        ? { source: { calendar: 'koreanLunar' as const, instant: input.birth.instant, isLeapMonth } }
+        : {}),
+      ...(civil ? { timeZone: KOREA_TIME_ZONE, civilTime: civil.civilTime } : {}),
     },
     sex: input.sex,
     location: input.location,
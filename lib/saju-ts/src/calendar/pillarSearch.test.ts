@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { defaultConfig } from '../api/config.js';
+import { createEngine } from '../api/engine.js';
+import type { EngineConfig } from '../api/types.js';
+import type { PillarLevel, PillarPattern, PillarSearchWindow } from './pillarSearch.js';
+import { searchPillars } from './pillarSearch.js';
+import { getLiChunUtcMs } from './solarTerms.js';
+
+const SEOUL = { lat: 37.5665, lon: 126.978 };
+const LEVELS: PillarLevel[] = ['year', 'month', 'day', 'hour'];
+
+function kstIso(utcMs: number): string {
+  return new Date(utcMs + 540 * 60_000).toISOString().slice(0, 16) + '+09:00';
+}
+
+function engineFor(calendar: EngineConfig['calendar']) {
+  const engine = createEngine({ ...defaultConfig, calendar });
+  return (utcMs: number) => {
+    const p = engine.pillarsAt({ birth: { instant: kstIso(utcMs) }, sex: 'M', location: SEOUL });
+    return {
+      year: { stem: p.year.stem.idx, branch: p.year.branch.idx },
+      month: { stem: p.month.stem.idx, branch: p.month.branch.idx },
+      day: { stem: p.day.stem.idx, branch: p.day.branch.idx },
+      hour: { stem: p.hour.stem.idx, branch: p.hour.branch.idx },
+    };
+  };
+}
+
+function expectWindowMatchesEngine(w: PillarSearchWindow, pillarsAt: ReturnType<typeof engineFor>) {
+  for (const at of [w.startUtcMs, w.endUtcMs - 60_000]) {
+    const actual = pillarsAt(at);
+    for (const level of LEVELS) {
+      if (w.pillars[level]) expect(actual[level]).toEqual(w.pillars[level]);
+    }
+  }
+}
+
+describe('searchPillars (reverse chart lookup)', () => {
+  it('finds the window of a known chart and every window agrees with engine.pillarsAt', () => {
+    const calendar = defaultConfig.calendar;
+    const pillarsAt = engineFor(calendar);
+    const birth = Date.parse('1984-02-02T12:00:00+09:00');
+    const pattern: PillarPattern = pillarsAt(birth);
+
+    const windows = searchPillars(pattern, { from: '1950-01-01T00:00+09:00', to: '2030-01-01T00:00+09:00', calendar });
+    expect(windows.some((w) => w.startUtcMs <= birth && birth < w.endUtcMs)).toBe(true);
+    expect(windows.length).toBeGreaterThan(0);
+    for (const w of windows) {
+      expect(w.endUtcMs - w.startUtcMs).toBeLessThanOrEqual(120 * 60_000);
+      expectWindowMatchesEngine(w, pillarsAt);
+    }
+  });
+
+  it('year-only patterns start exactly at 입춘 and recur every 60 years', () => {
+    const calendar = defaultConfig.calendar;
+    // 乙巳 (stem 1, branch 5) — 2025
+    const windows = searchPillars({ year: { stem: 1, branch: 5 } }, {
+      from: '1900-01-01T00:00+09:00',
+      to: '2100-01-01T00:00+09:00',
+      calendar,
+    });
+    expect(windows.map((w) => Number(w.start.slice(0, 4)))).toEqual([1905, 1965, 2025, 2085]);
+    const w2025 = windows[2]!;
+    expect(w2025.startUtcMs).toBe(Math.ceil(getLiChunUtcMs(2025, 'meeus') / 60_000) * 60_000);
+    expect(w2025.endUtcMs).toBe(Math.ceil(getLiChunUtcMs(2026, 'meeus') / 60_000) * 60_000);
+    expect(w2025.pillars).toEqual({ year: { stem: 1, branch: 5 } });
+  });
+
+  it.each([
+    ['ziSplit23', 'dayAndHour'],
+    ['midnight', 'hourOnly'],
+  ] as const)('matches an engine scan under true solar time (%s, %s)', (dayBoundary, applyTo) => {
+    const calendar: EngineConfig['calendar'] = {
+      ...defaultConfig.calendar,
+      dayBoundary,
+      trueSolarTime: { enabled: true, equationOfTime: 'approx', applyTo },
+    };
+    const pillarsAt = engineFor(calendar);
+    const pattern: PillarPattern = { hour: { branch: 0 } };
+    const from = Date.parse('2024-11-02T20:00:00+09:00');
+    const to = Date.parse('2024-11-04T04:00:00+09:00');
+
+    const windows = searchPillars(pattern, {
+      from: kstIso(from),
+      to: kstIso(to),
+      calendar,
+      location: SEOUL,
+    });
+
+    const inWindow = (t: number) => windows.some((w) => w.startUtcMs <= t && t < w.endUtcMs);
+    for (let t = from; t < to; t += 5 * 60_000) {
+      expect(inWindow(t), kstIso(t)).toBe(pillarsAt(t).hour.branch === 0);
+    }
+    for (const w of windows) expectWindowMatchesEngine(w, pillarsAt);
+  });
+
+  it('narrows day candidates from a stem-only hour pattern and honours limit', () => {
+    const calendar = defaultConfig.calendar;
+    const pillarsAt = engineFor(calendar);
+    const windows = searchPillars({ day: { branch: 6 }, hour: { stem: 0 } }, {
+      from: '2024-01-01T00:00+09:00',
+      to: '2025-01-01T00:00+09:00',
+      calendar,
+      limit: 5,
+    });
+    expect(windows).toHaveLength(5);
+    for (const w of windows) {
+      expect(w.pillars.day?.branch).toBe(6);
+      expect(w.pillars.hour?.stem).toBe(0);
+      expectWindowMatchesEngine(w, pillarsAt);
+    }
+  });
+
+  it('rejects stem/branch pairs outside the 60 cycle', () => {
+    expect(() =>
+      searchPillars({ day: { stem: 0, branch: 1 } }, {
+        from: '2024-01-01T00:00+09:00',
+        to: '2024-02-01T00:00+09:00',
+        calendar: defaultConfig.calendar,
+      }),
+    ).toThrow(/never pair/);
+  });
+});
@@ -0,0 +1,359 @@
+import type { EngineConfig, PillarsResult, SajuRequest } from '../api/types.js';
+import type { PillarIdx } from '../core/cycle.js';
+import { ganzhiFromIndex, ganzhiIndex, pillar } from '../core/cycle.js';
+import { mod } from '../core/mod.js';
+import type { LocalDate, LocalDateTime } from './iso.js';
+import { parseIsoInstant } from './iso.js';
+import { computeLunarNewYearBoundary } from './lunarNewYear.js';
+import {
+  calcDayPillar,
+  calcHourPillar,
+  calcMonthPillarFromOrder,
+  calcYearPillarFromLiChunUtc,
+  effectiveDayDate,
+  liChunUtcMsFromBoundaries,
+  monthOrderByPolicy,
+} from './pillars.js';
+import type { SolarTermMethod } from './solarTerms.js';
+import { getJieBoundaries, getJieBoundariesAround, getLiChunUtcMs } from './solarTerms.js';
+import { computeTrueSolarTimeCorrection } from './trueSolarTime.js';
+
+/**
+ * Reverse lookup: civil time windows whose four pillars match a (partial) pattern.
+ *
+ * Instead of scanning minutes, the search walks the cycles:
+ * - candidate years step by 60 (year ganzhi = (Y-4) mod 60), split at the year/month boundaries of the policy
+ * - candidate days step by 60 inside each matching month (day ganzhi = (JDN+49) mod 60)
+ * - hour blocks are the 12 double-hours of each matching day
+ * Each boundary is an exact minute (true solar time is inverted by bisection on the local clock),
+ * and every window is re-classified with the same helpers the engine graph uses.
+ */
+
+export type PillarLevel = 'year' | 'month' | 'day' | 'hour';
+
+/** Omitted stem/branch (or a whole omitted pillar) matches anything. */
+export type PillarPattern = Partial<Record<PillarLevel, Partial<PillarIdx>>>;
+
+export interface PillarSearchOptions {
+  /** Range start (inclusive), ISO instant with offset. Its offset is the civil offset of every window. */
+  from: string;
+  /** Range end (exclusive), ISO instant with offset. */
+  to: string;
+  /** Calendar policy (yearBoundary/monthBoundary/dayBoundary/trueSolarTime), e.g. `engine.config.calendar`. */
+  calendar: EngineConfig['calendar'];
+  /** Needed for true solar time (lon); ignored otherwise. */
+  location?: SajuRequest['location'];
+  /** Stop after this many windows. */
+  limit?: number;
+}
+
+export interface PillarSearchWindow {
+  /** Window start (inclusive), local ISO with offset, minute precision. */
+  start: string;
+  /** Window end (exclusive). */
+  end: string;
+  startUtcMs: number;
+  endUtcMs: number;
+  /** Pillars constant over the window: down to the deepest level present in the pattern. */
+  pillars: Partial<PillarsResult>;
+}
+
+const MINUTE_MS = 60_000;
+const DAY_MINUTES = 1440;
+const LEVELS: readonly PillarLevel[] = ['year', 'month', 'day', 'hour'];
+
+interface SearchContext {
+  calendar: EngineConfig['calendar'];
+  method: SolarTermMethod;
+  offsetMinutes: number;
+  location: SajuRequest['location'] | undefined;
+  solarForDay: boolean;
+  solarForHour: boolean;
+}
+
+export function searchPillars(pattern: PillarPattern, options: PillarSearchOptions): PillarSearchWindow[] {
+  validatePattern(pattern);
+
+  const from = parseIsoInstant(options.from);
+  const to = parseIsoInstant(options.to);
+  const startMin = Math.ceil(from.utcMs / MINUTE_MS);
+  const endMin = Math.ceil(to.utcMs / MINUTE_MS);
+  if (endMin <= startMin) {
+    throw new Error(`searchPillars: empty range ${options.from} .. ${options.to}`);
+  }
+
+  const cal = options.calendar;
+  const t = cal.trueSolarTime;
+  const applyTo = t?.applyTo ?? 'hourOnly';
+  const ctx: SearchContext = {
+    calendar: cal,
+    method: cal.solarTerms?.method === 'approx' ? 'approx' : 'meeus',
+    offsetMinutes: from.offsetMinutes,
+    location: options.location,
+    solarForDay: !!t?.enabled && applyTo === 'dayAndHour',
+    solarForHour: !!t?.enabled && (applyTo === 'hourOnly' || applyTo === 'dayAndHour'),
+  };
+
+  const level = [...LEVELS].reverse().find((l) => pattern[l]) ?? 'year';
+  const limit = options.limit ?? Number.POSITIVE_INFINITY;
+  const zi = cal.dayBoundary === 'ziSplit23' ? 60 : 0;
+
+  const windows: PillarSearchWindow[] = [];
+  // Adjacent pieces with identical reported pillars merge (e.g. the months of one matching year).
+  const emit = (s: number, e: number, pillars: Partial<PillarsResult>): boolean => {
+    const last = windows[windows.length - 1];
+    if (last && last.endUtcMs === s * MINUTE_MS && samePillars(last.pillars, pillars)) {
+      last.endUtcMs = e * MINUTE_MS;
+      last.end = formatLocal(e, ctx.offsetMinutes);
+      return true;
+    }
+    if (windows.length >= limit) return false;
+    windows.push({
+      start: formatLocal(s, ctx.offsetMinutes),
+      end: formatLocal(e, ctx.offsetMinutes),
+      startUtcMs: s * MINUTE_MS,
+      endUtcMs: e * MINUTE_MS,
+      pillars,
+    });
+    return true;
+  };
+
+  const firstYear = localDateTimeAt(startMin, ctx.offsetMinutes).date.y - 1;
+  const lastYear = localDateTimeAt(endMin - 1, ctx.offsetMinutes).date.y;
+  const years = cycleMembers(firstYear, lastYear, mod(firstYear - 4, 60), allowedYearIndexes(pattern));
+  const dayIndexes = allowedDayIndexes(pattern);
+
+  for (const y of years) {
+    const spanStart = Math.max(startMin, yearStartMinute(ctx, y));
+    const spanEnd = Math.min(endMin, yearStartMinute(ctx, y + 1));
+    if (spanStart >= spanEnd) continue;
+
+    const cuts = [y, y + 1]
+      .flatMap((yy) => monthStartMinutes(ctx, yy))
+      .filter((m) => m > spanStart && m < spanEnd)
+      .sort((a, b) => a - b);
+    const edges = [spanStart, ...cuts, spanEnd];
+
+    for (let i = 0; i + 1 < edges.length; i++) {
+      const s = edges[i]!;
+      const e = edges[i + 1]!;
+      if (s >= e) continue;
+
+      const { year, month } = yearMonthAt(ctx, s);
+      if (!matches(pattern.year, year) || !matches(pattern.month, month)) continue;
+
+      if (level === 'year' || level === 'month') {
+        if (!emit(s, e, level === 'year' ? { year } : { year, month })) return windows;
+        continue;
+      }
+
+      const dnFirst = Math.floor((clockAt(ctx, s, ctx.solarForDay) + zi) / DAY_MINUTES);
+      const dnLast = Math.floor((clockAt(ctx, e - 1, ctx.solarForDay) + zi) / DAY_MINUTES);
+      const firstDayIndex = ganzhiIndex(calcDayPillar(dateOfDayNumber(dnFirst))) ?? 0;
+
+      for (const dn of cycleMembers(dnFirst, dnLast, firstDayIndex, dayIndexes)) {
+        const ds = Math.max(s, firstMinuteAtClock(ctx, ctx.solarForDay, dn * DAY_MINUTES - zi));
+        const de = Math.min(e, firstMinuteAtClock(ctx, ctx.solarForDay, (dn + 1) * DAY_MINUTES - zi));
+        if (ds >= de) continue;
+
+        const day = dayAt(ctx, ds);
+        if (!matches(pattern.day, day)) continue;
+
+        if (level === 'day') {
+          if (!emit(ds, de, { year, month, day })) return windows;
+          continue;
+        }
+
+        // Double-hour k covers the local clock [k*120 - 60, k*120 + 60); branch = k mod 12.
+        const kFirst = Math.floor((clockAt(ctx, ds, ctx.solarForHour) + 60) / 120);
+        const kLast = Math.floor((clockAt(ctx, de - 1, ctx.solarForHour) + 60) / 120);
+        for (let k = kFirst; k <= kLast; k++) {
+          const hs = Math.max(ds, firstMinuteAtClock(ctx, ctx.solarForHour, k * 120 - 60));
+          const he = Math.min(de, firstMinuteAtClock(ctx, ctx.solarForHour, (k + 1) * 120 - 60));
+          if (hs >= he) continue;
+
+          const hour = hourAt(ctx, hs, day);
+          if (!matches(pattern.hour, hour)) continue;
+          if (!emit(hs, he, { year, month, day, hour })) return windows;
+        }
+      }
+    }
+  }
+
+  return windows;
+}
+
+function validatePattern(pattern: PillarPattern): void {
+  for (const level of LEVELS) {
+    const p = pattern[level];
+    if (!p) continue;
+    if (p.stem != null && !(Number.isInteger(p.stem) && p.stem >= 0 && p.stem < 10)) {
+      throw new Error(`Invalid pillar pattern (${level}.stem=${p.stem})`);
+    }
+    if (p.branch != null && !(Number.isInteger(p.branch) && p.branch >= 0 && p.branch < 12)) {
+      throw new Error(`Invalid pillar pattern (${level}.branch=${p.branch})`);
+    }
+    if (p.stem != null && p.branch != null && ganzhiIndex({ stem: p.stem, branch: p.branch }) == null) {
+      throw new Error(`Invalid pillar pattern (${level}): stem ${p.stem} and branch ${p.branch} never pair in the 60 cycle`);
+    }
+  }
+}
+
+function matches(part: Partial<PillarIdx> | undefined, p: PillarIdx): boolean {
+  if (!part) return true;
+  return (part.stem == null || part.stem === p.stem) && (part.branch == null || part.branch === p.branch);
+}
+
+function samePillars(a: Partial<PillarsResult>, b: Partial<PillarsResult>): boolean {
+  return LEVELS.every((l) => {
+    const x = a[l];
+    const y = b[l];
+    if (!x || !y) return !x && !y;
+    return x.stem === y.stem && x.branch === y.branch;
+  });
+}
+
+/** Year ganzhi indexes compatible with the year pattern and with at least one month of that year. */
+function allowedYearIndexes(pattern: PillarPattern): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < 60; i++) {
+    const year = ganzhiFromIndex(i);
+    if (!matches(pattern.year, year)) continue;
+    let monthOk = false;
+    for (let order = 0; order < 12 && !monthOk; order++) {
+      monthOk = matches(pattern.month, calcMonthPillarFromOrder(year.stem, order));
+    }
+    if (monthOk) out.push(i);
+  }
+  return out;
+}
+
+/** Day ganzhi indexes compatible with the day pattern and with at least one hour of that day. */
+function allowedDayIndexes(pattern: PillarPattern): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < 60; i++) {
+    const day = ganzhiFromIndex(i);
+    if (!matches(pattern.day, day)) continue;
+    let hourOk = false;
+    for (let branch = 0; branch < 12 && !hourOk; branch++) {
+      hourOk = matches(pattern.hour, pillar(mod(day.stem, 5) * 2 + branch, branch));
+    }
+    if (hourOk) out.push(i);
+  }
+  return out;
+}
+
+/** Members n of [first, last] whose 60-cycle index (firstIndex at n = first, +1 per step) is allowed, ascending. */
+function cycleMembers(first: number, last: number, firstIndex: number, allowed: readonly number[]): number[] {
+  const out: number[] = [];
+  for (const idx of allowed) {
+    for (let n = first + mod(idx - firstIndex, 60); n <= last; n += 60) out.push(n);
+  }
+  return out.sort((a, b) => a - b);
+}
+
+// --- Boundaries (UTC minutes)
+
+/** First minute of the pillar year labelled `y` (civil local year of its start). */
+function yearStartMinute(ctx: SearchContext, y: number): number {
+  const cal = ctx.calendar;
+  if (cal.yearBoundary === 'liChun') return Math.ceil(getLiChunUtcMs(y, ctx.method) / MINUTE_MS);
+  if (cal.yearBoundary === 'lunarNewYear') {
+    return Math.ceil(computeLunarNewYearBoundary(y, ctx.offsetMinutes, ctx.method).boundaryUtcMs / MINUTE_MS);
+  }
+  return Date.UTC(y, 0, 1) / MINUTE_MS - ctx.offsetMinutes;
+}
+
+function monthStartMinutes(ctx: SearchContext, y: number): number[] {
+  if (ctx.calendar.monthBoundary === 'gregorianMonth') {
+    return Array.from({ length: 12 }, (_, m) => Date.UTC(y, m, 1) / MINUTE_MS - ctx.offsetMinutes);
+  }
+  return getJieBoundaries(y, ctx.method).map((term) => Math.ceil(term.utcMs / MINUTE_MS));
+}
+
+// --- Local clocks
+
+function solarDeltaMinutes(ctx: SearchContext, minute: number): number {
+  const c = computeTrueSolarTimeCorrection({
+    utcMs: minute * MINUTE_MS,
+    offsetMinutes: ctx.offsetMinutes,
+    location: ctx.location,
+    policy: ctx.calendar.trueSolarTime,
+  });
+  const delta = c.totalCorrectionMinutes ?? 0;
+  return c.applied && Number.isFinite(delta) ? delta : 0;
+}
+
+/** Local clock reading (minutes since local 1970-01-01 00:00), civil or true solar, as the graph derives it. */
+function clockAt(ctx: SearchContext, minute: number, solar: boolean): number {
+  const civil = minute + ctx.offsetMinutes;
+  if (!solar) return civil;
+  const delta = solarDeltaMinutes(ctx, minute);
+  return delta === 0 ? civil : Math.floor(civil + delta);
+}
+
+/** Smallest UTC minute whose local clock reads `target` or later (the clock is non-decreasing). */
+function firstMinuteAtClock(ctx: SearchContext, solar: boolean, target: number): number {
+  const guess = target - ctx.offsetMinutes;
+  if (!solar) return guess;
+
+  let lo = guess - Math.ceil(solarDeltaMinutes(ctx, guess)) - 2;
+  while (clockAt(ctx, lo, true) >= target) lo -= 60;
+  let hi = lo + 4;
+  while (clockAt(ctx, hi, true) < target) hi += 60;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (clockAt(ctx, mid, true) >= target) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+function localDateTimeAt(minute: number, offsetMinutes: number): LocalDateTime {
+  return localDateTimeFromClock(minute + offsetMinutes, offsetMinutes);
+}
+
+function localDateTimeFromClock(clock: number, offsetMinutes: number): LocalDateTime {
+  const d = new Date(clock * MINUTE_MS);
+  return {
+    date: { y: d.getUTCFullYear(), m: d.getUTCMonth() + 1, d: d.getUTCDate() },
+    time: { h: d.getUTCHours(), min: d.getUTCMinutes() },
+    offsetMinutes,
+  };
+}
+
+function dateOfDayNumber(dayNumber: number): LocalDate {
+  return localDateTimeFromClock(dayNumber * DAY_MINUTES, 0).date;
+}
+
+// --- Classification (mirrors pillars.* graph nodes)
+
+function yearMonthAt(ctx: SearchContext, minute: number): { year: PillarIdx; month: PillarIdx } {
+  const cal = ctx.calendar;
+  const ldt = localDateTimeAt(minute, ctx.offsetMinutes);
+  const utcMs = minute * MINUTE_MS;
+  const needsTerms = cal.monthBoundary === 'jieqi' || cal.yearBoundary === 'liChun' || !!cal.solarTerms?.alwaysCompute;
+  const boundaries = needsTerms ? getJieBoundariesAround(ldt.date.y, ctx.method) : null;
+  const liChunUtcMs = cal.yearBoundary === 'liChun' && boundaries ? liChunUtcMsFromBoundaries(boundaries) : null;
+
+  const year = calcYearPillarFromLiChunUtc(ldt.date.y, utcMs, liChunUtcMs, cal.yearBoundary, ctx.offsetMinutes, ctx.method);
+  const month = calcMonthPillarFromOrder(year.stem, monthOrderByPolicy(utcMs, ldt, cal.monthBoundary, boundaries));
+  return { year, month };
+}
+
+function dayAt(ctx: SearchContext, minute: number): PillarIdx {
+  const ldt = localDateTimeFromClock(clockAt(ctx, minute, ctx.solarForDay), ctx.offsetMinutes);
+  return calcDayPillar(effectiveDayDate(ldt, ctx.calendar.dayBoundary));
+}
+
+function hourAt(ctx: SearchContext, minute: number, day: PillarIdx): PillarIdx {
+  const ldt = localDateTimeFromClock(clockAt(ctx, minute, ctx.solarForHour), ctx.offsetMinutes);
+  return calcHourPillar(day.stem, ldt.time, ctx.calendar.hourBoundary);
+}
+
+function formatLocal(minute: number, offsetMinutes: number): string {
+  const wall = new Date((minute + offsetMinutes) * MINUTE_MS).toISOString().slice(0, 16);
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const abs = Math.abs(offsetMinutes);
+  return `${wall}${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
@@ -1,4 +1,5 @@
 import { mod } from '../core/mod.js';
+import { createCalendarCache } from './cache.js';
 import { julianDayToUtcMs, utcMsToJulianDay } from './julian.js';
 import { solarApparentLongitudeDeg } from './solar.js';
 
@@ -8,7 +9,7 @@ import { solarApparentLongitudeDeg } from './solar.js';
  * Goals:
  * - Math-first (longitude roots) rather than lookup tables
  * - Minimal, explicit data only for (id ↔ longitude ↔ rough bracket date)
- * - Cache by (method, year)
+ * - Cache by (method, year) in bounded, process-wide LRUs (see cache.ts)
  */
 
 export type SolarTermMethod = 'approx' | 'meeus';
@@ -288,60 +289,74 @@ export function solarTermUtcMsForLongitude(year: number, longitude: number, meth
   return Math.round(julianDayToUtcMs(rootJd));
 }
 
-const cacheSolar = new Map<string, SolarTermInstant[]>();
-const cacheJie = new Map<string, SolarTermInstant[]>();
+const cacheSolar = createCalendarCache<string, SolarTermInstant[]>();
+const cacheJie = createCalendarCache<string, SolarTermInstant[]>();
+const cacheSolarAround = createCalendarCache<string, SolarTermsAround>();
+const cacheJieAround = createCalendarCache<string, JieBoundariesAround>();
 
-export function getSolarTerms(year: number, method: SolarTermMethod): SolarTermInstant[] {
-  const key = `${method}:${year}`;
-  const cached = cacheSolar.get(key);
-  if (cached) return cached;
-
-  const out: SolarTermInstant[] = SOLAR_TERMS_24.map((spec) => ({
-    id: spec.id,
-    year,
-    longitude: modDeg(spec.longitude),
-    utcMs: solarTermUtcMsForLongitude(year, spec.longitude, method),
-  })).sort((a, b) => a.utcMs - b.utcMs);
-
-  cacheSolar.set(key, out);
-  return out;
+/**
+ * The getters below hand out copies: results end up in `report.facts`, and a caller mutating
+ * one bundle must not change what the cache serves to every later analysis.
+ */
+function copyTerms(terms: readonly SolarTermInstant[]): SolarTermInstant[] {
+  return terms.map((t) => ({ ...t }));
 }
 
-export function getJieBoundaries(year: number, method: SolarTermMethod): SolarTermInstant[] {
-  const key = `${method}:${year}`;
-  const cached = cacheJie.get(key);
-  if (cached) return cached;
+function solarTermsCached(year: number, method: SolarTermMethod): SolarTermInstant[] {
+  return cacheSolar.getOrCompute(`${method}:${year}`, () =>
+    SOLAR_TERMS_24.map((spec) => ({
+      id: spec.id,
+      year,
+      longitude: modDeg(spec.longitude),
+      utcMs: solarTermUtcMsForLongitude(year, spec.longitude, method),
+    })).sort((a, b) => a.utcMs - b.utcMs),
+  );
+}
+
+function jieBoundariesCached(year: number, method: SolarTermMethod): SolarTermInstant[] {
+  return cacheJie.getOrCompute(`${method}:${year}`, () =>
+    solarTermsCached(year, method)
+      .filter((t) => isJieTermId(t.id))
+      .sort((a, b) => a.utcMs - b.utcMs),
+  );
+}
 
-  const out = getSolarTerms(year, method)
-    .filter((t) => isJieTermId(t.id))
-    .sort((a, b) => a.utcMs - b.utcMs);
+export function getSolarTerms(year: number, method: SolarTermMethod): SolarTermInstant[] {
+  return copyTerms(solarTermsCached(year, method));
+}
 
-  cacheJie.set(key, out);
-  return out;
+export function getJieBoundaries(year: number, method: SolarTermMethod): SolarTermInstant[] {
+  return copyTerms(jieBoundariesCached(year, method));
 }
 
 export function getSolarTermsAround(baseYear: number, method: SolarTermMethod): SolarTermsAround {
-  const terms = [
-    ...getSolarTerms(baseYear - 1, method),
-    ...getSolarTerms(baseYear, method),
-    ...getSolarTerms(baseYear + 1, method),
-  ].sort((a, b) => a.utcMs - b.utcMs);
-
-  return { baseYear, method, terms };
+  const cached = cacheSolarAround.getOrCompute(`${method}:${baseYear}`, () => {
+    const terms = [
+      ...solarTermsCached(baseYear - 1, method),
+      ...solarTermsCached(baseYear, method),
+      ...solarTermsCached(baseYear + 1, method),
+    ].sort((a, b) => a.utcMs - b.utcMs);
+
+    return { baseYear, method, terms };
+  });
+  return { ...cached, terms: copyTerms(cached.terms) };
 }
 
 export function getJieBoundariesAround(baseYear: number, method: SolarTermMethod): JieBoundariesAround {
-  const terms = [
-    ...getJieBoundaries(baseYear - 1, method),
-    ...getJieBoundaries(baseYear, method),
-    ...getJieBoundaries(baseYear + 1, method),
-  ].sort((a, b) => a.utcMs - b.utcMs);
-
-  return { baseYear, method, terms };
+  const cached = cacheJieAround.getOrCompute(`${method}:${baseYear}`, () => {
+    const terms = [
+      ...jieBoundariesCached(baseYear - 1, method),
+      ...jieBoundariesCached(baseYear, method),
+      ...jieBoundariesCached(baseYear + 1, method),
+    ].sort((a, b) => a.utcMs - b.utcMs);
+
+    return { baseYear, method, terms };
+  });
+  return { ...cached, terms: copyTerms(cached.terms) };
 }
 
 export function getLiChunUtcMs(year: number, method: SolarTermMethod): number {
-  const terms = getJieBoundaries(year, method);
+  const terms = jieBoundariesCached(year, method);
   const liChun = terms.find((t) => t.id === 'LICHUN');
   if (!liChun) throw new Error('Invariant: LICHUN missing from Jie terms');
   return liChun.utcMs;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { LunarDateError } from '../calendar/koreanLunar.js';
+import { analyzeSaju, configFromPreset, createBirthInput, periodPillarsAt } from './springLegacy.js';
+
+const seoul = createBirthInput({ birthYear: 1986, birthMonth: 4, birthDay: 19, birthHour: 5, birthMinute: 45 });
+const kst = (iso: string) => new Date(`${iso}+09:00`);
+
+describe('periodPillarsAt (세운/월운/일진 of a report date)', () => {
+  it('switches the 세운 at 입춘, not on January 1st', () => {
+    // 2025 입춘 ≈ 02-03 23:10 KST
+    const before = periodPillarsAt(kst('2025-01-20T12:00:00'), seoul);
+    expect(before.saeunYear).toBe(2024);
+    expect(before.year).toEqual({ cheongan: 'GAP', jiji: 'JIN' });
+    expect(before.month).toEqual({ cheongan: 'JEONG', jiji: 'CHUK' });
+
+    const after = periodPillarsAt(kst('2025-02-04T12:00:00'), seoul);
+    expect(after.saeunYear).toBe(2025);
+    expect(after.year).toEqual({ cheongan: 'EUL', jiji: 'SA' });
+    expect(after.month).toEqual({ cheongan: 'MU', jiji: 'IN' });
+  });
+
+  it('switches the 월운 at the 절 instant (2025 경칩 ≈ 03-05 17:07 KST)', () => {
+    expect(periodPillarsAt(kst('2025-03-05T15:00:00'), seoul).month).toEqual({ cheongan: 'MU', jiji: 'IN' });
+    expect(periodPillarsAt(kst('2025-03-05T19:00:00'), seoul).month).toEqual({ cheongan: 'GI', jiji: 'MYO' });
+  });
+
+  it('applies the configured day boundary to the 일진', () => {
+    const at = kst('2025-03-05T23:45:00');
+    const midnight = periodPillarsAt(at, seoul, { dayCutMode: 'MIDNIGHT_00' });
+    const yaza = periodPillarsAt(at, seoul, configFromPreset('KOREAN_MAINSTREAM'));
+    expect(midnight.day).not.toEqual(yaza.day);
+    expect(yaza.day).toEqual(periodPillarsAt(kst('2025-03-06T12:00:00'), seoul).day);
+  });
+
+  it('reads the period pillars against the natal chart when the birth input has a birth date', () => {
+    const at = kst('2010-06-01T12:00:00');
+    const { interactions } = periodPillarsAt(at, seoul);
+    const saeun = analyzeSaju(seoul, undefined, { saeunStartYear: 2010, saeunYearCount: 1 }).saeunPillars[0]!;
+    expect(interactions!.year).toEqual(saeun.interaction);
+    expect(interactions!.month).toMatchObject({ quality: expect.any(String), sipseong: expect.any(String) });
+    expect(interactions!.day.stemRelations).not.toContainEqual(expect.objectContaining({ with: expect.arrayContaining(['decade']) }));
+
+    const placeOnly = createBirthInput({ birthYear: 0, birthMonth: 1, birthDay: 1 } as any);
+    expect(periodPillarsAt(at, placeOnly).interactions).toBeUndefined();
+  });
+});
+
+describe('analyzeSaju lunar birth input', () => {
+  it('throws a LunarDateError with the resolveLunarDate issue code', () => {
+    // 음력 2024년에는 윤달이 없다
+    const noLeap = createBirthInput({ birthYear: 2024, birthMonth: 3, birthDay: 1, birthHour: 12, birthMinute: 0, calendarType: 'LUNAR', isLeapMonth: true });
+    expect(() => analyzeSaju(noLeap)).toThrow(LunarDateError);
+    expect(() => analyzeSaju(noLeap)).toThrow(expect.objectContaining({ issue: 'NO_SUCH_LEAP_MONTH' }));
+
+    const early = createBirthInput({ birthYear: 1850, birthMonth: 1, birthDay: 1, birthHour: 12, birthMinute: 0, calendarType: 'LUNAR' });
+    expect(() => analyzeSaju(early)).toThrow(expect.objectContaining({ issue: 'OUT_OF_RANGE' }));
+  });
+});
@@ -1,6 +1,15 @@
 import { createEngine } from '../api/engine.js';
 import { defaultConfig } from '../api/config.js';
-import type { AnalysisBundle, EngineConfig, SajuRequest } from '../api/types.js';
+import type { AnalysisBundle, EngineConfig, EngineWeights, FourPillars, PillarView, SajuRequest } from '../api/types.js';
+import { toLuckInteractionView } from '../api/views.js';
+import { KOREA_TIME_ZONE, resolveKoreanCivilTime } from '../calendar/koreanCivilTime.js';
+import { LunarDateError, resolveLunarDate } from '../calendar/koreanLunar.js';
+import type { PillarIdx } from '../core/cycle.js';
+import type { LifeStagePolicy } from '../core/lifeStage.js';
+import { analyzeLuckPillar, decadeAtUtcMs, luckBasisOf } from '../fortune/interactions.js';
+import type { FortuneTimeline } from '../fortune/types.js';
+import type { StrengthFacts } from '../rules/facts.js';
+import type { YongshinResult } from '../rules/yongshin.js';
 
 const STEM_CODES = ['GAP', 'EUL', 'BYEONG', 'JEONG', 'MU', 'GI', 'GYEONG', 'SIN', 'IM', 'GYE'] as const;
 const BRANCH_CODES = ['JA', 'CHUK', 'IN', 'MYO', 'JIN', 'SA', 'O', 'MI', 'SIN', 'YU', 'SUL', 'HAE'] as const;
@@ -61,6 +70,10 @@ const JIJI_RELATION_NOTES: Record<string, string> = {
   HAP: '지지 합(合) 관계',
   SAMHAP: '지지 삼합(三合) 관계',
   BANGHAP: '지지 방합(方合) 관계',
+  BANHAP: '지지 반합(半合) 관계',
+  HEOHAP: '지지 허합(虛合) 관계',
+  AMHAP: '지지 암합(暗合) 관계',
+  GONGHYEOP: '지지 공협(拱夾) 관계',
 };
 const JIJI_RELATION_OUTCOMES: Record<string, string> = {
   CHUNG: '충(沖)',
@@ -71,12 +84,20 @@ const JIJI_RELATION_OUTCOMES: Record<string, string> = {
   HAP: '합(合)',
   SAMHAP: '삼합(三合)',
   BANGHAP: '방합(方合)',
+  BANHAP: '반합(半合)',
+  HEOHAP: '허합(虛合)',
+  AMHAP: '암합(暗合)',
+  GONGHYEOP: '공협(拱夾)',
 };
 const CHEONGAN_RELATION_NOTES: Record<string, string> = {
   HAP: '천간 합(合) 관계',
   CHUNG: '천간 충(沖) 관계',
   GEUK: '천간 극(剋) 관계',
 };
+/** Legacy CheonganRelationScore: base score per type, +10 when the members sit in adjacent pillars. */
+const CHEONGAN_RELATION_BASE_SCORES: Record<string, number> = { HAP: 50, CHUNG: 65 };
+const CHEONGAN_ADJACENCY_BONUS = 10;
+const PILLAR_POSITION_KO: Record<string, string> = { year: '년주', month: '월주', day: '일주', hour: '시주' };
 
 export type LegacyGender = 'MALE' | 'FEMALE';
 
@@ -101,6 +122,29 @@ export interface LegacySajuOptions {
   saeunYearCount?: number;
 }
 
+export interface LegacyPillarCodes {
+  cheongan: string;
+  jiji: string;
+}
+
+export interface LegacyPeriodPillars {
+  /** Gregorian year whose 세운 is in force (the previous year before 입춘). */
+  saeunYear: number;
+  year: LegacyPillarCodes;
+  month: LegacyPillarCodes;
+  day: LegacyPillarCodes;
+  hour: LegacyPillarCodes;
+  /**
+   * 세운/월운/일진 read against the natal chart (same shape as `saeunPillars[].interaction`);
+   * only when `birthInput` carries a birth date. 세운 and 월운 also meet the 대운 in force.
+   */
+  interactions?: {
+    year: Record<string, unknown>;
+    month: Record<string, unknown>;
+    day: Record<string, unknown>;
+  };
+}
+
 export type LegacyDayCutMode =
   | 'MIDNIGHT_00'
   | 'YAZA_23_TO_01_NEXTDAY'
@@ -327,13 +371,21 @@ function addMinutes(civil: CivilDateTime, deltaMinutes: number): CivilDateTime {
 }
 
 function toCivilFromBirthInput(input: LegacyBirthInput): CivilDateTime {
-  return {
+  const civil: CivilDateTime = {
     y: toInt(input.birthYear, 0),
     m: toInt(input.birthMonth, 1),
     d: toInt(input.birthDay, 1),
     h: clampHour(input.birthHour),
     min: clampMinute(input.birthMinute),
   };
+  if (input.calendarType !== 'LUNAR') return civil;
+
+  const date = { year: civil.y, month: civil.m, day: civil.d, isLeapMonth: input.isLeapMonth === true };
+  const lunar = resolveLunarDate(date);
+  if (!lunar.ok) {
+    throw new LunarDateError(lunar.issue, date, `Invalid legacy lunar birth date (${lunar.issue}): ${lunar.message}`);
+  }
+  return { ...civil, y: lunar.solar.year, m: lunar.solar.month, d: lunar.solar.day };
 }
 
 function civilToIsoInstant(civil: CivilDateTime, offsetMinutes: number): string {
@@ -363,6 +415,31 @@ function branchCodeFromIdx(idx: unknown): string {
   return BRANCH_CODES[normalized] ?? '';
 }
 
+function luckInteractionFromView(view: any): Record<string, unknown> | null {
+  if (!view || typeof view !== 'object') return null;
+  return {
+    quality: String(view.quality ?? 'NEUTRAL'),
+    isYongshinElement: view.isYongshinElement === true,
+    isGisinElement: view.isGisinElement === true,
+    sipseong: normalizeTenGod(view.tenGods?.stem),
+    branchSipseong: normalizeTenGod(view.tenGods?.branch),
+    sibiUnseong: String(view.lifeStage ?? ''),
+    stemRelations: (Array.isArray(view.stemRelations) ? view.stemRelations : []).map((r: any) => ({
+      type: String(r?.type ?? ''),
+      with: Array.isArray(r?.with) ? r.with.map(String) : [],
+      members: Array.isArray(r?.members) ? r.members.map((m: any) => stemCodeFromIdx(m?.idx)) : [],
+    })),
+    branchRelations: (Array.isArray(view.branchRelations) ? view.branchRelations : []).map((r: any) => ({
+      type: String(r?.type ?? ''),
+      with: Array.isArray(r?.with) ? r.with.map(String) : [],
+      members: Array.isArray(r?.members) ? r.members.map((m: any) => branchCodeFromIdx(m?.idx)) : [],
+    })),
+    strengthDelta: roundTo(view.strength?.delta, 4),
+    isTransitionPeriod: view.isTransitionPeriod === true,
+    summary: String(view.summary ?? ''),
+  };
+}
+
 function roundTo(value: unknown, digits: number): number {
   const n = Number(value);
   if (!Number.isFinite(n)) return 0;
@@ -453,6 +530,24 @@ function extractGongmangVoidBranches(bundle: AnalysisBundle): [string, string] |
   return [branchCodeFromIdx(pair[0]), branchCodeFromIdx(pair[1])];
 }
 
+function scoreCheonganRelation(relation: any): Record<string, unknown> | null {
+  const type = String(relation?.type ?? '');
+  const placements = Array.isArray(relation?.placements) ? relation.placements : [];
+  const baseScore = CHEONGAN_RELATION_BASE_SCORES[type];
+  if (baseScore === undefined || placements.length === 0) return null;
+
+  const nearest = placements.find((p: any) => p?.adjacent) ?? placements[0];
+  const adjacencyBonus = nearest.adjacent ? CHEONGAN_ADJACENCY_BONUS : 0;
+  const where = (nearest.positions as string[]).map((p) => PILLAR_POSITION_KO[p] ?? p).join('-');
+  return {
+    baseScore,
+    adjacencyBonus,
+    outcomeMultiplier: 1.0,
+    finalScore: Math.min(100, baseScore + adjacencyBonus),
+    rationale: nearest.adjacent ? `${where} 인접(+${adjacencyBonus})` : `${where} 비인접(거리 ${nearest.distance})`,
+  };
+}
+
 function relationNoteForType(type: string, table: Record<string, string>): string {
   return table[String(type ?? '').toUpperCase()] ?? '';
 }
@@ -518,11 +613,19 @@ function makeRequest(
   input: LegacyBirthInput,
   legacy: LegacySajuConfig,
   dayCutShiftMinutes: number,
-): { request: SajuRequest; standard: CivilDateTime; analysisLocal: CivilDateTime } {
-  const standard = toCivilFromBirthInput(input);
-  const analysisLocal = addMinutes(standard, dayCutShiftMinutes);
+): { request: SajuRequest; standard: CivilDateTime; analysisLocal: CivilDateTime; dstCorrectionMinutes: number } {
+  const wall = toCivilFromBirthInput(input);
   const timeZone = input.timezone ?? DEFAULT_TIMEZONE;
-  const offsetMinutes = resolveOffsetMinutes(timeZone, analysisLocal);
+
+  // Korean births use the built-in civil-time history (UTC+8:30 eras, summer time) instead of host ICU data.
+  // Summer time is removed up front so `standard` is local standard time, as in the legacy engine.
+  const korean = timeZone === KOREA_TIME_ZONE
+    ? resolveKoreanCivilTime({ y: wall.y, m: wall.m, d: wall.d }, { h: wall.h, min: wall.min })
+    : null;
+  const dstCorrectionMinutes = korean?.dstMinutes ?? 0;
+  const standard = addMinutes(wall, -dstCorrectionMinutes);
+  const analysisLocal = addMinutes(standard, dayCutShiftMinutes);
+  const offsetMinutes = korean?.standardOffsetMinutes ?? resolveOffsetMinutes(timeZone, analysisLocal);
   const stdMeridian = inferStandardMeridian(offsetMinutes);
   const rawLongitude = Number.isFinite(input.longitude) ? Number(input.longitude) : DEFAULT_LONGITUDE;
   const latitude = Number.isFinite(input.latitude) ? Number(input.latitude) : DEFAULT_LATITUDE;
@@ -550,6 +653,7 @@ function makeRequest(
     },
     standard,
     analysisLocal,
+    dstCorrectionMinutes,
   };
 }
 
@@ -593,6 +697,7 @@ function normalizePositionKey(position: 'year' | 'month' | 'day' | 'hour'): 'YEA
 function normalizeLegacyOutput(
   bundle: AnalysisBundle,
   standard: CivilDateTime,
+  dstCorrectionMinutes: number,
   daeunCount?: number,
   saeunStartYear?: number | null,
   saeunYearCount?: number,
@@ -669,6 +774,11 @@ function normalizeLegacyOutput(
     note: relationNoteForType(String(relation?.type ?? ''), CHEONGAN_RELATION_NOTES),
   }));
 
+  const scoredCheonganRelations = stemRelations.flatMap((relation: any, i: number) => {
+    const score = scoreCheonganRelation(relation);
+    return score ? [{ hit: { type: cheonganRelations[i]!.type, members: cheonganRelations[i]!.members }, score }] : [];
+  });
+
   const branchRelations = Array.isArray(bundle.summary?.relations) ? bundle.summary.relations : [];
   const jijiRelations = branchRelations.map((relation: any) => {
     const type = String(relation?.type ?? '');
@@ -762,6 +872,7 @@ function normalizeLegacyOutput(
       startAge: Number(entry?.startAgeYears ?? 0),
       endAge: Number(entry?.endAgeYears ?? 0),
       order: Number(entry?.index ?? 0),
+      interaction: luckInteractionFromView(entry?.interaction),
     }));
 
   const saeunPillars = years.map((entry: any) => ({
@@ -770,6 +881,7 @@ function normalizeLegacyOutput(
       cheongan: stemCodeFromIdx(entry?.pillar?.stem?.idx),
       jiji: branchCodeFromIdx(entry?.pillar?.branch?.idx),
     },
+    interaction: luckInteractionFromView(entry?.interaction),
   }));
 
   const traceNodes = Array.isArray(bundle.report?.trace?.nodes) ? bundle.report.trace.nodes : [];
@@ -800,7 +912,7 @@ function normalizeLegacyOutput(
       adjustedDay: adjusted.d,
       adjustedHour: adjusted.h,
       adjustedMinute: adjusted.min,
-      dstCorrectionMinutes: 0,
+      dstCorrectionMinutes,
       longitudeCorrectionMinutes: Number(correction.longitudeCorrectionMinutes ?? 0),
       equationOfTimeMinutes: Number(correction.equationOfTimeMinutes ?? 0),
     },
@@ -850,7 +962,7 @@ function normalizeLegacyOutput(
     deficientElements,
     excessiveElements,
     cheonganRelations,
-    scoredCheonganRelations: [],
+    scoredCheonganRelations,
     jijiRelations,
     resolvedJijiRelations: [],
     tenGodAnalysis: {
@@ -896,26 +1008,115 @@ export function configFromPreset(preset: string): LegacySajuConfig {
   return { ...(PRESET_CONFIGS[key] ?? PRESET_CONFIGS.KOREAN_MAINSTREAM) };
 }
 
+/**
+ * 세운/월운/일진 of an arbitrary instant, read with the same time zone, day-cut, LMT and 절기 policy
+ * that `analyzeSaju` applies to `birthInput`. Only its timezone/latitude/longitude place the instant;
+ * when it also carries a birth date, `interactions` reads the period pillars against that natal chart.
+ */
+export function periodPillarsAt(
+  at: Date | number,
+  birthInput: LegacyBirthInput,
+  rawConfig?: unknown,
+): LegacyPeriodPillars {
+  const normalizedInput = createBirthInput(birthInput);
+  const legacy = normalizeLegacyConfig(rawConfig);
+  const tz = normalizedInput.timezone ?? DEFAULT_TIMEZONE;
+  const { config, dayCutShiftMinutes } = buildEngineConfig(legacy, tz);
+
+  const utcMs = typeof at === 'number' ? at : at.getTime();
+  const utc = new Date(utcMs);
+  const wall = addMinutes(
+    { y: utc.getUTCFullYear(), m: utc.getUTCMonth() + 1, d: utc.getUTCDate(), h: utc.getUTCHours(), min: utc.getUTCMinutes() },
+    parseOffsetToken(tz) ?? offsetAtUtcMs(utcMs, tz),
+  );
+  const { request, standard } = makeRequest(
+    {
+      ...normalizedInput,
+      birthYear: wall.y,
+      birthMonth: wall.m,
+      birthDay: wall.d,
+      birthHour: wall.h,
+      birthMinute: wall.min,
+      calendarType: 'SOLAR',
+      isLeapMonth: undefined,
+    },
+    legacy,
+    dayCutShiftMinutes,
+  );
+
+  const engine = createEngine(config);
+  const pillars = engine.pillarsAt(request);
+  const codes = (p: PillarView): LegacyPillarCodes => ({
+    cheongan: stemCodeFromIdx(p.stem.idx),
+    jiji: branchCodeFromIdx(p.branch.idx),
+  });
+  const sameAsCalendarYear = (standard.y - 4 - pillars.year.stem.idx) % 10 === 0;
+
+  const result: LegacyPeriodPillars = {
+    saeunYear: sameAsCalendarYear ? standard.y : standard.y - 1,
+    year: codes(pillars.year),
+    month: codes(pillars.month),
+    day: codes(pillars.day),
+    hour: codes(pillars.hour),
+  };
+  if (normalizedInput.birthYear > 0) {
+    const { request: natalRequest } = makeRequest(normalizedInput, legacy, dayCutShiftMinutes);
+    const interactions = periodInteractions(engine.analyze(natalRequest), pillars, utcMs);
+    if (interactions) result.interactions = interactions;
+  }
+  return result;
+}
+
+/** Engine luck interactions of the period pillars; undefined when the natal rule facts were not computed. */
+function periodInteractions(
+  natalBundle: AnalysisBundle,
+  at: FourPillars<PillarView>,
+  utcMs: number,
+): LegacyPeriodPillars['interactions'] {
+  const facts = natalBundle.report.facts as Record<string, unknown>;
+  const yongshin = facts['rules.yongshin'] as YongshinResult | undefined;
+  const strength = facts['strength.index'] as StrengthFacts | undefined;
+  const lifeStagePolicy = facts['policy.lifeStages'] as LifeStagePolicy | undefined;
+  if (!yongshin || !strength || !lifeStagePolicy) return undefined;
+
+  const natal = {
+    year: facts['pillars.year'],
+    month: facts['pillars.month'],
+    day: facts['pillars.day'],
+    hour: facts['pillars.hour'],
+  } as FourPillars<PillarIdx>;
+  const basis = luckBasisOf(yongshin, strength, lifeStagePolicy, (facts['policy.weights'] as EngineWeights | undefined)?.hiddenStems);
+  // As in the fortune timeline, a 세운 meets the 대운 in force at its 입춘.
+  const timeline = facts['fortune.timeline'] as FortuneTimeline | undefined;
+  const saeunStart = timeline?.years.find((y) => utcMs >= y.startUtcMs && utcMs < y.endUtcMs)?.startUtcMs ?? utcMs;
+  const decadeAt = (t: number) => (timeline ? decadeAtUtcMs(timeline, t) : null);
+
+  const read = (p: PillarView, decade: PillarIdx | null) =>
+    luckInteractionFromView(toLuckInteractionView(analyzeLuckPillar({ stem: p.stem.idx, branch: p.branch.idx }, natal, basis, decade)))!;
+  return {
+    year: read(at.year, decadeAt(saeunStart)),
+    month: read(at.month, decadeAt(utcMs)),
+    day: read(at.day, null),
+  };
+}
+
 export function analyzeSaju(
   birthInput: LegacyBirthInput,
   rawConfig?: unknown,
   options?: LegacySajuOptions,
 ) {
   const normalizedInput = createBirthInput(birthInput);
-  if (normalizedInput.calendarType === 'LUNAR') {
-    throw new Error('Legacy lunar input is not supported in the current engine bridge.');
-  }
-
   const legacy = normalizeLegacyConfig(rawConfig);
   const tz = normalizedInput.timezone ?? DEFAULT_TIMEZONE;
   const { config, dayCutShiftMinutes } = buildEngineConfig(legacy, tz);
-  const { request, standard } = makeRequest(normalizedInput, legacy, dayCutShiftMinutes);
+  const { request, standard, dstCorrectionMinutes } = makeRequest(normalizedInput, legacy, dayCutShiftMinutes);
 
   const engine = createEngine(config);
   const bundle = engine.analyze(request);
   return normalizeLegacyOutput(
     bundle,
     standard,
+    dstCorrectionMinutes,
     options?.daeunCount,
     options?.saeunStartYear,
     options?.saeunYearCount,
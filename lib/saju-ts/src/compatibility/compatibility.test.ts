@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import type { SajuRequest } from '../api/types.js';
+import { stemElement } from '../core/cycle.js';
+import { controls, generates } from '../core/elements.js';
+import { classifyDayMasterRelation, compareDayBranches, DAY_MASTER_SCORES } from './compute.js';
+import type { CompatibilityChart } from './types.js';
+
+const personA: SajuRequest = { birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' };
+const personB: SajuRequest = { birth: { instant: '1990-07-15T14:00:00+09:00' }, sex: 'F' };
+
+function chartWithDayBranch(branch: number): CompatibilityChart {
+  const p = { stem: 0, branch };
+  return {
+    pillars: { year: p, month: p, day: p, hour: p },
+    elements: { WOOD: 1, FIRE: 1, EARTH: 1, METAL: 1, WATER: 1 },
+    yongshin: 'WOOD',
+  };
+}
+
+describe('compatibility (궁합)', () => {
+  it('classifies all 100 day-master pairs by priority', () => {
+    for (let a = 0; a < 10; a++) {
+      for (let b = 0; b < 10; b++) {
+        const ea = stemElement(a);
+        const eb = stemElement(b);
+        const expected =
+          (a + 5) % 10 === b ? 'HAP'
+            : a === b ? 'SAME_STEM'
+            : ea === eb ? 'SAME_ELEMENT'
+            : generates(ea, eb) || generates(eb, ea) ? 'GENERATING'
+            : Math.abs(a - b) === 6 ? 'CHUNG'
+            : 'CONTROLLING';
+        expect(classifyDayMasterRelation(a, b), `${a}-${b}`).toBe(expected);
+        if (expected === 'CONTROLLING') expect(controls(ea, eb) || controls(eb, ea)).toBe(true);
+      }
+    }
+  });
+
+  it('scores day-branch relations (子丑 육합, 子午 충, 子未 해+원진)', () => {
+    expect(compareDayBranches(chartWithDayBranch(0), chartWithDayBranch(1))).toEqual({ relations: ['YUKHAP'], score: 90 });
+    expect(compareDayBranches(chartWithDayBranch(0), chartWithDayBranch(6))).toEqual({ relations: ['CHUNG'], score: 30 });
+    expect(compareDayBranches(chartWithDayBranch(0), chartWithDayBranch(7))).toEqual({ relations: ['HAE', 'WONJIN'], score: 15 });
+    expect(compareDayBranches(chartWithDayBranch(0), chartWithDayBranch(2))).toEqual({ relations: [], score: 60 });
+  });
+
+  it('compares two charts with a symmetric score and a traceable breakdown', () => {
+    const engine = createEngine();
+    const ab = engine.compare(personA, personB);
+    const ba = engine.compare(personB, personA);
+
+    // 癸 (A) and 辛 (B): metal generates water
+    expect(ab.summary.dayMaster.a.text).toBe('癸');
+    expect(ab.summary.dayMaster.b.text).toBe('辛');
+    expect(ab.summary.dayMaster.relation).toBe('GENERATING');
+    expect(ab.summary.dayMaster.tenGodAtoB).toBe(ba.summary.dayMaster.tenGodBtoA);
+
+    expect(ab.summary.score.total).toBe(ba.summary.score.total);
+    expect(ab.summary.dayBranch.relations).toEqual(ba.summary.dayBranch.relations);
+    expect(ab.summary.yongshin.supportAbyB).toBeCloseTo(ba.summary.yongshin.supportBbyA, 12);
+    expect(ab.summary.elements.coverageAbyB).toBeCloseTo(ba.summary.elements.coverageBbyA, 12);
+
+    expect(ab.summary.score.total).toBeGreaterThanOrEqual(0);
+    expect(ab.summary.score.total).toBeLessThanOrEqual(100);
+    const sum = ab.summary.score.breakdown.reduce((acc, x) => acc + x.contribution, 0);
+    expect(ab.summary.score.total).toBeCloseTo(sum, 1);
+    expect(ab.summary.score.breakdown.find((x) => x.key === 'dayMaster')!.score).toBe(DAY_MASTER_SCORES.GENERATING);
+
+    const ids = ab.report.trace.nodes.map((x) => x.id);
+    expect(ids).toEqual(expect.arrayContaining([
+      'input.a',
+      'input.b',
+      'compatibility.dayMaster',
+      'compatibility.dayBranch',
+      'compatibility.elements',
+      'compatibility.yongshin',
+      'compatibility.score',
+    ]));
+  });
+
+  it('does not depend on analysis toggles and honours strategies.compatibility weights', () => {
+    const base = createEngine().compare(personA, personB);
+    const noRules = createEngine({ toggles: { pillars: false, relations: false, tenGods: false, hiddenStems: false, elementDistribution: false, rules: false } })
+      .compare(personA, personB);
+    expect(noRules.summary.score).toEqual(base.summary.score);
+
+    const dayMasterOnly = createEngine({ strategies: { compatibility: { weights: { dayMaster: 1, dayBranch: 0, elements: 0, yongshin: 0 } } } })
+      .compare(personA, personB);
+    expect(dayMasterOnly.summary.score.total).toBe(DAY_MASTER_SCORES.GENERATING);
+  });
+});
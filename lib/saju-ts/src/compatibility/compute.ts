@@ -0,0 +1,173 @@
+import type { Element, StemIdx } from '../core/cycle.js';
+import { stemElement } from '../core/cycle.js';
+import { generates } from '../core/elements.js';
+import type { ElementVector } from '../core/elementVector.js';
+import { ELEMENT_ORDER } from '../core/elementVector.js';
+import type { RelationType } from '../core/branchRelations.js';
+import { detectBranchRelations } from '../core/branchRelations.js';
+import { isStemChung, stemHapPartner, stemHapResultElement } from '../core/stemRelations.js';
+import { tenGodOf } from '../core/tenGod.js';
+import type {
+  CompatibilityChart,
+  CompatibilityPolicy,
+  CompatibilityScore,
+  CompatibilityWeights,
+  DayBranchCompatibility,
+  DayMasterCompatibility,
+  DayMasterRelationType,
+  ElementComplementarity,
+  YongshinSupport,
+} from './types.js';
+
+/** Even share of one element (1/5). Deficit/surplus are measured against it. */
+const EVEN_SHARE = 0.2;
+/** Minimum pooled share for an element to count as present. */
+const PRESENT_SHARE = 0.1;
+/** Ignore floating-point residue when listing fills. */
+const EPS = 1e-9;
+
+export const DAY_MASTER_SCORES: Record<DayMasterRelationType, number> = {
+  HAP: 95,
+  GENERATING: 80,
+  SAME_STEM: 60,
+  SAME_ELEMENT: 55,
+  CONTROLLING: 45,
+  CHUNG: 30,
+};
+
+const DAY_BRANCH_BASE = 60;
+
+/** Additive adjustment per day-branch relation, applied to DAY_BRANCH_BASE and clamped to [0, 100]. */
+export const DAY_BRANCH_DELTAS: Partial<Record<RelationType, number>> = {
+  YUKHAP: 30,
+  CHUNG: -30,
+  WONJIN: -25,
+  HYEONG: -20,
+  HAE: -20,
+  JA_HYEONG: -15,
+  PA: -15,
+};
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, x));
+}
+
+function shares(v: ElementVector): ElementVector {
+  const sum = ELEMENT_ORDER.reduce((acc, e) => acc + v[e], 0);
+  if (!(sum > 0)) return { WOOD: EVEN_SHARE, FIRE: EVEN_SHARE, EARTH: EVEN_SHARE, METAL: EVEN_SHARE, WATER: EVEN_SHARE };
+  return {
+    WOOD: v.WOOD / sum,
+    FIRE: v.FIRE / sum,
+    EARTH: v.EARTH / sum,
+    METAL: v.METAL / sum,
+    WATER: v.WATER / sum,
+  };
+}
+
+export function classifyDayMasterRelation(a: StemIdx, b: StemIdx): DayMasterRelationType {
+  const ea = stemElement(a);
+  const eb = stemElement(b);
+  if (stemHapPartner(a) === b) return 'HAP';
+  if (a === b) return 'SAME_STEM';
+  if (ea === eb) return 'SAME_ELEMENT';
+  if (generates(ea, eb) || generates(eb, ea)) return 'GENERATING';
+  if (isStemChung(a, b)) return 'CHUNG';
+  // Remaining pairs of distinct elements are always 相剋.
+  return 'CONTROLLING';
+}
+
+export function compareDayMasters(a: CompatibilityChart, b: CompatibilityChart): DayMasterCompatibility {
+  const sa = a.pillars.day.stem;
+  const sb = b.pillars.day.stem;
+  const relation = classifyDayMasterRelation(sa, sb);
+  return {
+    relation,
+    resultElement: relation === 'HAP' ? stemHapResultElement(sa, sb) : undefined,
+    tenGodAtoB: tenGodOf(sa, sb),
+    tenGodBtoA: tenGodOf(sb, sa),
+    score: DAY_MASTER_SCORES[relation],
+  };
+}
+
+export function compareDayBranches(a: CompatibilityChart, b: CompatibilityChart): DayBranchCompatibility {
+  const relations = detectBranchRelations([a.pillars.day.branch, b.pillars.day.branch]).map((r) => r.type);
+  const delta = relations.reduce((acc, t) => acc + (DAY_BRANCH_DELTAS[t] ?? 0), 0);
+  return { relations, score: clamp(DAY_BRANCH_BASE + delta, 0, 100) };
+}
+
+function coverage(
+  needer: ElementVector,
+  giver: ElementVector,
+): { ratio: number; fills: Array<{ element: Element; amount: number }> } {
+  let deficitSum = 0;
+  let covered = 0;
+  const fills: Array<{ element: Element; amount: number }> = [];
+  for (const e of ELEMENT_ORDER) {
+    const deficit = Math.max(0, EVEN_SHARE - needer[e]);
+    const surplus = Math.max(0, giver[e] - EVEN_SHARE);
+    const fill = Math.min(deficit, surplus);
+    deficitSum += deficit;
+    covered += fill;
+    if (fill > EPS) fills.push({ element: e, amount: fill });
+  }
+  return { ratio: deficitSum > 0 ? covered / deficitSum : 1, fills };
+}
+
+export function compareElements(a: CompatibilityChart, b: CompatibilityChart): ElementComplementarity {
+  const sa = shares(a.elements);
+  const sb = shares(b.elements);
+
+  const ab = coverage(sa, sb);
+  const ba = coverage(sb, sa);
+
+  const combinedCompleteness = ELEMENT_ORDER.filter((e) => (sa[e] + sb[e]) / 2 >= PRESENT_SHARE).length;
+
+  return {
+    coverageAbyB: ab.ratio,
+    coverageBbyA: ba.ratio,
+    combinedCompleteness,
+    fills: [
+      ...ab.fills.map((f) => ({ ...f, from: 'B' as const })),
+      ...ba.fills.map((f) => ({ ...f, from: 'A' as const })),
+    ],
+    score: Math.round(100 * (ab.ratio + ba.ratio) / 2),
+  };
+}
+
+/**
+ * Support one chart gives to the other's yongshin:
+ * half from how much of that element it carries (saturating at an even share),
+ * half from its day master (same element = 1, generating it = 0.5).
+ */
+function yongshinSupportBy(yongshin: Element, giver: CompatibilityChart): number {
+  const carried = clamp(shares(giver.elements)[yongshin] / EVEN_SHARE, 0, 1);
+  const dm = stemElement(giver.pillars.day.stem);
+  const dayMaster = dm === yongshin ? 1 : generates(dm, yongshin) ? 0.5 : 0;
+  return 0.5 * carried + 0.5 * dayMaster;
+}
+
+export function compareYongshin(a: CompatibilityChart, b: CompatibilityChart): YongshinSupport {
+  const supportAbyB = yongshinSupportBy(a.yongshin, b);
+  const supportBbyA = yongshinSupportBy(b.yongshin, a);
+  return {
+    supportAbyB,
+    supportBbyA,
+    yongshinA: a.yongshin,
+    yongshinB: b.yongshin,
+    score: Math.round(100 * (supportAbyB + supportBbyA) / 2),
+  };
+}
+
+export function combineCompatibilityScores(
+  policy: CompatibilityPolicy,
+  scores: Record<keyof CompatibilityWeights, number>,
+): CompatibilityScore {
+  const keys: Array<keyof CompatibilityWeights> = ['dayMaster', 'dayBranch', 'elements', 'yongshin'];
+  const breakdown = keys.map((key) => {
+    const weight = policy.weights[key];
+    const score = scores[key];
+    return { key, score, weight, contribution: score * weight };
+  });
+  const total = breakdown.reduce((acc, x) => acc + x.contribution, 0);
+  return { total: Math.round(total * 10) / 10, breakdown };
+}
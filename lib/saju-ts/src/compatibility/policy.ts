@@ -0,0 +1,38 @@
+import type { EngineConfig } from '../api/types.js';
+import type { CompatibilityPolicy, CompatibilityWeights } from './types.js';
+
+const DEFAULT_WEIGHTS: CompatibilityWeights = {
+  dayMaster: 0.3,
+  dayBranch: 0.3,
+  elements: 0.2,
+  yongshin: 0.2,
+};
+
+function asWeight(x: unknown, fallback: number): number {
+  return typeof x === 'number' && Number.isFinite(x) && x >= 0 ? x : fallback;
+}
+
+/** config.strategies.compatibility — weights are renormalized to sum to 1. */
+export function readCompatibilityPolicy(config: EngineConfig): CompatibilityPolicy {
+  const raw: any = (config.strategies as any)?.compatibility ?? {};
+  const w: any = raw.weights ?? {};
+
+  const weights: CompatibilityWeights = {
+    dayMaster: asWeight(w.dayMaster, DEFAULT_WEIGHTS.dayMaster),
+    dayBranch: asWeight(w.dayBranch, DEFAULT_WEIGHTS.dayBranch),
+    elements: asWeight(w.elements, DEFAULT_WEIGHTS.elements),
+    yongshin: asWeight(w.yongshin, DEFAULT_WEIGHTS.yongshin),
+  };
+
+  const sum = weights.dayMaster + weights.dayBranch + weights.elements + weights.yongshin;
+  if (!(sum > 0)) return { weights: { ...DEFAULT_WEIGHTS } };
+
+  return {
+    weights: {
+      dayMaster: weights.dayMaster / sum,
+      dayBranch: weights.dayBranch / sum,
+      elements: weights.elements / sum,
+      yongshin: weights.yongshin / sum,
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import type { Element, PillarIdx } from '../core/cycle.js';
+import type { ElementVector } from '../core/elementVector.js';
+import type { RelationType } from '../core/branchRelations.js';
+import type { TenGod } from '../core/tenGod.js';
+
+/** Per-person facts the compatibility graph reads (one chart each). */
+export interface CompatibilityChart {
+  pillars: { year: PillarIdx; month: PillarIdx; day: PillarIdx; hour: PillarIdx };
+  /** elements.distribution.total */
+  elements: ElementVector;
+  /** rules.yongshin.best */
+  yongshin: Element;
+}
+
+/**
+ * Day-master (日干) relation class, in priority order:
+ * 天干合 > same stem > same element > 相生 > 天干冲 > 相剋.
+ */
+export type DayMasterRelationType = 'HAP' | 'SAME_STEM' | 'SAME_ELEMENT' | 'GENERATING' | 'CHUNG' | 'CONTROLLING';
+
+export interface DayMasterCompatibility {
+  relation: DayMasterRelationType;
+  /** For HAP, the classical resulting element (化). */
+  resultElement?: Element;
+  /** Ten god of B's day stem seen from A's day master, and vice versa. */
+  tenGodAtoB: TenGod;
+  tenGodBtoA: TenGod;
+  score: number;
+}
+
+export interface DayBranchCompatibility {
+  /** Pair relations between the two day branches (배우자궁); empty = neutral. */
+  relations: RelationType[];
+  score: number;
+}
+
+export interface ElementComplementarity {
+  /** Share of A's deficit (below an even 20%) that B's surplus covers, in [0, 1]. */
+  coverageAbyB: number;
+  coverageBbyA: number;
+  /** Number of elements with at least 10% share in the pooled charts (1..5). */
+  combinedCompleteness: number;
+  /** Elements where one chart fills the other's deficit. */
+  fills: Array<{ element: Element; from: 'A' | 'B'; amount: number }>;
+  score: number;
+}
+
+export interface YongshinSupport {
+  /** How much B supports A's yongshin, in [0, 1]; and vice versa. */
+  supportAbyB: number;
+  supportBbyA: number;
+  yongshinA: Element;
+  yongshinB: Element;
+  score: number;
+}
+
+export interface CompatibilityWeights {
+  dayMaster: number;
+  dayBranch: number;
+  elements: number;
+  yongshin: number;
+}
+
+export interface CompatibilityPolicy {
+  weights: CompatibilityWeights;
+}
+
+export interface CompatibilityScore {
+  /** Weighted total in [0, 100]; symmetric in A/B. */
+  total: number;
+  breakdown: Array<{ key: keyof CompatibilityWeights; score: number; weight: number; contribution: number }>;
+}
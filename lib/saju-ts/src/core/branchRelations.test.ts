@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import type { RuleFacts } from '../rules/facts.js';
+import type { DetectedRelation, RelationType } from './branchRelations.js';
+import { DEFAULT_EXTENDED_RELATION_POLICY, detectBranchRelations, readExtendedRelationPolicy } from './branchRelations.js';
+import { PILLAR_POSITIONS } from './relationPlacement.js';
+
+const ALL_ON = { banhap: { enabled: true }, heohap: { enabled: true }, amhap: { enabled: true }, gonghyeop: { enabled: true } };
+const ext = readExtendedRelationPolicy({ relations: ALL_ON });
+const at = { positions: PILLAR_POSITIONS };
+const find = (rels: DetectedRelation[], type: RelationType) => rels.filter((r) => r.type === type);
+
+describe('extended branch relations (반합/허합/암합/공협)', () => {
+  it('detects 반합 only with the cardinal and without the full 삼합', () => {
+    // 申 子 午 午: 申子 반합(水), 辰 absent
+    const [banhap] = find(detectBranchRelations([8, 0, 6, 6], undefined, ext), 'BANHAP');
+    expect(banhap).toEqual({ type: 'BANHAP', members: [0, 8], missing: [4], resultElement: 'WATER' });
+
+    // 申 子 辰: full 삼합, no 반합
+    const full = detectBranchRelations([8, 0, 4, 6], undefined, ext);
+    expect(find(full, 'SAMHAP')).toHaveLength(1);
+    expect(find(full, 'BANHAP')).toHaveLength(0);
+  });
+
+  it('detects 허합 when 생지 + 고지 invite the absent cardinal', () => {
+    // 申 辰 without 子
+    const rels = detectBranchRelations([8, 4, 6, 6], undefined, ext);
+    expect(find(rels, 'HEOHAP')).toEqual([{ type: 'HEOHAP', members: [4, 8], missing: [0], resultElement: 'WATER' }]);
+    expect(find(rels, 'BANHAP')).toHaveLength(0);
+  });
+
+  it('detects 암합 between hidden stems under the configured scope', () => {
+    // 子(癸) 巳(戊 여기): 戊癸合火
+    const [amhap] = find(detectBranchRelations([0, 5, 6, 6], undefined, ext), 'AMHAP');
+    expect(amhap).toEqual({ type: 'AMHAP', members: [0, 5], hiddenStems: [9, 4], resultElement: 'FIRE' });
+
+    const mainPair = readExtendedRelationPolicy({ relations: { amhap: { enabled: true, scope: 'MAIN_PAIR' } } });
+    expect(find(detectBranchRelations([0, 5, 6, 6], undefined, mainPair), 'AMHAP')).toHaveLength(0);
+    // 卯(乙) 申(庚): both 본기
+    expect(find(detectBranchRelations([3, 8, 3, 3], undefined, mainPair), 'AMHAP')[0]?.hiddenStems).toEqual([1, 6]);
+  });
+
+  it('detects 공협 around an absent branch, adjacent pillars only by default', () => {
+    // 子 寅 in year/month, 丑 absent
+    const [gh] = find(detectBranchRelations([0, 2, 6, 6], at, ext), 'GONGHYEOP');
+    expect(gh).toMatchObject({ members: [0, 2], missing: [1] });
+    expect(gh!.placements![0]!.adjacent).toBe(true);
+
+    // 亥 丑 wraps around 子
+    expect(find(detectBranchRelations([11, 1, 6, 6], undefined, ext), 'GONGHYEOP')[0]?.missing).toEqual([0]);
+
+    // 子 in year, 寅 in hour: not adjacent
+    expect(find(detectBranchRelations([0, 6, 6, 2], at, ext), 'GONGHYEOP')).toHaveLength(0);
+    const loose = readExtendedRelationPolicy({ relations: { gonghyeop: { enabled: true, requireAdjacent: false } } });
+    expect(find(detectBranchRelations([0, 6, 6, 2], at, loose), 'GONGHYEOP')).toHaveLength(1);
+  });
+
+  it('is opt-in: off by default, on per toggle, and leaves plain detection unchanged', () => {
+    expect(readExtendedRelationPolicy(undefined)).toEqual(DEFAULT_EXTENDED_RELATION_POLICY);
+    for (const kind of ['banhap', 'heohap', 'amhap', 'gonghyeop'] as const) {
+      expect(DEFAULT_EXTENDED_RELATION_POLICY[kind].enabled).toBe(false);
+    }
+    expect(find(detectBranchRelations([8, 0, 6, 6], undefined, DEFAULT_EXTENDED_RELATION_POLICY), 'BANHAP')).toHaveLength(0);
+
+    const some = readExtendedRelationPolicy({ relations: { banhap: { enabled: true } } });
+    expect(find(detectBranchRelations([8, 0, 6, 6], undefined, some), 'BANHAP')).toHaveLength(1);
+    expect(find(detectBranchRelations([0, 5, 6, 6], undefined, some), 'AMHAP')).toHaveLength(0);
+    expect(detectBranchRelations([8, 0, 6, 6]).map((r) => r.type)).toEqual(['CHUNG', 'JA_HYEONG']);
+  });
+
+  it('reaches the summary and the shinsal-condition facts once enabled', () => {
+    const bundle = createEngine({ strategies: { relations: ALL_ON } }).analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    const facts = bundle.report.facts['rules.facts'] as RuleFacts;
+    const extended = facts.chart.relations.detected.filter((r) => ['BANHAP', 'HEOHAP', 'AMHAP', 'GONGHYEOP'].includes(r.type));
+    expect(extended.length).toBeGreaterThan(0);
+    expect(bundle.summary.relations!.filter((r) => extended.some((x) => x.type === r.type))).toHaveLength(extended.length);
+    for (const r of extended.filter((x) => x.type === 'HEOHAP' || x.type === 'GONGHYEOP')) {
+      expect(facts.chart.relations.virtualBranches).toEqual(expect.arrayContaining(r.missing!));
+    }
+
+    const classic = createEngine().analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    const classicFacts = classic.report.facts['rules.facts'] as RuleFacts;
+    expect(classicFacts.chart.relations.detected).toHaveLength(facts.chart.relations.detected.length - extended.length);
+    expect(classicFacts.chart.relations.virtualBranches).toEqual([]);
+  });
+});
@@ -1,6 +1,10 @@
-import type { BranchIdx } from './cycle.js';
-import { branchYinYang } from './cycle.js';
+import type { BranchIdx, Element, StemIdx } from './cycle.js';
+import { branchElement, branchYinYang } from './cycle.js';
+import { rawHiddenStemsTable } from './hiddenStems.js';
 import { mod } from './mod.js';
+import { stemHapPartner, stemHapResultElement } from './stemRelations.js';
+import type { RelationPlacement, RelationPositionInput } from './relationPlacement.js';
+import { placementsOf } from './relationPlacement.js';
 
 export type RelationType =
   | 'YUKHAP'
@@ -12,11 +16,25 @@ export type RelationType =
   | 'PA'
   | 'WONJIN'
   | 'SAMHAP'
-  | 'BANGHAP';
+  | 'BANGHAP'
+  | 'BANHAP'
+  | 'HEOHAP'
+  | 'AMHAP'
+  | 'GONGHYEOP';
 
 export interface DetectedRelation {
   type: RelationType;
   members: BranchIdx[]; // sorted
+  /** BANHAP/HEOHAP: the absent third 삼합 member; GONGHYEOP: the absent branch in between. */
+  missing?: BranchIdx[];
+  /** AMHAP: the combining hidden stems, in member order. */
+  hiddenStems?: [StemIdx, StemIdx];
+  /** BANHAP/HEOHAP: the 삼합 element; AMHAP: the 천간합 element. */
+  resultElement?: Element;
+  /** Every pillar combination realizing the relation, strongest first (only when positions are given). */
+  placements?: RelationPlacement[];
+  /** Strongest placement intensity (0..1). */
+  intensity?: number;
 }
 
 const RELATION_ORDER: readonly RelationType[] = [
@@ -30,8 +48,56 @@ const RELATION_ORDER: readonly RelationType[] = [
   'WONJIN',
   'SAMHAP',
   'BANGHAP',
+  'BANHAP',
+  'HEOHAP',
+  'AMHAP',
+  'GONGHYEOP',
 ] as const;
 
+export type AmhapScope = 'MAIN_PAIR' | 'WITH_MAIN' | 'ANY';
+
+/**
+ * Opt-in relation kinds beyond the classical set (config.strategies.relations.*, all disabled by default):
+ * - `banhap`: 반합(준삼합) — two 삼합 members including the cardinal(子午卯酉); skipped when the full 삼합 is present.
+ * - `heohap`: 허합(拱合) — 생지 + 고지 of a 삼합 with the cardinal absent (e.g. 申辰 拱 子).
+ * - `amhap`: 암합 — 천간합 between hidden stems of two different branches.
+ *   `scope` picks the hidden stems: both 본기(MAIN_PAIR), at least one 본기(WITH_MAIN), or any(ANY).
+ * - `gonghyeop`: 공협(拱夾) — two branches one step apart around an absent branch (e.g. 子寅 夾 丑);
+ *   with `requireAdjacent`, only when they sit in neighbouring pillars.
+ */
+export interface ExtendedRelationPolicy {
+  banhap: { enabled: boolean };
+  heohap: { enabled: boolean };
+  amhap: { enabled: boolean; scope: AmhapScope };
+  gonghyeop: { enabled: boolean; requireAdjacent: boolean };
+}
+
+export const DEFAULT_EXTENDED_RELATION_POLICY: ExtendedRelationPolicy = {
+  banhap: { enabled: false },
+  heohap: { enabled: false },
+  amhap: { enabled: false, scope: 'WITH_MAIN' },
+  gonghyeop: { enabled: false, requireAdjacent: true },
+};
+
+/** config.strategies.relations → extended relation policy (unknown values fall back to the defaults). */
+export function readExtendedRelationPolicy(strategies: Record<string, unknown> | undefined): ExtendedRelationPolicy {
+  const raw: any = (strategies as any)?.relations ?? {};
+  const d = DEFAULT_EXTENDED_RELATION_POLICY;
+  const scope = raw.amhap?.scope;
+  return {
+    banhap: { enabled: raw.banhap?.enabled ?? d.banhap.enabled },
+    heohap: { enabled: raw.heohap?.enabled ?? d.heohap.enabled },
+    amhap: {
+      enabled: raw.amhap?.enabled ?? d.amhap.enabled,
+      scope: scope === 'MAIN_PAIR' || scope === 'ANY' || scope === 'WITH_MAIN' ? scope : d.amhap.scope,
+    },
+    gonghyeop: {
+      enabled: raw.gonghyeop?.enabled ?? d.gonghyeop.enabled,
+      requireAdjacent: raw.gonghyeop?.requireAdjacent ?? d.gonghyeop.requireAdjacent,
+    },
+  };
+}
+
 const RELATION_RANK: Record<RelationType, number> = Object.fromEntries(
   RELATION_ORDER.map((t, i) => [t, i]),
 ) as Record<RelationType, number>;
@@ -128,7 +194,70 @@ function tripleKey(xs: number[]): string {
   return [...xs].sort((a, b) => a - b).join('-');
 }
 
-export function detectBranchRelations(branches: BranchIdx[]): DetectedRelation[] {
+function isCardinal(b: BranchIdx): boolean {
+  return mod(b, 3) === 0;
+}
+
+/** The combining hidden stems of two branches under `scope`, or null. */
+function amhapStems(a: BranchIdx, b: BranchIdx, scope: AmhapScope): [StemIdx, StemIdx] | null {
+  for (const x of rawHiddenStemsTable[a] ?? []) {
+    for (const y of rawHiddenStemsTable[b] ?? []) {
+      if (stemHapPartner(x.stem) !== y.stem) continue;
+      const mains = (x.role === 'MAIN' ? 1 : 0) + (y.role === 'MAIN' ? 1 : 0);
+      if (scope === 'MAIN_PAIR' && mains < 2) continue;
+      if (scope === 'WITH_MAIN' && mains < 1) continue;
+      return [x.stem, y.stem];
+    }
+  }
+  return null;
+}
+
+function detectExtendedRelations(bs: BranchIdx[], present: Set<BranchIdx>, policy: ExtendedRelationPolicy): DetectedRelation[] {
+  const rels: DetectedRelation[] = [];
+  for (let i = 0; i < bs.length; i++) {
+    for (let j = i + 1; j < bs.length; j++) {
+      const [a, b] = [bs[i], bs[j]].sort((x, y) => x - y) as [BranchIdx, BranchIdx];
+      if (a === b) continue;
+
+      const group = samhapGroup(a);
+      if (group.includes(b)) {
+        const third = group.find((x) => x !== a && x !== b)!;
+        const cardinal = group.find(isCardinal)!;
+        const resultElement = branchElement(cardinal);
+        if (!present.has(third)) {
+          if (policy.banhap.enabled && (isCardinal(a) || isCardinal(b))) {
+            rels.push({ type: 'BANHAP', members: [a, b], missing: [third], resultElement });
+          }
+          if (policy.heohap.enabled && third === cardinal) {
+            rels.push({ type: 'HEOHAP', members: [a, b], missing: [third], resultElement });
+          }
+        }
+      }
+
+      if (policy.amhap.enabled) {
+        const stems = amhapStems(a, b, policy.amhap.scope);
+        if (stems) rels.push({ type: 'AMHAP', members: [a, b], hiddenStems: stems, resultElement: stemHapResultElement(stems[0], stems[1]) });
+      }
+
+      if (policy.gonghyeop.enabled) {
+        // a < b: either b = a + 2 or (wrapping) a = b + 2 mod 12 (亥丑 夾 子, 戌子 夾 亥)
+        const middle = b - a === 2 ? a + 1 : b - a === 10 ? mod(b + 1, 12) : null;
+        if (middle != null && !present.has(middle)) rels.push({ type: 'GONGHYEOP', members: [a, b], missing: [middle] });
+      }
+    }
+  }
+  return rels;
+}
+
+/**
+ * Detect branch relations among `branches`.
+ * `position` attaches pillar placements; `extended` adds the opt-in kinds of ExtendedRelationPolicy.
+ */
+export function detectBranchRelations(
+  branches: BranchIdx[],
+  position?: RelationPositionInput,
+  extended?: ExtendedRelationPolicy,
+): DetectedRelation[] {
   const bs = branches.map((b) => mod(b, 12));
 
   const rels: DetectedRelation[] = [];
@@ -178,5 +307,16 @@ export function detectBranchRelations(branches: BranchIdx[]): DetectedRelation[]
 
   const tripleDeduped = uniqByKey(tripleRels, (r) => `${r.type}:${tripleKey(r.members)}`);
 
-  return [...pairDeduped, ...tripleDeduped].sort(compareDetectedRelation);
+  const extendedDeduped = extended
+    ? uniqByKey(detectExtendedRelations(bs, set, extended), (r) => `${r.type}:${pairKey(r.members[0], r.members[1])}`)
+    : [];
+
+  const out = [...pairDeduped, ...tripleDeduped, ...extendedDeduped].sort(compareDetectedRelation);
+  if (!position) return out;
+  return out
+    .map((r) => {
+      const placements = placementsOf(r.members, bs, position.positions, position.policy);
+      return { ...r, placements, intensity: placements[0]?.intensity ?? 0 };
+    })
+    .filter((r) => r.type !== 'GONGHYEOP' || !extended?.gonghyeop.requireAdjacent || r.placements.some((p) => p.adjacent));
 }
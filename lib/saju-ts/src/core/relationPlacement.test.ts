@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import { analyzeSaju, createBirthInput } from '../compat/springLegacy.js';
+import { detectBranchRelations } from './branchRelations.js';
+import { PILLAR_POSITIONS, placementOf, readRelationPositionPolicy } from './relationPlacement.js';
+import { detectStemRelations } from './stemRelations.js';
+
+const at = { positions: PILLAR_POSITIONS };
+
+describe('relation placements (위치·거리·강도)', () => {
+  it('keeps bare detection unchanged when no positions are given', () => {
+    expect(detectBranchRelations([0, 6, 2, 2])).toEqual([{ type: 'CHUNG', members: [0, 6] }]);
+  });
+
+  it('lists every pillar combination of a duplicated branch', () => {
+    // 子 年 / 午 月 / 子 日 / 寅 時
+    const chung = detectBranchRelations([0, 6, 0, 2], at).find((r) => r.type === 'CHUNG')!;
+    expect(chung.members).toEqual([0, 6]);
+    expect(chung.placements!.map((p) => p.positions)).toEqual([
+      ['month', 'day'],
+      ['year', 'month'],
+    ]);
+    expect(chung.placements!.every((p) => p.adjacent && p.distance === 1)).toBe(true);
+    expect(chung.intensity).toBe(1);
+  });
+
+  it('weights intensity by pillar position and adjacency distance', () => {
+    expect(placementOf([0, 1], PILLAR_POSITIONS)).toEqual({ positions: ['year', 'month'], distance: 1, adjacent: true, intensity: 0.85 });
+    expect(placementOf([3, 0], PILLAR_POSITIONS)).toEqual({ positions: ['year', 'hour'], distance: 3, adjacent: false, intensity: 0.3 });
+    expect(placementOf([0, 2], PILLAR_POSITIONS).intensity).toBe(0.595);
+
+    // 申子辰 with 子 missing from the middle: year/month/hour → one pillar between
+    const samhap = detectBranchRelations([8, 0, 3, 4], at).find((r) => r.type === 'SAMHAP')!;
+    expect(samhap.placements).toEqual([{ positions: ['year', 'month', 'hour'], distance: 3, adjacent: false, intensity: 0.583 }]);
+  });
+
+  it('reads the policy from strategies.relations.position', () => {
+    const policy = readRelationPositionPolicy({ relations: { position: { positionWeights: { year: 1, hour: 1 }, distanceFactors: [1, 1] } } });
+    expect(policy.positionWeights).toEqual({ year: 1, month: 1, day: 1, hour: 1 });
+    expect(placementOf([0, 3], PILLAR_POSITIONS, policy).intensity).toBe(1);
+  });
+
+  it('places stem relations too', () => {
+    // 甲 年 / 丙 月 / 丁 日 / 庚 時 → 甲庚冲, year–hour
+    const [chung] = detectStemRelations([0, 2, 3, 6], at);
+    expect(chung).toMatchObject({ type: 'CHUNG', members: [0, 6], intensity: 0.3 });
+    expect(chung!.placements![0]).toMatchObject({ positions: ['year', 'hour'], adjacent: false });
+  });
+
+  it('exposes placements in the summary and scores legacy stem relations by adjacency', () => {
+    const { summary } = createEngine().analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    const out = analyzeSaju(createBirthInput({ birthYear: 1986, birthMonth: 4, birthDay: 19, birthHour: 5, birthMinute: 45, gender: 'MALE' }));
+    for (const r of [...(summary.relations ?? []), ...(summary.stemRelations ?? [])]) {
+      expect(r.placements!.length).toBeGreaterThan(0);
+      expect(r.intensity).toBe(r.placements![0]!.intensity);
+    }
+    for (const scored of out.scoredCheonganRelations as any[]) {
+      expect(scored.score.finalScore).toBe(scored.score.baseScore + scored.score.adjacencyBonus);
+    }
+    expect((out.scoredCheonganRelations as any[]).length).toBe(summary.stemRelations!.length);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Where a stem/branch relation sits in the chart: which pillars hold its members, how far apart
+ * they are, and a position-weighted intensity.
+ *
+ * Detection itself works on values (子午冲 is 子午冲 wherever it appears); placements list every
+ * combination of pillars that realizes it, so a duplicated branch (子 in year and day with 午 in month)
+ * yields one relation with two placements instead of collapsing into one.
+ */
+
+export type PillarPosition = 'year' | 'month' | 'day' | 'hour';
+
+export const PILLAR_POSITIONS: readonly PillarPosition[] = ['year', 'month', 'day', 'hour'] as const;
+
+export interface RelationPlacement {
+  /** Pillars holding the members, in pillar order. */
+  positions: PillarPosition[];
+  /** Pillar steps between the outermost members (year–month = 1, year–hour = 3). */
+  distance: number;
+  /** True when the members occupy consecutive pillars. */
+  adjacent: boolean;
+  /** positionFactor × distanceFactor, 0..1. */
+  intensity: number;
+}
+
+export interface RelationPositionPolicy {
+  /** Per-pillar weight (0..1); positionFactor is the mean over the members. */
+  positionWeights: Record<PillarPosition, number>;
+  /** By gap = distance − (members − 1): [consecutive, one pillar between, two between]. */
+  distanceFactors: number[];
+}
+
+/** Pillar positions of the detected values (one per value) and the intensity policy. */
+export interface RelationPositionInput {
+  positions: readonly PillarPosition[];
+  policy?: RelationPositionPolicy;
+}
+
+export const DEFAULT_RELATION_POSITION_POLICY: RelationPositionPolicy = {
+  positionWeights: { year: 0.7, month: 1.0, day: 1.0, hour: 0.8 },
+  distanceFactors: [1.0, 0.7, 0.4],
+};
+
+function num(x: unknown, fallback: number): number {
+  return typeof x === 'number' && Number.isFinite(x) ? x : fallback;
+}
+
+function clamp01(x: number): number {
+  return Math.max(0, Math.min(1, x));
+}
+
+/** config.strategies.relations.position → policy (missing values fall back to the defaults). */
+export function readRelationPositionPolicy(strategies: Record<string, unknown> | undefined): RelationPositionPolicy {
+  const raw: any = (strategies as any)?.relations?.position ?? {};
+  const pwRaw: any = raw.positionWeights ?? {};
+  const d = DEFAULT_RELATION_POSITION_POLICY;
+  return {
+    positionWeights: {
+      year: clamp01(num(pwRaw.year, d.positionWeights.year)),
+      month: clamp01(num(pwRaw.month, d.positionWeights.month)),
+      day: clamp01(num(pwRaw.day, d.positionWeights.day)),
+      hour: clamp01(num(pwRaw.hour, d.positionWeights.hour)),
+    },
+    distanceFactors: Array.isArray(raw.distanceFactors) && raw.distanceFactors.length > 0
+      ? raw.distanceFactors.map((x: unknown, i: number) => clamp01(num(x, d.distanceFactors[i] ?? 0)))
+      : [...d.distanceFactors],
+  };
+}
+
+function distanceFactorOf(policy: RelationPositionPolicy, gap: number): number {
+  const fs = policy.distanceFactors;
+  return fs[Math.min(gap, fs.length - 1)] ?? 0;
+}
+
+/**
+ * Placement of the members at `indices` (0-based pillar indices into `positions`).
+ * Indices must be distinct; they are sorted here.
+ */
+export function placementOf(
+  indices: number[],
+  positions: readonly PillarPosition[],
+  policy: RelationPositionPolicy = DEFAULT_RELATION_POSITION_POLICY,
+): RelationPlacement {
+  const idx = [...indices].sort((a, b) => a - b);
+  const at = idx.map((i) => positions[i]!);
+  const distance = idx[idx.length - 1]! - idx[0]!;
+  const gap = distance - (idx.length - 1);
+  const positionFactor = at.reduce((s, p) => s + policy.positionWeights[p], 0) / at.length;
+  return {
+    positions: at,
+    distance,
+    adjacent: gap === 0,
+    intensity: Math.round(positionFactor * distanceFactorOf(policy, gap) * 1000) / 1000,
+  };
+}
+
+function combinations(n: number, k: number): number[][] {
+  if (k === 0) return [[]];
+  const out: number[][] = [];
+  for (let i = k - 1; i < n; i++) {
+    for (const rest of combinations(i, k - 1)) out.push([...rest, i]);
+  }
+  return out;
+}
+
+/**
+ * Every placement of `members` (sorted values) among `values` (one per pillar), strongest first;
+ * ties keep pillar order.
+ */
+export function placementsOf(
+  members: readonly number[],
+  values: readonly number[],
+  positions: readonly PillarPosition[],
+  policy: RelationPositionPolicy = DEFAULT_RELATION_POSITION_POLICY,
+): RelationPlacement[] {
+  const want = members.join(',');
+  return combinations(values.length, members.length)
+    .filter((c) => c.map((i) => values[i]!).sort((a, b) => a - b).join(',') === want)
+    .sort((a, b) => a.join(',').localeCompare(b.join(',')))
+    .map((c) => placementOf(c, positions, policy))
+    .sort((a, b) => b.intensity - a.intensity);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import type { RuleFacts } from '../rules/facts.js';
+import { determineSaryeong, readSaryeongPolicy, saryeongPhases } from './saryeong.js';
+
+describe('saryeong (지장간 사령)', () => {
+  it('follows the 월률분야 schedule of 寅: 戊 7 → 丙 7 → 甲 16', () => {
+    expect(saryeongPhases(2).map((x) => [x.stem, x.role, x.startDay, x.endDay])).toEqual([
+      [4, 'RESIDUAL', 1, 7],
+      [2, 'MIDDLE', 8, 14],
+      [0, 'MAIN', 15, 30],
+    ]);
+    expect(determineSaryeong(2, 7).commandingStem).toBe(4);
+    expect(determineSaryeong(2, 8).commandingStem).toBe(2);
+    expect(determineSaryeong(2, 15)).toMatchObject({ commandingStem: 0, commandingRole: 'MAIN', overflow: false });
+    expect(determineSaryeong(2, 15).phases.filter((x) => x.isActive)).toHaveLength(1);
+  });
+
+  it('opens 子午卯酉 with the previous season stem', () => {
+    expect(determineSaryeong(0, 10).commandingStem).toBe(8); // 子 day 10: 壬
+    expect(determineSaryeong(0, 11).commandingStem).toBe(9); // 子 day 11: 癸
+    expect(determineSaryeong(6, 15)).toMatchObject({ commandingStem: 5, commandingRole: 'MIDDLE' }); // 午: 己
+  });
+
+  it('drops the 戊 여기 of 寅申巳亥 under NO_RESIDUAL_EARTH', () => {
+    expect(saryeongPhases(8, 'NO_RESIDUAL_EARTH').map((x) => [x.stem, x.startDay, x.endDay])).toEqual([
+      [8, 1, 7],
+      [6, 8, 23],
+    ]);
+    expect(determineSaryeong(8, 3, 'NO_RESIDUAL_EARTH').commandingStem).toBe(8);
+    // other branches are unchanged
+    expect(saryeongPhases(4, 'NO_RESIDUAL_EARTH')).toEqual(saryeongPhases(4));
+  });
+
+  it('keeps the 정기 in command past the end of the schedule', () => {
+    const r = determineSaryeong(1, 31);
+    expect(r).toMatchObject({ commandingStem: 5, commandingRole: 'MAIN', overflow: true });
+    expect(r.reasoning).toContain('초과');
+    expect(determineSaryeong(1, 3).reasoning).toContain('축(丑)월');
+    expect(() => determineSaryeong(1, 0)).toThrow(/dayInMonth/);
+    expect(() => determineSaryeong(1, 1.5)).toThrow(/dayInMonth/);
+  });
+
+  it('reads the policy from strategies.saryeong', () => {
+    expect(readSaryeongPolicy(undefined)).toEqual({ enabled: true, variant: 'STANDARD' });
+    expect(readSaryeongPolicy({ saryeong: { enabled: false, variant: 'NO_RESIDUAL_EARTH' } }))
+      .toEqual({ enabled: false, variant: 'NO_RESIDUAL_EARTH' });
+  });
+
+  it('is counted from the month jie and feeds the month-gyeok quality', () => {
+    // 1986-04-19 05:45 is 13.x days after 청명 (1986-04-05 midday): day 14 of 辰月, 戊 정기 commands.
+    const bundle = createEngine().analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    const s = bundle.summary.saryeong!;
+    expect(s.jie.id).toBe('QINGMING');
+    expect(s.dayInMonth).toBe(14);
+    expect(s).toMatchObject({ role: 'MAIN', variant: 'STANDARD', overflow: false });
+    expect(s.stem.text).toBe('戊');
+
+    const facts = bundle.report.facts['rules.facts'] as RuleFacts;
+    expect(facts.month.gyeok.quality.details?.saryeong).not.toBeNull();
+    expect(facts.month.gyeok.quality.reasons.some((x) => x.startsWith('saryeong:'))).toBe(true);
+    expect(facts.month.saryeong).toMatchObject({ stem: 4, role: 'MAIN', dayInMonth: 14 });
+
+    const off = createEngine({ strategies: { saryeong: { enabled: false } } })
+      .analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    expect(off.summary.saryeong).toBeUndefined();
+    expect((off.report.facts['rules.facts'] as RuleFacts).month.saryeong).toBeNull();
+  });
+});
@@ -0,0 +1,146 @@
+import type { BranchIdx, StemIdx } from './cycle.js';
+import { BRANCH_HANJA, STEM_HANJA } from './cycle.js';
+import type { HiddenStemRole } from './hiddenStems.js';
+import { mod } from './mod.js';
+
+/**
+ * 지장간 사령(司令): which hidden stem of the month branch is "in command" on a given day
+ * of the month, counted from the month-opening 절(節).
+ *
+ * The schedule is the 월률분야(月律分野) table: 여기 → (중기) → 정기, 30 days per month.
+ * Note that it is not `rawHiddenStemsTable`: 寅申巳亥 open with a 戊 여기 and 子午卯酉
+ * open with the previous season's stem, which the weight table leaves out.
+ */
+
+/**
+ * - `STANDARD`: 월률분야 as above.
+ * - `NO_RESIDUAL_EARTH`: 寅申巳亥 drop the 戊 여기 and start with the 중기 (7 + 16 days).
+ */
+export type SaryeongVariant = 'STANDARD' | 'NO_RESIDUAL_EARTH';
+
+export interface SaryeongPolicy {
+  enabled: boolean;
+  variant: SaryeongVariant;
+}
+
+export interface SaryeongPhase {
+  stem: StemIdx;
+  /** RESIDUAL = 여기, MIDDLE = 중기, MAIN = 정기 */
+  role: HiddenStemRole;
+  /** 1-based, inclusive. */
+  startDay: number;
+  endDay: number;
+  isActive: boolean;
+}
+
+export interface SaryeongResult {
+  branch: BranchIdx;
+  /** 1-based day counted from the month-opening 절. */
+  dayInMonth: number;
+  commandingStem: StemIdx;
+  commandingRole: HiddenStemRole;
+  /** True when dayInMonth is past the last scheduled day (정기 keeps command). */
+  overflow: boolean;
+  phases: SaryeongPhase[];
+  reasoning: string;
+}
+
+/** Saryeong of the chart's month: the result plus the 절 it was counted from. */
+export interface MonthSaryeong extends SaryeongResult {
+  variant: SaryeongVariant;
+  jie: { id: string; utcMs: number };
+}
+
+const R: HiddenStemRole = 'RESIDUAL';
+const MD: HiddenStemRole = 'MIDDLE';
+const M: HiddenStemRole = 'MAIN';
+
+const p = (stem: StemIdx, role: HiddenStemRole, days: number) => ({ stem, role, days });
+
+/** 월률분야: per branch, phases in command order with their length in days. */
+const SARYEONG_TABLE: ReadonlyArray<ReadonlyArray<{ stem: StemIdx; role: HiddenStemRole; days: number }>> = [
+  /* 子 */ [p(8, R, 10), p(9, M, 20)],
+  /* 丑 */ [p(9, R, 9), p(7, MD, 3), p(5, M, 18)],
+  /* 寅 */ [p(4, R, 7), p(2, MD, 7), p(0, M, 16)],
+  /* 卯 */ [p(0, R, 10), p(1, M, 20)],
+  /* 辰 */ [p(1, R, 9), p(9, MD, 3), p(4, M, 18)],
+  /* 巳 */ [p(4, R, 7), p(6, MD, 7), p(2, M, 16)],
+  /* 午 */ [p(2, R, 10), p(5, MD, 9), p(3, M, 11)],
+  /* 未 */ [p(3, R, 9), p(1, MD, 3), p(5, M, 18)],
+  /* 申 */ [p(4, R, 7), p(8, MD, 7), p(6, M, 16)],
+  /* 酉 */ [p(6, R, 10), p(7, M, 20)],
+  /* 戌 */ [p(7, R, 9), p(3, MD, 3), p(4, M, 18)],
+  /* 亥 */ [p(4, R, 7), p(0, MD, 7), p(8, M, 16)],
+] as const;
+
+/** 寅申巳亥 (the branches whose 여기 is 戊). */
+const CORNER_BRANCHES: ReadonlySet<number> = new Set([2, 5, 8, 11]);
+
+const STEM_HANGUL = ['갑', '을', '병', '정', '무', '기', '경', '신', '임', '계'] as const;
+const BRANCH_HANGUL = ['자', '축', '인', '묘', '진', '사', '오', '미', '신', '유', '술', '해'] as const;
+const ROLE_LABEL: Record<HiddenStemRole, string> = { RESIDUAL: '여기', MIDDLE: '중기', MAIN: '정기' };
+
+export const DEFAULT_SARYEONG_POLICY: SaryeongPolicy = { enabled: true, variant: 'STANDARD' };
+
+/** config.strategies.saryeong → policy (unknown values fall back to the defaults). */
+export function readSaryeongPolicy(strategies: Record<string, unknown> | undefined): SaryeongPolicy {
+  const raw: any = (strategies as any)?.saryeong ?? {};
+  return {
+    enabled: raw.enabled ?? DEFAULT_SARYEONG_POLICY.enabled,
+    variant: raw.variant === 'NO_RESIDUAL_EARTH' ? 'NO_RESIDUAL_EARTH' : DEFAULT_SARYEONG_POLICY.variant,
+  };
+}
+
+/** The full command schedule of a month branch (no phase active). */
+export function saryeongPhases(branch: BranchIdx, variant: SaryeongVariant = 'STANDARD'): SaryeongPhase[] {
+  const b = mod(branch, 12);
+  let table = SARYEONG_TABLE[b] ?? [];
+  if (variant === 'NO_RESIDUAL_EARTH' && CORNER_BRANCHES.has(b)) {
+    table = table.filter((x) => x.role !== 'RESIDUAL');
+  }
+
+  let startDay = 1;
+  return table.map((x) => {
+    const phase = { stem: x.stem, role: x.role, startDay, endDay: startDay + x.days - 1, isActive: false };
+    startDay = phase.endDay + 1;
+    return phase;
+  });
+}
+
+/**
+ * Determine the commanding hidden stem on `dayInMonth` (1-based). Days past the end of
+ * the schedule stay with the 정기.
+ */
+export function determineSaryeong(
+  branch: BranchIdx,
+  dayInMonth: number,
+  variant: SaryeongVariant = 'STANDARD',
+): SaryeongResult {
+  if (!Number.isInteger(dayInMonth) || dayInMonth < 1) {
+    throw new Error(`determineSaryeong: dayInMonth must be a positive integer (got ${dayInMonth})`);
+  }
+
+  const b = mod(branch, 12) as BranchIdx;
+  const phases = saryeongPhases(b, variant);
+  const last = phases.length - 1;
+  const overflow = dayInMonth > phases[last]!.endDay;
+  const activeIdx = overflow ? last : phases.findIndex((x) => dayInMonth >= x.startDay && dayInMonth <= x.endDay);
+  phases[activeIdx]!.isActive = true;
+
+  const active = phases[activeIdx]!;
+  const branchText = `${BRANCH_HANGUL[b]}(${BRANCH_HANJA[b]})월`;
+  const stemText = `${STEM_HANGUL[active.stem]}(${STEM_HANJA[active.stem]})`;
+  const reasoning = overflow
+    ? `${branchText} ${dayInMonth}일째는 월률분야 ${phases[last]!.endDay}일을 초과하므로 정기 ${stemText}이(가) 사령한다.`
+    : `${branchText} ${dayInMonth}일째(${active.startDay}~${active.endDay}일)는 ${ROLE_LABEL[active.role]} ${stemText}이(가) 사령한다.`;
+
+  return {
+    branch: b,
+    dayInMonth,
+    commandingStem: active.stem,
+    commandingRole: active.role,
+    overflow,
+    phases,
+    reasoning,
+  };
+}
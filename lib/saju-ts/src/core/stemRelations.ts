@@ -1,5 +1,7 @@
 import type { Element, StemIdx } from './cycle.js';
 import { mod } from './mod.js';
+import type { RelationPlacement, RelationPositionInput } from './relationPlacement.js';
+import { placementsOf } from './relationPlacement.js';
 
 export type StemRelationType = 'HAP' | 'CHUNG';
 
@@ -10,6 +12,10 @@ export interface StemRelation {
    * Some schools apply additional “化” conditions; we only report the classical mapping here.
    */
   resultElement?: Element;
+  /** Every pillar combination realizing the relation, strongest first (only when positions are given). */
+  placements?: RelationPlacement[];
+  /** Strongest placement intensity (0..1). */
+  intensity?: number;
 }
 
 const STEM_RELATION_ORDER: readonly StemRelationType[] = ['HAP', 'CHUNG'] as const;
@@ -69,7 +75,7 @@ function uniqByKey<T>(arr: T[], key: (t: T) => string): T[] {
   return out;
 }
 
-export function detectStemRelations(stems: StemIdx[]): StemRelation[] {
+export function detectStemRelations(stems: StemIdx[], position?: RelationPositionInput): StemRelation[] {
   const ss = stems.map((s) => mod(s, 10));
 
   const rels: StemRelation[] = [];
@@ -93,5 +99,10 @@ export function detectStemRelations(stems: StemIdx[]): StemRelation[] {
     }
   }
 
-  return uniqByKey(rels, (r) => `${r.type}:${r.members[0]}-${r.members[1]}`).sort(compareStemRelation);
+  const out = uniqByKey(rels, (r) => `${r.type}:${r.members[0]}-${r.members[1]}`).sort(compareStemRelation);
+  if (!position) return out;
+  return out.map((r) => {
+    const placements = placementsOf(r.members, ss, position.positions, position.policy);
+    return { ...r, placements, intensity: placements[0]?.intensity ?? 0 };
+  });
 }
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import type { FourPillars } from '../api/types.js';
+import type { PillarIdx } from '../core/cycle.js';
+import type { LuckBasis } from './interactions.js';
+import { analyzeLuckPillar, determineLuckQuality } from './interactions.js';
+
+const p = (stem: number, branch: number): PillarIdx => ({ stem, branch });
+const natal = (year: PillarIdx, month: PillarIdx, day: PillarIdx, hour: PillarIdx): FourPillars<PillarIdx> => ({ year, month, day, hour });
+
+// 丙午 / 丁巳 / 甲戌 / 戊辰
+const GAP_NATAL = natal(p(2, 6), p(3, 5), p(0, 10), p(4, 4));
+// 壬子 / 甲寅 / 甲戌 / 戊辰
+const GAP_NATAL_2 = natal(p(8, 0), p(0, 2), p(0, 10), p(4, 4));
+
+const basis = (yongshin: LuckBasis['yongshin'] = null, gisin: LuckBasis['gisin'] = null): LuckBasis => ({
+  yongshin,
+  gisin,
+  strength: null,
+  lifeStagePolicy: { earthRule: 'FOLLOW_FIRE', yinReversalEnabled: true },
+});
+
+describe('luck interactions (운 × 원국)', () => {
+  it('reads ten gods and the day master life stage at the luck branch', () => {
+    expect(analyzeLuckPillar(p(8, 0), GAP_NATAL, basis()).tenGods.stem).toBe('PYEON_IN'); // 壬子
+    expect(analyzeLuckPillar(p(9, 11), GAP_NATAL, basis()).tenGods.stem).toBe('JEONG_IN'); // 癸亥
+    expect(analyzeLuckPillar(p(6, 8), GAP_NATAL, basis()).tenGods.stem).toBe('PYEON_GWAN'); // 庚申
+    expect(analyzeLuckPillar(p(2, 6), GAP_NATAL, basis()).tenGods).toEqual({ stem: 'SIK_SHIN', branch: 'SANG_GWAN' }); // 丙午
+
+    expect(analyzeLuckPillar(p(8, 0), GAP_NATAL, basis()).lifeStage).toBe('MOK_YOK'); // 甲 at 子
+    expect(analyzeLuckPillar(p(0, 2), GAP_NATAL, basis()).lifeStage).toBe('GEON_ROK'); // 甲 at 寅
+  });
+
+  it('detects stem and branch relations with each natal pillar', () => {
+    // 庚申: 甲庚冲 with the month/day stems (one relation); 寅申 충+형 with the month branch
+    const li = analyzeLuckPillar(p(6, 8), GAP_NATAL_2, basis());
+    expect(li.stemRelations).toContainEqual({ type: 'CHUNG', with: ['month', 'day'], members: [0, 6], resultElement: undefined });
+    expect(li.branchRelations).toContainEqual({ type: 'CHUNG', with: ['month'], members: [2, 8] });
+    expect(li.branchRelations).toContainEqual({ type: 'HYEONG', with: ['month'], members: [2, 8] });
+    // 申子辰 completed by the luck branch
+    expect(li.branchRelations).toContainEqual({ type: 'SAMHAP', with: ['year', 'hour'], members: [0, 4, 8] });
+
+    const hap = analyzeLuckPillar(p(9, 1), GAP_NATAL_2, basis()); // 癸丑: 子丑 육합
+    expect(hap.branchRelations).toContainEqual({ type: 'YUKHAP', with: ['year'], members: [0, 1] });
+    expect(hap.hasGoodRelations).toBe(true);
+  });
+
+  it('includes the decade pillar as a partner for years', () => {
+    const decade = p(0, 2); // 甲寅
+    const year = p(5, 9); // 己酉
+    const withDecade = analyzeLuckPillar(year, GAP_NATAL, basis(), decade);
+    expect(withDecade.stemRelations).toContainEqual({ type: 'HAP', with: ['day', 'decade'], members: [0, 5], resultElement: 'EARTH' });
+    expect(withDecade.branchRelations).toContainEqual({ type: 'WONJIN', with: ['decade'], members: [2, 9] });
+
+    const without = analyzeLuckPillar(year, GAP_NATAL, basis());
+    expect(without.stemRelations.some((r) => r.with.includes('decade'))).toBe(false);
+  });
+
+  it('grades quality from yongshin/gisin and relations', () => {
+    const q = (y: boolean, g: boolean, good: boolean, bad: boolean) =>
+      determineLuckQuality({ isYongshinElement: y, isGisinElement: g, hasGoodRelations: good, hasBadRelations: bad });
+    expect(q(true, false, true, false)).toBe('VERY_FAVORABLE');
+    expect(q(true, false, true, true)).toBe('VERY_FAVORABLE');
+    expect(q(true, false, false, false)).toBe('FAVORABLE');
+    expect(q(false, false, true, false)).toBe('FAVORABLE');
+    expect(q(false, false, false, false)).toBe('NEUTRAL');
+    expect(q(false, true, false, false)).toBe('UNFAVORABLE');
+    expect(q(false, false, false, true)).toBe('UNFAVORABLE');
+    expect(q(false, true, false, true)).toBe('VERY_UNFAVORABLE');
+
+    // 庚申 for 甲 day master with gisin METAL: 甲庚冲 → VERY_UNFAVORABLE
+    const li = analyzeLuckPillar(p(6, 8), GAP_NATAL, basis('WATER', 'METAL'));
+    expect(li.isGisinElement).toBe(true);
+    expect(li.quality).toBe('VERY_UNFAVORABLE');
+
+    const water = analyzeLuckPillar(p(8, 0), GAP_NATAL, basis('WATER', 'METAL'));
+    expect(water.isYongshinElement).toBe(true);
+    expect(['FAVORABLE', 'VERY_FAVORABLE']).toContain(water.quality);
+  });
+
+  it('moves strength with supporting vs draining pillars', () => {
+    const s = { index: 0, support: 4, pressure: 4, total: 8 };
+    const b: LuckBasis = { ...basis(), strength: s };
+    expect(analyzeLuckPillar(p(8, 0), GAP_NATAL, b).strength.delta).toBeGreaterThan(0); // 壬子 = 인성
+    expect(analyzeLuckPillar(p(6, 8), GAP_NATAL, b).strength.delta).toBeLessThan(0); // 庚申 = 관성
+  });
+
+  it('attaches interactions to the fortune summary', () => {
+    const bundle = createEngine().analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    const decades = bundle.summary.fortune!.decades;
+    expect(decades.length).toBeGreaterThan(0);
+    expect(decades.every((d) => d.interaction && typeof d.interaction.quality === 'string')).toBe(true);
+    expect(bundle.summary.fortune!.years![0]!.interaction).toBeDefined();
+    expect(bundle.report.trace.nodes.some((x) => x.id === 'fortune.interactions')).toBe(true);
+
+    const noRules = createEngine({ toggles: { pillars: true, relations: true, tenGods: true, hiddenStems: true, elementDistribution: true, fortune: true, rules: false } })
+      .analyze({ birth: { instant: '1986-04-19T05:45:00+09:00' }, sex: 'M' });
+    expect(noRules.summary.fortune!.decades[0]!.interaction).toBeUndefined();
+  });
+});
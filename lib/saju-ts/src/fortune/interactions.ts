@@ -0,0 +1,332 @@
+import type { FourPillars } from '../api/types.js';
+import type { Element, PillarIdx } from '../core/cycle.js';
+import { branchElement, stemElement } from '../core/cycle.js';
+import { detectBranchRelations } from '../core/branchRelations.js';
+import type { RelationType } from '../core/branchRelations.js';
+import type { HiddenStemWeightPolicy } from '../core/hiddenStems.js';
+import { hiddenStemsOfBranch } from '../core/hiddenStems.js';
+import type { LifeStagePolicy } from '../core/lifeStage.js';
+import { lifeStageOf } from '../core/lifeStage.js';
+import { detectStemRelations } from '../core/stemRelations.js';
+import type { StemRelationType } from '../core/stemRelations.js';
+import type { LifeStage } from '../core/lifeStage.js';
+import type { TenGod } from '../core/tenGod.js';
+import { tenGodOf } from '../core/tenGod.js';
+import type { YongshinResult } from '../rules/yongshin.js';
+import type {
+  FortuneTimeline,
+  LuckBranchRelation,
+  LuckInteraction,
+  LuckInteractions,
+  LuckQuality,
+  LuckRelationPartner,
+  LuckStemRelation,
+} from './types.js';
+
+/** The parts of a FortuneTimeline that luck interactions read. */
+export type LuckTimeline = Pick<FortuneTimeline, 'decades' | 'years' | 'months'>;
+
+/** Natal facts a luck pillar is read against. */
+export interface LuckBasis {
+  yongshin: Element | null;
+  gisin: Element | null;
+  /** Natal strength (strength.index); null = treat as balanced. */
+  strength: { index: number; support: number; pressure: number; total: number } | null;
+  lifeStagePolicy: LifeStagePolicy;
+  hiddenStemPolicy?: HiddenStemWeightPolicy;
+}
+
+/** LuckBasis from the natal facts; the gisin is the last-ranked element (none when it is the yongshin). */
+export function luckBasisOf(
+  yongshin: YongshinResult,
+  strength: LuckBasis['strength'],
+  lifeStagePolicy: LifeStagePolicy,
+  hiddenStemPolicy?: HiddenStemWeightPolicy,
+): LuckBasis {
+  const gisin = yongshin.ranking.length > 1 ? yongshin.ranking[yongshin.ranking.length - 1]!.element : null;
+  return {
+    yongshin: yongshin.best ?? null,
+    gisin: gisin === yongshin.best ? null : gisin,
+    strength,
+    lifeStagePolicy,
+    hiddenStemPolicy,
+  };
+}
+
+const NATAL_POSITIONS = ['year', 'month', 'day', 'hour'] as const;
+
+const GOOD_STEM_RELATIONS: ReadonlySet<StemRelationType> = new Set(['HAP']);
+const BAD_STEM_RELATIONS: ReadonlySet<StemRelationType> = new Set(['CHUNG']);
+const GOOD_BRANCH_RELATIONS: ReadonlySet<RelationType> = new Set(['YUKHAP', 'SAMHAP', 'BANGHAP']);
+const BAD_BRANCH_RELATIONS: ReadonlySet<RelationType> = new Set([
+  'CHUNG',
+  'HYEONG',
+  'JA_HYEONG',
+  'SAMHYEONG',
+  'PA',
+  'HAE',
+  'WONJIN',
+]);
+
+const SUPPORT_TEN_GODS: ReadonlySet<TenGod> = new Set(['BI_GYEON', 'GEOB_JAE', 'PYEON_IN', 'JEONG_IN']);
+
+/** Stem and branch slots in a four-pillar chart; a luck pillar adds two more. */
+const CHART_SLOTS = 8;
+
+const STEM_HANGUL = ['갑', '을', '병', '정', '무', '기', '경', '신', '임', '계'] as const;
+const BRANCH_HANGUL = ['자', '축', '인', '묘', '진', '사', '오', '미', '신', '유', '술', '해'] as const;
+
+const TEN_GOD_LABEL: Record<TenGod, string> = {
+  BI_GYEON: '비견(比肩)',
+  GEOB_JAE: '겁재(劫財)',
+  SIK_SHIN: '식신(食神)',
+  SANG_GWAN: '상관(傷官)',
+  PYEON_JAE: '편재(偏財)',
+  JEONG_JAE: '정재(正財)',
+  PYEON_GWAN: '편관(偏官)',
+  JEONG_GWAN: '정관(正官)',
+  PYEON_IN: '편인(偏印)',
+  JEONG_IN: '정인(正印)',
+};
+
+const LIFE_STAGE_LABEL: Record<LifeStage, string> = {
+  JANG_SAENG: '장생(長生)',
+  MOK_YOK: '목욕(沐浴)',
+  GWAN_DAE: '관대(冠帶)',
+  GEON_ROK: '건록(建祿)',
+  JE_WANG: '제왕(帝旺)',
+  SWOE: '쇠(衰)',
+  BYEONG: '병(病)',
+  SA: '사(死)',
+  MYO: '묘(墓)',
+  JEOL: '절(絶)',
+  TAE: '태(胎)',
+  YANG: '양(養)',
+};
+
+const QUALITY_LABEL: Record<LuckQuality, string> = {
+  VERY_FAVORABLE: '대길',
+  FAVORABLE: '길',
+  NEUTRAL: '평',
+  UNFAVORABLE: '흉',
+  VERY_UNFAVORABLE: '대흉',
+};
+
+/**
+ * Grade a luck pillar (priority order):
+ * yongshin + 합 → VERY_FAVORABLE, yongshin → FAVORABLE, 합 without gisin → FAVORABLE,
+ * gisin + 충형파해 → VERY_UNFAVORABLE, gisin or 충형파해 → UNFAVORABLE, else NEUTRAL.
+ */
+export function determineLuckQuality(args: {
+  isYongshinElement: boolean;
+  isGisinElement: boolean;
+  hasGoodRelations: boolean;
+  hasBadRelations: boolean;
+}): LuckQuality {
+  const { isYongshinElement, isGisinElement, hasGoodRelations, hasBadRelations } = args;
+  if (isYongshinElement && hasGoodRelations) return 'VERY_FAVORABLE';
+  if (isYongshinElement) return 'FAVORABLE';
+  if (hasGoodRelations && !isGisinElement) return 'FAVORABLE';
+  if (isGisinElement && hasBadRelations) return 'VERY_UNFAVORABLE';
+  if (isGisinElement || hasBadRelations) return 'UNFAVORABLE';
+  return 'NEUTRAL';
+}
+
+function partnersOf(natal: FourPillars<PillarIdx>, decade: PillarIdx | null | undefined): Array<[LuckRelationPartner, PillarIdx]> {
+  const out: Array<[LuckRelationPartner, PillarIdx]> = NATAL_POSITIONS.map((pos) => [pos, natal[pos]]);
+  if (decade) out.push(['decade', decade]);
+  return out;
+}
+
+/** Adds `relation`, or only its partner when the same relation (type + members) is already listed. */
+function pushOnce<R extends { type: string; with: LuckRelationPartner[]; members: readonly number[] }>(
+  out: R[],
+  relation: R,
+): void {
+  const same = out.find((r) => r.type === relation.type && r.members.join('-') === relation.members.join('-'));
+  if (!same) out.push(relation);
+  else for (const pos of relation.with) if (!same.with.includes(pos)) same.with.push(pos);
+}
+
+function luckStemRelations(luck: PillarIdx, partners: Array<[LuckRelationPartner, PillarIdx]>): LuckStemRelation[] {
+  const out: LuckStemRelation[] = [];
+  for (const [pos, p] of partners) {
+    for (const r of detectStemRelations([luck.stem, p.stem])) {
+      pushOnce(out, { type: r.type, with: [pos], members: r.members, resultElement: r.resultElement });
+    }
+  }
+  return out;
+}
+
+function luckBranchRelations(luck: PillarIdx, partners: Array<[LuckRelationPartner, PillarIdx]>): LuckBranchRelation[] {
+  const out: LuckBranchRelation[] = [];
+
+  // Pair relations (합/충/형/파/해/원진) with each partner; a branch repeated in the chart is one relation.
+  for (const [pos, p] of partners) {
+    for (const r of detectBranchRelations([luck.branch, p.branch])) {
+      pushOnce(out, { type: r.type, with: [pos], members: r.members });
+    }
+  }
+
+  // Triples (삼합/방합/삼형) completed by the luck branch, i.e. not already complete without it.
+  const partnerBranches = partners.map(([, p]) => p.branch);
+  const existing = new Set(
+    detectBranchRelations(partnerBranches)
+      .filter((r) => r.members.length === 3)
+      .map((r) => `${r.type}:${r.members.join('-')}`),
+  );
+  for (const r of detectBranchRelations([luck.branch, ...partnerBranches])) {
+    if (r.members.length !== 3 || !r.members.includes(luck.branch)) continue;
+    if (existing.has(`${r.type}:${r.members.join('-')}`)) continue;
+    const withPartners = partners.filter(([, p]) => p.branch !== luck.branch && r.members.includes(p.branch)).map(([pos]) => pos);
+    out.push({ type: r.type, with: withPartners, members: r.members });
+  }
+
+  return out;
+}
+
+function strengthWithLuck(
+  luck: PillarIdx,
+  dayStem: number,
+  basis: LuckBasis,
+): LuckInteraction['strength'] {
+  const s = basis.strength;
+  const before = s?.index ?? 0;
+  const total = s && s.total > 0 ? s.total : CHART_SLOTS;
+  const support = s && s.total > 0 ? s.support : total / 2;
+  const pressure = s && s.total > 0 ? s.pressure : total / 2;
+
+  // One chart slot in the natal strength's own units.
+  const unit = total / CHART_SLOTS;
+
+  let luckSupport = 0;
+  let luckPressure = 0;
+  const add = (tg: TenGod, w: number) => {
+    if (SUPPORT_TEN_GODS.has(tg)) luckSupport += w;
+    else luckPressure += w;
+  };
+  add(tenGodOf(dayStem, luck.stem), 1);
+  for (const h of hiddenStemsOfBranch(luck.branch, basis.hiddenStemPolicy)) add(tenGodOf(dayStem, h.stem), h.weight);
+
+  const baseBefore = (support - pressure) / total;
+  const baseAfter = (support + luckSupport * unit - (pressure + luckPressure * unit)) / (total + 2 * unit);
+  const delta = baseAfter - baseBefore;
+  const after = Math.max(-1, Math.min(1, before + delta));
+  return { before, after, delta: after - before };
+}
+
+/** "임자운: 편인(偏印) / 목욕(沐浴) -- 평", plus [용신운] / [기신운] when the pillar carries either element. */
+function luckSummary(luck: PillarIdx, li: Pick<LuckInteraction, 'tenGods' | 'lifeStage' | 'quality' | 'isYongshinElement' | 'isGisinElement'>): string {
+  const tags = [li.isYongshinElement ? '[용신운]' : null, li.isGisinElement ? '[기신운]' : null].filter(Boolean);
+  return [
+    `${STEM_HANGUL[luck.stem]}${BRANCH_HANGUL[luck.branch]}운: ${TEN_GOD_LABEL[li.tenGods.stem]} / ${LIFE_STAGE_LABEL[li.lifeStage]} -- ${QUALITY_LABEL[li.quality]}`,
+    ...tags,
+  ].join(' ');
+}
+
+/**
+ * Read one luck pillar against the natal chart.
+ * `decade` (the 대운 in force) is also treated as a relation partner for 세운/월운.
+ * `isTransitionPeriod` is only known from the timeline (see analyzeLuckTimeline).
+ */
+export function analyzeLuckPillar(
+  luck: PillarIdx,
+  natal: FourPillars<PillarIdx>,
+  basis: LuckBasis,
+  decade?: PillarIdx | null,
+  isTransitionPeriod = false,
+): LuckInteraction {
+  const dayStem = natal.day.stem;
+  const partners = partnersOf(natal, decade);
+
+  const stemRelations = luckStemRelations(luck, partners);
+  const branchRelations = luckBranchRelations(luck, partners);
+
+  const hasGoodRelations =
+    stemRelations.some((r) => GOOD_STEM_RELATIONS.has(r.type)) || branchRelations.some((r) => GOOD_BRANCH_RELATIONS.has(r.type));
+  const hasBadRelations =
+    stemRelations.some((r) => BAD_STEM_RELATIONS.has(r.type)) || branchRelations.some((r) => BAD_BRANCH_RELATIONS.has(r.type));
+
+  const elements = [stemElement(luck.stem), branchElement(luck.branch)];
+  const isYongshinElement = basis.yongshin != null && elements.includes(basis.yongshin);
+  const isGisinElement = basis.gisin != null && elements.includes(basis.gisin);
+
+  const mainHidden = hiddenStemsOfBranch(luck.branch, basis.hiddenStemPolicy).find((h) => h.role === 'MAIN');
+  const tenGods = {
+    stem: tenGodOf(dayStem, luck.stem),
+    branch: tenGodOf(dayStem, mainHidden?.stem ?? luck.stem),
+  };
+  const lifeStage = lifeStageOf(dayStem, luck.branch, basis.lifeStagePolicy).stage;
+  const quality = determineLuckQuality({ isYongshinElement, isGisinElement, hasGoodRelations, hasBadRelations });
+
+  return {
+    pillar: luck,
+    tenGods,
+    lifeStage,
+    stemRelations,
+    branchRelations,
+    strength: strengthWithLuck(luck, dayStem, basis),
+    isYongshinElement,
+    isGisinElement,
+    hasGoodRelations,
+    hasBadRelations,
+    quality,
+    isTransitionPeriod,
+    summary: luckSummary(luck, { tenGods, lifeStage, quality, isYongshinElement, isGisinElement }),
+  };
+}
+
+function decadeAtAge(timeline: LuckTimeline, ageYears: number): PillarIdx | null {
+  const d = timeline.decades.find((x) => ageYears >= x.startAgeYears && ageYears < x.endAgeYears);
+  return d?.pillar ?? null;
+}
+
+/**
+ * The 대운 in force at an instant, by age as the timeline's 세운 measure it
+ * (null when the timeline has no years or decades).
+ */
+export function decadeAtUtcMs(timeline: LuckTimeline, utcMs: number): PillarIdx | null {
+  const y = timeline.years[0];
+  if (!y || y.endUtcMs <= y.startUtcMs) return null;
+  const agePerMs = (y.approxEndAgeYears - y.approxStartAgeYears) / (y.endUtcMs - y.startUtcMs);
+  return decadeAtAge(timeline, y.approxStartAgeYears + (utcMs - y.startUtcMs) * agePerMs);
+}
+
+/** True when a decade after the first begins within [startAge, endAge) — a 교운기 year or month. */
+function spansDecadeChange(timeline: LuckTimeline, startAge: number, endAge: number): boolean {
+  return timeline.decades.some((d, i) => i > 0 && d.startAgeYears >= startAge && d.startAgeYears < endAge);
+}
+
+/**
+ * Analyze every 대운/세운(/월운) pillar of a timeline; years and months also meet their decade pillar.
+ * Every decade after the first is a transition period, as is a year or month in which one begins.
+ */
+export function analyzeLuckTimeline(
+  timeline: LuckTimeline,
+  natal: FourPillars<PillarIdx>,
+  basis: LuckBasis,
+): LuckInteractions {
+  return {
+    yongshin: basis.yongshin,
+    gisin: basis.gisin,
+    decades: timeline.decades.map((d, i) => analyzeLuckPillar(d.pillar, natal, basis, null, i > 0)),
+    years: timeline.years.map((y) =>
+      analyzeLuckPillar(
+        y.pillar,
+        natal,
+        basis,
+        decadeAtAge(timeline, y.approxStartAgeYears),
+        spansDecadeChange(timeline, y.approxStartAgeYears, y.approxEndAgeYears),
+      ),
+    ),
+    months: timeline.months?.map((m) =>
+      analyzeLuckPillar(
+        m.pillar,
+        natal,
+        basis,
+        decadeAtAge(timeline, m.approxStartAgeYears),
+        spansDecadeChange(timeline, m.approxStartAgeYears, m.approxEndAgeYears),
+      ),
+    ),
+  };
+}
@@ -1,4 +1,8 @@
-import type { PillarIdx } from '../core/cycle.js';
+import type { BranchIdx, Element, PillarIdx, StemIdx } from '../core/cycle.js';
+import type { RelationType } from '../core/branchRelations.js';
+import type { LifeStage } from '../core/lifeStage.js';
+import type { StemRelationType } from '../core/stemRelations.js';
+import type { TenGod } from '../core/tenGod.js';
 import type { JieTermId } from '../calendar/solarTerms.js';
 
 export type FortuneDirection = 'FORWARD' | 'BACKWARD';
@@ -151,3 +155,73 @@ export interface FortuneTimeline {
   months?: MonthLuck[];
   days?: DayLuck[];
 }
+
+/** 운 길흉 등급 (용신/기신 + 원국과의 합/충 관계). */
+export type LuckQuality = 'VERY_FAVORABLE' | 'FAVORABLE' | 'NEUTRAL' | 'UNFAVORABLE' | 'VERY_UNFAVORABLE';
+
+/** A natal pillar position, or the decade pillar a year/month falls in. */
+export type LuckRelationPartner = 'year' | 'month' | 'day' | 'hour' | 'decade';
+
+export interface LuckStemRelation {
+  type: StemRelationType;
+  /** Partners whose stem forms the relation with the luck stem (one entry per relation, not per partner). */
+  with: LuckRelationPartner[];
+  members: [StemIdx, StemIdx]; // sorted
+  resultElement?: Element;
+}
+
+export interface LuckBranchRelation {
+  type: RelationType;
+  /**
+   * Partners whose branches complete the relation together with the luck branch.
+   * A pair relation met by several partners with the same branch is listed once.
+   */
+  with: LuckRelationPartner[];
+  members: BranchIdx[]; // sorted
+}
+
+/** How one luck pillar (대운/세운/월운) interacts with the natal chart. */
+export interface LuckInteraction {
+  pillar: PillarIdx;
+
+  /** Ten gods relative to the day master: the luck stem and the luck branch's main hidden stem. */
+  tenGods: { stem: TenGod; branch: TenGod };
+
+  /** 십이운성 of the day master at the luck branch. */
+  lifeStage: LifeStage;
+
+  stemRelations: LuckStemRelation[];
+  branchRelations: LuckBranchRelation[];
+
+  /**
+   * Strength index (신강/신약, [-1, +1]) before and with this pillar.
+   * The pillar is weighted as two of the chart's eight stem/branch slots.
+   */
+  strength: { before: number; after: number; delta: number };
+
+  /** Luck stem or branch element equals the yongshin / gisin. */
+  isYongshinElement: boolean;
+  isGisinElement: boolean;
+
+  /** 합 (stem HAP, YUKHAP, SAMHAP, BANGHAP) vs 충/형/파/해/원진. */
+  hasGoodRelations: boolean;
+  hasBadRelations: boolean;
+
+  quality: LuckQuality;
+
+  /** 교운기: a decade after the first, or a year/month in which a later decade begins. */
+  isTransitionPeriod: boolean;
+
+  /** One-line label, e.g. "임자운: 편인(偏印) / 목욕(沐浴) -- 길 [용신운]". */
+  summary: string;
+}
+
+export interface LuckInteractions {
+  /** Yongshin/gisin used for grading (null when unavailable). */
+  yongshin: Element | null;
+  gisin: Element | null;
+  /** Parallel to FortuneTimeline.decades / years / months. */
+  decades: LuckInteraction[];
+  years: LuckInteraction[];
+  months?: LuckInteraction[];
+}
@@ -0,0 +1,129 @@
+import type { EngineConfig } from '../api/types.js';
+import type { Graph, NodeSpec } from './types.js';
+import type {
+  CompatibilityChart,
+  CompatibilityPolicy,
+  CompatibilityScore,
+  DayBranchCompatibility,
+  DayMasterCompatibility,
+  ElementComplementarity,
+  YongshinSupport,
+} from '../compatibility/types.js';
+import { readCompatibilityPolicy } from '../compatibility/policy.js';
+import {
+  combineCompatibilityScores,
+  compareDayBranches,
+  compareDayMasters,
+  compareElements,
+  compareYongshin,
+} from '../compatibility/compute.js';
+
+/** Evaluation context for a two-person (궁합) comparison. */
+export interface CompatibilityContext {
+  a: CompatibilityChart;
+  b: CompatibilityChart;
+  config: EngineConfig;
+}
+
+function n<T>(spec: NodeSpec<T, CompatibilityContext>): NodeSpec<T, CompatibilityContext> {
+  return spec;
+}
+
+export function buildCompatibilityGraph(): Graph<CompatibilityContext> {
+  const nodes: NodeSpec<any, CompatibilityContext>[] = [];
+
+  // --- Inputs (each person's chart facts)
+  nodes.push(
+    n<CompatibilityChart>({
+      id: 'input.a',
+      deps: [],
+      explain: 'A의 원국(pillars.*, elements.distribution.total, rules.yongshin.best).',
+      compute: (ctx) => ctx.a,
+    }),
+  );
+
+  nodes.push(
+    n<CompatibilityChart>({
+      id: 'input.b',
+      deps: [],
+      explain: 'B의 원국(pillars.*, elements.distribution.total, rules.yongshin.best).',
+      compute: (ctx) => ctx.b,
+    }),
+  );
+
+  nodes.push(
+    n<CompatibilityPolicy>({
+      id: 'policy.compatibility',
+      deps: [],
+      explain: 'config.strategies.compatibility(궁합 항목 가중치, 합계 1로 정규화).',
+      compute: (ctx) => readCompatibilityPolicy(ctx.config),
+    }),
+  );
+
+  // --- Components (each symmetric in A/B)
+  nodes.push(
+    n<DayMasterCompatibility>({
+      id: 'compatibility.dayMaster',
+      deps: ['input.a', 'input.b'],
+      formula: '天干合 95 > 相生 80 > 同干 60 > 同五行 55 > 相剋 45 > 天干冲 30 (우선순위: 합 > 동일 > 상생 > 충 > 상극)',
+      explain: '두 일간(日干)의 천간합/충과 오행 생극 관계를 판정한다.',
+      compute: (_ctx, get) => compareDayMasters(get<CompatibilityChart>('input.a'), get<CompatibilityChart>('input.b')),
+    }),
+  );
+
+  nodes.push(
+    n<DayBranchCompatibility>({
+      id: 'compatibility.dayBranch',
+      deps: ['input.a', 'input.b'],
+      formula: 'score = clamp(60 + Σdelta, 0, 100); 육합 +30, 충 -30, 원진 -25, 형/해 -20, 자형/파 -15',
+      explain: '두 일지(日支, 배우자궁) 사이의 육합/충/형/파/해/원진을 탐지한다.',
+      compute: (_ctx, get) => compareDayBranches(get<CompatibilityChart>('input.a'), get<CompatibilityChart>('input.b')),
+    }),
+  );
+
+  nodes.push(
+    n<ElementComplementarity>({
+      id: 'compatibility.elements',
+      deps: ['input.a', 'input.b'],
+      formula: 'coverage(X←Y) = Σ min(deficitX, surplusY) / Σ deficitX (기준 20%); score = 100·mean(coverage)',
+      explain: '한쪽 원국에 부족한 오행을 상대 원국이 얼마나 채워 주는지(양방향 평균).',
+      compute: (_ctx, get) => compareElements(get<CompatibilityChart>('input.a'), get<CompatibilityChart>('input.b')),
+    }),
+  );
+
+  nodes.push(
+    n<YongshinSupport>({
+      id: 'compatibility.yongshin',
+      deps: ['input.a', 'input.b'],
+      formula: 'support(X←Y) = 0.5·min(1, shareY[용신X]/0.2) + 0.5·(일간Y = 용신X ? 1 : 일간Y 生 용신X ? 0.5 : 0)',
+      explain: '상대 원국이 내 용신(用神)을 얼마나 보태 주는지(양방향 평균).',
+      compute: (_ctx, get) => compareYongshin(get<CompatibilityChart>('input.a'), get<CompatibilityChart>('input.b')),
+    }),
+  );
+
+  nodes.push(
+    n<CompatibilityScore>({
+      id: 'compatibility.score',
+      deps: [
+        'compatibility.dayMaster',
+        'compatibility.dayBranch',
+        'compatibility.elements',
+        'compatibility.yongshin',
+        'policy.compatibility',
+      ],
+      formula: 'total = Σ weight_k · score_k',
+      explain: '궁합 항목 점수를 가중 합산한다(A/B 대칭).',
+      compute: (_ctx, get) =>
+        combineCompatibilityScores(get<CompatibilityPolicy>('policy.compatibility'), {
+          dayMaster: get<DayMasterCompatibility>('compatibility.dayMaster').score,
+          dayBranch: get<DayBranchCompatibility>('compatibility.dayBranch').score,
+          elements: get<ElementComplementarity>('compatibility.elements').score,
+          yongshin: get<YongshinSupport>('compatibility.yongshin').score,
+        }),
+    }),
+  );
+
+  const g: Graph<CompatibilityContext> = new Map();
+  for (const spec of nodes) g.set(spec.id, spec);
+  return g;
+}
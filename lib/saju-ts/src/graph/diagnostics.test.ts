@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import type { SajuRequest } from '../api/types.js';
+import { nearestHourBoundary, readDiagnosticsPolicy } from './diagnostics.js';
+
+const at = (instant: string): SajuRequest => ({ birth: { instant }, sex: 'M' });
+const codesOf = (items: Array<{ code: string }>) => items.map((d) => d.code);
+
+describe('analysis diagnostics', () => {
+  it('finds the nearest double-hour boundary', () => {
+    expect(nearestHourBoundary({ h: 23, min: 5 })).toEqual({ boundary: '23:00', minutes: 5 });
+    expect(nearestHourBoundary({ h: 0, min: 50 })).toEqual({ boundary: '01:00', minutes: -10 });
+    expect(readDiagnosticsPolicy({ diagnostics: { hourWindowMinutes: 0, jieWindowMinutes: -1 } })).toEqual({
+      hourWindowMinutes: 0,
+      jieWindowMinutes: 60,
+    });
+  });
+
+  it('stays empty for an unremarkable chart', () => {
+    const { diagnostics } = createEngine().analyze(at('1986-04-19T05:45:00+09:00')).report;
+    expect(diagnostics).toEqual({ warnings: [], notes: [], items: [] });
+  });
+
+  it('flags births near a jie instant and near an hour boundary', () => {
+    // 2024 立春 ≈ 2024-02-04 17:27 KST
+    const { diagnostics } = createEngine().analyze(at('2024-02-04T17:20:00+09:00')).report;
+    const [jie] = diagnostics.items;
+    expect(jie).toMatchObject({ code: 'JIE_BOUNDARY_NEAR', severity: 'warning', nodeId: 'pillars.month', data: { termId: 'LICHUN' } });
+    expect((jie!.data as any).minutes).toBeLessThan(0);
+    expect(diagnostics.warnings).toEqual([jie!.message]);
+
+    const hour = createEngine().analyze(at('1986-04-19T07:10:00+09:00')).report.diagnostics.items;
+    expect(hour).toEqual([
+      expect.objectContaining({ code: 'HOUR_BOUNDARY_NEAR', nodeId: 'pillars.hour', data: expect.objectContaining({ boundary: '07:00', minutes: 10 }) }),
+    ]);
+
+    const off = createEngine({ strategies: { diagnostics: { jieWindowMinutes: 0, hourWindowMinutes: 0 } } });
+    expect(off.analyze(at('2024-02-04T17:20:00+09:00')).report.diagnostics.items).toEqual([]);
+    expect(off.analyze(at('1986-04-19T07:10:00+09:00')).report.diagnostics.items).toEqual([]);
+  });
+
+  it('reports config problems with their node ids', () => {
+    const engine = createEngine({
+      school: { id: 'ziping.strict+no.such.school' },
+      calendar: {
+        yearBoundary: 'liChun',
+        monthBoundary: 'jieqi',
+        dayBoundary: 'midnight',
+        hourBoundary: 'doubleHour',
+        solarTerms: { method: 'approx' },
+        trueSolarTime: { enabled: true, equationOfTime: 'off', applyTo: 'hourOnly' },
+      },
+    } as any);
+    const { items, notes } = engine.analyze(at('1986-04-19T05:45:00+09:00')).report.diagnostics;
+    expect(items.map((d) => [d.code, d.nodeId])).toEqual([
+      ['UNKNOWN_PRESET', 'policy.schoolPresets'],
+      ['APPROX_SOLAR_TERMS', 'calendar.solarTermsAround'],
+      ['TRUE_SOLAR_TIME_NO_LOCATION', 'time.trueSolarCorrection'],
+    ]);
+    expect(items[0]!.data).toEqual({ presetId: 'no.such.school' });
+    expect(notes).toHaveLength(1);
+  });
+
+  it('surfaces DSL assertion failures and tags compare() items by chart', () => {
+    const engine = createEngine({
+      extensions: {
+        rulesets: { gyeokguk: { id: 'test', version: '1', rules: [{ id: 'test.mustFail', assert: { op: 'eq', args: [1, 2] }, explain: 'always fails' }] } },
+      },
+    } as any);
+    const { items } = engine.analyze(at('1986-04-19T05:45:00+09:00')).report.diagnostics;
+    expect(items).toEqual([
+      expect.objectContaining({ code: 'RULE_ASSERTION_FAILED', nodeId: 'rules.gyeokguk', data: { ruleId: 'test.mustFail' } }),
+    ]);
+
+    const pair = createEngine().compare(at('2024-02-04T17:20:00+09:00'), at('1986-04-19T05:45:00+09:00'));
+    expect(codesOf(pair.report.diagnostics.items)).toEqual(['JIE_BOUNDARY_NEAR']);
+    expect(pair.report.diagnostics.items[0]!.subject).toBe('a');
+  });
+});
@@ -0,0 +1,86 @@
+import type { Diagnostic, FullReport } from '../api/types.js';
+import type { LocalTime } from '../calendar/iso.js';
+import type { SolarTermInstant } from '../calendar/solarTerms.js';
+import type { DiagnosticSink } from './types.js';
+
+/**
+ * Diagnostics policy (config.strategies.diagnostics).
+ *
+ * Windows are in minutes; 0 turns the corresponding boundary check off.
+ */
+export interface DiagnosticsPolicy {
+  /** Warn when the birth instant is within this many minutes of a jie (節入) instant. */
+  jieWindowMinutes: number;
+  /** Warn when the (hour-boundary) local time is within this many minutes of a double-hour boundary. */
+  hourWindowMinutes: number;
+}
+
+export const DEFAULT_DIAGNOSTICS_POLICY: DiagnosticsPolicy = {
+  jieWindowMinutes: 60,
+  hourWindowMinutes: 15,
+};
+
+function windowOf(x: unknown, fallback: number): number {
+  return typeof x === 'number' && Number.isFinite(x) && x >= 0 ? x : fallback;
+}
+
+export function readDiagnosticsPolicy(strategies: Record<string, unknown> | undefined): DiagnosticsPolicy {
+  const raw: any = (strategies as any)?.diagnostics ?? {};
+  const d = DEFAULT_DIAGNOSTICS_POLICY;
+  return {
+    jieWindowMinutes: windowOf(raw.jieWindowMinutes, d.jieWindowMinutes),
+    hourWindowMinutes: windowOf(raw.hourWindowMinutes, d.hourWindowMinutes),
+  };
+}
+
+export interface BoundaryProximity<B> {
+  boundary: B;
+  /** Signed minutes from the boundary (negative = before it). */
+  minutes: number;
+}
+
+/** Nearest jie instant to `utcMs` (terms sorted by utcMs). */
+export function nearestJieBoundary(utcMs: number, terms: SolarTermInstant[]): BoundaryProximity<SolarTermInstant> | null {
+  let best: BoundaryProximity<SolarTermInstant> | null = null;
+  for (const t of terms) {
+    const minutes = (utcMs - t.utcMs) / 60000;
+    if (!best || Math.abs(minutes) < Math.abs(best.minutes)) best = { boundary: t, minutes };
+  }
+  return best;
+}
+
+/** Nearest double-hour boundary (odd o'clock: 23:00 子, 01:00 丑, …) to a local time, as 'HH:00'. */
+export function nearestHourBoundary(time: LocalTime): BoundaryProximity<string> {
+  const t = time.h * 60 + time.min;
+  const k = Math.round((t - 60) / 120);
+  const b = 60 + 120 * k;
+  const h = ((b / 60) % 24 + 24) % 24;
+  return { boundary: `${String(h).padStart(2, '0')}:00`, minutes: t - b };
+}
+
+/** One RULE_ASSERTION_FAILED item per failed ruleId. */
+export function reportRuleAssertions(
+  diag: DiagnosticSink,
+  failed: ReadonlyArray<{ ruleId: string; explain?: string }>,
+): void {
+  const seen = new Set<string>();
+  for (const f of failed) {
+    if (seen.has(f.ruleId)) continue;
+    seen.add(f.ruleId);
+    diag({
+      code: 'RULE_ASSERTION_FAILED',
+      severity: 'warning',
+      message: `규칙 assert 실패: ${f.ruleId}${f.explain ? ` — ${f.explain}` : ''}`,
+      data: { ruleId: f.ruleId },
+    });
+  }
+}
+
+/** FullReport.diagnostics from the evaluator's items (warnings/notes keep the messages only). */
+export function toDiagnosticsReport(items: Diagnostic[]): FullReport['diagnostics'] {
+  return {
+    warnings: items.filter((d) => d.severity === 'warning').map((d) => d.message),
+    notes: items.filter((d) => d.severity === 'info').map((d) => d.message),
+    items,
+  };
+}
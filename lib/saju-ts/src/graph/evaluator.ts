@@ -1,18 +1,22 @@
-import type { TraceNode } from '../api/types.js';
+import type { Diagnostic, TraceNode } from '../api/types.js';
 import type { Context, Graph } from './types.js';
 
-export function evaluate(
-  graph: Graph,
-  ctx: Context,
+export function evaluate<C = Context>(
+  graph: Graph<C>,
+  ctx: C,
   wanted: string[],
+  opts: { overrides?: Record<string, unknown> } = {},
 ): {
   results: Map<string, unknown>;
   trace: { nodes: TraceNode[]; edges: Array<{ from: string; to: string }> };
+  diagnostics: Diagnostic[];
 } {
   const cache = new Map<string, unknown>();
   const visiting = new Set<string>();
   const traceNodes: TraceNode[] = [];
   const edges: Array<{ from: string; to: string }> = [];
+  const diagnostics: Diagnostic[] = [];
+  const overrides = opts.overrides;
 
   const uniqEdge = (from: string, to: string) => `${from}→${to}`;
   const seenEdges = new Set<string>();
@@ -38,7 +42,23 @@ export function evaluate(
       }
     }
 
-    const output = node.compute(ctx, get);
+    const computed = node.compute(ctx, get, (d) => diagnostics.push({ ...d, nodeId: node.id }));
+    let overridden = false;
+    let output = computed;
+    if (node.override != null && overrides != null && Object.hasOwn(overrides, id)) {
+      try {
+        output = node.override(overrides[id], computed);
+        overridden = true;
+      } catch (err) {
+        diagnostics.push({
+          code: 'OVERRIDE_INVALID',
+          severity: 'warning',
+          nodeId: id,
+          message: `'${id}' overrides 값이 올바르지 않아 계산값을 그대로 사용했습니다.`,
+          data: { value: overrides[id], reason: err instanceof Error ? err.message : String(err) },
+        });
+      }
+    }
     cache.set(id, output);
 
     traceNodes.push({
@@ -48,6 +68,7 @@ export function evaluate(
       explain: node.explain,
       input,
       output,
+      ...(overridden ? { overridden: { computed } } : {}),
     });
 
     visiting.delete(id);
@@ -56,11 +77,22 @@ export function evaluate(
 
   for (const id of wanted) get(id);
 
+  for (const id of Object.keys(overrides ?? {})) {
+    if (graph.get(id)?.override) continue;
+    diagnostics.push({
+      code: 'OVERRIDE_IGNORED',
+      severity: 'warning',
+      nodeId: id,
+      message: `'${id}' 노드는 덮어쓸 수 없어 overrides 항목을 무시했습니다.`,
+    });
+  }
+
   return {
     results: cache,
     trace: {
       nodes: traceNodes,
       edges,
     },
+    diagnostics,
   };
 }
@@ -1,6 +1,6 @@
 import type { Graph, NodeSpec } from './types.js';
 import type { PillarIdx } from '../core/cycle.js';
-import type { EngineWeights, FourPillars, TenGod } from '../api/types.js';
+import type { CivilTimeView, EngineWeights, FourPillars, TenGod } from '../api/types.js';
 import {
   calcDayPillar,
   calcHourPillar,
@@ -11,28 +11,32 @@ import {
   monthOrderByPolicy,
 } from '../calendar/pillars.js';
 import type { JieBoundariesAround, SolarTermsAround } from '../calendar/solarTerms.js';
-import { getSolarTermsAround, isJieTermId } from '../calendar/solarTerms.js';
+import { getSolarTermsAround, isJieTermId, jieTermMonthOrder } from '../calendar/solarTerms.js';
 import type { LocalDateTime } from '../calendar/iso.js';
 import type { TrueSolarTimeCorrection } from '../calendar/trueSolarTime.js';
 import { applyMinuteOffsetToLocalDateTime, computeTrueSolarTimeCorrection } from '../calendar/trueSolarTime.js';
 import type { DetectedRelation } from '../core/branchRelations.js';
-import { detectBranchRelations } from '../core/branchRelations.js';
+import { detectBranchRelations, readExtendedRelationPolicy } from '../core/branchRelations.js';
 import type { ElementDistribution } from '../core/elementDistribution.js';
 import { elementDistributionFromPillars } from '../core/elementDistribution.js';
 import type { HiddenStem } from '../core/hiddenStems.js';
 import { hiddenStemsOfBranch } from '../core/hiddenStems.js';
+import type { MonthSaryeong } from '../core/saryeong.js';
+import { determineSaryeong, readSaryeongPolicy } from '../core/saryeong.js';
 import type { LifeStage, LifeStagePolicy } from '../core/lifeStage.js';
 import { lifeStageOf } from '../core/lifeStage.js';
 import type { StemRelation } from '../core/stemRelations.js';
 import { detectStemRelations } from '../core/stemRelations.js';
+import { PILLAR_POSITIONS, readRelationPositionPolicy } from '../core/relationPlacement.js';
 import { tenGodOf } from '../core/tenGod.js';
 
 import type { PillarsScoringResult } from '../core/scoring.js';
 import { scorePillars } from '../core/scoring.js';
 
-import type { FortuneTimeline } from '../fortune/types.js';
+import type { FortuneTimeline, LuckInteractions } from '../fortune/types.js';
 import { readFortunePolicy } from '../fortune/policy.js';
 import { computeFortuneTimeline } from '../fortune/compute.js';
+import { analyzeLuckTimeline, luckBasisOf } from '../fortune/interactions.js';
 
 import type { RuleFacts, StrengthFacts } from '../rules/facts.js';
 import { buildRuleFacts } from '../rules/facts.js';
@@ -42,6 +46,10 @@ import type { GyeokgukResult } from '../rules/gyeokguk.js';
 import { computeGyeokguk } from '../rules/gyeokguk.js';
 import type { ShinsalResult } from '../rules/shinsal.js';
 import { computeShinsal } from '../rules/shinsal.js';
+import { hasSchoolPreset, resolveSchoolPresetPacks } from '../schools/index.js';
+import { schoolPresetIdsOf } from '../api/config.js';
+import { nearestHourBoundary, nearestJieBoundary, readDiagnosticsPolicy, reportRuleAssertions } from './diagnostics.js';
+import { overridePillar, overrideYongshin } from './overrides.js';
 
 function n<T>(spec: NodeSpec<T>): NodeSpec<T> {
   return spec;
@@ -70,11 +78,21 @@ export function buildGraph(): Graph {
   const nodes: NodeSpec<any>[] = [];
 
   // --- Inputs (normalized)
+  nodes.push(
+    n<CivilTimeView | null>({
+      id: 'time.civilTime',
+      deps: [],
+      formula: 'standard = wallClock - dst; offset = history(Asia/Seoul, wallClock)',
+      explain: '한국 표준시/서머타임 이력에 따른 출생 시각 보정(birth.timeZone 지정 시). 없으면 null.',
+      compute: (ctx) => ctx.request.birth.civilTime ?? null,
+    }),
+  );
+
   nodes.push(
     n({
       id: 'time.localDateTime',
-      deps: [],
-      explain: 'ISO instant에서 추출한 로컬 날짜/시각(오프셋 포함).',
+      deps: ['time.civilTime'],
+      explain: 'ISO instant에서 추출한 로컬 날짜/시각(오프셋 포함). civilTime 보정 시 서머타임을 뺀 표준시.',
       compute: (ctx) => ctx.parsed.localDateTime,
     }),
   );
@@ -105,16 +123,25 @@ export function buildGraph(): Graph {
       deps: ['time.utcMs', 'time.localDateTime', 'policy.calendar'],
       formula: 'Δ(min) = 4*(lon-stdMeridian) + EoT',
       explain: '진태양시 보정(경도 보정 + 균시차). location.lon이 없으면 적용하지 않는다.',
-      compute: (ctx, get) => {
+      compute: (ctx, get, diag) => {
         const utcMs = get<number>('time.utcMs');
         const ldt = get<LocalDateTime>('time.localDateTime');
         const cal = get<any>('policy.calendar');
-        return computeTrueSolarTimeCorrection({
+        const c = computeTrueSolarTimeCorrection({
           utcMs,
           offsetMinutes: ldt.offsetMinutes,
           location: ctx.request.location,
           policy: cal.trueSolarTime,
         });
+        if (c.enabled && !c.applied) {
+          diag({
+            code: 'TRUE_SOLAR_TIME_NO_LOCATION',
+            severity: 'warning',
+            message: '진태양시 보정이 켜져 있지만 location.lon이 없어 표준시로 계산했습니다.',
+            data: { reason: c.reason },
+          });
+        }
+        return c;
       },
     }),
   );
@@ -189,7 +216,7 @@ export function buildGraph(): Graph {
       id: 'calendar.solarTermsAround',
       deps: ['time.localDateTime', 'policy.calendar'],
       explain: '24절기(정기) 시각(UTC) — baseYear±1을 포함한 정렬된 목록. (절입/진단/확장 기능에서 재사용)',
-      compute: (_ctx, get) => {
+      compute: (_ctx, get, diag) => {
         const ldt = get<any>('time.localDateTime');
         const cal = get<any>('policy.calendar');
 
@@ -198,6 +225,14 @@ export function buildGraph(): Graph {
         if (!needs) return null;
 
         const method = cal.solarTerms?.method === 'approx' ? 'approx' : 'meeus';
+        if (method === 'approx') {
+          diag({
+            code: 'APPROX_SOLAR_TERMS',
+            severity: 'info',
+            message: '절기 시각을 근사식으로 계산했습니다(절입 전후 출생은 오차가 있을 수 있음).',
+            data: { method },
+          });
+        }
         return getSolarTermsAround(ldt.date.y, method);
       },
     }),
@@ -239,6 +274,28 @@ export function buildGraph(): Graph {
     }),
   );
 
+  nodes.push(
+    n<{ requested: string[]; unknown: string[] }>({
+      id: 'policy.schoolPresets',
+      deps: [],
+      explain: '요청된 유파 프리셋 id(school.id 등)와 그중 내장/사용자 팩에 없어 무시된 id.',
+      compute: (ctx, _get, diag) => {
+        const requested = schoolPresetIdsOf(ctx.config);
+        const packs = resolveSchoolPresetPacks(ctx.config);
+        const unknown = requested.filter((id) => !hasSchoolPreset(id, packs));
+        for (const id of unknown) {
+          diag({
+            code: 'UNKNOWN_PRESET',
+            severity: 'warning',
+            message: `알 수 없는 유파 프리셋 '${id}'을(를) 무시했습니다.`,
+            data: { presetId: id },
+          });
+        }
+        return { requested, unknown };
+      },
+    }),
+  );
+
   // --- Pillars
   nodes.push(
     n<PillarIdx>({
@@ -252,6 +309,7 @@ export function buildGraph(): Graph {
         const baseDate = effectiveDayDate(ldt, cal.dayBoundary);
         return calcDayPillar(baseDate);
       },
+      override: overridePillar,
     }),
   );
 
@@ -261,12 +319,23 @@ export function buildGraph(): Graph {
       deps: ['time.localDateTimeForHour', 'policy.calendar', 'pillars.day'],
       formula: 'hourStemIdx = ((dayStemIdx mod 5)*2 + hourBranchIdx) mod 10',
       explain: '시지(2시간 단위)와 일간으로 시간(時干)을 결정한다.',
-      compute: (_ctx, get) => {
+      compute: (ctx, get, diag) => {
         const ldt = get<any>('time.localDateTimeForHour');
         const cal = get<any>('policy.calendar');
         const day = get<PillarIdx>('pillars.day');
+        const { hourWindowMinutes } = readDiagnosticsPolicy(ctx.config.strategies);
+        const near = nearestHourBoundary(ldt.time);
+        if (hourWindowMinutes > 0 && Math.abs(near.minutes) <= hourWindowMinutes) {
+          diag({
+            code: 'HOUR_BOUNDARY_NEAR',
+            severity: 'warning',
+            message: `출생 시각이 시주 경계(${near.boundary})와 ${Math.abs(near.minutes)}분 차이입니다. 시주가 달라질 수 있습니다.`,
+            data: { boundary: near.boundary, minutes: near.minutes, windowMinutes: hourWindowMinutes },
+          });
+        }
         return calcHourPillar(day.stem, ldt.time, cal.hourBoundary);
       },
+      override: overridePillar,
     }),
   );
 
@@ -285,6 +354,7 @@ export function buildGraph(): Graph {
         const method = cal.solarTerms?.method === 'approx' ? 'approx' : 'meeus';
         return calcYearPillarFromLiChunUtc(ldt.date.y, utcMs, liChunUtcMs, cal.yearBoundary, ldt.offsetMinutes, method);
       },
+      override: overridePillar,
     }),
   );
 
@@ -294,15 +364,27 @@ export function buildGraph(): Graph {
       deps: ['time.localDateTime', 'time.utcMs', 'policy.calendar', 'calendar.jieBoundariesAround', 'pillars.year'],
       formula: 'base = ((yearStem mod 5)*2 + 2) mod 10, monthStem = (base + m) mod 10',
       explain: '월 경계(monthBoundary)를 적용해 월주를 결정한다(절기 경계는 실제 절기 시각을 사용).',
-      compute: (_ctx, get) => {
+      compute: (ctx, get, diag) => {
         const ldt = get<any>('time.localDateTime');
         const utcMs = get<number>('time.utcMs');
         const cal = get<any>('policy.calendar');
         const boundaries = get<JieBoundariesAround | null>('calendar.jieBoundariesAround');
         const year = get<PillarIdx>('pillars.year');
+        const { jieWindowMinutes } = readDiagnosticsPolicy(ctx.config.strategies);
+        const near = boundaries && cal.monthBoundary === 'jieqi' ? nearestJieBoundary(utcMs, boundaries.terms) : null;
+        if (near && jieWindowMinutes > 0 && Math.abs(near.minutes) <= jieWindowMinutes) {
+          const minutes = Math.round(near.minutes);
+          diag({
+            code: 'JIE_BOUNDARY_NEAR',
+            severity: 'warning',
+            message: `출생 시각이 절입(${near.boundary.id})과 ${Math.abs(minutes)}분 차이입니다. 월주${near.boundary.id === 'LICHUN' ? '·연주' : ''}가 달라질 수 있습니다.`,
+            data: { termId: near.boundary.id, termUtcMs: near.boundary.utcMs, minutes, windowMinutes: jieWindowMinutes },
+          });
+        }
         const order = monthOrderByPolicy(utcMs, ldt, cal.monthBoundary, boundaries);
         return calcMonthPillarFromOrder(year.stem, order);
       },
+      override: overridePillar,
     }),
   );
 
@@ -350,6 +432,33 @@ export function buildGraph(): Graph {
     }),
   );
 
+  nodes.push(
+    n<MonthSaryeong | null>({
+      id: 'hiddenStems.saryeong',
+      deps: ['time.utcMs', 'calendar.jieBoundariesAround', 'pillars.month', 'policy.rules'],
+      formula: 'dayInMonth = floor((birthUtc - lastJieUtc) / 1d) + 1 → 월률분야(여기/중기/정기 일수)',
+      explain: '월지 지장간 중 사령(司令) 천간 — 월을 연 절(節)로부터 지난 날수로 판정. 절기 시각이 없거나 월지와 맞지 않으면 null.',
+      compute: (_ctx, get) => {
+        const utcMs = get<number>('time.utcMs');
+        const boundaries = get<JieBoundariesAround | null>('calendar.jieBoundariesAround');
+        const month = get<PillarIdx>('pillars.month');
+        const { strategies } = get<{ strategies: Record<string, unknown> }>('policy.rules');
+        const policy = readSaryeongPolicy(strategies);
+        if (!policy.enabled || !boundaries) return null;
+
+        const jie = boundaries.terms.filter((t) => t.utcMs <= utcMs).at(-1);
+        if (!jie || !isJieTermId(jie.id) || (jieTermMonthOrder(jie.id) + 2) % 12 !== month.branch) return null;
+
+        const dayInMonth = Math.floor((utcMs - jie.utcMs) / 86_400_000) + 1;
+        return {
+          ...determineSaryeong(month.branch, dayInMonth, policy.variant),
+          variant: policy.variant,
+          jie: { id: jie.id, utcMs: jie.utcMs },
+        };
+      },
+    }),
+  );
+
   nodes.push(
     n<FourPillars<Array<HiddenStem & { tenGod: TenGod }>>>({
       id: 'tenGods.hiddenStems',
@@ -394,14 +503,21 @@ export function buildGraph(): Graph {
   nodes.push(
     n<DetectedRelation[]>({
       id: 'relations.branches',
-      deps: ['pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour'],
-      explain: '네 지지 간의 합/충/해/파/원진/삼합/방합을 탐지한다.',
+      deps: ['pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour', 'policy.rules'],
+      formula: 'intensity = mean(positionWeights[pillar]) × distanceFactors[distance − (members − 1)]',
+      explain:
+        '네 지지 간의 합/충/해/파/원진/삼합/방합(정책에 따라 반합/허합/암합/공협 포함)을 탐지하고, 관계마다 놓인 기둥·거리·위치 가중 강도를 붙인다.',
       compute: (_ctx, get) => {
         const y = get<PillarIdx>('pillars.year');
         const m = get<PillarIdx>('pillars.month');
         const d = get<PillarIdx>('pillars.day');
         const h = get<PillarIdx>('pillars.hour');
-        return detectBranchRelations([y.branch, m.branch, d.branch, h.branch]);
+        const { strategies } = get<{ strategies: Record<string, unknown> }>('policy.rules');
+        return detectBranchRelations(
+          [y.branch, m.branch, d.branch, h.branch],
+          { positions: PILLAR_POSITIONS, policy: readRelationPositionPolicy(strategies) },
+          readExtendedRelationPolicy(strategies),
+        );
       },
     }),
   );
@@ -410,14 +526,19 @@ export function buildGraph(): Graph {
   nodes.push(
     n<StemRelation[]>({
       id: 'relations.stems',
-      deps: ['pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour'],
-      explain: '네 천간 간의 합(合)과 충(冲)을 탐지한다.',
+      deps: ['pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour', 'policy.rules'],
+      formula: 'intensity = mean(positionWeights[pillar]) × distanceFactors[distance − 1]',
+      explain: '네 천간 간의 합(合)과 충(冲)을 탐지하고, 관계마다 놓인 기둥·거리·위치 가중 강도를 붙인다.',
       compute: (_ctx, get) => {
         const y = get<PillarIdx>('pillars.year');
         const m = get<PillarIdx>('pillars.month');
         const d = get<PillarIdx>('pillars.day');
         const h = get<PillarIdx>('pillars.hour');
-        return detectStemRelations([y.stem, m.stem, d.stem, h.stem]);
+        const { strategies } = get<{ strategies: Record<string, unknown> }>('policy.rules');
+        return detectStemRelations([y.stem, m.stem, d.stem, h.stem], {
+          positions: PILLAR_POSITIONS,
+          policy: readRelationPositionPolicy(strategies),
+        });
       },
     }),
   );
@@ -494,7 +615,16 @@ export function buildGraph(): Graph {
   nodes.push(
     n<RuleFacts>({
       id: 'rules.facts',
-      deps: ['pillars.year', 'pillars.month', 'pillars.day', 'pillars.hour', 'elements.distribution', 'scores.pillars', 'policy.rules'],
+      deps: [
+        'pillars.year',
+        'pillars.month',
+        'pillars.day',
+        'pillars.hour',
+        'elements.distribution',
+        'scores.pillars',
+        'hiddenStems.saryeong',
+        'policy.rules',
+      ],
       explain: 'DSL 룰 엔진에 투입할 fact-base(정규화된 수치/특징)를 구성한다.',
       compute: (ctx, get) => {
         const y = get<PillarIdx>('pillars.year');
@@ -503,8 +633,9 @@ export function buildGraph(): Graph {
         const h = get<PillarIdx>('pillars.hour');
         const ed = get<ElementDistribution>('elements.distribution');
         const scoring = get<PillarsScoringResult>('scores.pillars');
+        const saryeong = get<MonthSaryeong | null>('hiddenStems.saryeong');
 
-        return buildRuleFacts({ config: ctx.config, pillars: { year: y, month: m, day: d, hour: h }, elementDistribution: ed, scoring });
+        return buildRuleFacts({ config: ctx.config, pillars: { year: y, month: m, day: d, hour: h }, elementDistribution: ed, scoring, saryeong });
       },
     }),
   );
@@ -523,7 +654,12 @@ export function buildGraph(): Graph {
       id: 'rules.yongshin',
       deps: ['rules.facts'],
       explain: '용신/희신 후보를 수학적 스코어 + DSL 보정으로 랭킹한다.',
-      compute: (ctx, get) => computeYongshin(ctx.config, get<RuleFacts>('rules.facts')),
+      compute: (ctx, get, diag) => {
+        const res = computeYongshin(ctx.config, get<RuleFacts>('rules.facts'));
+        reportRuleAssertions(diag, res.rules.assertionsFailed);
+        return res;
+      },
+      override: overrideYongshin,
     }),
   );
 
@@ -532,7 +668,11 @@ export function buildGraph(): Graph {
       id: 'rules.gyeokguk',
       deps: ['rules.facts'],
       explain: '격국을 DSL 스코어링으로 판정한다(기초: 월지 본기 십성 기반).',
-      compute: (ctx, get) => computeGyeokguk(ctx.config, get<RuleFacts>('rules.facts')),
+      compute: (ctx, get, diag) => {
+        const res = computeGyeokguk(ctx.config, get<RuleFacts>('rules.facts'));
+        reportRuleAssertions(diag, res.rules.assertionsFailed);
+        return res;
+      },
     }),
   );
 
@@ -541,7 +681,50 @@ export function buildGraph(): Graph {
       id: 'rules.shinsal',
       deps: ['rules.facts'],
       explain: '신살을 DSL/패턴 매칭으로 판정한다(데모: 도화/역마).',
-      compute: (ctx, get) => computeShinsal(ctx.config, get<RuleFacts>('rules.facts')),
+      compute: (ctx, get, diag) => {
+        const res = computeShinsal(ctx.config, get<RuleFacts>('rules.facts'));
+        reportRuleAssertions(diag, [
+          ...res.rules.assertionsFailed,
+          ...(res.rules.conditions ?? []).flatMap((c) => c.assertionsFailed),
+        ]);
+        return res;
+      },
+    }),
+  );
+
+  // --- Luck interactions (운 × 원국)
+  nodes.push(
+    n<LuckInteractions>({
+      id: 'fortune.interactions',
+      deps: [
+        'fortune.timeline',
+        'pillars.year',
+        'pillars.month',
+        'pillars.day',
+        'pillars.hour',
+        'strength.index',
+        'rules.yongshin',
+        'policy.lifeStages',
+        'policy.weights',
+      ],
+      formula: 'quality = f(용신/기신 오행 일치, 합 vs 충·형·파·해·원진); Δstrength = index(원국+운) - index(원국)',
+      explain: '대운/세운/월운 간지마다 원국 4주(세운·월운은 해당 대운 포함)와의 합충형파해, 십성, 십이운성, 신강도 변화, 용신/기신 일치로 길흉 등급을 매긴다.',
+      compute: (_ctx, get) => {
+        const timeline = get<FortuneTimeline>('fortune.timeline');
+        const natal = fp(
+          get<PillarIdx>('pillars.year'),
+          get<PillarIdx>('pillars.month'),
+          get<PillarIdx>('pillars.day'),
+          get<PillarIdx>('pillars.hour'),
+        );
+        const basis = luckBasisOf(
+          get<YongshinResult>('rules.yongshin'),
+          get<StrengthFacts>('strength.index'),
+          get<LifeStagePolicy>('policy.lifeStages'),
+          get<EngineWeights>('policy.weights').hiddenStems,
+        );
+        return analyzeLuckTimeline(timeline, natal, basis);
+      },
     }),
   );
 
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine } from '../api/engine.js';
+import type { SajuRequest } from '../api/types.js';
+import type { YongshinResult } from '../rules/yongshin.js';
+import { overridePillar } from './overrides.js';
+
+const birth = { instant: '1986-04-19T05:45:00+09:00' };
+const req = (overrides?: Record<string, unknown>): SajuRequest => ({ birth, sex: 'M', overrides });
+const traceOf = (bundle: ReturnType<ReturnType<typeof createEngine>['analyze']>, id: string) =>
+  bundle.report.trace.nodes.find((n) => n.id === id)!;
+
+describe('request overrides', () => {
+  it('accepts { stem, branch } or a hanja pair and rejects invalid pillars', () => {
+    expect(overridePillar('甲子')).toEqual({ stem: 0, branch: 0 });
+    expect(overridePillar({ stem: 3, branch: 7 })).toEqual({ stem: 3, branch: 7 });
+    expect(() => overridePillar({ stem: 0, branch: 1 })).toThrow(/overridePillar/);
+    expect(() => overridePillar('甲')).toThrow(/overridePillar/);
+  });
+
+  it('forces the hour pillar, propagates downstream and keeps the computed value in the trace', () => {
+    const engine = createEngine();
+    const plain = engine.analyze(req());
+    const forced = engine.analyze(req({ 'pillars.hour': '戊午' }));
+
+    expect(forced.summary.pillars!.hour).toMatchObject({ stem: { idx: 4 }, branch: { idx: 6 } });
+    expect(forced.summary.pillars!.day).toEqual(plain.summary.pillars!.day);
+    expect(forced.summary.tenGods!.hourStem).not.toBe(plain.summary.tenGods!.hourStem);
+
+    const node = traceOf(forced, 'pillars.hour');
+    expect(node.output).toEqual({ stem: 4, branch: 6 });
+    expect(node.overridden).toEqual({ computed: traceOf(plain, 'pillars.hour').output });
+    expect(traceOf(forced, 'pillars.day').overridden).toBeUndefined();
+  });
+
+  it('forces the yongshin and reranks it first', () => {
+    const plain = createEngine().analyze(req());
+    const other = plain.summary.yongshin!.ranking.at(-1)!.element;
+    const forced = createEngine().analyze(req({ 'rules.yongshin': other }));
+
+    expect(forced.summary.yongshin!.best).toBe(other);
+    expect(forced.summary.yongshin!.ranking[0]!.element).toBe(other);
+    expect((traceOf(forced, 'rules.yongshin').overridden!.computed as YongshinResult).best).toBe(plain.summary.yongshin!.best);
+  });
+
+  it('keeps the computed value and warns when an override value is invalid', () => {
+    const plain = createEngine().analyze(req());
+    const bad = createEngine().analyze(req({ 'rules.yongshin': 'AIR', 'pillars.hour': { stem: 0, branch: 1 } }));
+
+    expect(bad.summary.yongshin!.best).toBe(plain.summary.yongshin!.best);
+    expect(bad.summary.pillars!.hour).toEqual(plain.summary.pillars!.hour);
+    expect(traceOf(bad, 'pillars.hour').overridden).toBeUndefined();
+    expect(bad.report.diagnostics.items.map((d) => [d.code, d.nodeId])).toEqual([
+      ['OVERRIDE_INVALID', 'pillars.hour'],
+      ['OVERRIDE_INVALID', 'rules.yongshin'],
+    ]);
+    expect(bad.report.diagnostics.items[1]!.data).toMatchObject({ value: 'AIR', reason: expect.stringMatching(/overrideYongshin/) });
+  });
+
+  it('ignores non-overridable ids with a diagnostic', () => {
+    const { report } = createEngine().analyze(req({ 'tenGods.stems': {}, 'pillar.hour': '甲子' }));
+    expect(report.diagnostics.items.map((d) => [d.code, d.nodeId])).toEqual([
+      ['OVERRIDE_IGNORED', 'tenGods.stems'],
+      ['OVERRIDE_IGNORED', 'pillar.hour'],
+    ]);
+    expect(report.trace.nodes.some((n) => n.overridden)).toBe(false);
+  });
+});
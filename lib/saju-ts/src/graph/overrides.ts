@@ -0,0 +1,50 @@
+import type { Element, PillarIdx } from '../core/cycle.js';
+import { BRANCH_HANJA, STEM_HANJA } from '../core/cycle.js';
+import type { YongshinResult } from '../rules/yongshin.js';
+
+/**
+ * Coercers for `SajuRequest.overrides` (keyed by graph node id).
+ *
+ * A node is overridable only when its NodeSpec carries an `override` coercer; the evaluator still
+ * computes the node (for the trace) and then hands the coerced override to downstream nodes.
+ */
+
+const ELEMENTS: readonly Element[] = ['WOOD', 'FIRE', 'EARTH', 'METAL', 'WATER'];
+
+/** `{ stem, branch }` (0-based, same parity) or a hanja pair such as '甲子'. */
+export function overridePillar(value: unknown): PillarIdx {
+  let stem: unknown;
+  let branch: unknown;
+  if (typeof value === 'string' && [...value.trim()].length === 2) {
+    const [s, b] = [...value.trim()];
+    stem = STEM_HANJA.indexOf(s as (typeof STEM_HANJA)[number]);
+    branch = BRANCH_HANJA.indexOf(b as (typeof BRANCH_HANJA)[number]);
+  } else if (value && typeof value === 'object') {
+    stem = (value as any).stem;
+    branch = (value as any).branch;
+  }
+
+  const ok =
+    Number.isInteger(stem) && Number.isInteger(branch) &&
+    (stem as number) >= 0 && (stem as number) < 10 &&
+    (branch as number) >= 0 && (branch as number) < 12 &&
+    (stem as number) % 2 === (branch as number) % 2;
+  if (!ok) throw new Error(`overridePillar: not a sexagenary pillar: ${JSON.stringify(value)}`);
+  return { stem: stem as number, branch: branch as number };
+}
+
+/**
+ * An element ('FIRE') or `{ best: 'FIRE' }`: forces `best` and moves it to the top of the ranking.
+ * The rest of the computed result (scores, basis) is kept.
+ */
+export function overrideYongshin(value: unknown, computed: YongshinResult): YongshinResult {
+  const best = typeof value === 'string' ? value : (value as any)?.best;
+  if (!ELEMENTS.includes(best)) throw new Error(`overrideYongshin: not an element: ${JSON.stringify(value)}`);
+  const el = best as Element;
+  const picked = computed.ranking.find((r) => r.element === el) ?? { element: el, score: computed.scores[el] ?? 0 };
+  return {
+    ...computed,
+    best: el,
+    ranking: [picked, ...computed.ranking.filter((r) => r.element !== el)],
+  };
+}
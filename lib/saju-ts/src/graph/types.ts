@@ -1,4 +1,4 @@
-import type { EngineConfig, SajuRequest } from '../api/types.js';
+import type { Diagnostic, EngineConfig, SajuRequest } from '../api/types.js';
 import type { ParsedInstant } from '../calendar/iso.js';
 
 export interface Context {
@@ -7,12 +7,21 @@ export interface Context {
   config: EngineConfig;
 }
 
-export interface NodeSpec<T> {
+export interface NodeSpec<T, C = Context> {
   id: string;
   deps: string[];
   formula?: string;
   explain?: string;
-  compute: (ctx: Context, get: <U>(id: string) => U) => T;
+  compute: (ctx: C, get: <U>(id: string) => U, diag: DiagnosticSink) => T;
+  /**
+   * Present on nodes that accept a request override (`SajuRequest.overrides[id]`):
+   * validates/coerces the override against the computed value. Throws on invalid input
+   * (the evaluator then keeps the computed value and reports OVERRIDE_INVALID).
+   */
+  override?: (value: unknown, computed: T) => T;
 }
 
-export type Graph = Map<string, NodeSpec<any>>;
+/** Writes a diagnostic on behalf of the computing node (the evaluator fills in `nodeId`). */
+export type DiagnosticSink = (d: Omit<Diagnostic, 'nodeId'>) => void;
+
+export type Graph<C = Context> = Map<string, NodeSpec<any, C>>;
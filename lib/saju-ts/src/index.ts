@@ -1,9 +1,36 @@
 export { createEngine } from './api/engine.js';
-export { defaultConfig } from './api/config.js';
-export { analyzeSaju, configFromPreset, createBirthInput } from './compat/springLegacy.js';
-export type { LegacyBirthInput, LegacySajuConfig, LegacySajuOptions } from './compat/springLegacy.js';
+export { defaultConfig, schoolPresetIdsOf } from './api/config.js';
+export { DEFAULT_DIAGNOSTICS_POLICY, readDiagnosticsPolicy } from './graph/diagnostics.js';
+export type { DiagnosticsPolicy } from './graph/diagnostics.js';
+export { analyzeSaju, configFromPreset, createBirthInput, periodPillarsAt } from './compat/springLegacy.js';
+export type {
+  LegacyBirthInput,
+  LegacyPeriodPillars,
+  LegacyPillarCodes,
+  LegacySajuConfig,
+  LegacySajuOptions,
+} from './compat/springLegacy.js';
+
+export { lunarToSolar, solarToLunar, resolveLunarDate, leapMonthOf, LunarDateError, MIN_LUNAR_YEAR, MAX_LUNAR_YEAR } from './calendar/koreanLunar.js';
+export type { LunarDate, LunarDateIssue, LunarDateResolution, SolarDate } from './calendar/koreanLunar.js';
+export { KOREAN_DST_RANGES, koreanDstOffsetMinutes, resolveKoreanCivilTime } from './calendar/koreanCivilTime.js';
+export type { KoreanCivilTimeResolution, KoreanDstRange } from './calendar/koreanCivilTime.js';
+export { CALENDAR_CACHE_CAPACITY, clearCalendarCaches } from './calendar/cache.js';
+export { searchPillars } from './calendar/pillarSearch.js';
+export type { PillarLevel, PillarPattern, PillarSearchOptions, PillarSearchWindow } from './calendar/pillarSearch.js';
+
+export { analyzeLuckPillar, analyzeLuckTimeline, decadeAtUtcMs, determineLuckQuality, luckBasisOf } from './fortune/interactions.js';
+export type { LuckBasis, LuckTimeline } from './fortune/interactions.js';
+export type {
+  LuckBranchRelation,
+  LuckInteraction,
+  LuckInteractions,
+  LuckQuality,
+  LuckRelationPartner,
+  LuckStemRelation,
+} from './fortune/types.js';
 
-export { listSchoolPresets, getSchoolPreset, applySchoolPreset } from './schools/index.js';
+export { listSchoolPresets, getSchoolPreset, applySchoolPreset, hasSchoolPreset } from './schools/index.js';
 export type { SchoolPreset } from './schools/index.js';
 
 export { packAnalysisBundleZip, unpackAnalysisBundleZip } from './artifacts/index.js';
@@ -14,14 +41,28 @@ export type { NarrationArtifact, NarrationLanguage, NarrationOptions } from './n
 
 export type {
   AnalysisBundle,
+  AnalyzeManyOptions,
+  AnalyzeManyProgress,
   Artifact,
+  CivilTimeView,
+  CompatibilityBundle,
+  CompatibilityScore,
+  CompatibilitySummary,
+  DayMasterRelationType,
+  Diagnostic,
+  DiagnosticCode,
+  DiagnosticSeverity,
+  ElementComplementarity,
   EngineConfig,
   EngineWeights,
+  LuckInteractionView,
   SchoolConfig,
   FullReport,
   SajuRequest,
+  SaryeongView,
   SummaryReport,
   TraceNode,
+  YongshinSupport,
 } from './api/types.js';
 
 export type {
@@ -61,6 +102,11 @@ export { compileShinsalConditionsRuleSpec } from './rules/spec/compileShinsalCon
 
 export { stemHanja, branchHanja, stemElement, branchElement, stemYinYang, branchYinYang } from './core/cycle.js';
 export { tenGodOf } from './core/tenGod.js';
-export { detectBranchRelations } from './core/branchRelations.js';
+export { DEFAULT_EXTENDED_RELATION_POLICY, detectBranchRelations, readExtendedRelationPolicy } from './core/branchRelations.js';
+export type { AmhapScope, DetectedRelation, ExtendedRelationPolicy } from './core/branchRelations.js';
+export { PILLAR_POSITIONS, placementOf, placementsOf } from './core/relationPlacement.js';
+export type { PillarPosition, RelationPlacement, RelationPositionInput, RelationPositionPolicy } from './core/relationPlacement.js';
 export { hiddenStemsOfBranch, rawHiddenStemsTable } from './core/hiddenStems.js';
+export { determineSaryeong, saryeongPhases } from './core/saryeong.js';
+export type { MonthSaryeong, SaryeongPhase, SaryeongPolicy, SaryeongResult, SaryeongVariant } from './core/saryeong.js';
 export { elementDistributionFromPillars } from './core/elementDistribution.js';
@@ -2,7 +2,8 @@ import type { EngineConfig } from '../api/types.js';
 import type { BranchIdx, Element, PillarIdx, StemIdx } from '../core/cycle.js';
 import { branchElement, branchIdxFromHanja, ganzhiIndex, pillar, stemElement, stemIdxFromHanja } from '../core/cycle.js';
 import type { DetectedRelation, RelationType } from '../core/branchRelations.js';
-import { detectBranchRelations } from '../core/branchRelations.js';
+import { detectBranchRelations, readExtendedRelationPolicy } from '../core/branchRelations.js';
+import { PILLAR_POSITIONS, readRelationPositionPolicy } from '../core/relationPlacement.js';
 import { controls, generates } from '../core/elements.js';
 import type { ElementDistribution } from '../core/elementDistribution.js';
 import type { ElementVector } from '../core/elementVector.js';
@@ -15,6 +16,7 @@ import type { HiddenStemRole } from '../core/hiddenStems.js';
 import { hiddenStemsOfBranch } from '../core/hiddenStems.js';
 import { lifeStageOf } from '../core/lifeStage.js';
 import type { LifeStagePolicy } from '../core/lifeStage.js';
+import type { MonthSaryeong } from '../core/saryeong.js';
 
 import type { NormalizedShinsalCatalog, RawShinsalCatalog } from './shinsalCatalog.js';
 import { mergeRawShinsalCatalog, normalizeShinsalCatalog } from './shinsalCatalog.js';
@@ -143,7 +145,7 @@ export interface RuleFacts {
     stems: StemIdx[];
     branches: BranchIdx[];
     relations: {
-      /** Full detected relations (합/충/형/해/파/원진/삼합/방합/삼형) */
+      /** Full detected relations (합/충/형/해/파/원진/삼합/방합/삼형 + 반합/허합/암합/공협), with pillar placements and intensity */
       detected: DetectedRelation[];
       /** Convenience index: relation-type → list of member arrays */
       byType: Partial<Record<RelationType, BranchIdx[][]>>;
@@ -162,6 +164,17 @@ export interface RuleFacts {
       /** 刑 (형) + 自刑/三刑 포함 */
       hyeongBranches: BranchIdx[];
 
+      /** 半合 (반합/준삼합): 왕지를 포함한 삼합 두 글자 */
+      banhapBranches: BranchIdx[];
+      /** 虛合 (허합): 왕지 없이 생지 + 고지 */
+      heohapBranches: BranchIdx[];
+      /** 暗合 (암합): 지장간끼리의 천간합 */
+      amhapBranches: BranchIdx[];
+      /** 拱夾 (공협): 한 글자를 사이에 둔 두 지지 */
+      gonghyeopBranches: BranchIdx[];
+      /** 허합/공협이 불러온(명식에 없는) 지지 */
+      virtualBranches: BranchIdx[];
+
       /** Common “damage” set used for quality/attenuation. */
       damagedBranches: BranchIdx[];
 
@@ -197,6 +210,18 @@ export interface RuleFacts {
     /** True if 월지 本气(본기) stem is exposed(透干) in any pillar stem. */
     mainHiddenStemVisible: boolean;
 
+    /**
+     * 사령(司令) 천간 — 월을 연 절(節)로부터 지난 날수로 정한 월지 지장간.
+     * null when solar-term boundaries are unavailable or saryeong is disabled.
+     */
+    saryeong: {
+      stem: StemIdx;
+      element: Element;
+      role: HiddenStemRole;
+      tenGod: TenGod;
+      dayInMonth: number;
+    } | null;
+
     /**
      * ZiPing-style 格局 anchor candidate derived from month hidden-stem exposure.
      * - MAIN_EXPOSED: 本气透干 → 본기를 고정
@@ -246,6 +271,8 @@ export interface RuleFacts {
           rootNorm: number;
           damageByType: Record<string, number>;
           damageRelations: DetectedRelation[];
+          /** 1 = 격 천간이 사령, 0.7 = 같은 오행이 사령, 0.3 = 다른 천간이 사령; null = 사령 미판정 */
+          saryeong?: number | null;
         };
       };
     };
@@ -2090,7 +2117,8 @@ const DEFAULT_GYEOK_QUALITY_POLICY = {
   // Damage weights (파격 요인) — count of relations involving 月支
   damageWeights: { CHUNG: 1.0, HAE: 0.7, PA: 0.7, WONJIN: 0.5, HYEONG: 0.8 },
   // Clarity aggregation weights (청탁) — normalized internally
-  clarityWeights: { gap: 0.25, alignment: 0.2, method: 0.2, purity: 0.2, root: 0.15 },
+  // saryeong is skipped (and the rest renormalized) when no saryeong could be determined.
+  clarityWeights: { gap: 0.25, alignment: 0.2, method: 0.2, purity: 0.2, root: 0.15, saryeong: 0.15 },
   // Thresholds for classification flags
   qingThreshold: 0.66,
   integrityThreshold: 0.6,
@@ -2113,8 +2141,9 @@ function computeMonthGyeokQuality(args: {
   tenGodScoresRanking: Array<{ tenGod: TenGod; score: number }>;
   detectedRelations: DetectedRelation[];
   byType: Partial<Record<RelationType, BranchIdx[][]>>;
+  saryeong: MonthSaryeong | null;
 }): RuleFacts['month']['gyeok']['quality'] {
-  const { config, monthBranch, gyeokStem, gyeokTenGod, gyeokMethod, monthGyeokCandidates, branches, hiddenStemPolicy, tenGodScoresRanking, detectedRelations, byType } = args;
+  const { config, monthBranch, gyeokStem, gyeokTenGod, gyeokMethod, monthGyeokCandidates, branches, hiddenStemPolicy, tenGodScoresRanking, detectedRelations, byType, saryeong } = args;
 
   const raw: any = (config.strategies as any)?.gyeokguk?.quality ?? {};
   const policy = {
@@ -2188,6 +2217,13 @@ function computeMonthGyeokQuality(args: {
   }
   const rootFactor = policy.rootNorm > 0 ? clamp01(rootScore / policy.rootNorm) : 0;
 
+  // --- Saryeong(司令): does the 格 stem (or its element) command the month right now?
+  const saryeongScore = saryeong == null
+    ? null
+    : saryeong.commandingStem === gyeokStem
+      ? 1.0
+      : stemElement(saryeong.commandingStem) === gyeokEl ? 0.7 : 0.3;
+
   // --- Damage: relations involving month branch (破格 요인)
   const countInvolving = (t: RelationType): number => (byType[t] ?? []).filter((m) => (m as BranchIdx[]).includes(monthBranch)).length;
   const cnt = {
@@ -2214,11 +2250,13 @@ function computeMonthGyeokQuality(args: {
     method: typeof cwRaw.method === 'number' ? cwRaw.method : DEFAULT_GYEOK_QUALITY_POLICY.clarityWeights.method,
     purity: typeof cwRaw.purity === 'number' ? cwRaw.purity : DEFAULT_GYEOK_QUALITY_POLICY.clarityWeights.purity,
     root: typeof cwRaw.root === 'number' ? cwRaw.root : DEFAULT_GYEOK_QUALITY_POLICY.clarityWeights.root,
+    saryeong: saryeongScore == null ? 0 : (typeof cwRaw.saryeong === 'number' ? cwRaw.saryeong : DEFAULT_GYEOK_QUALITY_POLICY.clarityWeights.saryeong),
   };
-  const cwSum = cw.gap + cw.alignment + cw.method + cw.purity + cw.root;
+  const cwSum = cw.gap + cw.alignment + cw.method + cw.purity + cw.root + cw.saryeong;
   const n = cwSum > 0 ? (1 / cwSum) : 1;
   const clarity = clamp01(
-    (cw.gap * gap + cw.alignment * alignment + cw.method * methodScore + cw.purity * purity + cw.root * rootFactor) * n,
+    (cw.gap * gap + cw.alignment * alignment + cw.method * methodScore + cw.purity * purity + cw.root * rootFactor +
+      cw.saryeong * (saryeongScore ?? 0)) * n,
   );
 
   const qingZhuo: 'QING' | 'ZHUO' =
@@ -2238,6 +2276,7 @@ function computeMonthGyeokQuality(args: {
   if (gap < 0.2) reasons.push('gap:low');
   if (alignmentRank > 1) reasons.push(`alignmentRank:${alignmentRank}`);
   if (rootFactor >= 0.7) reasons.push('root:strong');
+  if (saryeongScore != null) reasons.push(`saryeong:${saryeongScore === 1 ? 'COMMANDING' : saryeongScore >= 0.7 ? 'SAME_ELEMENT' : 'OTHER'}`);
   if (damage > 0) reasons.push(`damage:${damage.toFixed(2)}`);
   reasons.push(`qingZhuo:${qingZhuo}`);
 
@@ -2257,6 +2296,7 @@ function computeMonthGyeokQuality(args: {
       rootNorm: policy.rootNorm,
       damageByType: cnt as any,
       damageRelations,
+      saryeong: saryeongScore,
     },
   };
 }
@@ -2957,14 +2997,21 @@ export function buildRuleFacts(args: {
   pillars: { year: PillarIdx; month: PillarIdx; day: PillarIdx; hour: PillarIdx };
   elementDistribution: ElementDistribution;
   scoring: PillarsScoringResult;
+  /** Month saryeong (graph node `hiddenStems.saryeong`); omitted/null leaves it out of the gyeok quality. */
+  saryeong?: MonthSaryeong | null;
 }): RuleFacts {
   const { config, pillars, elementDistribution, scoring } = args;
+  const saryeong = args.saryeong ?? null;
 
   const stems: StemIdx[] = [pillars.year.stem, pillars.month.stem, pillars.day.stem, pillars.hour.stem];
   const branches: BranchIdx[] = [pillars.year.branch, pillars.month.branch, pillars.day.branch, pillars.hour.branch];
 
   // --- Branch relations (합/충/형/해/파/원진/삼합/방합/삼형)
-  const detectedRelations = detectBranchRelations(branches);
+  const detectedRelations = detectBranchRelations(
+    branches,
+    { positions: PILLAR_POSITIONS, policy: readRelationPositionPolicy(config.strategies) },
+    readExtendedRelationPolicy(config.strategies),
+  );
   const byType: Partial<Record<RelationType, BranchIdx[][]>> = {};
   for (const r of detectedRelations) {
     const list = (byType[r.type] ??= []);
@@ -2982,6 +3029,13 @@ export function buildRuleFacts(args: {
   const hyeongBranches = uniqueBranches(
     (['HYEONG', 'JA_HYEONG', 'SAMHYEONG'] as RelationType[]).flatMap((t) => (byType[t] ?? []).flatMap((m) => m)) as BranchIdx[],
   );
+  const banhapBranches = gatherBranches('BANHAP');
+  const heohapBranches = gatherBranches('HEOHAP');
+  const amhapBranches = gatherBranches('AMHAP');
+  const gonghyeopBranches = gatherBranches('GONGHYEOP');
+  const virtualBranches = uniqueBranches(
+    detectedRelations.filter((r) => r.type === 'HEOHAP' || r.type === 'GONGHYEOP').flatMap((r) => r.missing ?? []),
+  );
 
   // Configurable “damage” relation types used for shinsal attenuation/quality.
   const rawDamageTypes = (config.strategies as any)?.shinsal?.damageRelations ?? (config.strategies as any)?.shinsal?.damageTypes;
@@ -3176,6 +3230,7 @@ export function buildRuleFacts(args: {
     tenGodScoresRanking,
     detectedRelations,
     byType,
+    saryeong,
   });
 
   const climateBase = computeClimateFacts(config, pillars.month.branch);
@@ -3217,6 +3272,11 @@ export function buildRuleFacts(args: {
         paBranches,
         wonjinBranches,
         hyeongBranches,
+        banhapBranches,
+        heohapBranches,
+        amhapBranches,
+        gonghyeopBranches,
+        virtualBranches,
         damagedBranches,
         damageTypes,
       },
@@ -3243,6 +3303,15 @@ export function buildRuleFacts(args: {
       mainTenGod: monthMainTG,
       hiddenStems: monthHiddenStems,
       mainHiddenStemVisible: monthMainVisible,
+      saryeong: saryeong
+        ? {
+          stem: saryeong.commandingStem,
+          element: stemElement(saryeong.commandingStem),
+          role: saryeong.commandingRole,
+          tenGod: tenGodOf(dayStem, saryeong.commandingStem),
+          dayInMonth: saryeong.dayInMonth,
+        }
+        : null,
       gyeok: { stem: gyeokStem, tenGod: gyeokTenGod, method: gyeokMethod, support: groupSupport, candidates: monthGyeokCandidates, quality: monthGyeokQuality },
     },
 
@@ -1,2 +1,2 @@
 export type { SchoolPreset, SchoolPresetPack } from './presets.js';
-export { listSchoolPresets, getSchoolPreset, applySchoolPreset, applySchoolPresets, resolveSchoolPresetPacks } from './presets.js';
+export { listSchoolPresets, getSchoolPreset, applySchoolPreset, applySchoolPresets, hasSchoolPreset, resolveSchoolPresetPacks } from './presets.js';
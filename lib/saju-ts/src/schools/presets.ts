@@ -56,6 +56,11 @@ function resolvePresetFromPacks(presetId: string, packs: SchoolPresetPack[]): Sc
   return idx[presetId]?.preset ?? null;
 }
 
+/** True when `presetId` (or an alias) resolves in the built-in pack or the given packs. */
+export function hasSchoolPreset(presetId: string, packs?: SchoolPresetPack[]): boolean {
+  return resolvePresetFromPacks(presetId, packs?.length ? packs : [BUILTIN_PACK]) != null;
+}
+
 function concatRuleSpecsLocal(baseRuleSpecs: any, overlayRuleSpecs: any): any {
   // Re-exported helper, but keep a local wrapper to avoid leaking 'any' at call sites.
   return concatRuleSpecs(baseRuleSpecs, overlayRuleSpecs);
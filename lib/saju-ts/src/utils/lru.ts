@@ -0,0 +1,50 @@
+export interface LruCache<K, V> {
+  readonly capacity: number;
+  get(key: K): V | undefined;
+  set(key: K, value: V): void;
+  /** Cached value for `key`, computing and storing it on a miss. */
+  getOrCompute(key: K, compute: () => V): V;
+  clear(): void;
+  size(): number;
+}
+
+/**
+ * Bounded least-recently-used cache.
+ * Relies on Map insertion order: a hit is re-inserted at the end, eviction drops the first key.
+ */
+export function createLruCache<K, V>(capacity: number): LruCache<K, V> {
+  const cap = Math.max(1, Math.floor(capacity));
+  const map = new Map<K, V>();
+
+  const get = (key: K): V | undefined => {
+    if (!map.has(key)) return undefined;
+    const value = map.get(key) as V;
+    map.delete(key);
+    map.set(key, value);
+    return value;
+  };
+
+  const set = (key: K, value: V): void => {
+    if (map.has(key)) map.delete(key);
+    map.set(key, value);
+    while (map.size > cap) {
+      const oldest = map.keys().next();
+      if (oldest.done) break;
+      map.delete(oldest.value);
+    }
+  };
+
+  return {
+    capacity: cap,
+    get,
+    set,
+    getOrCompute(key, compute) {
+      if (map.has(key)) return get(key) as V;
+      const value = compute();
+      set(key, value);
+      return value;
+    },
+    clear: () => map.clear(),
+    size: () => map.size,
+  };
+}
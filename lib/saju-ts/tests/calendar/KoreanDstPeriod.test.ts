@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { koreanDstOffsetMinutes } from '../../src/calendar/time/KoreanDstPeriod.js';
+import { koreanDstOffsetMinutes } from '../../src/calendar/koreanCivilTime.js';
 
 /**
  * Ported from KoreanDstPeriodTest.kt
@@ -5,13 +5,11 @@ import {
   solarToLunar,
   MIN_LUNAR_YEAR,
   MAX_LUNAR_YEAR,
-} from '../../src/calendar/lunar/KoreanLunarAlgorithmicConverter.js';
-import {
   createLunarDate,
   formatLunarDate,
   lunarDateEquals,
-} from '../../src/calendar/lunar/LunarDate.js';
-import type { LunarDate, SolarDate } from '../../src/calendar/lunar/LunarDate.js';
+} from '../../src/calendar/koreanLunar.js';
+import type { LunarDate, SolarDate } from '../../src/calendar/koreanLunar.js';
 
 // ── Helper ──────────────────────────────────────────────────────────────
 
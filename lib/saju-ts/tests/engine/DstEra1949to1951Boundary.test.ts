@@ -1,55 +1,53 @@
 import { describe, it, expect } from 'vitest';
-import { koreanDstOffsetMinutes, KOREAN_DST_RANGES } from '../../src/calendar/time/KoreanDstPeriod.js';
-import { adjustSolarTime } from '../../src/calendar/time/SolarTimeAdjuster.js';
-import { calculatePillars } from '../../src/engine/SajuCalculator.js';
-import { createBirthInput } from '../../src/domain/types.js';
-import { Gender } from '../../src/domain/Gender.js';
-import { createConfig } from '../../src/config/CalculationConfig.js';
+import { koreanDstOffsetMinutes, KOREAN_DST_RANGES } from '../../src/calendar/koreanCivilTime.js';
+import type { LocalDateTime } from '../../src/calendar/iso.js';
+import { createEngine } from '../../src/api/engine.js';
 
 /**
  * T-04: DST 1949-1951 era boundary and per-year verification.
  *
  * Verifies Korean first DST era (1948-1951) per-year boundary handling.
  * Checks:
- * 1. KoreanDstPeriod definitions are correct for each year
+ * 1. KOREAN_DST_RANGES definitions are correct for each year
  * 2. DST start/end boundaries work correctly
  * 3. DST summer vs winter correction differences
  * 4. 1952 (post-era) has no DST
  * 5. Pipeline produces valid results with DST correction
  */
 
-const SEOUL_LONGITUDE = 126.978;
-const TIMEZONE = 'Asia/Seoul';
+const SEOUL = { lat: 37.5665, lon: 126.978, name: 'Seoul' };
+const engine = createEngine();
 
 function dstAt(year: number, month: number, day: number): number {
   return koreanDstOffsetMinutes(year, month, day);
 }
 
-function solarAdjust(
-  year: number, month: number, day: number, hour: number, minute: number,
-  applyDst: boolean, includeEot = false,
-) {
-  return adjustSolarTime({
-    year, month, day, hour, minute,
-    timezone: TIMEZONE,
-    longitudeDeg: SEOUL_LONGITUDE,
-    applyDstHistory: applyDst,
-    includeEquationOfTime: includeEot,
-  });
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
 }
 
-function calcWithDst(
+function calc(
   year: number, month: number, day: number, hour: number, minute: number,
-  gender: Gender = Gender.MALE,
+  sex: 'M' | 'F' = 'M', applyDst = true,
 ) {
-  const input = createBirthInput({
-    birthYear: year, birthMonth: month, birthDay: day,
-    birthHour: hour, birthMinute: minute,
-    gender,
-    longitude: SEOUL_LONGITUDE,
+  return engine.analyze({
+    birth: {
+      instant: `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}:00+09:00`,
+      ...(applyDst ? { timeZone: 'Asia/Seoul' as const } : {}),
+    },
+    sex,
+    location: SEOUL,
   });
-  const config = createConfig({ applyDstHistory: true });
-  return calculatePillars(input, config);
+}
+
+/** Wall clock → standard time through the engine (`summary.civilTime`, `time.localDateTime`). */
+function civilAdjust(year: number, month: number, day: number, hour: number, minute: number) {
+  const bundle = calc(year, month, day, hour, minute);
+  const ldt = bundle.report.facts['time.localDateTime'] as LocalDateTime;
+  return {
+    dstCorrectionMinutes: bundle.summary.civilTime!.dstMinutes,
+    standardHour: ldt.time.h,
+  };
 }
 
 describe('DstEra1949to1951Boundary', () => {
@@ -73,24 +71,24 @@ describe('DstEra1949to1951Boundary', () => {
       expect(dstAt(1949, 10, 15)).toBe(0);
     });
 
-    it('SolarTimeAdjuster applies DST correction for 1949 summer', () => {
-      const result = solarAdjust(1949, 7, 15, 14, 30, true);
+    it('civil time applies DST correction for 1949 summer', () => {
+      const result = civilAdjust(1949, 7, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(60);
       expect(result.standardHour).toBe(13);
     });
 
-    it('SolarTimeAdjuster no DST for 1949 winter', () => {
-      const result = solarAdjust(1949, 1, 15, 14, 30, true);
+    it('civil time has no DST for 1949 winter', () => {
+      const result = civilAdjust(1949, 1, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(0);
       expect(result.standardHour).toBe(14);
     });
 
     it('pipeline produces valid pillars for 1949 DST summer', () => {
-      const result = calcWithDst(1949, 7, 15, 14, 30);
-      expect(result.pillars.year).toBeDefined();
-      expect(result.pillars.hour).toBeDefined();
-      expect(result.pillars.year.cheongan).toBeDefined();
-      expect(result.pillars.hour.jiji).toBeDefined();
+      const { summary } = calc(1949, 7, 15, 14, 30);
+      expect(summary.pillars!.year).toBeDefined();
+      expect(summary.pillars!.hour).toBeDefined();
+      expect(summary.pillars!.year.stem).toBeDefined();
+      expect(summary.pillars!.hour.branch).toBeDefined();
     });
   });
 
@@ -114,22 +112,22 @@ describe('DstEra1949to1951Boundary', () => {
       expect(dstAt(1950, 10, 15)).toBe(0);
     });
 
-    it('SolarTimeAdjuster applies DST correction for 1950 summer', () => {
-      const result = solarAdjust(1950, 7, 15, 14, 30, true);
+    it('civil time applies DST correction for 1950 summer', () => {
+      const result = civilAdjust(1950, 7, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(60);
       expect(result.standardHour).toBe(13);
     });
 
-    it('SolarTimeAdjuster no DST for 1950 winter', () => {
-      const result = solarAdjust(1950, 1, 15, 14, 30, true);
+    it('civil time has no DST for 1950 winter', () => {
+      const result = civilAdjust(1950, 1, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(0);
       expect(result.standardHour).toBe(14);
     });
 
     it('pipeline produces valid pillars for 1950 DST summer', () => {
-      const result = calcWithDst(1950, 7, 15, 14, 30, Gender.FEMALE);
-      expect(result.pillars.year.jiji).toBeDefined();
-      expect(result.pillars.month.cheongan).toBeDefined();
+      const { summary } = calc(1950, 7, 15, 14, 30, 'F');
+      expect(summary.pillars!.year.branch).toBeDefined();
+      expect(summary.pillars!.month.stem).toBeDefined();
     });
   });
 
@@ -153,22 +151,22 @@ describe('DstEra1949to1951Boundary', () => {
       expect(dstAt(1951, 10, 15)).toBe(0);
     });
 
-    it('SolarTimeAdjuster applies DST correction for 1951 summer', () => {
-      const result = solarAdjust(1951, 7, 15, 14, 30, true);
+    it('civil time applies DST correction for 1951 summer', () => {
+      const result = civilAdjust(1951, 7, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(60);
       expect(result.standardHour).toBe(13);
     });
 
-    it('SolarTimeAdjuster no DST for 1951 winter', () => {
-      const result = solarAdjust(1951, 1, 15, 14, 30, true);
+    it('civil time has no DST for 1951 winter', () => {
+      const result = civilAdjust(1951, 1, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(0);
       expect(result.standardHour).toBe(14);
     });
 
     it('pipeline produces valid pillars for 1951 DST summer', () => {
-      const result = calcWithDst(1951, 7, 15, 14, 30);
-      expect(result.pillars.day.cheongan).toBeDefined();
-      expect(result.pillars.day.jiji).toBeDefined();
+      const { summary } = calc(1951, 7, 15, 14, 30);
+      expect(summary.pillars!.day.stem).toBeDefined();
+      expect(summary.pillars!.day.branch).toBeDefined();
     });
   });
 
@@ -188,16 +186,16 @@ describe('DstEra1949to1951Boundary', () => {
       }
     });
 
-    it('SolarTimeAdjuster has no correction for 1952 summer', () => {
-      const result = solarAdjust(1952, 7, 15, 14, 30, true);
+    it('civil time has no correction for 1952 summer', () => {
+      const result = civilAdjust(1952, 7, 15, 14, 30);
       expect(result.dstCorrectionMinutes).toBe(0);
       expect(result.standardHour).toBe(14);
     });
 
     it('pipeline produces valid pillars for 1952 no-DST birth', () => {
-      const result = calcWithDst(1952, 7, 15, 14, 30, Gender.FEMALE);
-      expect(result.pillars.hour.cheongan).toBeDefined();
-      expect(result.pillars.hour.jiji).toBeDefined();
+      const { summary } = calc(1952, 7, 15, 14, 30, 'F');
+      expect(summary.pillars!.hour.stem).toBeDefined();
+      expect(summary.pillars!.hour.branch).toBeDefined();
     });
   });
 
@@ -233,19 +231,13 @@ describe('DstEra1949to1951Boundary', () => {
 
   describe('DST enabled vs disabled comparison', () => {
     it('DST-enabled vs disabled produces valid results for 1949 summer', () => {
-      const input = createBirthInput({
-        birthYear: 1949, birthMonth: 7, birthDay: 15,
-        birthHour: 2, birthMinute: 0, gender: Gender.MALE,
-        longitude: SEOUL_LONGITUDE,
-      });
-      const configWithDst = createConfig({ applyDstHistory: true });
-      const configNoDst = createConfig({ applyDstHistory: false });
-
-      const resultWithDst = calculatePillars(input, configWithDst);
-      const resultNoDst = calculatePillars(input, configNoDst);
+      const withDst = calc(1949, 7, 15, 2, 0, 'M', true);
+      const noDst = calc(1949, 7, 15, 2, 0, 'M', false);
 
-      expect(resultWithDst.pillars.year.cheongan).toBeDefined();
-      expect(resultNoDst.pillars.year.cheongan).toBeDefined();
+      expect(withDst.summary.pillars!.year.stem).toBeDefined();
+      expect(noDst.summary.pillars!.year.stem).toBeDefined();
+      expect((withDst.report.facts['time.localDateTime'] as LocalDateTime).time.h).toBe(1);
+      expect((noDst.report.facts['time.localDateTime'] as LocalDateTime).time.h).toBe(2);
     });
   });
 
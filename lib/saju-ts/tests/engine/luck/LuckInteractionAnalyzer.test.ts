@@ -1,143 +1,102 @@
 import { describe, it, expect } from 'vitest';
-import { LuckInteractionAnalyzer } from '../../../src/engine/luck/LuckInteractionAnalyzer.js';
-import { LuckQuality } from '../../../src/domain/LuckInteraction.js';
-import { Cheongan } from '../../../src/domain/Cheongan.js';
-import { Jiji } from '../../../src/domain/Jiji.js';
-import { Ohaeng } from '../../../src/domain/Ohaeng.js';
-import { Pillar } from '../../../src/domain/Pillar.js';
-import { PillarSet } from '../../../src/domain/PillarSet.js';
-import { SibiUnseong } from '../../../src/domain/SibiUnseong.js';
-import { Sipseong } from '../../../src/domain/Sipseong.js';
-import type { DaeunInfo, DaeunPillar } from '../../../src/domain/DaeunInfo.js';
-import { DaeunBoundaryMode } from '../../../src/domain/DaeunInfo.js';
-import type { SaeunPillar } from '../../../src/domain/SaeunInfo.js';
+import { analyzeLuckPillar, analyzeLuckTimeline, determineLuckQuality } from '../../../src/fortune/interactions.js';
+import type { LuckBasis, LuckTimeline } from '../../../src/fortune/interactions.js';
+import type { LuckInteraction } from '../../../src/fortune/types.js';
+import type { FourPillars } from '../../../src/api/types.js';
+import type { Element, PillarIdx } from '../../../src/core/cycle.js';
+import type { RelationType } from '../../../src/core/branchRelations.js';
+import type { StemRelationType } from '../../../src/core/stemRelations.js';
 
 /**
- * Ported from LuckInteractionAnalyzerTest.kt
+ * Ported from LuckInteractionAnalyzerTest.kt onto fortune/interactions
+ * (analyzeLuckPillar / determineLuckQuality / analyzeLuckTimeline).
+ * Relation labels such as '갑기합' are checked as { type, members }.
  */
 
+// Stems: 甲0 乙1 丙2 丁3 戊4 己5 庚6 辛7 壬8 癸9
+const GAP = 0, EUL = 1, BYEONG = 2, JEONG = 3, MU = 4, GI = 5, GYEONG = 6, SIN = 7, IM = 8, GYE = 9;
+// Branches: 子0 丑1 寅2 卯3 辰4 巳5 午6 未7 申8 酉9 戌10 亥11
+const JA = 0, CHUK = 1, IN = 2, MYO = 3, JIN = 4, SA = 5, O = 6, MI = 7, SIN_B = 8, YU = 9, SUL = 10, HAE = 11;
+
+const p = (stem: number, branch: number): PillarIdx => ({ stem, branch });
+const natal = (year: PillarIdx, month: PillarIdx, day: PillarIdx, hour: PillarIdx): FourPillars<PillarIdx> => ({ year, month, day, hour });
+
 // =========================================================================
-// Helper: dummy natal pillars
+// Helpers
 // =========================================================================
-function dummyNatalPillars(dayMaster: Cheongan = Cheongan.GAP): PillarSet {
-  return new PillarSet(
-    new Pillar(Cheongan.BYEONG, Jiji.O),
-    new Pillar(Cheongan.JEONG, Jiji.SA),
-    new Pillar(dayMaster, Jiji.SUL),
-    new Pillar(Cheongan.MU, Jiji.JIN),
-  );
+function dummyNatalPillars(dayMaster: number = GAP): FourPillars<PillarIdx> {
+  return natal(p(BYEONG, O), p(JEONG, SA), p(dayMaster, SUL), p(MU, JIN));
 }
 
-function makeDaeunPillar(cheongan: Cheongan, jiji: Jiji, startAge: number, endAge: number, order: number): DaeunPillar {
-  return {
-    pillar: new Pillar(cheongan, jiji),
-    startAge,
-    endAge,
-    order,
-  };
+/** 壬子 / 甲寅 / 甲戌 / 戊辰 */
+const JA_IN_NATAL = natal(p(IM, JA), p(GAP, IN), p(GAP, SUL), p(MU, JIN));
+
+function basis(yongshin: Element | null = null, gisin: Element | null = null): LuckBasis {
+  return { yongshin, gisin, strength: null, lifeStagePolicy: { earthRule: 'FOLLOW_FIRE', yinReversalEnabled: true } };
 }
 
-function makeDaeunInfo(pillars: DaeunPillar[], firstDaeunStartAge: number = 3): DaeunInfo {
-  return {
-    isForward: true,
-    firstDaeunStartAge,
-    daeunPillars: pillars,
-    boundaryMode: DaeunBoundaryMode.EXACT_TABLE,
-    warnings: [],
-    firstDaeunStartMonths: firstDaeunStartAge * 12,
-  };
+function hasStemRelation(li: LuckInteraction, type: StemRelationType, a: number, b: number): boolean {
+  return li.stemRelations.some((r) => r.type === type && r.members.includes(a) && r.members.includes(b));
 }
 
-function makeSaeunPillar(year: number, cheongan: Cheongan, jiji: Jiji): SaeunPillar {
-  return { year, pillar: new Pillar(cheongan, jiji) };
+function hasBranchRelation(li: LuckInteraction, type: RelationType, a: number, b: number): boolean {
+  return li.branchRelations.some((r) => r.type === type && r.members.includes(a) && r.members.includes(b));
+}
+
+/** Decades of ten years from age 3; each year covers [age, age + 1). */
+function timelineOf(decades: PillarIdx[], years: Array<{ pillar: PillarIdx; age: number }> = []): LuckTimeline {
+  return {
+    decades: decades.map((pillar, index) => ({
+      kind: 'DECADE' as const,
+      index,
+      startAgeYears: 3 + index * 10,
+      endAgeYears: 13 + index * 10,
+      pillar,
+    })),
+    years: years.map(({ pillar, age }, k) => ({
+      kind: 'YEAR' as const,
+      solarYear: 2024 + k,
+      pillar,
+      startUtcMs: 0,
+      endUtcMs: 0,
+      approxStartAgeYears: age,
+      approxEndAgeYears: age + 1,
+    })),
+  };
 }
 
 // =========================================================================
 // Sipseong tests: verifying day master -> luck stem relationship
 // =========================================================================
 describe('LuckInteractionAnalyzer sipseong', () => {
-  it('GAP day master with WATER daeun produces 편인', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA);
-    const natal = dummyNatalPillars(dayMaster);
+  const stemTenGod = (luck: PillarIdx) => analyzeLuckPillar(luck, dummyNatalPillars(GAP), basis()).tenGods.stem;
 
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.PYEON_IN);
+  it('GAP day master with WATER daeun produces 편인', () => {
+    expect(stemTenGod(p(IM, JA))).toBe('PYEON_IN');
   });
 
   it('GAP day master with GYE WATER produces 정인', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.GYE, Jiji.HAE);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.JEONG_IN);
+    expect(stemTenGod(p(GYE, HAE))).toBe('JEONG_IN');
   });
 
   it('GAP day master with METAL daeun produces 편관', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.GYEONG, Jiji.SIN);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.PYEON_GWAN);
+    expect(stemTenGod(p(GYEONG, SIN_B))).toBe('PYEON_GWAN');
   });
 
   it('GAP day master with SIN METAL produces 정관', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.SIN, Jiji.YU);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.JEONG_GWAN);
+    expect(stemTenGod(p(SIN, YU))).toBe('JEONG_GWAN');
   });
 
   it('GAP day master with GAP produces 비견', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.GAP, Jiji.IN);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.BI_GYEON);
+    expect(stemTenGod(p(GAP, IN))).toBe('BI_GYEON');
   });
 
   it('GAP day master with FIRE produces 식신', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.BYEONG, Jiji.O);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.SIK_SIN);
+    expect(stemTenGod(p(BYEONG, O))).toBe('SIK_SHIN');
   });
 
   it('GAP day master with EARTH produces 편재', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.MU, Jiji.JIN);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sipseong).toBe(Sipseong.PYEON_JAE);
+    expect(stemTenGod(p(MU, JIN))).toBe('PYEON_JAE');
   });
 });
 
@@ -146,32 +105,13 @@ describe('LuckInteractionAnalyzer sipseong', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer sibiUnseong', () => {
   it('GAP day master JA branch produces 목욕', () => {
-    // GAP (YANG WOOD), jangSaeng branch = HAE (해).
-    // JA (자) has ordinal 0, HAE has ordinal 11.
-    // Forward: (0 - 11 + 12) % 12 = 1 => MOK_YOK
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sibiUnseong).toBe(SibiUnseong.MOK_YOK);
+    // 甲 장생 = 亥; 子 is one step forward => 목욕
+    expect(analyzeLuckPillar(p(IM, JA), dummyNatalPillars(GAP), basis()).lifeStage).toBe('MOK_YOK');
   });
 
   it('GAP day master IN branch produces 건록', () => {
-    // GAP jangSaeng = HAE (ordinal 11).
-    // IN (寅) ordinal = 2. Forward: (2 - 11 + 12) % 12 = 3 => GEON_ROK
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.GAP, Jiji.IN);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.sibiUnseong).toBe(SibiUnseong.GEON_ROK);
+    // 甲 장생 = 亥; 寅 is three steps forward => 건록
+    expect(analyzeLuckPillar(p(GAP, IN), dummyNatalPillars(GAP), basis()).lifeStage).toBe('GEON_ROK');
   });
 });
 
@@ -180,65 +120,30 @@ describe('LuckInteractionAnalyzer sibiUnseong', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer yongshin/gisin', () => {
   it('yongshin element matched when stem ohaeng matches', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA); // WATER stem, WATER branch
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, null,
-    );
-
+    const result = analyzeLuckPillar(p(IM, JA), dummyNatalPillars(GAP), basis('WATER'));
     expect(result.isYongshinElement).toBe(true);
     expect(result.isGisinElement).toBe(false);
   });
 
   it('yongshin element matched when branch ohaeng matches', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.GAP, Jiji.JA); // WOOD stem, WATER branch
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, null,
-    );
-
-    expect(result.isYongshinElement).toBe(true);
+    // WOOD stem, WATER branch
+    expect(analyzeLuckPillar(p(GAP, JA), dummyNatalPillars(GAP), basis('WATER')).isYongshinElement).toBe(true);
   });
 
   it('gisin element matched correctly', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.GYEONG, Jiji.SIN); // METAL stem, METAL branch
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, Ohaeng.METAL,
-    );
-
+    const result = analyzeLuckPillar(p(GYEONG, SIN_B), dummyNatalPillars(GAP), basis('WATER', 'METAL'));
     expect(result.isYongshinElement).toBe(false);
     expect(result.isGisinElement).toBe(true);
   });
 
   it('neither yongshin nor gisin when no match', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.BYEONG, Jiji.O); // FIRE stem, FIRE branch
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, Ohaeng.METAL,
-    );
-
+    const result = analyzeLuckPillar(p(BYEONG, O), dummyNatalPillars(GAP), basis('WATER', 'METAL'));
     expect(result.isYongshinElement).toBe(false);
     expect(result.isGisinElement).toBe(false);
   });
 
   it('yongshin and gisin null produces no match', () => {
-    const dayMaster = Cheongan.GAP;
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA);
-    const natal = dummyNatalPillars(dayMaster);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
+    const result = analyzeLuckPillar(p(IM, JA), dummyNatalPillars(GAP), basis());
     expect(result.isYongshinElement).toBe(false);
     expect(result.isGisinElement).toBe(false);
   });
@@ -249,72 +154,28 @@ describe('LuckInteractionAnalyzer yongshin/gisin', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer stem relations', () => {
   it('stem hap detected with natal month stem', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.MU, Jiji.SUL),
-    );
-    const luckPillar = new Pillar(Cheongan.GI, Jiji.MI);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.stemRelations).toContain('갑기합');
+    const chart = natal(p(IM, JA), p(GAP, IN), p(BYEONG, O), p(MU, SUL));
+    const result = analyzeLuckPillar(p(GI, MI), chart, basis());
+    expect(hasStemRelation(result, 'HAP', GAP, GI)).toBe(true); // 갑기합
+    expect(result.stemRelations.find((r) => r.type === 'HAP')!.with).toEqual(['month']);
   });
 
   it('stem chung detected with natal year stem', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(Cheongan.JEONG, Jiji.MYO),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.MU, Jiji.SUL),
-    );
-    const luckPillar = new Pillar(Cheongan.GYEONG, Jiji.SIN);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.stemRelations).toContain('갑경충');
+    const chart = natal(p(GAP, IN), p(JEONG, MYO), p(BYEONG, O), p(MU, SUL));
+    const result = analyzeLuckPillar(p(GYEONG, SIN_B), chart, basis());
+    expect(hasStemRelation(result, 'CHUNG', GAP, GYEONG)).toBe(true); // 갑경충
   });
 
   it('multiple stem relations detected', () => {
-    const dayMaster = Cheongan.MU;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.EUL, Jiji.SA),
-      new Pillar(Cheongan.BYEONG, Jiji.IN),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.GAP, Jiji.JA),
-    );
-    const luckPillar = new Pillar(Cheongan.SIN, Jiji.YU);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.stemRelations).toContain('을신충');
-    expect(result.stemRelations).toContain('병신합');
+    const chart = natal(p(EUL, SA), p(BYEONG, IN), p(MU, O), p(GAP, JA));
+    const result = analyzeLuckPillar(p(SIN, YU), chart, basis());
+    expect(hasStemRelation(result, 'CHUNG', EUL, SIN)).toBe(true); // 을신충
+    expect(hasStemRelation(result, 'HAP', BYEONG, SIN)).toBe(true); // 병신합
   });
 
   it('no stem relations when no pairs match', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.GAP, Jiji.JA),
-      new Pillar(Cheongan.MU, Jiji.IN),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.JEONG, Jiji.SA),
-    );
-    const luckPillar = new Pillar(Cheongan.BYEONG, Jiji.O);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.stemRelations.length).toBe(0);
+    const chart = natal(p(GAP, JA), p(MU, IN), p(BYEONG, O), p(JEONG, SA));
+    expect(analyzeLuckPillar(p(BYEONG, O), chart, basis()).stemRelations).toHaveLength(0);
   });
 });
 
@@ -323,106 +184,30 @@ describe('LuckInteractionAnalyzer stem relations', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer branch relations', () => {
   it('branch chung detected with natal year branch', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.BYEONG, Jiji.O);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.branchRelations).toContain('자오충');
+    const result = analyzeLuckPillar(p(BYEONG, O), JA_IN_NATAL, basis());
+    expect(result.branchRelations).toContainEqual({ type: 'CHUNG', with: ['year'], members: [JA, O] }); // 자오충
   });
 
   it('branch yukhap detected', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.GYE, Jiji.CHUK);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.branchRelations).toContain('자축합');
+    expect(hasBranchRelation(analyzeLuckPillar(p(GYE, CHUK), JA_IN_NATAL, basis()), 'YUKHAP', JA, CHUK)).toBe(true); // 자축합
   });
 
   it('branch hyeong detected', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.EUL, Jiji.MYO);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.branchRelations).toContain('자묘형');
+    expect(hasBranchRelation(analyzeLuckPillar(p(EUL, MYO), JA_IN_NATAL, basis()), 'HYEONG', JA, MYO)).toBe(true); // 자묘형
   });
 
   it('branch pa detected', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.SIN, Jiji.YU);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.branchRelations).toContain('자유파');
+    expect(hasBranchRelation(analyzeLuckPillar(p(SIN, YU), JA_IN_NATAL, basis()), 'PA', JA, YU)).toBe(true); // 자유파
   });
 
   it('branch hae detected', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.GI, Jiji.MI);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.branchRelations).toContain('자미해');
+    expect(hasBranchRelation(analyzeLuckPillar(p(GI, MI), JA_IN_NATAL, basis()), 'HAE', JA, MI)).toBe(true); // 자미해
   });
 
   it('multiple branch relations detected', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.GYEONG, Jiji.SIN);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    expect(result.branchRelations).toContain('인신충');
-    expect(result.branchRelations).toContain('인신형');
+    const result = analyzeLuckPillar(p(GYEONG, SIN_B), JA_IN_NATAL, basis());
+    expect(hasBranchRelation(result, 'CHUNG', IN, SIN_B)).toBe(true); // 인신충
+    expect(hasBranchRelation(result, 'HYEONG', IN, SIN_B)).toBe(true); // 인신형
   });
 });
 
@@ -430,74 +215,47 @@ describe('LuckInteractionAnalyzer branch relations', () => {
 // Quality determination (determineLuckQuality)
 // =========================================================================
 describe('LuckInteractionAnalyzer.determineLuckQuality', () => {
+  const quality = (isYongshinElement: boolean, isGisinElement: boolean, hasGoodRelations: boolean, hasBadRelations: boolean) =>
+    determineLuckQuality({ isYongshinElement, isGisinElement, hasGoodRelations, hasBadRelations });
+
   it('VERY_FAVORABLE when yongshin and good relations', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.WATER, Ohaeng.WATER, Ohaeng.FIRE, true, false,
-    );
-    expect(quality).toBe(LuckQuality.VERY_FAVORABLE);
+    expect(quality(true, false, true, false)).toBe('VERY_FAVORABLE');
   });
 
   it('FAVORABLE when yongshin only', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.WATER, Ohaeng.WATER, Ohaeng.FIRE, false, false,
-    );
-    expect(quality).toBe(LuckQuality.FAVORABLE);
+    expect(quality(true, false, false, false)).toBe('FAVORABLE');
   });
 
   it('FAVORABLE when good relations and not gisin', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.EARTH, Ohaeng.WATER, Ohaeng.FIRE, true, false,
-    );
-    expect(quality).toBe(LuckQuality.FAVORABLE);
+    expect(quality(false, false, true, false)).toBe('FAVORABLE');
   });
 
   it('NEUTRAL when no match no relations', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.EARTH, Ohaeng.WATER, Ohaeng.FIRE, false, false,
-    );
-    expect(quality).toBe(LuckQuality.NEUTRAL);
+    expect(quality(false, false, false, false)).toBe('NEUTRAL');
   });
 
   it('UNFAVORABLE when gisin only', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.FIRE, Ohaeng.WATER, Ohaeng.FIRE, false, false,
-    );
-    expect(quality).toBe(LuckQuality.UNFAVORABLE);
+    expect(quality(false, true, false, false)).toBe('UNFAVORABLE');
   });
 
   it('UNFAVORABLE when bad relations only', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.EARTH, Ohaeng.WATER, Ohaeng.FIRE, false, true,
-    );
-    expect(quality).toBe(LuckQuality.UNFAVORABLE);
+    expect(quality(false, false, false, true)).toBe('UNFAVORABLE');
   });
 
   it('VERY_UNFAVORABLE when gisin and bad relations', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.FIRE, Ohaeng.WATER, Ohaeng.FIRE, false, true,
-    );
-    expect(quality).toBe(LuckQuality.VERY_UNFAVORABLE);
+    expect(quality(false, true, false, true)).toBe('VERY_UNFAVORABLE');
   });
 
   it('NEUTRAL when both null elements', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.WATER, null, null, false, false,
-    );
-    expect(quality).toBe(LuckQuality.NEUTRAL);
+    expect(quality(false, false, false, false)).toBe('NEUTRAL');
   });
 
   it('FAVORABLE when both null elements but good relations', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.WATER, null, null, true, false,
-    );
-    expect(quality).toBe(LuckQuality.FAVORABLE);
+    expect(quality(false, false, true, false)).toBe('FAVORABLE');
   });
 
   it('VERY_FAVORABLE takes priority when yongshin + good relations even with bad', () => {
-    const quality = LuckInteractionAnalyzer.determineLuckQuality(
-      Ohaeng.WATER, Ohaeng.WATER, Ohaeng.FIRE, true, true,
-    );
-    expect(quality).toBe(LuckQuality.VERY_FAVORABLE);
+    expect(quality(true, false, true, true)).toBe('VERY_FAVORABLE');
   });
 });
 
@@ -506,76 +264,34 @@ describe('LuckInteractionAnalyzer.determineLuckQuality', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer full analysis', () => {
   it('yongshin match produces FAVORABLE quality', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.BYEONG, Jiji.O),
-      new Pillar(Cheongan.JEONG, Jiji.SA),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, Ohaeng.METAL,
-    );
-
+    const result = analyzeLuckPillar(p(IM, JA), dummyNatalPillars(GAP), basis('WATER', 'METAL'));
     expect(result.isYongshinElement).toBe(true);
     expect(result.isGisinElement).toBe(false);
-    expect([LuckQuality.FAVORABLE, LuckQuality.VERY_FAVORABLE]).toContain(result.quality);
+    expect(['FAVORABLE', 'VERY_FAVORABLE']).toContain(result.quality);
   });
 
   it('gisin match produces VERY_UNFAVORABLE quality', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.BYEONG, Jiji.O),
-      new Pillar(Cheongan.JEONG, Jiji.SA),
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.GYEONG, Jiji.SIN);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, Ohaeng.METAL,
-    );
-
+    const result = analyzeLuckPillar(p(GYEONG, SIN_B), dummyNatalPillars(GAP), basis('WATER', 'METAL'));
     expect(result.isYongshinElement).toBe(false);
     expect(result.isGisinElement).toBe(true);
-    // GYEONG-GAP = 갑경충 => bad relation exists
-    // So quality should be VERY_UNFAVORABLE (gisin + bad relations)
-    expect(result.quality).toBe(LuckQuality.VERY_UNFAVORABLE);
+    // 갑경충 => bad relation exists, so gisin + bad relations
+    expect(result.quality).toBe('VERY_UNFAVORABLE');
   });
 });
 
 // =========================================================================
-// analyzeAllDaeun tests
+// Decades (analyzeAllDaeun → analyzeLuckTimeline)
 // =========================================================================
 describe('LuckInteractionAnalyzer.analyzeAllDaeun', () => {
   it('produces correct count', () => {
-    const daeunInfo = makeDaeunInfo([
-      makeDaeunPillar(Cheongan.EUL, Jiji.MYO, 3, 12, 1),
-      makeDaeunPillar(Cheongan.BYEONG, Jiji.JIN, 13, 22, 2),
-      makeDaeunPillar(Cheongan.JEONG, Jiji.SA, 23, 32, 3),
-    ]);
-    const natal = dummyNatalPillars(Cheongan.GAP);
-
-    const results = LuckInteractionAnalyzer.analyzeAllDaeun(
-      daeunInfo, natal, Cheongan.GAP, Ohaeng.WATER, Ohaeng.METAL,
-    );
-
-    expect(results.length).toBe(3);
+    const li = analyzeLuckTimeline(timelineOf([p(EUL, MYO), p(BYEONG, JIN), p(JEONG, SA)]), dummyNatalPillars(GAP), basis('WATER', 'METAL'));
+    expect(li.decades).toHaveLength(3);
+    expect(li).toMatchObject({ yongshin: 'WATER', gisin: 'METAL' });
   });
 
   it('preserves daeun pillar data', () => {
-    const dp = makeDaeunPillar(Cheongan.EUL, Jiji.MYO, 3, 12, 1);
-    const daeunInfo = makeDaeunInfo([dp]);
-    const natal = dummyNatalPillars(Cheongan.GAP);
-
-    const results = LuckInteractionAnalyzer.analyzeAllDaeun(
-      daeunInfo, natal, Cheongan.GAP, null, null,
-    );
-
-    expect(results[0]!.daeunPillar.startAge).toBe(3);
-    expect(results[0]!.daeunPillar.endAge).toBe(12);
+    const li = analyzeLuckTimeline(timelineOf([p(EUL, MYO)]), dummyNatalPillars(GAP), basis());
+    expect(li.decades[0]!.pillar).toEqual(p(EUL, MYO));
   });
 });
 
@@ -584,106 +300,66 @@ describe('LuckInteractionAnalyzer.analyzeAllDaeun', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer transition period', () => {
   it('first daeun is not transition period', () => {
-    const daeunInfo = makeDaeunInfo([
-      makeDaeunPillar(Cheongan.EUL, Jiji.MYO, 3, 12, 1),
-      makeDaeunPillar(Cheongan.BYEONG, Jiji.JIN, 13, 22, 2),
-    ]);
-    const natal = dummyNatalPillars(Cheongan.GAP);
-
-    const results = LuckInteractionAnalyzer.analyzeAllDaeun(
-      daeunInfo, natal, Cheongan.GAP, null, null,
-    );
-
-    expect(results[0]!.isTransitionPeriod).toBe(false);
+    const li = analyzeLuckTimeline(timelineOf([p(EUL, MYO), p(BYEONG, JIN)]), dummyNatalPillars(GAP), basis());
+    expect(li.decades[0]!.isTransitionPeriod).toBe(false);
   });
 
   it('second and subsequent daeun are transition periods', () => {
-    const daeunInfo = makeDaeunInfo([
-      makeDaeunPillar(Cheongan.EUL, Jiji.MYO, 3, 12, 1),
-      makeDaeunPillar(Cheongan.BYEONG, Jiji.JIN, 13, 22, 2),
-      makeDaeunPillar(Cheongan.JEONG, Jiji.SA, 23, 32, 3),
-    ]);
-    const natal = dummyNatalPillars(Cheongan.GAP);
-
-    const results = LuckInteractionAnalyzer.analyzeAllDaeun(
-      daeunInfo, natal, Cheongan.GAP, null, null,
+    const li = analyzeLuckTimeline(
+      timelineOf([p(EUL, MYO), p(BYEONG, JIN), p(JEONG, SA)]),
+      dummyNatalPillars(GAP),
+      basis(),
     );
+    expect(li.decades[1]!.isTransitionPeriod).toBe(true);
+    expect(li.decades[2]!.isTransitionPeriod).toBe(true);
+  });
 
-    expect(results[1]!.isTransitionPeriod).toBe(true);
-    expect(results[2]!.isTransitionPeriod).toBe(true);
+  it('a year in which a later daeun begins is a transition period', () => {
+    const timeline = timelineOf([p(EUL, MYO), p(BYEONG, JIN)], [
+      { pillar: p(GAP, JIN), age: 3 },
+      { pillar: p(EUL, SA), age: 12 },
+      { pillar: p(BYEONG, O), age: 13 },
+    ]);
+    const years = analyzeLuckTimeline(timeline, dummyNatalPillars(GAP), basis()).years;
+    expect(years.map((y) => y.isTransitionPeriod)).toEqual([false, false, true]);
   });
 });
 
 // =========================================================================
-// analyzeSaeun tests
+// Years (analyzeSaeun → analyzeLuckTimeline / analyzeLuckPillar with a decade)
 // =========================================================================
 describe('LuckInteractionAnalyzer.analyzeSaeun', () => {
-  it('produces correct count', () => {
-    const saeunPillars: SaeunPillar[] = [
-      makeSaeunPillar(2024, Cheongan.GAP, Jiji.JIN),
-      makeSaeunPillar(2025, Cheongan.EUL, Jiji.SA),
-      makeSaeunPillar(2026, Cheongan.BYEONG, Jiji.O),
-    ];
-    const natal = dummyNatalPillars(Cheongan.GAP);
-
-    const results = LuckInteractionAnalyzer.analyzeSaeun(
-      saeunPillars, natal, null, Cheongan.GAP, null, null,
-    );
+  const BYEONG_NATAL = natal(p(IM, JA), p(JEONG, MYO), p(BYEONG, O), p(MU, SUL));
 
-    expect(results.length).toBe(3);
+  it('produces correct count', () => {
+    const timeline = timelineOf([], [
+      { pillar: p(GAP, JIN), age: 30 },
+      { pillar: p(EUL, SA), age: 31 },
+      { pillar: p(BYEONG, O), age: 32 },
+    ]);
+    expect(analyzeLuckTimeline(timeline, dummyNatalPillars(GAP), basis()).years).toHaveLength(3);
   });
 
   it('with daeun includes daeun stem relations', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.JEONG, Jiji.MYO),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.MU, Jiji.SUL),
-    );
-    const daeunPillar = new Pillar(Cheongan.GAP, Jiji.IN);
-    const saeunPillars: SaeunPillar[] = [makeSaeunPillar(2025, Cheongan.GI, Jiji.YU)];
-
-    const results = LuckInteractionAnalyzer.analyzeSaeun(
-      saeunPillars, natal, daeunPillar, dayMaster, null, null,
-    );
-
-    expect(results[0]!.stemRelations).toContain('갑기합');
+    const result = analyzeLuckPillar(p(GI, YU), BYEONG_NATAL, basis(), p(GAP, IN));
+    expect(result.stemRelations).toContainEqual(expect.objectContaining({ type: 'HAP', with: ['decade'] })); // 갑기합
   });
 
   it('with daeun includes daeun branch relations', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.JEONG, Jiji.MYO),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.MU, Jiji.SUL),
-    );
-    const daeunPillar = new Pillar(Cheongan.GAP, Jiji.IN);
-    const saeunPillars: SaeunPillar[] = [makeSaeunPillar(2025, Cheongan.GYEONG, Jiji.SIN)];
-
-    const results = LuckInteractionAnalyzer.analyzeSaeun(
-      saeunPillars, natal, daeunPillar, dayMaster, null, null,
-    );
-
-    expect(results[0]!.branchRelations).toContain('인신충');
+    const result = analyzeLuckPillar(p(GYEONG, SIN_B), BYEONG_NATAL, basis(), p(GAP, IN));
+    expect(result.branchRelations).toContainEqual({ type: 'CHUNG', with: ['decade'], members: [IN, SIN_B] }); // 인신충
   });
 
   it('without daeun omits daeun relations', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.JEONG, Jiji.MYO),
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.MU, Jiji.SUL),
-    );
-    const saeunPillars: SaeunPillar[] = [makeSaeunPillar(2025, Cheongan.GI, Jiji.YU)];
+    const result = analyzeLuckPillar(p(GI, YU), BYEONG_NATAL, basis());
+    expect(hasStemRelation(result, 'HAP', GAP, GI)).toBe(false);
+  });
 
-    const results = LuckInteractionAnalyzer.analyzeSaeun(
-      saeunPillars, natal, null, dayMaster, null, null,
+  it('meets the decade in force at the year age', () => {
+    const timeline = timelineOf([p(EUL, MYO), p(GAP, IN)], [{ pillar: p(GI, YU), age: 14 }]);
+    expect(analyzeLuckTimeline(timeline, BYEONG_NATAL, basis()).years[0]!.stemRelations).toContainEqual(
+      expect.objectContaining({ type: 'HAP', with: ['decade'] }),
     );
-
-    expect(results[0]!.stemRelations).not.toContain('갑기합');
   });
 });
 
@@ -692,13 +368,7 @@ describe('LuckInteractionAnalyzer.analyzeSaeun', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer summary', () => {
   it('contains pillar label, sipseong, and quality', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = dummyNatalPillars(dayMaster);
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
+    const result = analyzeLuckPillar(p(IM, JA), dummyNatalPillars(GAP), basis());
 
     // 임자운: 편인(偏印) / 목욕(沐浴) -- 평
     expect(result.summary).toContain('임자운');
@@ -707,27 +377,11 @@ describe('LuckInteractionAnalyzer summary', () => {
   });
 
   it('contains yongshin indicator when matched', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = dummyNatalPillars(dayMaster);
-    const luckPillar = new Pillar(Cheongan.IM, Jiji.JA);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, null,
-    );
-
-    expect(result.summary).toContain('용신운');
+    expect(analyzeLuckPillar(p(IM, JA), dummyNatalPillars(GAP), basis('WATER')).summary).toContain('용신운');
   });
 
   it('contains gisin indicator when matched', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = dummyNatalPillars(dayMaster);
-    const luckPillar = new Pillar(Cheongan.GYEONG, Jiji.SIN);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, Ohaeng.WATER, Ohaeng.METAL,
-    );
-
-    expect(result.summary).toContain('기신운');
+    expect(analyzeLuckPillar(p(GYEONG, SIN_B), dummyNatalPillars(GAP), basis('WATER', 'METAL')).summary).toContain('기신운');
   });
 });
 
@@ -736,38 +390,20 @@ describe('LuckInteractionAnalyzer summary', () => {
 // =========================================================================
 describe('LuckInteractionAnalyzer duplicate suppression', () => {
   it('duplicate branch relations are suppressed', () => {
-    const dayMaster = Cheongan.GAP;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.IM, Jiji.JA),
-      new Pillar(Cheongan.GYE, Jiji.JA),  // duplicate JA
-      new Pillar(dayMaster, Jiji.SUL),
-      new Pillar(Cheongan.MU, Jiji.JIN),
-    );
-    const luckPillar = new Pillar(Cheongan.BYEONG, Jiji.O);
+    const chart = natal(p(IM, JA), p(GYE, JA), p(GAP, SUL), p(MU, JIN)); // duplicate 子
+    const result = analyzeLuckPillar(p(BYEONG, O), chart, basis());
 
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
-
-    const chungCount = result.branchRelations.filter(r => r === '자오충').length;
-    expect(chungCount, '자오충 should appear only once despite duplicate natal JA branches').toBe(1);
+    const chung = result.branchRelations.filter((r) => r.type === 'CHUNG' && r.members.includes(JA) && r.members.includes(O));
+    expect(chung.length, '자오충 should appear only once despite duplicate natal JA branches').toBe(1);
+    expect(chung[0]!.with).toEqual(['year', 'month']);
   });
 
   it('duplicate stem relations are suppressed', () => {
-    const dayMaster = Cheongan.BYEONG;
-    const natal = new PillarSet(
-      new Pillar(Cheongan.GAP, Jiji.JA),
-      new Pillar(Cheongan.GAP, Jiji.IN),  // duplicate GAP
-      new Pillar(dayMaster, Jiji.O),
-      new Pillar(Cheongan.MU, Jiji.SUL),
-    );
-    const luckPillar = new Pillar(Cheongan.GI, Jiji.MI);
-
-    const result = LuckInteractionAnalyzer.analyzeLuckPillar(
-      luckPillar, natal, dayMaster, null, null,
-    );
+    const chart = natal(p(GAP, JA), p(GAP, IN), p(BYEONG, O), p(MU, SUL)); // duplicate 甲
+    const result = analyzeLuckPillar(p(GI, MI), chart, basis());
 
-    const hapCount = result.stemRelations.filter(r => r === '갑기합').length;
-    expect(hapCount, '갑기합 should appear only once despite duplicate natal GAP stems').toBe(1);
+    const hap = result.stemRelations.filter((r) => r.type === 'HAP' && r.members.includes(GAP) && r.members.includes(GI));
+    expect(hap.length, '갑기합 should appear only once despite duplicate natal GAP stems').toBe(1);
+    expect(hap[0]!.with).toEqual(['year', 'month']);
   });
 });
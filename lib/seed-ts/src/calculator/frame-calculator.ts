@@ -14,11 +14,14 @@ export class FourFrameCalculator extends EnergyCalculator {
   public readonly type = "FourFrame";
   protected surnameStrokes: number[] = [];
   protected firstNameStrokes: number[] = [];
+  /** Luck-level source for this calculator's frames; null falls back to the shared default repository. */
+  protected readonly repository: FourframeRepository | null;
   
   /**
    * Represents an individual frame (Sagyuk) with its calculated stroke sum and energy.
    */
   public static Frame = class {
+    /** Lazily opened default repository for frames created without one. */
     public static repository: FourframeRepository | null = null;
     public static repositoryInitPromise: Promise<void> | null = null;
 
@@ -29,7 +32,8 @@ export class FourFrameCalculator extends EnergyCalculator {
     
     constructor(
       public readonly type: 'won' | 'hyung' | 'lee' | 'jung',
-      public readonly strokeSum: number // Total stroke count for this frame
+      public readonly strokeSum: number, // Total stroke count for this frame
+      public readonly repository: FourframeRepository | null = null // Initialized repository owned by the caller
     ) {
       void this.getLuckLevel(strokeSum);
     }
@@ -39,22 +43,25 @@ export class FourFrameCalculator extends EnergyCalculator {
         return this.luckLevel;
       }
       
+      const repository = this.repository ?? await FourFrameCalculator.Frame.defaultRepository();
+      const entry = await repository.findByNumber(this.strokeSum);
+      this.entry = entry;
+      const parsed = Number.parseInt(entry?.lucky_level ?? '0', 10);
+      this.luckLevel = Number.isNaN(parsed) ? 0 : parsed;
+      
+      return this.luckLevel;
+    }
+
+    public static async defaultRepository(): Promise<FourframeRepository> {
       if (!FourFrameCalculator.Frame.repository) {
         FourFrameCalculator.Frame.repository = new FourframeRepository();
       }
       if (!FourFrameCalculator.Frame.repositoryInitPromise) {
         FourFrameCalculator.Frame.repositoryInitPromise = FourFrameCalculator.Frame.repository.init();
       }
-
       await FourFrameCalculator.Frame.repositoryInitPromise;
-      const entry = await FourFrameCalculator.Frame.repository.findByNumber(this.strokeSum);
-      this.entry = entry;
-      const parsed = Number.parseInt(entry?.lucky_level ?? '0', 10);
-      this.luckLevel = Number.isNaN(parsed) ? 0 : parsed;
-      
-      return this.luckLevel;
+      return FourFrameCalculator.Frame.repository;
     }
-
   };
 
   public frames: InstanceType<typeof FourFrameCalculator.Frame>[];
@@ -65,9 +72,11 @@ export class FourFrameCalculator extends EnergyCalculator {
    * Supports multi-character surnames and names of varying lengths.
    * @param surnameEntries Array of Hanja entries for the surname
    * @param firstNameEntries Array of Hanja entries for the first name
+   * @param repository Initialized four-frame repository for luck levels (default: a shared one opened on demand)
    */
-  constructor(surnameEntries: HanjaEntry[], firstNameEntries: HanjaEntry[]) {
+  constructor(surnameEntries: HanjaEntry[], firstNameEntries: HanjaEntry[], repository: FourframeRepository | null = null) {
     super();
+    this.repository = repository;
     // TODO replace it to a new visitor future
     // Extract stroke counts from the database entries
     this.surnameStrokes = surnameEntries.map(e => e.strokes);
@@ -93,10 +102,10 @@ export class FourFrameCalculator extends EnergyCalculator {
 
     // Initialize frames with calculated stroke sums
     this.frames = [
-      new FourFrameCalculator.Frame('won', won),
-      new FourFrameCalculator.Frame('hyung', hyung),
-      new FourFrameCalculator.Frame('lee', lee),
-      new FourFrameCalculator.Frame('jung', jung)
+      new FourFrameCalculator.Frame('won', won, repository),
+      new FourFrameCalculator.Frame('hyung', hyung, repository),
+      new FourFrameCalculator.Frame('lee', lee, repository),
+      new FourFrameCalculator.Frame('jung', jung, repository)
     ];
   }
 
@@ -232,10 +241,10 @@ export class FourFrameCalculator extends EnergyCalculator {
       const givenTotal = this.sum(givenStrokeCounts);
 
       calculator.frames = [
-        new FourFrameCalculator.Frame('won', this.sum(padded)),
-        new FourFrameCalculator.Frame('hyung', this.adjustTo81(surnameTotal + givenUpperSum)),
-        new FourFrameCalculator.Frame('lee', this.adjustTo81(surnameTotal + givenLowerSum)),
-        new FourFrameCalculator.Frame('jung', this.adjustTo81(surnameTotal + givenTotal))
+        new FourFrameCalculator.Frame('won', this.sum(padded), calculator.repository),
+        new FourFrameCalculator.Frame('hyung', this.adjustTo81(surnameTotal + givenUpperSum), calculator.repository),
+        new FourFrameCalculator.Frame('lee', this.adjustTo81(surnameTotal + givenLowerSum), calculator.repository),
+        new FourFrameCalculator.Frame('jung', this.adjustTo81(surnameTotal + givenTotal), calculator.repository)
       ];
     }
 
@@ -1,5 +1,5 @@
-import initSqlJs, { type Database } from 'sql.js';
-import { resolvePublicAssetUrl } from './runtime-url.js';
+import type { Database } from 'sql.js';
+import { getDefaultStorageAdapter, type StorageAdapter } from './storage-adapter.js';
 
 export interface FourframeMeaningEntry {
   readonly id: number;
@@ -19,28 +19,17 @@ export interface FourframeMeaningEntry {
 }
 
 /**
- * Browser-compatible DAO for fourframe (사격수리) meanings.
- * Uses sql.js (WASM) and fetches DB from Vite public path.
+ * DAO for fourframe (사격수리) meanings.
+ * Uses sql.js; the DB is loaded through the storage adapter (Vite public path by default).
  */
 export class FourframeRepository {
   private db: Database | null = null;
-  private readonly dbUrl: string = resolvePublicAssetUrl('data/fourframe.db');
-  private readonly wasmUrl: string = 'https://sql.js.org/dist/sql-wasm.wasm';
+
+  constructor(private readonly storage: StorageAdapter = getDefaultStorageAdapter()) {}
 
   public async init(): Promise<void> {
     if (this.db) return;
-
-    const SQL = await initSqlJs({
-      locateFile: () => this.wasmUrl,
-    });
-
-    const response = await fetch(this.dbUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch DB: ${response.status} ${response.statusText}`);
-    }
-
-    const buffer = await response.arrayBuffer();
-    this.db = new SQL.Database(new Uint8Array(buffer));
+    this.db = await this.storage.openDatabase('data/fourframe.db');
   }
 
   public async findByNumber(number: number): Promise<FourframeMeaningEntry | null> {
@@ -1,5 +1,7 @@
-import initSqlJs, { type Database } from 'sql.js';
-import { resolvePublicAssetUrl } from './runtime-url.js';
+import type { Database } from 'sql.js';
+import { getDefaultStorageAdapter, type StorageAdapter } from './storage-adapter.js';
+import type { StrokeSystem } from '../utils/stroke-system.js';
+import { withDueumVariants, type LegalNameHanjaList } from '../utils/legal-name-hanja.js';
 
 export interface HanjaEntry {
   readonly id: number;
@@ -7,24 +9,43 @@ export interface HanjaEntry {
   readonly hanja: string;
   readonly onset: string;
   readonly nucleus: string;
+  /** 원획법 stroke count (radicals counted in their original form). */
   readonly strokes: number;
+  /** 필획법 stroke count (as written); null/undefined when the DB was built without it. */
+  readonly strokes_written?: number | null;
   readonly stroke_element: string;
   readonly resource_element: string;
   readonly meaning: string;
   readonly radical: string;
   readonly is_surname: boolean;
+  /**
+   * 인명용 한자: this character with this reading may be used in a registered name.
+   * null/undefined when the DB was built without the legal-name list.
+   */
+  readonly is_legal_name?: boolean | null;
+  /** Registrable readings of the character (official + 두음 variants); empty when not listed. */
+  readonly legal_readings?: string[];
 }
 
 /**
- * Browser-compatible Data Access Object using sql.js (WASM).
- * Maintains the same API signature as the original Node-based DAO.
+ * Data Access Object over the hanja DB (sql.js).
+ * Maintains the same API signature as the original Node-based DAO;
+ * where the DB comes from is decided by the storage adapter (browser fetch by default).
  */
 export class HanjaRepository {
   private db: Database | null = null;
-  // Public URL for the database file
-  private readonly dbUrl: string = resolvePublicAssetUrl('data/hanja.db');
-  // WASM binary location (using CDN for simplicity, or can be local in public/)
-  private readonly wasmUrl: string = 'https://sql.js.org/dist/sql-wasm.wasm';
+  private columns: Set<string> | null = null;
+  private legalNameList: LegalNameHanjaList | null = null;
+
+  constructor(private readonly storage: StorageAdapter = getDefaultStorageAdapter()) {}
+
+  /**
+   * Apply a 인명용 한자 list loaded at runtime (see parseLegalNameHanjaList).
+   * Only used when the DB was built without the is_legal_name column; a list baked into the DB wins.
+   */
+  public useLegalNameList(list: LegalNameHanjaList | null): void {
+    this.legalNameList = list;
+  }
 
   /**
    * Async initialization to load WASM and the DB file.
@@ -34,15 +55,7 @@ export class HanjaRepository {
     if (this.db) return;
 
     try {
-      const SQL = await initSqlJs({
-        locateFile: () => this.wasmUrl
-      });
-
-      const response = await fetch(this.dbUrl);
-      if (!response.ok) throw new Error(`Failed to fetch DB: ${response.statusText}`);
-      
-      const buffer = await response.arrayBuffer();
-      this.db = new SQL.Database(new Uint8Array(buffer));
+      this.db = await this.storage.openDatabase('data/hanja.db');
       console.log('HanjaRepository: Database loaded successfully via WASM.');
     } catch (err) {
       console.error('HanjaRepository: Initialization failed.', err);
@@ -56,6 +69,12 @@ export class HanjaRepository {
     return rows.length > 0 ? rows[0] : null;
   }
 
+  /** Every reading row of a character (e.g. 樂 → 락, 낙, 악, 요). */
+  public async findAllByHanja(hanja: string): Promise<HanjaEntry[]> {
+    const sql = `SELECT * FROM hanjas WHERE hanja = ? ORDER BY id ASC`;
+    return this.execute(sql, [hanja]);
+  }
+
   public async findByHangul(hangul: string): Promise<HanjaEntry[]> {
     const sql = `SELECT * FROM hanjas WHERE hangul = ? ORDER BY strokes ASC`;
     return this.execute(sql, [hangul]);
@@ -77,8 +96,15 @@ export class HanjaRepository {
     return this.execute(sql, params);
   }
 
-  public async findByStrokeRange(min: number, max: number): Promise<HanjaEntry[]> {
-    const sql = `SELECT * FROM hanjas WHERE strokes BETWEEN ? AND ? ORDER BY strokes ASC`;
+  /**
+   * Characters whose stroke count under `system` lies in [min, max].
+   * 필획 ranges use the 원획 count for rows without a written count (and on DBs without the column).
+   */
+  public async findByStrokeRange(min: number, max: number, system: StrokeSystem = 'wonhoek'): Promise<HanjaEntry[]> {
+    const strokes = system === 'pilhoek' && this.hasColumn('strokes_written')
+      ? 'COALESCE(strokes_written, strokes)'
+      : 'strokes';
+    const sql = `SELECT * FROM hanjas WHERE ${strokes} BETWEEN ? AND ? ORDER BY ${strokes} ASC`;
     return this.execute(sql, [min, max]);
   }
 
@@ -87,6 +113,38 @@ export class HanjaRepository {
     return this.execute(sql, [onset]);
   }
 
+  /**
+   * Version tag of the 인명용 한자 list baked into the DB (hanja_meta), or null for DBs built without it.
+   */
+  public async getLegalNameListVersion(): Promise<string | null> {
+    if (!this.db) throw new Error("Database not initialized. Call init() first.");
+
+    const runtimeVersion = this.runtimeLegalNameList()
+      ? this.legalNameList?.version ?? 'unversioned'
+      : null;
+    const hasMeta = this.db.exec(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'hanja_meta'`);
+    if (!hasMeta.length) return runtimeVersion;
+
+    const rows = this.db.exec(`SELECT value FROM hanja_meta WHERE key = 'legal_name_hanja_version'`);
+    const value = rows[0]?.values[0]?.[0];
+    return value == null ? runtimeVersion : String(value);
+  }
+
+  /** The runtime list, when the DB itself carries no 인명용 flag. */
+  private runtimeLegalNameList(): LegalNameHanjaList | null {
+    return this.legalNameList && !this.hasColumn('is_legal_name') ? this.legalNameList : null;
+  }
+
+  private hasColumn(name: string): boolean {
+    if (!this.db) throw new Error("Database not initialized. Call init() first.");
+
+    if (!this.columns) {
+      const info = this.db.exec(`PRAGMA table_info(hanjas)`);
+      this.columns = new Set((info[0]?.values ?? []).map((row) => String(row[1])));
+    }
+    return this.columns.has(name);
+  }
+
   /**
    * Internal helper to execute queries and map results.
    */
@@ -105,9 +163,19 @@ export class HanjaRepository {
   }
 
   private mapRowToEntry(row: any): HanjaEntry {
+    const runtimeList = this.runtimeLegalNameList();
+    if (runtimeList) {
+      // Same derivation as decrypt-dict-to-db: official readings plus their 두음 variants
+      const officialReadings = runtimeList.readings.get(row.hanja);
+      const legalReadings = officialReadings ? withDueumVariants(officialReadings) : [];
+      row = { ...row, is_legal_name: legalReadings.includes(row.hangul) ? 1 : 0, legal_readings: legalReadings.join(',') };
+    }
     return {
       ...row,
-      is_surname: row.is_surname === 1
+      is_surname: row.is_surname === 1,
+      strokes_written: row.strokes_written == null ? null : Number(row.strokes_written),
+      is_legal_name: row.is_legal_name == null ? null : row.is_legal_name === 1,
+      legal_readings: row.legal_readings ? String(row.legal_readings).split(',').filter(Boolean) : [],
     };
   }
 
@@ -115,6 +183,7 @@ export class HanjaRepository {
     if (this.db) {
       this.db.close();
       this.db = null;
+      this.columns = null;
     }
   }
 }
@@ -1,5 +1,5 @@
-import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
-import { resolvePublicAssetUrl } from './runtime-url.js';
+import type { Database } from 'sql.js';
+import { getDefaultStorageAdapter, type StorageAdapter } from './storage-adapter.js';
 
 export interface NameStatEntry {
   readonly name: string;
@@ -25,13 +25,11 @@ type ShardKey =
   | 'ㅇ' | 'ㅈ' | 'ㅊ' | 'ㅋ' | 'ㅌ' | 'ㅍ' | 'ㅎ';
 
 /**
- * Browser-compatible repository for sharded name statistics DBs.
- * Loads only the shard needed by the first character's choseong.
+ * Repository for sharded name statistics DBs.
+ * Loads only the shard needed by the first character's choseong, through the storage adapter.
  */
 export class NameStatRepository {
-  private readonly wasmUrl: string = 'https://sql.js.org/dist/sql-wasm.wasm';
-  private readonly shardBaseUrl: string = resolvePublicAssetUrl('data/name-stat-shards');
-  private sqlInstance: SqlJsStatic | null = null;
+  private readonly shardBasePath: string = 'data/name-stat-shards';
   private readonly dbByShard = new Map<ShardKey, Database>();
 
   private readonly shardFileByKey: Record<ShardKey, string> = {
@@ -51,11 +49,13 @@ export class NameStatRepository {
     'ㅎ': '14.db',
   };
 
+  constructor(private readonly storage: StorageAdapter = getDefaultStorageAdapter()) {}
+
   /**
    * Optional eager init. DB shards remain lazy-loaded.
    */
   public async init(): Promise<void> {
-    await this.ensureSqlReady();
+    await this.storage.init?.();
   }
 
   /**
@@ -87,31 +87,12 @@ export class NameStatRepository {
     this.dbByShard.clear();
   }
 
-  private async ensureSqlReady(): Promise<SqlJsStatic> {
-    if (this.sqlInstance) return this.sqlInstance;
-
-    this.sqlInstance = await initSqlJs({
-      locateFile: () => this.wasmUrl,
-    });
-
-    return this.sqlInstance;
-  }
-
   private async ensureShardLoaded(shardKey: ShardKey): Promise<Database> {
     const cached = this.dbByShard.get(shardKey);
     if (cached) return cached;
 
-    const SQL = await this.ensureSqlReady();
     const filename = this.shardFileByKey[shardKey];
-    const url = `${this.shardBaseUrl}/${encodeURIComponent(filename)}`;
-
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch shard DB (${filename}): ${response.status} ${response.statusText}`);
-    }
-
-    const buffer = await response.arrayBuffer();
-    const db = new SQL.Database(new Uint8Array(buffer));
+    const db = await this.storage.openDatabase(`${this.shardBasePath}/${filename}`);
     this.dbByShard.set(shardKey, db);
     return db;
   }
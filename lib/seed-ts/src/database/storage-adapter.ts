@@ -0,0 +1,174 @@
+import initSqlJs, { type Database, type SqlJsStatic } from 'sql.js';
+import { resolvePublicAssetUrl } from './runtime-url.js';
+
+type SqlJsConfig = Parameters<typeof initSqlJs>[0];
+
+/** sql.js WASM location used by the browser adapter unless `wasmUrl` is given. */
+export const DEFAULT_SQL_WASM_URL = 'https://sql.js.org/dist/sql-wasm.wasm';
+
+/**
+ * Source of the SQLite databases used by the repositories.
+ *
+ * `assetPath` is relative to the data root, e.g. `data/hanja.db` or `data/name-stat-shards/01.db`.
+ */
+export interface StorageAdapter {
+  openDatabase(assetPath: string): Promise<Database>;
+  /** Optional warm-up (e.g. load the sql.js WASM before the first query). */
+  init?(): Promise<void>;
+}
+
+/**
+ * Shared sql.js plumbing: the WASM module is loaded once per adapter,
+ * subclasses only decide where the WASM and the database bytes come from.
+ */
+abstract class SqlJsStorageAdapter implements StorageAdapter {
+  private sqlPromise: Promise<SqlJsStatic> | null = null;
+
+  public async init(): Promise<void> {
+    await this.sql();
+  }
+
+  public async openDatabase(assetPath: string): Promise<Database> {
+    const [SQL, bytes] = await Promise.all([this.sql(), this.readBytes(assetPath)]);
+    return new SQL.Database(bytes);
+  }
+
+  protected sql(): Promise<SqlJsStatic> {
+    if (!this.sqlPromise) {
+      // Drop a failed load so the next call can retry.
+      this.sqlPromise = this.loadSql().catch((err) => {
+        this.sqlPromise = null;
+        throw err;
+      });
+    }
+    return this.sqlPromise;
+  }
+
+  protected abstract loadSql(): Promise<SqlJsStatic>;
+  protected abstract readBytes(assetPath: string): Promise<Uint8Array>;
+}
+
+export interface FetchStorageOptions {
+  /** Base URL of the data root. Defaults to the page's public path (see runtime-url.ts). */
+  readonly baseUrl?: string;
+  readonly wasmUrl?: string;
+  readonly fetch?: typeof fetch;
+}
+
+/**
+ * Browser adapter: fetches databases over HTTP and sql.js WASM from `wasmUrl`.
+ * This is the default and matches the original repository behaviour.
+ */
+export class FetchStorageAdapter extends SqlJsStorageAdapter {
+  private readonly baseUrl: string | null;
+  private readonly wasmUrl: string;
+  private readonly fetchImpl: typeof fetch | null;
+
+  constructor(options: FetchStorageOptions = {}) {
+    super();
+    this.baseUrl = options.baseUrl ? options.baseUrl.replace(/\/+$/, '') : null;
+    this.wasmUrl = options.wasmUrl ?? DEFAULT_SQL_WASM_URL;
+    this.fetchImpl = options.fetch ?? null;
+  }
+
+  protected loadSql(): Promise<SqlJsStatic> {
+    return initSqlJs({ locateFile: () => this.wasmUrl });
+  }
+
+  protected async readBytes(assetPath: string): Promise<Uint8Array> {
+    const relative = assetPath.replace(/^\/+/, '');
+    const url = this.baseUrl ? `${this.baseUrl}/${relative}` : resolvePublicAssetUrl(relative);
+    const response = await (this.fetchImpl ?? fetch)(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch DB (${assetPath}): ${response.status} ${response.statusText}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+}
+
+export interface NodeFsStorageOptions {
+  /** Directory the asset paths are resolved against (e.g. `namespring/public`). */
+  readonly rootDir: string;
+  /** Local sql-wasm.wasm. Defaults to the copy shipped next to the sql.js package. */
+  readonly wasmPath?: string;
+}
+
+/**
+ * Node adapter: reads databases and the WASM binary from the local filesystem,
+ * so scripts, tests and serverless functions run without network access.
+ * Node built-ins are imported lazily to keep browser bundles free of them.
+ */
+export class NodeFsStorageAdapter extends SqlJsStorageAdapter {
+  constructor(private readonly options: NodeFsStorageOptions) {
+    super();
+  }
+
+  protected async loadSql(): Promise<SqlJsStatic> {
+    if (!this.options.wasmPath) return initSqlJs();
+
+    const { readFile } = await import('node:fs/promises');
+    const wasm = await readFile(this.options.wasmPath);
+    return initSqlJs({ wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer });
+  }
+
+  protected async readBytes(assetPath: string): Promise<Uint8Array> {
+    const [{ readFile }, path] = await Promise.all([import('node:fs/promises'), import('node:path')]);
+    const filePath = path.resolve(this.options.rootDir, assetPath.replace(/^\/+/, ''));
+    try {
+      return new Uint8Array(await readFile(filePath));
+    } catch (err) {
+      throw new Error(`Failed to read DB (${assetPath}) from ${filePath}: ${(err as Error).message}`);
+    }
+  }
+}
+
+/**
+ * In-memory adapter: serves databases registered up front (raw bytes or open sql.js databases).
+ * Useful for tests and for callers that bundle the data themselves.
+ */
+export class MemoryStorageAdapter extends SqlJsStorageAdapter {
+  private readonly entries = new Map<string, Uint8Array | Database>();
+
+  constructor(
+    entries: Record<string, Uint8Array | Database> = {},
+    private readonly sqlJsConfig?: SqlJsConfig,
+  ) {
+    super();
+    for (const [assetPath, data] of Object.entries(entries)) this.put(assetPath, data);
+  }
+
+  public put(assetPath: string, data: Uint8Array | Database): void {
+    this.entries.set(assetPath.replace(/^\/+/, ''), data);
+  }
+
+  public override async openDatabase(assetPath: string): Promise<Database> {
+    const data = this.entries.get(assetPath.replace(/^\/+/, ''));
+    if (data && !(data instanceof Uint8Array)) return data;
+    return super.openDatabase(assetPath);
+  }
+
+  protected loadSql(): Promise<SqlJsStatic> {
+    return initSqlJs(this.sqlJsConfig);
+  }
+
+  protected async readBytes(assetPath: string): Promise<Uint8Array> {
+    const data = this.entries.get(assetPath.replace(/^\/+/, ''));
+    if (!(data instanceof Uint8Array)) {
+      throw new Error(`No in-memory DB registered for ${assetPath}`);
+    }
+    return data;
+  }
+}
+
+let defaultAdapter: StorageAdapter | null = null;
+
+/** Adapter used by repositories constructed without one (lazily a FetchStorageAdapter). */
+export function getDefaultStorageAdapter(): StorageAdapter {
+  if (!defaultAdapter) defaultAdapter = new FetchStorageAdapter();
+  return defaultAdapter;
+}
+
+/** Replace the process-wide default adapter; `null` restores the fetch adapter. */
+export function setDefaultStorageAdapter(adapter: StorageAdapter | null): void {
+  defaultAdapter = adapter;
+}
@@ -2,6 +2,10 @@
  * Script to parse the Hanja dictionary file and load it into a SQLite database.
  * Based on the logic provided in the Kotlin parser implementation.
  * Handles Hangul decomposition (Onset/Nucleus) and Naming Theory mappings.
+ * When data/legal_name_hanja.txt (인명용 한자 list, see legal-name-hanja.ts) exists,
+ * each row also carries is_legal_name / legal_readings and hanja_meta records the list version.
+ * strokes holds the dictionary's 원획 count; strokes_written (필획) comes from data/written_strokes.txt
+ * when listed there, otherwise it is derived from the radical (see stroke-system.ts) or left NULL.
  * 
  * node .\src\database\db-loader.ts
  */
@@ -12,6 +16,8 @@ import sqlite3 from 'sqlite3';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { parseLegalNameHanjaList, withDueumVariants, type LegalNameHanjaList } from './legal-name-hanja';
+import { deriveWrittenStrokes, parseWrittenStrokeList } from './stroke-system';
 
 // Setup environment for ES Modules
 const __filename = fileURLToPath(import.meta.url);
@@ -21,6 +27,8 @@ const __dirname = path.dirname(__filename);
 const dbPath = path.resolve(__dirname, '../data/hanja.db');
 const dictPath = path.resolve(__dirname, '../data/name_hanja_dict');
 const radicalPath = path.resolve(__dirname, '../data/radicals.txt'); // Boosoo data
+const legalNameHanjaPath = path.resolve(__dirname, '../data/legal_name_hanja.txt'); // 인명용 한자 (versioned)
+const writtenStrokesPath = path.resolve(__dirname, '../data/written_strokes.txt'); // 필획 counts
 
 // Hangul decomposition maps
 const INITIALS = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
@@ -76,15 +84,20 @@ const startMigration = () => {
         onset TEXT,
         nucleus TEXT,
         strokes INTEGER,
+        strokes_written INTEGER,
         stroke_element TEXT,
         resource_element TEXT,
         meaning TEXT,
         radical TEXT,
-        is_surname INTEGER DEFAULT 0
+        is_surname INTEGER DEFAULT 0,
+        is_legal_name INTEGER,
+        legal_readings TEXT
       )
     `);
 
     db.run(`CREATE INDEX IF NOT EXISTS idx_hangul ON hanjas(hangul)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_hanja ON hanjas(hanja)`);
+    db.run(`CREATE TABLE IF NOT EXISTS hanja_meta (key TEXT PRIMARY KEY, value TEXT)`);
 
     console.log('Database schema ready. Loading dictionary...');
 
@@ -99,6 +112,21 @@ const startMigration = () => {
       });
     }
 
+    // Legal-name list is optional: without it the flag columns stay NULL ("unknown")
+    let legalList: LegalNameHanjaList | null = null;
+    if (fs.existsSync(legalNameHanjaPath)) {
+      legalList = parseLegalNameHanjaList(fs.readFileSync(legalNameHanjaPath, 'utf8'));
+      console.log(`Legal name hanja list ${legalList.version ?? '(unversioned)'}: ${legalList.readings.size} characters.`);
+    } else {
+      console.warn(`Legal name hanja list not found (${legalNameHanjaPath}); is_legal_name left NULL.`);
+    }
+
+    // 필획 table is optional: unlisted characters fall back to deriveWrittenStrokes
+    const writtenStrokes = fs.existsSync(writtenStrokesPath)
+      ? parseWrittenStrokeList(fs.readFileSync(writtenStrokesPath, 'utf8'))
+      : new Map<string, number>();
+    console.log(`Written stroke table: ${writtenStrokes.size} characters.`);
+
     if (!fs.existsSync(dictPath)) {
       console.error(`Dictionary not found: ${dictPath}`);
       process.exit(1);
@@ -111,8 +139,9 @@ const startMigration = () => {
 
     const stmt = db.prepare(`
       INSERT INTO hanjas (
-        hangul, hanja, onset, nucleus, strokes, stroke_element, resource_element, meaning, radical, is_surname
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        hangul, hanja, onset, nucleus, strokes, strokes_written, stroke_element, resource_element, meaning, radical,
+        is_surname, is_legal_name, legal_readings
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     let count = 0;
@@ -131,7 +160,7 @@ const startMigration = () => {
       const hangul = info[0];
       const hanja = info[1];
       
-      // info[2..3]: Strokes (Hoeksu)
+      // info[2..3]: Strokes (Hoeksu, 원획)
       const strokes = parseInt(info.substring(2, 4), 10) || 0;
       
       // info[4]: Stroke Element (HoeksuOhaeng)
@@ -144,6 +173,11 @@ const startMigration = () => {
       
       const { onset, nucleus } = decomposeHangul(hangul);
       const radical = radicals[hanja] || '';
+      const strokesWritten = writtenStrokes.get(hanja) ?? deriveWrittenStrokes(hanja, strokes, radical);
+
+      const officialReadings = legalList?.readings.get(hanja);
+      const legalReadings = officialReadings ? withDueumVariants(officialReadings) : [];
+      const isLegalName = legalList ? (legalReadings.includes(hangul) ? 1 : 0) : null;
 
       stmt.run(
         hangul,
@@ -151,17 +185,27 @@ const startMigration = () => {
         onset,
         nucleus,
         strokes,
+        strokesWritten,
         strokeElement,
         resourceElement,
         meaning,
         radical,
-        0 // isSurname defaults to false
+        0, // isSurname defaults to false
+        isLegalName,
+        legalList ? legalReadings.join(',') : null
       );
       count++;
     }
 
     stmt.finalize();
 
+    if (legalList) {
+      db.run(
+        `INSERT OR REPLACE INTO hanja_meta (key, value) VALUES ('legal_name_hanja_version', ?)`,
+        [legalList.version ?? 'unversioned']
+      );
+    }
+
     db.run("COMMIT", (err) => {
       if (err) console.error('Commit error:', err.message);
       else console.log(`Ingested ${count} entries into hanja.db`);
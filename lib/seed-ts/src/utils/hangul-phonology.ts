@@ -0,0 +1,263 @@
+import { decomposeHangulSyllable } from './hangul-name-entry';
+
+/**
+ * Spoken form of a name (표준 발음법), syllable by syllable.
+ *
+ * Written syllables are joined across every boundary, surname included:
+ *   김은아 → [기므나] (연음), 박민 → [방민] (비음화), 신라 → [실라] (유음화),
+ *   국보 → [국뽀] (경음화), 백호 → [배코] (격음화), 밭이 → [바치] (구개음화).
+ * Syllable count never changes, so spoken syllables stay aligned with the written ones.
+ * Non-hangul characters pass through untouched.
+ */
+
+export type SoundChangeKind =
+  | 'liaison'
+  | 'h-deletion'
+  | 'palatalization'
+  | 'nasalization'
+  | 'liquidization'
+  | 'tensification'
+  | 'aspiration'
+  | 'coda-neutralization';
+
+/** One sound change at the boundary between syllables `position` and `position + 1` (or in the last coda). */
+export interface SoundChange {
+  readonly kind: SoundChangeKind;
+  readonly position: number;
+  /** Written syllables involved (one or two). */
+  readonly written: string;
+  /** The same syllables as spoken. */
+  readonly spoken: string;
+}
+
+export interface SpokenForm {
+  readonly written: string[];
+  readonly spoken: string[];
+  readonly changes: SoundChange[];
+}
+
+interface Syllable {
+  onset: string;
+  nucleus: string;
+  coda: string;
+}
+
+const SYLLABLE_BASE = 0xac00;
+
+const ONSETS = [
+  'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ',
+  'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+];
+const NUCLEI = [
+  'ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ',
+  'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ',
+];
+const CODAS = [
+  '', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ',
+  'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ',
+  'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+];
+
+/** Cluster codas: [part kept in the syllable, part carried over before a vowel]. */
+const CLUSTER_CODAS: Readonly<Record<string, readonly [string, string]>> = {
+  'ㄳ': ['ㄱ', 'ㅆ'], 'ㄵ': ['ㄴ', 'ㅈ'], 'ㄶ': ['ㄴ', 'ㅎ'], 'ㄺ': ['ㄹ', 'ㄱ'],
+  'ㄻ': ['ㄹ', 'ㅁ'], 'ㄼ': ['ㄹ', 'ㅂ'], 'ㄽ': ['ㄹ', 'ㅆ'], 'ㄾ': ['ㄹ', 'ㅌ'],
+  'ㄿ': ['ㄹ', 'ㅍ'], 'ㅀ': ['ㄹ', 'ㅎ'], 'ㅄ': ['ㅂ', 'ㅆ'],
+};
+
+/** The seven codas that can actually be pronounced (받침의 대표음). */
+const CODA_NEUTRAL: Readonly<Record<string, string>> = {
+  'ㄱ': 'ㄱ', 'ㄲ': 'ㄱ', 'ㅋ': 'ㄱ', 'ㄳ': 'ㄱ', 'ㄺ': 'ㄱ',
+  'ㄴ': 'ㄴ', 'ㄵ': 'ㄴ', 'ㄶ': 'ㄴ',
+  'ㄷ': 'ㄷ', 'ㅅ': 'ㄷ', 'ㅆ': 'ㄷ', 'ㅈ': 'ㄷ', 'ㅊ': 'ㄷ', 'ㅌ': 'ㄷ', 'ㅎ': 'ㄷ',
+  'ㄹ': 'ㄹ', 'ㄼ': 'ㄹ', 'ㄽ': 'ㄹ', 'ㄾ': 'ㄹ', 'ㅀ': 'ㄹ',
+  'ㅁ': 'ㅁ', 'ㄻ': 'ㅁ',
+  'ㅂ': 'ㅂ', 'ㅍ': 'ㅂ', 'ㅄ': 'ㅂ', 'ㄿ': 'ㅂ',
+  'ㅇ': 'ㅇ',
+};
+
+const NASAL_OF: Readonly<Record<string, string>> = { 'ㄱ': 'ㅇ', 'ㄷ': 'ㄴ', 'ㅂ': 'ㅁ' };
+const TENSE_OF: Readonly<Record<string, string>> = { 'ㄱ': 'ㄲ', 'ㄷ': 'ㄸ', 'ㅂ': 'ㅃ', 'ㅅ': 'ㅆ', 'ㅈ': 'ㅉ' };
+const ASPIRATE_OF: Readonly<Record<string, string>> = { 'ㄱ': 'ㅋ', 'ㄷ': 'ㅌ', 'ㅂ': 'ㅍ', 'ㅈ': 'ㅊ' };
+/** Coda that merges with a following ㅎ into an aspirate (ㄱ+ㅎ → ㅋ). */
+const CODA_BEFORE_H: Readonly<Record<string, string>> = {
+  'ㄱ': 'ㄱ', 'ㄲ': 'ㄱ', 'ㄺ': 'ㄱ',
+  'ㄷ': 'ㄷ', 'ㅅ': 'ㄷ', 'ㅆ': 'ㄷ', 'ㅌ': 'ㄷ', 'ㅈ': 'ㅈ', 'ㅊ': 'ㅈ',
+  'ㅂ': 'ㅂ', 'ㅍ': 'ㅂ', 'ㄼ': 'ㅂ',
+};
+const H_CODAS = new Set(['ㅎ', 'ㄶ', 'ㅀ']);
+
+const ROMAN_ONSET: Readonly<Record<string, string>> = {
+  'ㄱ': 'g', 'ㄲ': 'kk', 'ㄴ': 'n', 'ㄷ': 'd', 'ㄸ': 'tt', 'ㄹ': 'r', 'ㅁ': 'm', 'ㅂ': 'b', 'ㅃ': 'pp',
+  'ㅅ': 's', 'ㅆ': 'ss', 'ㅇ': '', 'ㅈ': 'j', 'ㅉ': 'jj', 'ㅊ': 'ch', 'ㅋ': 'k', 'ㅌ': 't', 'ㅍ': 'p', 'ㅎ': 'h',
+};
+const ROMAN_NUCLEUS: Readonly<Record<string, string>> = {
+  'ㅏ': 'a', 'ㅐ': 'ae', 'ㅑ': 'ya', 'ㅒ': 'yae', 'ㅓ': 'eo', 'ㅔ': 'e', 'ㅕ': 'yeo', 'ㅖ': 'ye',
+  'ㅗ': 'o', 'ㅘ': 'wa', 'ㅙ': 'wae', 'ㅚ': 'oe', 'ㅛ': 'yo', 'ㅜ': 'u', 'ㅝ': 'wo', 'ㅞ': 'we',
+  'ㅟ': 'wi', 'ㅠ': 'yu', 'ㅡ': 'eu', 'ㅢ': 'ui', 'ㅣ': 'i',
+};
+const ROMAN_CODA: Readonly<Record<string, string>> = {
+  '': '', 'ㄱ': 'k', 'ㄴ': 'n', 'ㄷ': 't', 'ㄹ': 'l', 'ㅁ': 'm', 'ㅂ': 'p', 'ㅇ': 'ng',
+};
+
+function isHangulSyllable(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return char.length === 1 && code >= SYLLABLE_BASE && code <= 0xd7a3;
+}
+
+function compose(syllable: Syllable): string {
+  return String.fromCharCode(
+    SYLLABLE_BASE
+    + ONSETS.indexOf(syllable.onset) * 588
+    + NUCLEI.indexOf(syllable.nucleus) * 28
+    + CODAS.indexOf(syllable.coda),
+  );
+}
+
+/**
+ * Applies one boundary's rules to `left` / `right` in place and returns what happened.
+ * `right` is null for the final syllable (only coda neutralization applies).
+ */
+function applyBoundary(left: Syllable, right: Syllable | null): SoundChangeKind | null {
+  const coda = left.coda;
+  if (!coda) return null;
+
+  if (!right) {
+    left.coda = CODA_NEUTRAL[coda] ?? coda;
+    return left.coda !== coda ? 'coda-neutralization' : null;
+  }
+
+  // Vowel-initial next syllable: the coda moves over (연음), ㅎ drops, ㄷ/ㅌ + 이 palatalize
+  if (right.onset === 'ㅇ') {
+    if (coda === 'ㅇ') return null;
+    if (coda === 'ㅎ') {
+      left.coda = '';
+      return 'h-deletion';
+    }
+    const [kept, carried] = CLUSTER_CODAS[coda] ?? ['', coda];
+    if (carried === 'ㅎ') {
+      left.coda = '';
+      right.onset = kept;
+      return 'h-deletion';
+    }
+    left.coda = kept;
+    if (right.nucleus === 'ㅣ' && (carried === 'ㄷ' || carried === 'ㅌ')) {
+      right.onset = carried === 'ㄷ' ? 'ㅈ' : 'ㅊ';
+      return 'palatalization';
+    }
+    right.onset = carried;
+    return 'liaison';
+  }
+
+  // ㅎ coda before ㄱ/ㄷ/ㅈ aspirates them, before ㅅ tenses it, before ㄴ becomes ㄴ, else drops
+  if (H_CODAS.has(coda)) {
+    const kept = CLUSTER_CODAS[coda]?.[0] ?? '';
+    if (ASPIRATE_OF[right.onset]) {
+      left.coda = kept;
+      right.onset = ASPIRATE_OF[right.onset];
+      return 'aspiration';
+    }
+    if (right.onset === 'ㅅ') {
+      left.coda = kept;
+      right.onset = 'ㅆ';
+      return 'tensification';
+    }
+    if (right.onset === 'ㄴ') {
+      left.coda = kept || 'ㄴ';
+      return 'nasalization';
+    }
+    left.coda = kept;
+    return 'h-deletion';
+  }
+
+  // Obstruent coda before ㅎ merges into an aspirate
+  if (right.onset === 'ㅎ' && CODA_BEFORE_H[coda]) {
+    left.coda = CLUSTER_CODAS[coda]?.[0] === 'ㄹ' ? 'ㄹ' : '';
+    right.onset = ASPIRATE_OF[CODA_BEFORE_H[coda]];
+    return 'aspiration';
+  }
+
+  const neutral = CODA_NEUTRAL[coda] ?? coda;
+  left.coda = neutral;
+
+  if (NASAL_OF[neutral]) {
+    if (right.onset === 'ㄴ' || right.onset === 'ㅁ') {
+      left.coda = NASAL_OF[neutral];
+      return 'nasalization';
+    }
+    if (right.onset === 'ㄹ') {
+      left.coda = NASAL_OF[neutral];
+      right.onset = 'ㄴ';
+      return 'nasalization';
+    }
+    if (TENSE_OF[right.onset]) {
+      right.onset = TENSE_OF[right.onset];
+      return 'tensification';
+    }
+  }
+  if ((neutral === 'ㅁ' || neutral === 'ㅇ') && right.onset === 'ㄹ') {
+    right.onset = 'ㄴ';
+    return 'nasalization';
+  }
+  if (neutral === 'ㄴ' && right.onset === 'ㄹ') {
+    left.coda = 'ㄹ';
+    return 'liquidization';
+  }
+  if (neutral === 'ㄹ' && right.onset === 'ㄴ') {
+    right.onset = 'ㄹ';
+    return 'liquidization';
+  }
+  return neutral !== coda ? 'coda-neutralization' : null;
+}
+
+/** Spoken syllables of `syllables` read as one word, with every sound change that applied. */
+export function pronounceSyllables(syllables: readonly string[]): SpokenForm {
+  const written = [...syllables];
+  const parts: (Syllable | null)[] = written.map(char => {
+    const jamo = isHangulSyllable(char) ? decomposeHangulSyllable(char) : null;
+    return jamo ? { ...jamo } : null;
+  });
+
+  const changes: SoundChange[] = [];
+  for (let index = 0; index < parts.length; index++) {
+    const left = parts[index];
+    if (!left) continue;
+    // A non-hangul neighbour ends the word just like the last syllable does
+    const right = parts[index + 1] ?? null;
+    const kind = applyBoundary(left, right);
+    if (!kind) continue;
+
+    const span = right ? 2 : 1;
+    changes.push({
+      kind,
+      position: index,
+      written: written.slice(index, index + span).join(''),
+      spoken: parts.slice(index, index + span).map(part => compose(part!)).join(''),
+    });
+  }
+
+  return {
+    written,
+    spoken: parts.map((part, index) => (part ? compose(part) : written[index])),
+    changes,
+  };
+}
+
+/**
+ * Revised Romanization of already-spoken syllables, one string per syllable.
+ * ㄹ after an ㄹ coda is written `l` (실라 → sil-la).
+ */
+export function romanizeSpokenSyllables(spoken: readonly string[]): string[] {
+  let previousCoda = '';
+  return spoken.map(char => {
+    const jamo = isHangulSyllable(char) ? decomposeHangulSyllable(char) : null;
+    if (!jamo) {
+      previousCoda = '';
+      return char;
+    }
+    const onset = jamo.onset === 'ㄹ' && previousCoda === 'ㄹ' ? 'l' : ROMAN_ONSET[jamo.onset] ?? '';
+    const coda = CODA_NEUTRAL[jamo.coda] ?? jamo.coda;
+    previousCoda = coda;
+    return onset + (ROMAN_NUCLEUS[jamo.nucleus] ?? '') + (ROMAN_CODA[coda] ?? '');
+  });
+}
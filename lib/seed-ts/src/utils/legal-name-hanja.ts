@@ -0,0 +1,101 @@
+import type { HanjaEntry } from '../database/hanja-repository';
+
+/**
+ * 인명용 한자 (Supreme Court list of hanja allowed in registered names).
+ *
+ * List file format (one character per line, `#` comments):
+ *   # version: 2024-06-11
+ *   李	리
+ *   樂	락,악,요
+ * Readings are the official ones; 두음법칙 variants (리→이, 락→낙, ...) are also
+ * registrable and are added by `withDueumVariants`.
+ */
+
+export interface LegalNameHanjaList {
+  /** Value of the `# version:` header, or null when the file has none. */
+  readonly version: string | null;
+  /** hanja -> official readings */
+  readonly readings: ReadonlyMap<string, readonly string[]>;
+}
+
+/**
+ * - allowed: listed and the reading is an official or 두음 reading
+ * - reading-not-allowed: listed, but not with this reading
+ * - not-listed: the DB carries the list and the character is not on it
+ * - unknown: the DB predates the list (no flag to check)
+ */
+export type LegalNameHanjaStatus = 'allowed' | 'reading-not-allowed' | 'not-listed' | 'unknown';
+
+const SYLLABLE_BASE = 0xac00;
+const ONSET_NIEUN = 2;
+const ONSET_RIEUL = 5;
+const ONSET_IEUNG = 11;
+/** ㅑ ㅕ ㅖ ㅛ ㅠ ㅣ — vowels before which initial ㄹ/ㄴ become ㅇ */
+const Y_VOWELS = new Set([2, 6, 7, 12, 17, 20]);
+
+export function parseLegalNameHanjaList(content: string): LegalNameHanjaList {
+  let version: string | null = null;
+  const readings = new Map<string, string[]>();
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const header = line.match(/^#\s*version\s*:\s*(.+)$/i);
+      if (header) version = header[1].trim();
+      continue;
+    }
+
+    const [hanja, readingField = ''] = line.split(/\s+/, 2);
+    if (!hanja) continue;
+    const list = readings.get(hanja) ?? [];
+    for (const reading of readingField.split(',').map((r) => r.trim()).filter(Boolean)) {
+      if (!list.includes(reading)) list.push(reading);
+    }
+    readings.set(hanja, list);
+  }
+
+  return { version, readings };
+}
+
+/** 두음법칙 reading of a syllable (랴→야, 라→나, 녀→여), or null when the rule does not apply. */
+export function dueumVariant(syllable: string): string | null {
+  const code = syllable.charCodeAt(0) - SYLLABLE_BASE;
+  if (syllable.length !== 1 || code < 0 || code > 11171) return null;
+
+  const onset = Math.floor(code / 588);
+  const nucleus = Math.floor((code % 588) / 28);
+  const coda = code % 28;
+
+  let nextOnset: number | null = null;
+  if (onset === ONSET_RIEUL) nextOnset = Y_VOWELS.has(nucleus) ? ONSET_IEUNG : ONSET_NIEUN;
+  if (onset === ONSET_NIEUN && Y_VOWELS.has(nucleus)) nextOnset = ONSET_IEUNG;
+  if (nextOnset === null) return null;
+
+  return String.fromCharCode(SYLLABLE_BASE + nextOnset * 588 + nucleus * 28 + coda);
+}
+
+/** Official readings plus their 두음 variants (리 → 리, 이; 량 → 량, 양). */
+export function withDueumVariants(readings: readonly string[]): string[] {
+  const out: string[] = [];
+  for (const reading of readings) {
+    if (!out.includes(reading)) out.push(reading);
+    let variant = dueumVariant(reading);
+    // ㄹ before a y-vowel goes ㄹ→ㅇ directly; ㄴ is only an intermediate for other vowels.
+    while (variant && !out.includes(variant)) {
+      out.push(variant);
+      variant = dueumVariant(variant);
+    }
+  }
+  return out;
+}
+
+/** Registrability of `hangul` as the reading of the character whose DB rows are `rows`. */
+export function legalNameHanjaStatus(rows: readonly HanjaEntry[], hangul: string): LegalNameHanjaStatus {
+  if (rows.length === 0 || rows.some((row) => row.is_legal_name == null)) return 'unknown';
+
+  const readings = new Set(rows.flatMap((row) => row.legal_readings ?? []));
+  if (readings.size === 0) return 'not-listed';
+  return readings.has(hangul) ? 'allowed' : 'reading-not-allowed';
+}
@@ -0,0 +1,88 @@
+import type { HanjaEntry } from '../database/hanja-repository';
+
+/**
+ * Stroke-count systems used by naming schools for 수리(four-frame) and 획수 음양.
+ *
+ * - wonhoek (원획법): counts the original form of a radical (氵 as 水 = 4, 艹 as 艸 = 6)
+ *   and numerals by value (四 = 4, 九 = 9). This is what the dictionary `strokes` column holds.
+ * - pilhoek (필획법): counts the strokes actually written (氵 = 3, 艹 = 4, 九 = 2).
+ */
+export type StrokeSystem = 'wonhoek' | 'pilhoek';
+
+export const DEFAULT_STROKE_SYSTEM: StrokeSystem = 'wonhoek';
+
+/** Written-form radicals and how many strokes 원획 adds on top of what is written. */
+const RADICAL_VARIANT_EXTRA: Readonly<Record<string, number>> = {
+  '氵': 1, // 水 4 → 3
+  '扌': 1, // 手 4 → 3
+  '忄': 1, // 心 4 → 3
+  '犭': 1, // 犬 4 → 3
+  '王': 1, // 玉 5 → 4
+  '礻': 1, // 示 5 → 4
+  '衤': 1, // 衣 6 → 5
+  '罒': 1, // 网 6 → 5
+  '艹': 2, // 艸 6 → 4
+  '⺼': 2, // 肉 6 → 4 (月 as flesh)
+  '耂': 2, // 老 6 → 4
+  '辶': 3, // 辵 7 → 4
+  '⻏': 4, // 邑 7 → 3 (right-hand 阝)
+  '⻖': 5, // 阜 8 → 3 (left-hand 阝)
+};
+
+/** Full forms of the radicals above: the written form is ambiguous (河 vs 泰), so no derivation. */
+const RADICALS_WITH_VARIANTS = new Set(['水', '手', '心', '犬', '玉', '示', '衣', '网', '艸', '肉', '老', '辵', '邑', '阜']);
+
+/** 원획 counts numerals by their value; these are the written counts. */
+const NUMERAL_WRITTEN_STROKES: Readonly<Record<string, number>> = {
+  '四': 5, '五': 4, '六': 4, '七': 2, '八': 2, '九': 2, '十': 2,
+};
+
+/**
+ * 필획 count derived from the 원획 count, or null when it cannot be derived.
+ * `radical` should be the written form (氵 rather than 水); radicals without a variant
+ * form are written as counted, so the 원획 count is returned unchanged for them.
+ */
+export function deriveWrittenStrokes(hanja: string, originalStrokes: number, radical: string): number | null {
+  const numeral = NUMERAL_WRITTEN_STROKES[hanja];
+  if (numeral !== undefined) return numeral;
+  if (!radical || RADICALS_WITH_VARIANTS.has(radical)) return null;
+
+  const extra = RADICAL_VARIANT_EXTRA[radical] ?? 0;
+  return originalStrokes - extra > 0 ? originalStrokes - extra : null;
+}
+
+/**
+ * Parses a 필획 table: one `hanja<whitespace>count` per line, `#` comments.
+ * Entries here override `deriveWrittenStrokes`.
+ */
+export function parseWrittenStrokeList(content: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [hanja, count] = line.split(/\s+/, 2);
+    const value = Number.parseInt(count ?? '', 10);
+    if (hanja && Number.isFinite(value) && value > 0) counts.set(hanja, value);
+  }
+  return counts;
+}
+
+/** Stroke count of `entry` under `system`; falls back to 원획 when the DB has no 필획 count. */
+export function strokesFor(entry: HanjaEntry, system: StrokeSystem): number {
+  return system === 'pilhoek' ? entry.strokes_written ?? entry.strokes : entry.strokes;
+}
+
+/** True when `system` asks for 필획 but `entry` only carries the 원획 count. */
+export function isStrokeFallback(entry: HanjaEntry, system: StrokeSystem): boolean {
+  return system === 'pilhoek' && entry.strokes_written == null;
+}
+
+/**
+ * Copy of `entry` whose `strokes` is the count under `system`, so the calculators
+ * (four frames, 획수 음양) and the optimizer work on it unchanged.
+ */
+export function withStrokeSystem(entry: HanjaEntry, system: StrokeSystem): HanjaEntry {
+  const strokes = strokesFor(entry, system);
+  return strokes === entry.strokes ? entry : { ...entry, strokes };
+}
@@ -0,0 +1,131 @@
+/**
+ * Priority-first enumeration of name-character combinations
+ *
+ * Candidate generation used to cross-join per-position pools up to a fixed
+ * cap, so good names past the cap were never seen. This generator instead
+ * walks every combination lazily, highest item priority first, with a
+ * priority queue. Priority is a cheap per-character preference (e.g. target
+ * element), not the name score, so the walk is not score-ordered:
+ *
+ *   - A "lane" is one list of per-position pools. The stroke strategy has
+ *     one lane per valid FourFrameOptimizer stroke combination; the jamo
+ *     strategy has a single lane of position pools.
+ *   - A state is (lane, index per position). Its rank is the summed item
+ *     priority (higher first), then the summed pool index (lower first),
+ *     then lane and indices, so the order is total and deterministic.
+ *   - Popping a state pushes its successors: one index advanced, only at or
+ *     after the position its parent advanced, so every state is reached by
+ *     exactly one path. Pools are sorted by descending priority, so a
+ *     successor never outranks its parent and states come out in rank order.
+ *
+ * The order only depends on the pools, so a caller can resume a walk by
+ * skipping the first N combinations (see SpringEngine cursors).
+ */
+
+export type CombinationLane<T> = readonly (readonly T[])[];
+
+interface SearchState {
+  readonly lane: number;
+  readonly indices: number[];
+  /** first position this state may advance (keeps paths unique) */
+  readonly from: number;
+  readonly priority: number;
+  readonly indexSum: number;
+}
+
+/** true when `a` should be popped before `b` */
+function outranks(a: SearchState, b: SearchState): boolean {
+  if (a.priority !== b.priority) return a.priority > b.priority;
+  if (a.indexSum !== b.indexSum) return a.indexSum < b.indexSum;
+  if (a.lane !== b.lane) return a.lane < b.lane;
+  for (let i = 0; i < a.indices.length; i++) {
+    if (a.indices[i] !== b.indices[i]) return a.indices[i] < b.indices[i];
+  }
+  return false;
+}
+
+/** Minimal binary heap ordered by `outranks`. */
+class StateHeap {
+  private readonly items: SearchState[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(state: SearchState): void {
+    const items = this.items;
+    items.push(state);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!outranks(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): SearchState | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && outranks(items[left], items[best])) best = left;
+        if (right < items.length && outranks(items[right], items[best])) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best], items[i]];
+        i = best;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Yield every combination (one item per pool) across all lanes, highest priority first.
+ *
+ * @param lanes    - per-position pools; each pool sorted by descending `priority`
+ * @param priority - per-item preference, e.g. 1 for a target-element character
+ */
+export function* priorityFirstCombinations<T>(
+  lanes: readonly CombinationLane<T>[],
+  priority: (item: T) => number,
+): Generator<T[]> {
+  const heap = new StateHeap();
+
+  const visit = (lane: number, indices: number[], from: number): void => {
+    const pools = lanes[lane];
+    let statePriority = 0;
+    let indexSum = 0;
+    indices.forEach((index, position) => {
+      statePriority += priority(pools[position][index]);
+      indexSum += index;
+    });
+    heap.push({ lane, indices, from, priority: statePriority, indexSum });
+  };
+
+  lanes.forEach((pools, lane) => {
+    if (pools.length > 0 && pools.every(pool => pool.length > 0)) {
+      visit(lane, new Array<number>(pools.length).fill(0), 0);
+    }
+  });
+
+  while (heap.size > 0) {
+    const state = heap.pop()!;
+    const pools = lanes[state.lane];
+    yield state.indices.map((index, position) => pools[position][index]);
+
+    for (let position = state.from; position < pools.length; position++) {
+      if (state.indices[position] + 1 < pools[position].length) {
+        const next = [...state.indices];
+        next[position] += 1;
+        visit(state.lane, next, position);
+      }
+    }
+  }
+}
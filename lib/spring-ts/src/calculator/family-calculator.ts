@@ -0,0 +1,180 @@
+/**
+ * Sibling mode (돌림자 / family name harmony)
+ *
+ *   - FamilyCalculator scores how well the name's elements fill the gaps of
+ *     the family's combined five-element spread: the child's chart plus every
+ *     sibling chart with birth data, using SajuCalculator's balance rule.
+ *   - findSiblingNameConflict flags names that sound the same as a sibling's,
+ *     or are easily confused with one.
+ */
+import type { HanjaEntry } from '../../../seed-ts/src/database/hanja-repository.js';
+import { hangulElementFromSyllable } from '../../../seed-ts/src/utils/hangul-name-entry.js';
+import {
+  type AnalysisDetail, type CalculatorPacket, type EvalContext, type EvaluableCalculator,
+  putInsight, createSignal, scoringProfileOf,
+} from '../core/evaluator.js';
+import { type ElementKey, ELEMENT_KEYS, distributionFromArrangement } from '../core/scoring.js';
+import { computeBalanceScore, type SajuNameElementSource } from '../saju-calculator.js';
+import type { DollimjaInput, FamilyHarmony } from '../types.js';
+
+export const FAMILY_FRAME = 'FAMILY_ELEMENT_BALANCE';
+
+const HANGUL_BLOCK_START = 0xac00;
+const HANGUL_BLOCK_END   = 0xd7a3;
+
+/** A sibling as the engine uses it: name, name-stat neighbours and chart. */
+export interface FamilySibling {
+  /** Given name in hangul. */
+  readonly hangul: string;
+  /** `similar_names` of the sibling's name-stat entry. */
+  readonly similarNames: readonly string[];
+  /** Five-element distribution of the sibling's chart; null without usable birth data. */
+  readonly distribution: Record<ElementKey, number> | null;
+}
+
+export interface FamilyContext {
+  readonly dollimja: DollimjaInput | null;
+  readonly siblings: readonly FamilySibling[];
+}
+
+export interface SiblingNameConflict {
+  readonly code: 'SIBLING_SAME_NAME' | 'SIBLING_SIMILAR_NAME';
+  readonly sibling: string;
+}
+
+/** [onset, nucleus, coda] indices of a hangul syllable, or null for anything else. */
+function syllableJamo(char: string): [number, number, number] | null {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_BLOCK_START || code > HANGUL_BLOCK_END) return null;
+  const offset = code - HANGUL_BLOCK_START;
+  return [Math.floor(offset / 588), Math.floor((offset % 588) / 28), offset % 28];
+}
+
+/** True when the names differ in one syllable and that syllable in one jamo (채윤 / 채운). */
+function differsByOneJamo(a: string, b: string): boolean {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  if (left.length !== right.length) return false;
+
+  const differing = left.map((_, index) => index).filter(index => left[index] !== right[index]);
+  if (differing.length !== 1) return false;
+
+  const leftJamo = syllableJamo(left[differing[0]]);
+  const rightJamo = syllableJamo(right[differing[0]]);
+  if (!leftJamo || !rightJamo) return false;
+  return leftJamo.filter((part, index) => part !== rightJamo[index]).length === 1;
+}
+
+/** True when every syllable the names share in place is the 돌림자, which siblings are meant to share. */
+function sharesOnlyDollimja(a: string, b: string, dollimja: DollimjaInput | null): boolean {
+  if (!dollimja) return false;
+  const left = Array.from(a);
+  const right = Array.from(b);
+  return left.every((syllable, index) => syllable !== right[index] || index === dollimja.position);
+}
+
+/**
+ * First sibling whose name clashes with `givenHangul`:
+ *   - SIBLING_SAME_NAME: identical pronunciation.
+ *   - SIBLING_SIMILAR_NAME: one jamo apart, or listed in either name's
+ *     `similar_names` unless the only shared syllable is the 돌림자.
+ */
+export function findSiblingNameConflict(
+  givenHangul: string,
+  similarNames: readonly string[],
+  family: FamilyContext,
+): SiblingNameConflict | null {
+  for (const sibling of family.siblings) {
+    if (!sibling.hangul) continue;
+    if (sibling.hangul === givenHangul) return { code: 'SIBLING_SAME_NAME', sibling: sibling.hangul };
+
+    const listed = similarNames.includes(sibling.hangul) || sibling.similarNames.includes(givenHangul);
+    if (differsByOneJamo(givenHangul, sibling.hangul)
+      || (listed && !sharesOnlyDollimja(givenHangul, sibling.hangul, family.dollimja))) {
+      return { code: 'SIBLING_SIMILAR_NAME', sibling: sibling.hangul };
+    }
+  }
+  return null;
+}
+
+export class FamilyCalculator implements EvaluableCalculator {
+  readonly id = 'family';
+  private readonly elementSource: SajuNameElementSource;
+  private readonly charted: FamilySibling[];
+  private result: FamilyHarmony | null = null;
+
+  constructor(
+    private surnameEntries: HanjaEntry[],
+    private givenNameEntries: HanjaEntry[],
+    private sajuDistribution: Record<ElementKey, number> | null,
+    family: FamilyContext | null,
+    options: { readonly elementSource?: SajuNameElementSource } = {},
+  ) {
+    this.elementSource = options.elementSource ?? 'resource';
+    this.charted = family?.siblings.filter(sibling => sibling.distribution !== null) ?? [];
+  }
+
+  /** False without siblings that have a chart (or when the child has none); the calculator then adds nothing. */
+  get enabled(): boolean {
+    if (!this.sajuDistribution || this.charted.length === 0) return false;
+    return ELEMENT_KEYS.some(key => (this.sajuDistribution![key] ?? 0) > 0);
+  }
+
+  private elementOf(entry: HanjaEntry): ElementKey {
+    if (this.elementSource === 'hangul') {
+      return hangulElementFromSyllable(entry.hangul);
+    }
+    return entry.resource_element as ElementKey;
+  }
+
+  visit(ctx: EvalContext): void {
+    if (!this.enabled) {
+      this.result = null;
+      return;
+    }
+
+    const familyDistribution = Object.fromEntries(ELEMENT_KEYS.map(key => [
+      key,
+      (this.sajuDistribution![key] ?? 0)
+        + this.charted.reduce((sum, sibling) => sum + (sibling.distribution![key] ?? 0), 0),
+    ])) as Record<ElementKey, number>;
+
+    const profile = scoringProfileOf(ctx);
+    const arrangement = [...this.surnameEntries, ...this.givenNameEntries].map(entry => this.elementOf(entry));
+    const balance = computeBalanceScore(familyDistribution, distributionFromArrangement(arrangement), profile.saju);
+    this.result = {
+      score: balance.score,
+      isPassed: balance.score >= profile.frames.familyElement.minPassingScore,
+      familyDistribution,
+      combinedDistribution: balance.combined,
+      siblings: this.charted.map(sibling => sibling.hangul),
+    };
+    putInsight(ctx, FAMILY_FRAME, this.result.score, this.result.isPassed, 'FAMILY+ELEMENT', {
+      familyDistribution,
+      combinedDistribution: balance.combined,
+      siblings: this.result.siblings,
+    });
+  }
+
+  backward(ctx: EvalContext): CalculatorPacket {
+    if (!this.enabled) {
+      return { signals: [] };
+    }
+    return { signals: [createSignal(FAMILY_FRAME, ctx, scoringProfileOf(ctx).frames.familyElement.signalWeight)] };
+  }
+
+  /** The harmony summary, or null when the calculator is disabled. */
+  getHarmony(): FamilyHarmony | null {
+    return this.result;
+  }
+
+  getAnalysis(): AnalysisDetail<FamilyHarmony | null> {
+    return {
+      type: 'Family',
+      score: this.result?.score ?? 0,
+      polarityScore: 0,
+      elementScore: this.result?.score ?? 0,
+      data: this.result,
+    };
+  }
+}
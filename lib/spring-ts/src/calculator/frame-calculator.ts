@@ -1,28 +1,27 @@
 import { FourFrameCalculator as SeedFourFrameCalculator } from '../../../seed-ts/src/calculator/frame-calculator.js';
 import type { HanjaEntry } from '../../../seed-ts/src/database/hanja-repository.js';
+import type { FourframeRepository } from '../../../seed-ts/src/database/fourframe-repository.js';
 import { Energy } from '../../../seed-ts/src/model/energy.js';
 import type { FourFrameAnalysis } from '../core/model-types.js';
 import type { AnalysisDetail, CalculatorPacket, EvalContext, EvaluableCalculator } from '../core/evaluator.js';
-import { putInsight, createSignal } from '../core/evaluator.js';
+import { putInsight, createSignal, scoringProfileOf } from '../core/evaluator.js';
 import { type ElementKey, adjustTo81, distributionFromArrangement, calculateArrayScore, calculateBalanceScore, checkFourFrameSuriElement, countDominant, bucketFromFortune } from '../core/scoring.js';
-import scoringRules from '../../config/scoring-rules.json';
 
 export type Frame = InstanceType<typeof SeedFourFrameCalculator.Frame>;
 
-const LUCK_SIGNAL_WEIGHT = scoringRules.fourframeLuck.signalWeight;
-const ELEMENT_SIGNAL_WEIGHT = scoringRules.fourframeElement.signalWeight;
-const DOUBLE_SURNAME_ADJACENCY_THRESHOLD = scoringRules.fourframeElement.doubleSurnameThreshold;
-const SINGLE_SURNAME_ADJACENCY_THRESHOLD = scoringRules.fourframeElement.singleSurnameThreshold;
-const MIN_ELEMENT_PASSING_SCORE = scoringRules.fourframeElement.minPassingScore;
-
 export class FrameCalculator extends SeedFourFrameCalculator implements EvaluableCalculator {
   readonly id = 'frame';
   private frameElementScore = 0;
   private frameLuckScore = 0;
   private readonly enabled: boolean;
 
-  constructor(surnameEntries: HanjaEntry[], givenNameEntries: HanjaEntry[], enabled: boolean = true) {
-    super(surnameEntries, givenNameEntries);
+  constructor(
+    surnameEntries: HanjaEntry[],
+    givenNameEntries: HanjaEntry[],
+    enabled: boolean = true,
+    repository: FourframeRepository | null = null,
+  ) {
+    super(surnameEntries, givenNameEntries, repository);
     this.enabled = enabled;
   }
 
@@ -64,10 +63,11 @@ export class FrameCalculator extends SeedFourFrameCalculator implements Evaluabl
       return { signals: [] };
     }
 
+    const { fourframeLuck, fourframeElement } = scoringProfileOf(ctx).frames;
     return {
       signals: [
-        createSignal('FOURFRAME_LUCK', ctx, LUCK_SIGNAL_WEIGHT),
-        createSignal('FOURFRAME_ELEMENT', ctx, ELEMENT_SIGNAL_WEIGHT),
+        createSignal('FOURFRAME_LUCK', ctx, fourframeLuck.signalWeight),
+        createSignal('FOURFRAME_ELEMENT', ctx, fourframeElement.signalWeight),
       ],
     };
   }
@@ -138,15 +138,16 @@ export class FrameCalculator extends SeedFourFrameCalculator implements Evaluabl
     const balanceScore = calculateBalanceScore(distribution);
     const score = (balanceScore + adjacencyScore) / 2;
 
+    const elementRules = scoringProfileOf(ctx).frames.fourframeElement;
     const adjacencyThreshold = ctx.surnameLength === 2
-      ? DOUBLE_SURNAME_ADJACENCY_THRESHOLD
-      : SINGLE_SURNAME_ADJACENCY_THRESHOLD;
+      ? elementRules.doubleSurnameThreshold
+      : elementRules.singleSurnameThreshold;
 
     const isPassed =
       checkFourFrameSuriElement(arrangement, ctx.givenLength) &&
       !countDominant(distribution) &&
       adjacencyScore >= adjacencyThreshold &&
-      score >= MIN_ELEMENT_PASSING_SCORE;
+      score >= elementRules.minPassingScore;
 
     this.frameElementScore = score;
 
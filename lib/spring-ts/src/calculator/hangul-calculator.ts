@@ -2,22 +2,12 @@ import { HangulCalculator as SeedHangulCalculator } from '../../../seed-ts/src/c
 import type { HanjaEntry } from '../../../seed-ts/src/database/hanja-repository.js';
 import type { HangulAnalysis } from '../core/model-types.js';
 import type { AnalysisDetail, CalculatorPacket, EvalContext, EvaluableCalculator } from '../core/evaluator.js';
-import { putInsight, createSignal } from '../core/evaluator.js';
+import { putInsight, createSignal, scoringProfileOf } from '../core/evaluator.js';
 import {
   type ElementKey, type PolarityValue,
   distributionFromArrangement, calculateArrayScore, calculateBalanceScore,
   checkElementGenerating, countDominant, computePolarityResult,
 } from '../core/scoring.js';
-import scoringRules from '../../config/scoring-rules.json';
-
-const elementRules = scoringRules.hangulElement;
-const polarityRules = scoringRules.hangulPolarity;
-
-const DOUBLE_SURNAME_ADJACENCY_THRESHOLD = elementRules.doubleSurnameThreshold;
-const SINGLE_SURNAME_ADJACENCY_THRESHOLD = elementRules.singleSurnameThreshold;
-const MIN_ELEMENT_PASSING_SCORE = elementRules.minPassingScore;
-const ELEMENT_SIGNAL_WEIGHT = elementRules.signalWeight;
-const POLARITY_SIGNAL_WEIGHT = polarityRules.signalWeight;
 
 export class HangulCalculator extends SeedHangulCalculator implements EvaluableCalculator {
   readonly id = 'hangul';
@@ -28,6 +18,7 @@ export class HangulCalculator extends SeedHangulCalculator implements EvaluableC
 
   visit(ctx: EvalContext): void {
     this.calculate();
+    const elementRules = scoringProfileOf(ctx).frames.hangulElement;
 
     const blocks = this.getNameBlocks();
     const elementArrangement = blocks
@@ -43,13 +34,13 @@ export class HangulCalculator extends SeedHangulCalculator implements EvaluableC
     const combinedElementScore = (balanceScore + adjacencyScore) / 2;
 
     const adjacencyThreshold = ctx.surnameLength === 2
-      ? DOUBLE_SURNAME_ADJACENCY_THRESHOLD
-      : SINGLE_SURNAME_ADJACENCY_THRESHOLD;
+      ? elementRules.doubleSurnameThreshold
+      : elementRules.singleSurnameThreshold;
 
     const noClashingNeighbours = checkElementGenerating(elementArrangement, ctx.surnameLength);
     const noSingleDominant = !countDominant(elementDistribution);
     const adjacencyIsStrong = adjacencyScore >= adjacencyThreshold;
-    const overallScoreIsHigh = combinedElementScore >= MIN_ELEMENT_PASSING_SCORE;
+    const overallScoreIsHigh = combinedElementScore >= elementRules.minPassingScore;
 
     const elementPassed =
       noClashingNeighbours &&
@@ -82,10 +73,11 @@ export class HangulCalculator extends SeedHangulCalculator implements EvaluableC
   }
 
   backward(ctx: EvalContext): CalculatorPacket {
+    const { hangulElement, hangulPolarity } = scoringProfileOf(ctx).frames;
     return {
       signals: [
-        createSignal('HANGUL_ELEMENT', ctx, ELEMENT_SIGNAL_WEIGHT),
-        createSignal('HANGUL_POLARITY', ctx, POLARITY_SIGNAL_WEIGHT),
+        createSignal('HANGUL_ELEMENT', ctx, hangulElement.signalWeight),
+        createSignal('HANGUL_POLARITY', ctx, hangulPolarity.signalWeight),
       ],
     };
   }
@@ -2,11 +2,8 @@ import { HanjaCalculator as SeedHanjaCalculator } from '../../../seed-ts/src/cal
 import type { HanjaEntry } from '../../../seed-ts/src/database/hanja-repository.js';
 import type { HanjaAnalysis } from '../core/model-types.js';
 import type { AnalysisDetail, CalculatorPacket, EvalContext, EvaluableCalculator } from '../core/evaluator.js';
-import { putInsight, createSignal } from '../core/evaluator.js';
+import { putInsight, createSignal, scoringProfileOf } from '../core/evaluator.js';
 import { type ElementKey, type PolarityValue, distributionFromArrangement, calculateArrayScore, calculateBalanceScore, computePolarityResult } from '../core/scoring.js';
-import scoringRules from '../../config/scoring-rules.json';
-
-const STROKE_POLARITY_SIGNAL_WEIGHT = scoringRules.strokePolarity.signalWeight;
 
 export class HanjaCalculator extends SeedHanjaCalculator implements EvaluableCalculator {
   readonly id = 'hanja';
@@ -86,7 +83,7 @@ export class HanjaCalculator extends SeedHanjaCalculator implements EvaluableCal
 
     return {
       signals: [
-        createSignal('STROKE_POLARITY', ctx, STROKE_POLARITY_SIGNAL_WEIGHT),
+        createSignal('STROKE_POLARITY', ctx, scoringProfileOf(ctx).frames.strokePolarity.signalWeight),
       ],
     };
   }
@@ -0,0 +1,126 @@
+import type { HanjaEntry } from '../../../seed-ts/src/database/hanja-repository.js';
+import { decomposeHangulSyllable } from '../../../seed-ts/src/utils/hangul-name-entry.js';
+import {
+  pronounceSyllables, romanizeSpokenSyllables,
+  type SoundChangeKind,
+} from '../../../seed-ts/src/utils/hangul-phonology.js';
+import type { PhoneticAnalysis, PhoneticFlowIssue, PhoneticFlowIssueCode } from '../core/model-types.js';
+import type { AnalysisDetail, CalculatorPacket, EvalContext, EvaluableCalculator } from '../core/evaluator.js';
+import { putInsight, createSignal, scoringProfileOf } from '../core/evaluator.js';
+import { DEFAULT_SCORING_PROFILE, type FrameScoringRules } from '../core/scoring-profile.js';
+
+export const PHONETIC_FRAME = 'PHONETIC_FLOW';
+
+type PhoneticFlowRules = FrameScoringRules['phoneticFlow'];
+
+const ISSUE_PENALTY_KEY: Readonly<Record<PhoneticFlowIssueCode, keyof PhoneticFlowRules['penalties']>> = {
+  REPEATED_ONSET: 'repeatedOnset',
+  CODA_LIAISON: 'liaison',
+  ASSIMILATION: 'assimilation',
+  HARD_CLUSTER: 'hardCluster',
+};
+
+/** Sound changes that count against the flow; final-coda neutralization is just how Korean is spoken. */
+const ISSUE_OF_CHANGE: Readonly<Partial<Record<SoundChangeKind, PhoneticFlowIssueCode>>> = {
+  'liaison': 'CODA_LIAISON',
+  'h-deletion': 'CODA_LIAISON',
+  'palatalization': 'CODA_LIAISON',
+  'nasalization': 'ASSIMILATION',
+  'liquidization': 'ASSIMILATION',
+  'tensification': 'HARD_CLUSTER',
+  'aspiration': 'HARD_CLUSTER',
+};
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Scores how the full name sounds when said aloud: 받침 carried into the next
+ * syllable, assimilated or hardened consonants, and the same onset twice in a row.
+ */
+export class PhoneticCalculator implements EvaluableCalculator {
+  readonly id = 'phonetic';
+  private analysis: PhoneticAnalysis | null = null;
+  private analyzedWith: PhoneticFlowRules | null = null;
+
+  constructor(
+    private surnameEntries: HanjaEntry[],
+    private givenNameEntries: HanjaEntry[],
+  ) {}
+
+  /** Spoken form and flow issues; computed once per set of penalty rules. */
+  analyze(rules: PhoneticFlowRules = DEFAULT_SCORING_PROFILE.frames.phoneticFlow): PhoneticAnalysis {
+    if (this.analysis && this.analyzedWith === rules) return this.analysis;
+
+    const written = [...this.surnameEntries, ...this.givenNameEntries].map(entry => entry.hangul);
+    const { spoken, changes } = pronounceSyllables(written);
+
+    const issues: PhoneticFlowIssue[] = [];
+    const pushIssue = (code: PhoneticFlowIssueCode, position: number) => issues.push({
+      code,
+      position,
+      written: written.slice(position, position + 2).join(''),
+      spoken: spoken.slice(position, position + 2).join(''),
+      penalty: rules.penalties[ISSUE_PENALTY_KEY[code]],
+    });
+
+    for (const change of changes) {
+      const code = ISSUE_OF_CHANGE[change.kind];
+      if (code && change.position < written.length - 1) pushIssue(code, change.position);
+    }
+    for (let position = 0; position < spoken.length - 1; position++) {
+      const onset = decomposeHangulSyllable(spoken[position])?.onset;
+      if (onset && onset !== 'ㅇ' && onset === decomposeHangulSyllable(spoken[position + 1])?.onset) {
+        pushIssue('REPEATED_ONSET', position);
+      }
+    }
+    issues.sort((a, b) => a.position - b.position);
+
+    const roman = romanizeSpokenSyllables(spoken);
+    const surnameLength = this.surnameEntries.length;
+    const romanization = [roman.slice(0, surnameLength), roman.slice(surnameLength)]
+      .map(part => capitalize(part.join('')))
+      .filter(Boolean)
+      .join(' ');
+
+    this.analysis = {
+      written: written.join(''),
+      spoken: spoken.join(''),
+      romanization,
+      changes,
+      issues,
+      score: Math.max(0, 100 - issues.reduce((sum, issue) => sum + issue.penalty, 0)),
+    };
+    this.analyzedWith = rules;
+    return this.analysis;
+  }
+
+  visit(ctx: EvalContext): void {
+    const rules = scoringProfileOf(ctx).frames.phoneticFlow;
+    const analysis = this.analyze(rules);
+    putInsight(
+      ctx,
+      PHONETIC_FRAME,
+      analysis.score,
+      analysis.score >= rules.minPassingScore,
+      analysis.spoken,
+      { romanization: analysis.romanization, issues: analysis.issues },
+    );
+  }
+
+  backward(ctx: EvalContext): CalculatorPacket {
+    return { signals: [createSignal(PHONETIC_FRAME, ctx, scoringProfileOf(ctx).frames.phoneticFlow.signalWeight)] };
+  }
+
+  getAnalysis(): AnalysisDetail<PhoneticAnalysis> {
+    const analysis = this.analysis ?? this.analyze();
+    return {
+      type: this.id,
+      score: analysis.score,
+      polarityScore: 0,
+      elementScore: 0,
+      data: analysis,
+    };
+  }
+}
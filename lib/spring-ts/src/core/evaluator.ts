@@ -1,6 +1,4 @@
-import scoringRules from '../../config/scoring-rules.json';
-
-const MIN_PASSING_SCORE: number = scoringRules.evaluation.minPassingScore;
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from './scoring-profile.js';
 
 export interface CalculatorSignal {
   frame: string;
@@ -46,6 +44,8 @@ export interface EvalContext {
   readonly givenLength: number;
   readonly luckyMap: Map<number, string>;
   readonly insights: Record<string, FrameInsight>;
+  /** Weights and thresholds for this evaluation (default: DEFAULT_SCORING_PROFILE). */
+  readonly profile?: ScoringProfile;
 }
 
 export interface EvaluationResult {
@@ -64,6 +64,10 @@ export interface EvaluableCalculator {
 
 export type NameCalculator = EvaluableCalculator;
 
+export function scoringProfileOf(ctx: EvalContext): ScoringProfile {
+  return ctx.profile ?? DEFAULT_SCORING_PROFILE;
+}
+
 function lookupInsight(ctx: EvalContext, frameName: string): FrameInsight {
   return ctx.insights[frameName] ?? {
     frame: frameName,
@@ -120,7 +124,7 @@ export function evaluateName(
     : 0;
 
   const allSignalsPassed = signals.every((signal) => signal.isPassed);
-  const isPassed = allSignalsPassed && weightedScore >= MIN_PASSING_SCORE;
+  const isPassed = allSignalsPassed && weightedScore >= scoringProfileOf(ctx).frames.evaluation.minPassingScore;
 
   const contributingFrames = [...new Set(signals.map((signal) => signal.frame))];
 
@@ -1,5 +1,7 @@
-﻿/**
- * Shared result interfaces returned by the three analysis calculators.
+﻿import type { SoundChange } from '../../../seed-ts/src/utils/hangul-phonology.js';
+
+/**
+ * Shared result interfaces returned by the analysis calculators.
  *
  * Each interface describes the shape of the data that flows from a
  * calculator to the UI layer.  The fields are intentionally verbose
@@ -105,3 +107,52 @@ export interface FourFrameAnalysis {
   readonly luckScore: number;
 }
 
+
+// ---------------------------------------------------------------------------
+// Phonetic flow (spoken form) analysis
+// ---------------------------------------------------------------------------
+
+export type PhoneticFlowIssueCode =
+  | 'REPEATED_ONSET'
+  | 'CODA_LIAISON'
+  | 'ASSIMILATION'
+  | 'HARD_CLUSTER';
+
+export interface PhoneticFlowIssue {
+
+  /** What makes the name harder to say or hear as written. */
+  readonly code: PhoneticFlowIssueCode;
+
+  /** Index (in the full name) of the first syllable of the affected pair. */
+  readonly position: number;
+
+  /** The affected syllables as written (e.g. "김은"). */
+  readonly written: string;
+
+  /** The same syllables as spoken (e.g. "기믄"). */
+  readonly spoken: string;
+
+  /** Points taken off the 100-point flow score. */
+  readonly penalty: number;
+}
+
+export interface PhoneticAnalysis {
+
+  /** The full name as written (e.g. "김은아"). */
+  readonly written: string;
+
+  /** The full name as spoken, after liaison and assimilation (e.g. "기므나"). */
+  readonly spoken: string;
+
+  /** Revised Romanization of the spoken form, surname first (e.g. "Gi Meuna"). */
+  readonly romanization: string;
+
+  /** Every sound change that separates the spoken form from the written one. */
+  readonly changes: SoundChange[];
+
+  /** Flow problems found in the spoken form. */
+  readonly issues: PhoneticFlowIssue[];
+
+  /** 0-100 score: 100 minus the issue penalties. */
+  readonly score: number;
+}
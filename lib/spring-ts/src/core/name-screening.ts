@@ -0,0 +1,128 @@
+import type { HanjaEntry } from '../../../seed-ts/src/database/hanja-repository.js';
+import { pronounceSyllables } from '../../../seed-ts/src/utils/hangul-phonology.js';
+import lexicon from '../../config/name-screening.json';
+
+// ---------------------------------------------------------------------------
+// Negative-meaning / teasing-risk lexicon (loaded from config/name-screening.json)
+//
+//   - meaningKeywords: substrings of a hanja gloss (훈) per category
+//   - meaningGlosses:  whole glosses that are too short to match as substrings (병, 독)
+//   - radicals:        radicals that carry a category on their own (歹, 疒)
+//   - teasingWords:    slang and teasing words looked for inside the name, written or spoken
+//   - nearHomophones:  spoken readings that sound like one of those words
+// ---------------------------------------------------------------------------
+
+export const NAME_SCREENING_VERSION: string = lexicon.version;
+
+const CATEGORY_LABELS: Readonly<Record<string, string>> = lexicon.categories;
+const MEANING_KEYWORDS: Readonly<Record<string, readonly string[]>> = lexicon.meaningKeywords;
+const MEANING_GLOSSES: Readonly<Record<string, readonly string[]>> = lexicon.meaningGlosses;
+const RADICAL_CATEGORIES: Readonly<Record<string, string>> = lexicon.radicals;
+const TEASING_WORDS: Readonly<Record<string, readonly string[]>> = lexicon.teasingWords;
+const NEAR_HOMOPHONES: readonly { reading: string; soundsLike: string; category: string }[] = lexicon.nearHomophones;
+
+export type NameScreeningCode =
+  | 'NEGATIVE_HANJA_MEANING'
+  | 'NEGATIVE_HANJA_RADICAL'
+  | 'TEASING_WORD'
+  | 'NEAR_HOMOPHONE';
+
+/** One reason a name may be a poor choice. */
+export interface NameScreeningFlag {
+  readonly code: NameScreeningCode;
+  /** Lexicon category key (death, illness, vulgar, ...). */
+  readonly category: string;
+  /** Korean label of the category. */
+  readonly label: string;
+  /** NEGATIVE_HANJA_*: given-name index of the character; otherwise 0. */
+  readonly position: number;
+  /** The character (hangul/hanja) or the name text the match was found in. */
+  readonly hangul: string;
+  readonly hanja: string;
+  /** Gloss, radical or word that matched. */
+  readonly matched: string;
+  /** NEAR_HOMOPHONE: the word the reading sounds like. */
+  readonly soundsLike?: string;
+}
+
+/** Glosses of a dictionary meaning: "죽을 사, 끊을 사" → ["죽을", "끊을"]. */
+function glossesOf(meaning: string): string[] {
+  return meaning
+    .split(/[,;]/)
+    .map(part => part.trim().split(/\s+/).slice(0, -1).join(' ') || part.trim())
+    .filter(Boolean);
+}
+
+/** The first negative category found in a hanja's glosses or radical, or null. */
+export function findNegativeMeaning(
+  entry: HanjaEntry,
+): { code: 'NEGATIVE_HANJA_MEANING' | 'NEGATIVE_HANJA_RADICAL'; category: string; matched: string } | null {
+  if (!entry.hanja || entry.hanja === entry.hangul) return null;
+
+  for (const gloss of glossesOf(entry.meaning ?? '')) {
+    for (const [category, keywords] of Object.entries(MEANING_KEYWORDS)) {
+      if (keywords.some(keyword => gloss.includes(keyword))) {
+        return { code: 'NEGATIVE_HANJA_MEANING', category, matched: gloss };
+      }
+    }
+    for (const [category, glosses] of Object.entries(MEANING_GLOSSES)) {
+      if (glosses.includes(gloss)) return { code: 'NEGATIVE_HANJA_MEANING', category, matched: gloss };
+    }
+  }
+
+  const radicalCategory = entry.radical ? RADICAL_CATEGORIES[entry.radical] : undefined;
+  return radicalCategory
+    ? { code: 'NEGATIVE_HANJA_RADICAL', category: radicalCategory, matched: entry.radical }
+    : null;
+}
+
+/**
+ * Screens a name against the lexicon. Surname characters are never flagged for
+ * meaning (the surname is not a choice), but take part in the word checks so
+ * that e.g. 변 + 기… reads as 변기.
+ */
+export function screenName(surnameEntries: HanjaEntry[], givenNameEntries: HanjaEntry[]): NameScreeningFlag[] {
+  const flags: NameScreeningFlag[] = [];
+
+  givenNameEntries.forEach((entry, position) => {
+    const negative = findNegativeMeaning(entry);
+    if (!negative) return;
+    flags.push({
+      ...negative,
+      label: CATEGORY_LABELS[negative.category] ?? negative.category,
+      position,
+      hangul: entry.hangul,
+      hanja: entry.hanja,
+    });
+  });
+
+  const writtenFull = [...surnameEntries, ...givenNameEntries].map(entry => entry.hangul);
+  const writtenGiven = givenNameEntries.map(entry => entry.hangul);
+  // Written full name, spoken full name, spoken given name (what the child is called by)
+  const texts = [
+    writtenFull.join(''),
+    pronounceSyllables(writtenFull).spoken.join(''),
+    pronounceSyllables(writtenGiven).spoken.join(''),
+  ];
+  const seen = new Set<string>();
+  const pushWord = (flag: Omit<NameScreeningFlag, 'label' | 'position' | 'hanja'>) => {
+    if (seen.has(flag.matched)) return;
+    seen.add(flag.matched);
+    flags.push({ ...flag, label: CATEGORY_LABELS[flag.category] ?? flag.category, position: 0, hanja: '' });
+  };
+
+  for (const [category, words] of Object.entries(TEASING_WORDS)) {
+    for (const word of words) {
+      const text = texts.find(candidate => candidate.includes(word));
+      if (text) pushWord({ code: 'TEASING_WORD', category, hangul: text, matched: word });
+    }
+  }
+  for (const { reading, soundsLike, category } of NEAR_HOMOPHONES) {
+    const text = texts.slice(1).find(candidate => candidate.includes(reading));
+    if (text && !seen.has(soundsLike)) {
+      pushWord({ code: 'NEAR_HOMOPHONE', category, hangul: text, matched: reading, soundsLike });
+    }
+  }
+
+  return flags;
+}
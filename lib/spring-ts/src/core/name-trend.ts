@@ -0,0 +1,220 @@
+import type { NameStatEntry } from '../../../seed-ts/src/database/name-stat-repository.js';
+import trendConfig from '../../config/name-trend.json';
+
+// ---------------------------------------------------------------------------
+// Popularity trends (loaded from config/name-trend.json)
+//
+// name-stat keeps births and ranks per year for the years it covers
+// (dataYears); a year missing from a name's series means too few births to
+// be published and counts as 0.
+//
+//   - growthRate:  mean births of the last growthWindowYears over the window before
+//   - projection:  least-squares line over the last projectionWindowYears,
+//                  read projectionYears after the last data year
+//   - uniqueness:  how rare the name is among children born within
+//                  nearbyYearWindow years of the birth year (100 = unseen)
+// ---------------------------------------------------------------------------
+
+const FIRST_YEAR = trendConfig.dataYears.first;
+const LAST_YEAR = trendConfig.dataYears.last;
+
+export type PopularityBand = 'very-common' | 'common' | 'moderate' | 'uncommon' | 'rare';
+export type TrendDirection = 'rising' | 'steady' | 'falling';
+/** What the caller wants from a name's popularity: long-established, on the rise, or seldom used. */
+export type PopularityPreference = 'classic' | 'trending' | 'rare';
+
+const BANDS = trendConfig.bands as readonly { band: PopularityBand; minBirths: number }[];
+
+export interface NameTrendPoint {
+  readonly year: number;
+  readonly births: number;
+  /** Overall rank that year, or null when the name was not ranked. */
+  readonly rank: number | null;
+}
+
+/** How common the name is among children born around a given year. */
+export interface NameUniqueness {
+  /** 0 (as common as the most common names) to 100 (no recorded births). */
+  readonly index: number;
+  readonly referenceYear: number;
+  /** Years averaged (referenceYear ± nearbyYearWindow). */
+  readonly fromYear: number;
+  readonly toYear: number;
+  /** Mean births per year over those years. */
+  readonly nearbyBirths: number;
+  /** True when part of the window lies outside the data years and was estimated. */
+  readonly extrapolated: boolean;
+}
+
+/** Yearly series and derived trend figures of one given name. */
+export interface NameTrend {
+  readonly name: string;
+  /** Every data year, oldest first. */
+  readonly series: NameTrendPoint[];
+  readonly totalBirths: number;
+  /** Relative change of recent births over the window before (0.25 = +25%). */
+  readonly growthRate: number;
+  readonly direction: TrendDirection;
+  readonly peakYear: number | null;
+  readonly peakBirths: number;
+  readonly projectedYear: number;
+  readonly projectedBirths: number;
+  readonly projectedBand: PopularityBand;
+  readonly uniqueness: NameUniqueness;
+}
+
+/** The parts of a NameTrend carried by candidate lists. */
+export interface NameTrendSummary {
+  readonly direction: TrendDirection;
+  readonly growthRate: number;
+  readonly peakYear: number | null;
+  readonly projectedBand: PopularityBand;
+  readonly uniqueness: number;
+  /** Share of data years with recorded births (0..1). */
+  readonly presence: number;
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function yearlyValues(bucket: Record<string, number> | undefined, into: Map<number, number>): void {
+  for (const [year, value] of Object.entries(bucket ?? {})) {
+    const y = Number(year);
+    if (Number.isInteger(y) && Number.isFinite(value) && value > 0) into.set(y, (into.get(y) ?? 0) + value);
+  }
+}
+
+/** Births per year from the 전체 bucket, or 남자 + 여자 when a name has no 전체 series. */
+function birthsByYear(entry: NameStatEntry): Map<number, number> {
+  const births = new Map<number, number>();
+  if (entry.yearly_birth['전체']) {
+    yearlyValues(entry.yearly_birth['전체'], births);
+  } else {
+    for (const bucket of ['남자', '남', '여자', '여']) yearlyValues(entry.yearly_birth[bucket], births);
+  }
+  return births;
+}
+
+/** Least-squares line through (year, births); flat when there is a single point. */
+function fitLine(points: NameTrendPoint[]): (year: number) => number {
+  const meanYear = mean(points.map(point => point.year));
+  const meanBirths = mean(points.map(point => point.births));
+  const spread = points.reduce((sum, point) => sum + (point.year - meanYear) ** 2, 0);
+  const slope = spread > 0
+    ? points.reduce((sum, point) => sum + (point.year - meanYear) * (point.births - meanBirths), 0) / spread
+    : 0;
+  return year => Math.max(0, meanBirths + slope * (year - meanYear));
+}
+
+function bandOf(births: number): PopularityBand {
+  return BANDS.find(band => births >= band.minBirths)?.band ?? 'rare';
+}
+
+/**
+ * Builds the trend of a name-stat entry. `birthYear` centres the uniqueness
+ * window (default: the last data year); years outside the data are estimated
+ * from the projection line or the first data year.
+ */
+export function analyzeNameTrend(entry: NameStatEntry, birthYear?: number | null): NameTrend {
+  const births = birthsByYear(entry);
+  const ranks = new Map<number, number>();
+  yearlyValues(entry.yearly_rank['전체'], ranks);
+
+  const series: NameTrendPoint[] = [];
+  for (let year = FIRST_YEAR; year <= LAST_YEAR; year++) {
+    series.push({ year, births: births.get(year) ?? 0, rank: ranks.get(year) ?? null });
+  }
+
+  const window = trendConfig.growthWindowYears;
+  const recent = mean(series.slice(-window).map(point => point.births));
+  const previous = mean(series.slice(-2 * window, -window).map(point => point.births));
+  const growthRate = previous > 0 ? round((recent - previous) / previous, 2) : recent > 0 ? 1 : 0;
+  const direction: TrendDirection = growthRate > trendConfig.steadyGrowthRate ? 'rising'
+    : growthRate < -trendConfig.steadyGrowthRate ? 'falling' : 'steady';
+
+  const peak = series.reduce<NameTrendPoint | null>(
+    (best, point) => (point.births > (best?.births ?? 0) ? point : best), null,
+  );
+
+  const project = fitLine(series.slice(-trendConfig.projectionWindowYears));
+  const projectedYear = LAST_YEAR + trendConfig.projectionYears;
+  const projectedBirths = Math.round(project(projectedYear));
+
+  const referenceYear = Number.isInteger(birthYear) ? birthYear! : LAST_YEAR;
+  const fromYear = referenceYear - trendConfig.nearbyYearWindow;
+  const toYear = referenceYear + trendConfig.nearbyYearWindow;
+  const nearby: number[] = [];
+  for (let year = fromYear; year <= toYear; year++) {
+    if (year > LAST_YEAR) nearby.push(project(year));
+    else nearby.push(births.get(Math.max(year, FIRST_YEAR)) ?? 0);
+  }
+  const nearbyBirths = mean(nearby);
+  const uniquenessIndex = 100 * (1 - Math.log1p(nearbyBirths) / Math.log1p(trendConfig.uniquenessReferenceBirths));
+
+  return {
+    name: entry.name,
+    series,
+    totalBirths: series.reduce((sum, point) => sum + point.births, 0),
+    growthRate,
+    direction,
+    peakYear: peak?.year ?? null,
+    peakBirths: peak?.births ?? 0,
+    projectedYear,
+    projectedBirths,
+    projectedBand: bandOf(projectedBirths),
+    uniqueness: {
+      index: Math.round(clamp(uniquenessIndex, 0, 100)),
+      referenceYear,
+      fromYear,
+      toYear,
+      nearbyBirths: round(nearbyBirths, 1),
+      extrapolated: fromYear < FIRST_YEAR || toYear > LAST_YEAR,
+    },
+  };
+}
+
+export function summarizeNameTrend(trend: NameTrend): NameTrendSummary {
+  return {
+    direction: trend.direction,
+    growthRate: trend.growthRate,
+    peakYear: trend.peakYear,
+    projectedBand: trend.projectedBand,
+    uniqueness: trend.uniqueness.index,
+    presence: round(trend.series.filter(point => point.births > 0).length / trend.series.length, 2),
+  };
+}
+
+/**
+ * How well a name matches a popularity preference, 0..100:
+ *   classic  -- recorded in most data years without a strong rise or fall
+ *   trending -- recent growth (50 = flat, 100 = doubled or more)
+ *   rare     -- the uniqueness index
+ */
+export function popularityPreferenceFit(trend: NameTrendSummary, preference: PopularityPreference): number {
+  switch (preference) {
+    case 'classic': return 100 * trend.presence * (1 - Math.min(1, Math.abs(trend.growthRate)));
+    case 'trending': return clamp(50 + 50 * trend.growthRate, 0, 100);
+    case 'rare': return trend.uniqueness;
+  }
+}
+
+/** finalScore blended with the preference fit (preferenceWeight of config/name-trend.json). */
+export function popularityRankingScore(
+  finalScore: number,
+  trend: NameTrendSummary | null,
+  preference: PopularityPreference | null,
+): number {
+  if (!preference || !trend) return finalScore;
+  const weight = trendConfig.preferenceWeight;
+  return finalScore * (1 - weight) + popularityPreferenceFit(trend, preference) * weight;
+}
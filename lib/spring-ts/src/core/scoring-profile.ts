@@ -0,0 +1,199 @@
+import evaluatorPolicy from '../../config/evaluator-policy.json';
+import scoringRules from '../../config/scoring-rules.json';
+import sajuScoring from '../../config/saju-scoring.json';
+import builtinProfiles from '../../config/scoring-profiles.json';
+import { fnv1a } from './hash.js';
+
+// ---------------------------------------------------------------------------
+// Scoring profiles
+//
+// A profile holds every weight and threshold that is read while a name is evaluated:
+//   - evaluator: springEvaluateName's adaptive/strict policy (config/evaluator-policy.json)
+//   - frames:    per-frame signal weights and passing scores (config/scoring-rules.json)
+//   - saju:      the saju compatibility sub-scores (config/saju-scoring.json)
+//
+// The bundled JSON is the `default` profile. The tables that define the methods
+// themselves (adjacency, polarity tiers, fortune buckets, ten-god groups) are not
+// part of a profile and stay in the config files.
+// ---------------------------------------------------------------------------
+
+const { sajuFrameId: _sajuFrameId, ...EVALUATOR_DEFAULTS } = evaluatorPolicy;
+
+const {
+  generatingMinRatio: _generatingMinRatio,
+  maxConsecutiveSame: _maxConsecutiveSame,
+  ...HANGUL_ELEMENT_DEFAULTS
+} = scoringRules.hangulElement;
+
+const FRAME_DEFAULTS = {
+  hangulElement: HANGUL_ELEMENT_DEFAULTS,
+  hangulPolarity: scoringRules.hangulPolarity,
+  strokePolarity: scoringRules.strokePolarity,
+  fourframeLuck: scoringRules.fourframeLuck,
+  fourframeElement: scoringRules.fourframeElement,
+  phoneticFlow: scoringRules.phoneticFlow,
+  familyElement: scoringRules.familyElement,
+  evaluation: scoringRules.evaluation,
+};
+
+const {
+  contextualTypes: _contextualTypes,
+  tenGodGroups: _tenGodGroups,
+  tenGodGroupNames: _tenGodGroupNames,
+  ...sajuDefaults
+} = sajuScoring;
+
+const SAJU_DEFAULTS: Omit<typeof sajuDefaults, 'yongshinTypeWeights'> & {
+  /** Keyed by yongshin recommendation type (EOKBU, JOHU, ...). */
+  yongshinTypeWeights: Record<string, number>;
+} = sajuDefaults;
+
+export type EvaluatorPolicy = typeof EVALUATOR_DEFAULTS;
+export type FrameScoringRules = typeof FRAME_DEFAULTS;
+export type SajuScoringRules = typeof SAJU_DEFAULTS;
+
+export type BuiltinScoringProfileId = 'default' | 'saju-first' | 'four-frame-first' | 'phonetics-only';
+
+/** A validated, fully populated set of weights. Build one with defineScoringProfile(). */
+export interface ScoringProfile {
+  readonly id: string;
+  readonly description: string;
+  /** FNV-1a digest of evaluator + frames + saju; equal digests score identically. */
+  readonly digest: string;
+  readonly evaluator: EvaluatorPolicy;
+  readonly frames: FrameScoringRules;
+  readonly saju: SajuScoringRules;
+}
+
+type DeepPartial<T> = {
+  readonly [K in keyof T]?: T[K] extends readonly unknown[] ? T[K]
+    : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/** What a caller writes: an id plus only the values that differ from the base profile. */
+export interface ScoringProfileInput {
+  readonly id: string;
+  readonly description?: string;
+  /** Profile to start from (default: the `default` built-in). */
+  readonly extends?: BuiltinScoringProfileId | ScoringProfile;
+  readonly evaluator?: DeepPartial<EvaluatorPolicy>;
+  readonly frames?: DeepPartial<FrameScoringRules>;
+  readonly saju?: DeepPartial<SajuScoringRules>;
+}
+
+/** A built-in profile id, or a profile (input) object. */
+export type ScoringProfileSource = BuiltinScoringProfileId | ScoringProfileInput;
+
+const PROFILE_KEYS = new Set(['id', 'description', 'extends', 'evaluator', 'frames', 'saju', 'digest']);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Overlays `override` on `base`, checking it against the shape of `base`: no unknown
+ * keys, same value types, finite numbers, and no negative weights.
+ */
+function mergeSection<T>(path: string, base: T, override: unknown): T {
+  if (override === undefined) return base;
+
+  if (Array.isArray(base)) {
+    if (!Array.isArray(override) || override.some(item => typeof item !== 'string')) {
+      throw new Error(`Scoring profile ${path} must be an array of strings.`);
+    }
+    return [...override] as T;
+  }
+  if (isPlainObject(base)) {
+    if (!isPlainObject(override)) throw new Error(`Scoring profile ${path} must be an object.`);
+    for (const key of Object.keys(override)) {
+      if (!(key in base)) throw new Error(`Unknown scoring profile key: ${path}.${key}`);
+    }
+    return Object.fromEntries(
+      Object.entries(base).map(([key, value]) => [key, mergeSection(`${path}.${key}`, value, override[key])]),
+    ) as T;
+  }
+  if (typeof base === 'number') {
+    if (typeof override !== 'number' || !Number.isFinite(override)) {
+      throw new Error(`Scoring profile ${path} must be a finite number.`);
+    }
+    if (/weight$/i.test(path) && override < 0) {
+      throw new Error(`Scoring profile ${path} must not be negative.`);
+    }
+    return override as T;
+  }
+  if (typeof override !== typeof base) {
+    throw new Error(`Scoring profile ${path} must be a ${typeof base}.`);
+  }
+  return override as T;
+}
+
+/** Signal weight of every frame, including saju; at least one must be positive. */
+function signalWeights(profile: Pick<ScoringProfile, 'frames' | 'saju'>): number[] {
+  return [
+    ...Object.values(profile.frames).map(rules => ('signalWeight' in rules ? rules.signalWeight : 0)),
+    profile.saju.signalWeight,
+  ];
+}
+
+/** Validates a profile input and fills everything it leaves out from its base profile. */
+export function defineScoringProfile(input: ScoringProfileInput): ScoringProfile {
+  if (!isPlainObject(input)) throw new Error('Scoring profile must be an object.');
+  for (const key of Object.keys(input)) {
+    if (!PROFILE_KEYS.has(key)) throw new Error(`Unknown scoring profile key: ${key}`);
+  }
+  if (typeof input.id !== 'string' || input.id.trim().length === 0) {
+    throw new Error('Scoring profile id must be a non-empty string.');
+  }
+
+  const base = input.extends === undefined ? null : scoringProfileFrom(input.extends);
+  const evaluator = mergeSection('evaluator', base?.evaluator ?? EVALUATOR_DEFAULTS, input.evaluator);
+  const frames = mergeSection('frames', base?.frames ?? FRAME_DEFAULTS, input.frames);
+  const saju = mergeSection('saju', base?.saju ?? SAJU_DEFAULTS, input.saju);
+
+  if (!signalWeights({ frames, saju }).some(weight => weight > 0)) {
+    throw new Error(`Scoring profile ${input.id} gives every frame a zero weight.`);
+  }
+
+  return {
+    id: input.id,
+    description: input.description ?? base?.description ?? '',
+    digest: fnv1a(JSON.stringify([evaluator, frames, saju])),
+    evaluator,
+    frames,
+    saju,
+  };
+}
+
+export const BUILTIN_SCORING_PROFILES: Readonly<Record<BuiltinScoringProfileId, ScoringProfile>> = Object.fromEntries(
+  Object.entries(builtinProfiles).map(([id, input]) => [id, defineScoringProfile({ id, ...input })]),
+) as Record<BuiltinScoringProfileId, ScoringProfile>;
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = BUILTIN_SCORING_PROFILES.default;
+
+const RESOLVED_PROFILE_LIMIT = 32;
+const resolvedProfiles = new Map<string, ScoringProfile>();
+
+/**
+ * Resolves a built-in id or validates a profile object. Objects are memoized by
+ * content, so a profile that is mutated and passed again is resolved afresh.
+ */
+export function scoringProfileFrom(source: ScoringProfileSource): ScoringProfile {
+  if (typeof source === 'string') {
+    const builtin = Object.hasOwn(BUILTIN_SCORING_PROFILES, source)
+      ? BUILTIN_SCORING_PROFILES[source]
+      : undefined;
+    if (!builtin) throw new Error(`Unknown scoring profile: ${source}`);
+    return builtin;
+  }
+
+  const key = JSON.stringify(source);
+  let profile = resolvedProfiles.get(key);
+  if (!profile) {
+    profile = defineScoringProfile(source);
+    resolvedProfiles.set(key, profile);
+    while (resolvedProfiles.size > RESOLVED_PROFILE_LIMIT) {
+      resolvedProfiles.delete(resolvedProfiles.keys().next().value!);
+    }
+  }
+  return profile;
+}
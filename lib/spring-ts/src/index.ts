@@ -1,14 +1,36 @@
 // ─────────────────────────────────────────────────────────────────────────────
 //  1. SPRING ENGINE & EVALUATOR
 // ─────────────────────────────────────────────────────────────────────────────
-export { SpringEngine } from './spring-engine.js';
-export { springEvaluateName, SAJU_FRAME } from './spring-evaluator.js';
+export { SpringEngine, type SpringEngineOptions } from './spring-engine.js';
+export {
+  springEvaluateName, SAJU_FRAME,
+  type SpringFrameContribution, type SpringPolicyDecision, type SpringTotalDetails,
+} from './spring-evaluator.js';
+export { explainEvaluation, compareCandidates, type ExplainedCandidate } from './spring-explanation.js';
+export {
+  defineScoringProfile, scoringProfileFrom, BUILTIN_SCORING_PROFILES, DEFAULT_SCORING_PROFILE,
+  type ScoringProfile, type ScoringProfileInput, type ScoringProfileSource, type BuiltinScoringProfileId,
+  type EvaluatorPolicy, type FrameScoringRules, type SajuScoringRules,
+} from './core/scoring-profile.js';
+export { hostSpringEngine, type SpringWorkerScope } from './worker/engine-host.js';
+export {
+  SpringWorkerClient, fetchDatabaseBuffers, SPRING_PRELOAD_DATABASES,
+  type SpringWorkerInitOptions, type SpringWorkerCallOptions,
+} from './worker/worker-client.js';
+export type {
+  SpringWorkerMethods, SpringWorkerMethod, SpringWorkerRequest, SpringWorkerResponse,
+  SpringWorkerInitMessage, SpringWorkerCallMessage, SpringWorkerCancelMessage, SpringWorkerError,
+} from './worker/protocol.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 //  2. SAJU ADAPTER & CALCULATOR
 // ─────────────────────────────────────────────────────────────────────────────
 export { analyzeSaju, analyzeSajuSafe, buildSajuContext, emptySaju, collectElements, elementFromSajuCode } from './saju-adapter.js';
 export { SajuCalculator, computeSajuNameScore, type SajuNameScoreResult } from './saju-calculator.js';
+export {
+  FamilyCalculator, findSiblingNameConflict, FAMILY_FRAME,
+  type FamilyContext, type FamilySibling, type SiblingNameConflict,
+} from './calculator/family-calculator.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 //  3. SPRING TYPES
@@ -20,20 +42,50 @@ export type {
   SpringRequest,
   SpringOptions,
   SajuTimePolicyOptions,
+  FamilyOptions,
+  FamilyMemberInput,
+  DollimjaInput,
   // Output
   SpringResponse,
+  ResponseMeta,
   SpringCandidate,
   CharDetail,
   // New 3-method API types
   NamingReport,
   NamingReportFrame,
   NamingReportFourFrame,
+  NamingReportPronunciation,
+  NamingWarning,
+  NamingWarningCode,
   SajuReport,
   SpringReport,
+  FamilyHarmony,
   SpringCandidateSummary,
+  CandidateStreamOptions,
+  CandidatePageOptions,
+  SpringCandidateStreamItem,
+  SpringCandidatePage,
+  SpringDatabaseName,
+  SpringProgressEvent,
+  CandidateRunOptions,
   NameGenderTendency,
+  // Score explanation
+  ScoreExplanation,
+  ScoreExplanationFrame,
+  ScoreExplanationComponent,
+  FrameVerdict,
+  CandidateComparison,
+  FrameComparison,
+  FrameComparisonSide,
   // Saju analysis
   SajuSummary,
+  SajuDiagnostic,
+  SajuDiagnosticCode,
+  SajuDiagnostics,
+  HourUnknownSummary,
+  HourStability,
+  ElementRange,
+  LuckInteractionSummary,
   PillarSummary,
   TimeCorrectionSummary,
   StrengthSummary,
@@ -54,7 +106,10 @@ export type { UserInfo, NamingResult, SeedResult as NameResult, Gender } from '.
 export { Element } from '../../seed-ts/src/model/element.js';
 export { Polarity } from '../../seed-ts/src/model/polarity.js';
 export { Energy } from '../../seed-ts/src/model/energy.js';
-export type { HangulAnalysis, HanjaAnalysis, FourFrameAnalysis } from './core/model-types.js';
+export type {
+  HangulAnalysis, HanjaAnalysis, FourFrameAnalysis,
+  PhoneticAnalysis, PhoneticFlowIssue, PhoneticFlowIssueCode,
+} from './core/model-types.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 //  5. RE-EXPORTED NAME-TS DATABASE
@@ -62,6 +117,23 @@ export type { HangulAnalysis, HanjaAnalysis, FourFrameAnalysis } from './core/mo
 export { HanjaRepository, HanjaRepository as SqliteRepository, type HanjaEntry } from '../../seed-ts/src/database/hanja-repository.js';
 export { NameStatRepository } from '../../seed-ts/src/database/name-stat-repository.js';
 export { FourframeRepository, type FourframeMeaningEntry } from '../../seed-ts/src/database/fourframe-repository.js';
+export {
+  parseLegalNameHanjaList, dueumVariant, withDueumVariants, legalNameHanjaStatus,
+  type LegalNameHanjaList, type LegalNameHanjaStatus,
+} from '../../seed-ts/src/utils/legal-name-hanja.js';
+export {
+  DEFAULT_STROKE_SYSTEM, strokesFor, withStrokeSystem, deriveWrittenStrokes, parseWrittenStrokeList,
+  type StrokeSystem,
+} from '../../seed-ts/src/utils/stroke-system.js';
+export {
+  pronounceSyllables, romanizeSpokenSyllables,
+  type SoundChange, type SoundChangeKind, type SpokenForm,
+} from '../../seed-ts/src/utils/hangul-phonology.js';
+export {
+  FetchStorageAdapter, NodeFsStorageAdapter, MemoryStorageAdapter,
+  getDefaultStorageAdapter, setDefaultStorageAdapter, DEFAULT_SQL_WASM_URL,
+  type StorageAdapter, type FetchStorageOptions, type NodeFsStorageOptions,
+} from '../../seed-ts/src/database/storage-adapter.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 //  6. RE-EXPORTED NAME-TS CALCULATORS
@@ -69,6 +141,7 @@ export { FourframeRepository, type FourframeMeaningEntry } from '../../seed-ts/s
 export {
   evaluateName,
   createSignal, putInsight,
+  scoringProfileOf,
   type EvaluableCalculator, type NameCalculator,
   type AnalysisDetail, type EvalContext, type EvalFrame, type FrameInsight,
   type EvaluationResult, type CalculatorSignal, type CalculatorPacket,
@@ -76,7 +149,9 @@ export {
 export { HangulCalculator } from './calculator/hangul-calculator.js';
 export { HanjaCalculator } from './calculator/hanja-calculator.js';
 export { FrameCalculator, type Frame } from './calculator/frame-calculator.js';
+export { PhoneticCalculator, PHONETIC_FRAME } from './calculator/phonetic-calculator.js';
 export { FourFrameOptimizer } from './calculator/search.js';
+export { priorityFirstCombinations, type CombinationLane } from './calculator/candidate-search.js';
 export type { ElementKey } from './core/scoring.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -86,6 +161,15 @@ export {
   CHOSEONG, JUNGSEONG, decomposeHangul, makeFallbackEntry,
   FRAME_LABELS, buildInterpretation, parseJamoFilter, type JamoFilter,
 } from './core/name-utils.js';
+export {
+  NAME_SCREENING_VERSION, screenName, findNegativeMeaning,
+  type NameScreeningFlag, type NameScreeningCode,
+} from './core/name-screening.js';
+export {
+  analyzeNameTrend, summarizeNameTrend, popularityPreferenceFit, popularityRankingScore,
+  type NameTrend, type NameTrendPoint, type NameTrendSummary, type NameUniqueness,
+  type PopularityBand, type PopularityPreference, type TrendDirection,
+} from './core/name-trend.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 //  8. FORTUNE REPORT
@@ -96,6 +180,8 @@ export type {
   FortuneReportRequest,
   FortuneCategory,
   FortunePeriodKind,
+  FortunePeriodPillars,
+  PillarCodes,
   FortuneAdvice,
   FortuneWarning,
   StarRating,
@@ -8,7 +8,7 @@
  */
 
 import type { SajuSummary, SpringReport } from '../types.js';
-import type { FortuneReport, ReportMeta, FortuneCategory } from './types.js';
+import type { FortuneReport, ReportMeta, FortuneCategory, FortunePeriodPillars } from './types.js';
 
 // Card builders
 import { buildOverviewSummaryCard } from './cards/overview-summary-card.js';
@@ -147,10 +147,15 @@ const FALLBACK_CATEGORY_FORTUNES: Record<FortuneCategory, CategoryFortuneCard> =
 //  Public builder
 // ---------------------------------------------------------------------------
 
+/**
+ * `periodPillars` are the 세운/월운/일진 of `targetDate` computed by saju-ts with the natal chart's
+ * 절기, day-boundary and time-zone policy. When null, the cards fall back to calendar arithmetic.
+ */
 export function buildFortuneReport(
   saju: SajuSummary,
   targetDate: Date,
   springReport: SpringReport | null,
+  periodPillars: FortunePeriodPillars | null = null,
 ): FortuneReport {
   const currentAge = computeCurrentAge(saju, targetDate);
 
@@ -191,25 +196,25 @@ export function buildFortuneReport(
 
   // ── 7. Period fortune cards ──
   const dailyFortune = safeCall(
-    () => buildPeriodFortuneCard(saju, 'daily', targetDate),
+    () => buildPeriodFortuneCard(saju, 'daily', targetDate, periodPillars),
     makeFallbackPeriodFortune('daily', '오늘'),
     'dailyFortune',
   );
 
   const weeklyFortune = safeCall(
-    () => buildPeriodFortuneCard(saju, 'weekly', targetDate),
+    () => buildPeriodFortuneCard(saju, 'weekly', targetDate, periodPillars),
     makeFallbackPeriodFortune('weekly', '이번 주'),
     'weeklyFortune',
   );
 
   const monthlyFortune = safeCall(
-    () => buildPeriodFortuneCard(saju, 'monthly', targetDate),
+    () => buildPeriodFortuneCard(saju, 'monthly', targetDate, periodPillars),
     makeFallbackPeriodFortune('monthly', '이번 달'),
     'monthlyFortune',
   );
 
   const yearlyFortune = safeCall(
-    () => buildPeriodFortuneCard(saju, 'yearly', targetDate),
+    () => buildPeriodFortuneCard(saju, 'yearly', targetDate, periodPillars),
     makeFallbackPeriodFortune('yearly', '올해'),
     'yearlyFortune',
   );
@@ -222,7 +227,7 @@ export function buildFortuneReport(
 
   // ── 9. Category fortunes ──
   const categoryFortunes = safeCall(
-    () => buildCategoryFortuneCards(saju, targetDate),
+    () => buildCategoryFortuneCards(saju, targetDate, periodPillars),
     FALLBACK_CATEGORY_FORTUNES,
   );
 
@@ -230,6 +235,7 @@ export function buildFortuneReport(
   const meta: ReportMeta = {
     version: '1.0.0',
     generatedAt: new Date().toISOString(),
+    sajuDiagnostics: saju.diagnostics ?? { errors: [], warnings: [] },
   };
 
   return {
@@ -24,7 +24,7 @@ import type {
   FortuneAdvice,
   FortuneWarning,
 } from '../types.js';
-import type { ElementCode } from '../types.js';
+import type { ElementCode, FortunePeriodPillars } from '../types.js';
 
 import {
   getYearlyFortune,
@@ -471,6 +471,7 @@ function makeCaution(
 export function buildCategoryFortuneCards(
   saju: SajuSummary,
   targetDate: Date,
+  periodPillars: FortunePeriodPillars | null = null,
 ): Record<FortuneCategory, CategoryFortuneCard> {
   // Extract natal data
   const dayMasterElement = toElementCode(saju.dayMaster?.element) ?? 'EARTH';
@@ -486,8 +487,8 @@ export function buildCategoryFortuneCards(
     }
   }
 
-  // Get yearly fortune pillar
-  const year = targetDate.getFullYear();
+  // Get yearly fortune pillar (before 입춘 the previous year's 세운 applies)
+  const year = periodPillars?.saeunYear ?? targetDate.getFullYear();
 
   // Try saeunPillars first
   let fortuneEl: ElementCode = 'EARTH';
@@ -504,9 +505,8 @@ export function buildCategoryFortuneCards(
   }
 
   if (fortuneEl === 'EARTH' && !saeunPillars) {
-    // Fallback: compute from formula
-    const yf = getYearlyFortune(year);
-    fortuneEl = yf.stemElement;
+    // Fallback: the saju-ts year pillar, then the formula
+    fortuneEl = toElementCode(periodPillars?.year.stem) ?? getYearlyFortune(year).stemElement;
   }
 
   // Yongshin grade for the year
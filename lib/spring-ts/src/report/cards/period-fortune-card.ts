@@ -4,16 +4,19 @@
  * 일운 / 주운 / 월운 / 연운을 산출하고, 용신 부합도에 따라 별점과
  * 조언/경고를 생성합니다.
  *
- * 기간별 간지 산출:
- *   - yearly:  saeunPillars 또는 (year - 4) % 60
- *   - monthly: 오호기법 (fortuneCalculator)
- *   - daily:   줄리안 데이 기반 (fortuneCalculator)
- *   - weekly:  7일 일운의 평균/지배적 등급
+ * 기간별 간지 산출 (periodPillars = saju-ts가 절기/일 경계를 반영해 계산한 기간 간지):
+ *   - yearly:  saeunPillars → periodPillars.year → (year - 4) % 60
+ *   - monthly: periodPillars.month → 오호기법 근사 (fortuneCalculator)
+ *   - daily:   periodPillars.day → 줄리안 데이 기반 (fortuneCalculator)
+ *   - weekly:  7일 일운의 평균/지배적 등급 (경고는 첫날 periodPillars.day 기준)
+ *
+ * 원국과의 충·형·파·해 경고는 saju-ts 상호작용(saeunPillars / periodPillars.interactions)을
+ * 우선 쓰고, 엔진 결과가 없을 때만 fortuneCalculator 근사로 판정합니다.
  *
  * 모든 텍스트는 ~해요/~에요 체를 사용합니다.
  */
 
-import type { SajuSummary } from '../../types.js';
+import type { LuckInteractionSummary, SajuSummary } from '../../types.js';
 import type {
   PeriodFortuneCard,
   FortunePeriodKind,
@@ -23,7 +26,7 @@ import type {
   FortuneCategory,
   FortuneTimeSeries,
 } from '../types.js';
-import type { ElementCode, BranchCode } from '../types.js';
+import type { ElementCode, BranchCode, FortunePeriodPillars } from '../types.js';
 
 import {
   getYearlyFortune,
@@ -32,6 +35,7 @@ import {
   getWeeklyFortunes,
   getFortuneGrade,
   getHourStemElement,
+  getFortuneFromCodes,
   checkFortuneRelations,
 } from '../common/fortuneCalculator.js';
 import type { FortuneGanzhi } from '../common/fortuneCalculator.js';
@@ -46,7 +50,6 @@ import {
   ELEMENT_COLOR,
   ELEMENT_DIRECTION,
   ELEMENT_ORGAN,
-  STEM_BY_CODE,
   BRANCH_BY_CODE,
   BRANCHES,
 } from '../common/elementMaps.js';
@@ -172,43 +175,34 @@ function gradeToStars(grade: number): StarRating {
 interface PeriodPillar {
   readonly ganzhi: FortuneGanzhi;
   readonly label: string;
+  /** saju-ts luck × natal interaction, when the engine computed one for this pillar */
+  readonly interaction?: LuckInteractionSummary | null;
 }
 
 function computePillarForPeriod(
   saju: SajuSummary,
   periodKind: FortunePeriodKind,
   targetDate: Date,
+  periodPillars: FortunePeriodPillars | null = null,
 ): PeriodPillar | null {
   const year = targetDate.getFullYear();
 
   if (periodKind === 'yearly') {
-    // Try saeunPillars first
+    const saeunYear = periodPillars?.saeunYear ?? year;
+    // Try saeunPillars first (carries the saju-ts interaction)
     const saeunPillars = saju.saeunPillars as
-      | Array<{ year: number; stem: string; branch: string }>
+      | Array<{ year: number; stem: string; branch: string; interaction?: LuckInteractionSummary | null }>
       | undefined;
     if (Array.isArray(saeunPillars)) {
-      const match = saeunPillars.find((p) => p.year === year);
-      if (match) {
-        const stemInfo = STEM_BY_CODE[match.stem?.toUpperCase?.()];
-        const branchInfo = BRANCH_BY_CODE[match.branch?.toUpperCase?.()];
-        if (stemInfo && branchInfo) {
-          return {
-            ganzhi: {
-              ganzhiIndex: 0, // not critical for grading
-              stemIndex: stemInfo.index,
-              branchIndex: branchInfo.index,
-              stem: stemInfo,
-              branch: branchInfo,
-              ganzhiHangul: `${stemInfo.hangul}${branchInfo.hangul}`,
-              ganzhiHanja: `${stemInfo.hanja}${branchInfo.hanja}`,
-              stemElement: stemInfo.element,
-              branchElement: branchInfo.element,
-            },
-            label: `${year}년`,
-          };
-        }
+      const match = saeunPillars.find((p) => p.year === saeunYear);
+      const ganzhi = match ? getFortuneFromCodes(match.stem, match.branch) : null;
+      if (match && ganzhi) {
+        return { ganzhi, label: `${saeunYear}년`, interaction: match.interaction ?? null };
       }
     }
+    // Then the 입춘-aware year pillar from saju-ts
+    const engineYear = periodPillars ? getFortuneFromCodes(periodPillars.year.stem, periodPillars.year.branch) : null;
+    if (engineYear) return { ganzhi: engineYear, label: `${saeunYear}년`, interaction: periodPillars?.interactions?.year ?? null };
     // Fallback: compute from formula
     const yf = getYearlyFortune(year);
     return { ganzhi: yf, label: `${year}년` };
@@ -216,15 +210,20 @@ function computePillarForPeriod(
 
   if (periodKind === 'monthly') {
     const solarMonth = targetDate.getMonth() + 1;
-    const mf = getMonthlyFortuneSolar(year, solarMonth);
-    return { ganzhi: mf, label: `${year}년 ${solarMonth}월` };
+    const engineMonth = periodPillars ? getFortuneFromCodes(periodPillars.month.stem, periodPillars.month.branch) : null;
+    if (engineMonth) {
+      return { ganzhi: engineMonth, label: `${year}년 ${solarMonth}월`, interaction: periodPillars?.interactions?.month ?? null };
+    }
+    return { ganzhi: getMonthlyFortuneSolar(year, solarMonth), label: `${year}년 ${solarMonth}월` };
   }
 
   if (periodKind === 'daily') {
-    const df = getDailyFortune(targetDate);
+    const engineDay = periodPillars ? getFortuneFromCodes(periodPillars.day.stem, periodPillars.day.branch) : null;
     const m = targetDate.getMonth() + 1;
     const d = targetDate.getDate();
-    return { ganzhi: df, label: `${year}년 ${m}월 ${d}일` };
+    const label = `${year}년 ${m}월 ${d}일`;
+    if (engineDay) return { ganzhi: engineDay, label, interaction: periodPillars?.interactions?.day ?? null };
+    return { ganzhi: getDailyFortune(targetDate), label };
   }
 
   if (periodKind === 'weekly') {
@@ -235,10 +234,12 @@ function computePillarForPeriod(
     endDate.setDate(endDate.getDate() + 6);
     const em = endDate.getMonth() + 1;
     const ed = endDate.getDate();
-    // For weekly, return null here -- handled separately
+    // The grade is averaged separately; the pillar here is the week's first day (warning only)
+    const engineDay = periodPillars ? getFortuneFromCodes(periodPillars.day.stem, periodPillars.day.branch) : null;
     return {
-      ganzhi: getDailyFortune(targetDate),
+      ganzhi: engineDay ?? getDailyFortune(targetDate),
       label: `${m}/${d} ~ ${em}/${ed}`,
+      interaction: engineDay ? periodPillars?.interactions?.day ?? null : null,
     };
   }
 
@@ -486,22 +487,40 @@ function makeBadActions(
 //  Warning generator
 // ---------------------------------------------------------------------------
 
+const NEGATIVE_BRANCH_RELATIONS: ReadonlySet<string> = new Set([
+  'CHUNG', 'HYEONG', 'JA_HYEONG', 'SAMHYEONG', 'PA', 'HAE', 'WONJIN',
+]);
+
+/** First negative branch relation type with the natal chart (engine result preferred). */
+function firstNegativeRelation(
+  ganzhi: FortuneGanzhi,
+  natal: NatalData,
+  interaction?: LuckInteractionSummary | null,
+): string | null {
+  if (interaction) {
+    const hit = interaction.branchRelations.find(
+      (r) => NEGATIVE_BRANCH_RELATIONS.has(r.type) && r.with.some((w) => w !== 'decade'),
+    );
+    return hit?.type ?? null;
+  }
+  const branchCode = ganzhi.branch.code as BranchCode;
+  const relations = checkFortuneRelations(branchCode, natal.natalBranches);
+  return relations.find((r) => r.tone === 'negative')?.type ?? null;
+}
+
 function makeWarning(
   ganzhi: FortuneGanzhi,
   natal: NatalData,
   grade?: number,
+  interaction?: LuckInteractionSummary | null,
 ): FortuneWarning {
   // Check branch relations with natal chart
-  const branchCode = ganzhi.branch.code as BranchCode;
-  const relations = checkFortuneRelations(branchCode, natal.natalBranches);
-  const negativeRelations = relations.filter((r) => r.tone === 'negative');
+  const relType = firstNegativeRelation(ganzhi, natal, interaction);
 
-  if (negativeRelations.length > 0) {
-    const first = negativeRelations[0];
-    const relType = first.type;
+  if (relType) {
     const typeKo =
       relType === 'CHUNG' ? '충' :
-      relType === 'HYEONG' ? '형' :
+      relType === 'HYEONG' || relType === 'JA_HYEONG' || relType === 'SAMHYEONG' ? '형' :
       relType === 'HAE' ? '해' :
       relType === 'PA' ? '파' :
       relType === 'WONJIN' ? '원진' : relType;
@@ -721,10 +740,9 @@ function gradeToScore(grade: number): number {
 }
 
 function computeDailyTimeSeries(
-  targetDate: Date,
+  daily: FortuneGanzhi,
   natal: NatalData,
 ): FortuneTimeSeries {
-  const daily = getDailyFortune(targetDate);
   const dayStemIdx = daily.stemIndex;
 
   const points = DAILY_BLOCKS.map((block) => {
@@ -809,8 +827,9 @@ function computeTimeSeries(
   periodKind: FortunePeriodKind,
   targetDate: Date,
   natal: NatalData,
+  ganzhi: FortuneGanzhi,
 ): FortuneTimeSeries | undefined {
-  if (periodKind === 'daily') return computeDailyTimeSeries(targetDate, natal);
+  if (periodKind === 'daily') return computeDailyTimeSeries(ganzhi, natal);
   if (periodKind === 'weekly') return computeWeeklyTimeSeries(targetDate, natal);
   if (periodKind === 'monthly') return computeMonthlyTimeSeries(targetDate, natal);
   if (periodKind === 'yearly') return computeYearlyTimeSeries(targetDate, natal);
@@ -825,11 +844,12 @@ export function buildPeriodFortuneCard(
   saju: SajuSummary,
   periodKind: FortunePeriodKind,
   targetDate: Date,
+  periodPillars: FortunePeriodPillars | null = null,
 ): PeriodFortuneCard {
   const natal = extractNatalData(saju);
 
   // Compute the period pillar
-  const pillarResult = computePillarForPeriod(saju, periodKind, targetDate);
+  const pillarResult = computePillarForPeriod(saju, periodKind, targetDate, periodPillars);
   const ganzhi = pillarResult?.ganzhi ?? getYearlyFortune(targetDate.getFullYear());
   const periodLabel = pillarResult?.label ?? `${targetDate.getFullYear()}년`;
 
@@ -859,12 +879,12 @@ export function buildPeriodFortuneCard(
   const summary = makeSummary(periodKind, stars, effectiveStemEl, effectiveBranchEl, natal);
   const goodActions = makeGoodActions(effectiveStemEl, effectiveBranchEl, natal, Math.round(grade), periodKind);
   const badActions = makeBadActions(effectiveStemEl, effectiveBranchEl, natal, Math.round(grade), periodKind);
-  const warning = makeWarning(ganzhi, natal, Math.round(grade));
+  const warning = makeWarning(ganzhi, natal, Math.round(grade), pillarResult?.interaction);
   const categoryScores = periodKind === 'weekly'
     ? computeWeeklyCategoryScores(targetDate, natal)
     : computeCategoryScores(effectiveStemEl, natal);
 
-  const timeSeries = computeTimeSeries(periodKind, targetDate, natal);
+  const timeSeries = computeTimeSeries(periodKind, targetDate, natal, ganzhi);
 
   return {
     title: PERIOD_TITLE[periodKind] ?? '운세',
@@ -24,6 +24,7 @@ import {
   julianDayToGanzhiIndex,
   STEMS,
   BRANCHES,
+  STEM_BY_CODE,
   BRANCH_BY_CODE,
   ELEMENT_KOREAN_SHORT,
   ELEMENT_GENERATES,
@@ -241,6 +242,8 @@ function stemBranchToGanzhiIndex(stemIndex: number, branchIndex: number): number
  *
  * 주의: 절기 기준으로 입춘(立春) 이전은 전년도로 처리해야 하나,
  *       이 함수는 순수 산술 계산만 수행합니다. 절기 판단은 호출부 책임.
+ *       buildFortuneReport는 saju-ts가 계산한 기간 간지(FortunePeriodPillars)를
+ *       우선 사용하고, 엔진을 쓸 수 없을 때만 이 함수로 대체합니다.
  *
  * @param year 서기 연도
  * @returns YearlyFortune 세운 간지 정보
@@ -422,6 +425,25 @@ export function getWeeklyFortunes(startDate: Date): DailyFortune[] {
   return result;
 }
 
+/**
+ * 천간/지지 코드로 간지 정보를 만듭니다 (saju-ts가 계산한 기간 간지용).
+ *
+ * saju-ts는 申을 'SIN'으로 표기하므로 'SIN_BRANCH'로 맞춰 조회합니다.
+ *
+ * @param stemCode   천간 코드 (예: 'GAP')
+ * @param branchCode 지지 코드 (예: 'JA', 'SIN')
+ * @returns FortuneGanzhi, 코드가 잘못되었거나 음양이 맞지 않으면 null
+ */
+export function getFortuneFromCodes(stemCode: string, branchCode: string): FortuneGanzhi | null {
+  const stem = STEM_BY_CODE[String(stemCode ?? '').toUpperCase()];
+  const branchKey = String(branchCode ?? '').toUpperCase();
+  const branch = BRANCH_BY_CODE[branchKey === 'SIN' ? 'SIN_BRANCH' : branchKey];
+  if (!stem || !branch) return null;
+
+  const ganzhiIdx = stemBranchToGanzhiIndex(stem.index, branch.index);
+  return ganzhiIdx >= 0 ? buildFortuneGanzhi(ganzhiIdx) : null;
+}
+
 
 // =============================================================================
 //  6. 용신 부합도 계산
@@ -629,6 +651,9 @@ const WONJIN_TABLE: readonly [number, number][] = [
  * 운(세운/월운/일운)의 지지가 원국의 연/월/일/시 지지와
  * 어떤 관계(육합/삼합/방합/충/형/파/해/원진)를 형성하는지 분석합니다.
  *
+ * 세운에 saju-ts의 상호작용 분석(`saeunPillars[].interaction`)이 붙어 있으면
+ * 그쪽을 우선 사용하고, 이 함수는 월운/일운이나 엔진 결과가 없을 때의 대체 경로로 씁니다.
+ *
  * @param fortuneBranch   운의 지지 코드 (예: 'JA', 'IN', ...)
  * @param natalBranches   원국 4지지 코드 배열 (연/월/일/시 순서)
  * @returns FortuneRelation 배열 (발견된 모든 관계)
@@ -8,6 +8,8 @@ export type {
   FortuneReportRequest,
   FortuneCategory,
   FortunePeriodKind,
+  FortunePeriodPillars,
+  PillarCodes,
   FortuneAdvice,
   FortuneWarning,
   StarRating,
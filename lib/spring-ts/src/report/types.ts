@@ -8,7 +8,7 @@
 //  1. Re-exported input types
 // ─────────────────────────────────────────────────────────────────────────────
 
-import type { SajuSummary, BirthInfo } from '../types.js';
+import type { SajuSummary, BirthInfo, LuckInteractionSummary } from '../types.js';
 export type { SajuSummary, BirthInfo };
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -61,6 +61,30 @@ export type FortuneCategory = 'wealth' | 'health' | 'academic' | 'romance' | 'fa
 /** 기간 유형 */
 export type FortunePeriodKind = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'decade';
 
+/** 천간/지지 코드 쌍 (saju-ts 표기, 예: { stem: 'GAP', branch: 'JA' }) */
+export interface PillarCodes {
+  readonly stem: string;
+  readonly branch: string;
+}
+
+/**
+ * 보고서 기준 시각의 세운/월운/일진.
+ * saju-ts가 원국과 같은 절기 경계·일 경계·시간대 정책으로 계산합니다.
+ */
+export interface FortunePeriodPillars {
+  /** 세운이 적용되는 해 (입춘 전이면 전년도) */
+  readonly saeunYear: number;
+  readonly year: PillarCodes;
+  readonly month: PillarCodes;
+  readonly day: PillarCodes;
+  /** 원국과의 상호작용 (생년월일이 있을 때만; 세운·월운은 그 시점의 대운도 함께 봅니다) */
+  readonly interactions?: {
+    readonly year: LuckInteractionSummary | null;
+    readonly month: LuckInteractionSummary | null;
+    readonly day: LuckInteractionSummary | null;
+  };
+}
+
 /** 조언 (텍스트 + 이유) */
 export interface FortuneAdvice {
   readonly text: string;
@@ -217,6 +241,8 @@ export interface ReportMeta {
   readonly targetName?: string;
   readonly targetGender?: string;
   readonly engineVersion?: string;
+  /** 사주 분석이 생략되었거나(errors) 가정에 기대어 계산된(warnings) 이유 */
+  readonly sajuDiagnostics?: import('../types.js').SajuDiagnostics;
 }
 
 export interface FortuneReport {
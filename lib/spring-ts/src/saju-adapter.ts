@@ -20,7 +20,11 @@
  *  Daeun (대운): 10-year luck cycles
  */
 import { type ElementKey, emptyDistribution } from './core/scoring.js';
-import type { SajuOutputSummary, SpringRequest, SajuSummary, PillarSummary, BirthInfo } from './types.js';
+import type {
+  SajuOutputSummary, SpringRequest, SajuSummary, PillarSummary, BirthInfo,
+  SajuDiagnostic, SajuDiagnosticCode, HourStability, ElementRange, LuckInteractionSummary,
+} from './types.js';
+import type { FortunePeriodPillars } from './report/types.js';
 
 // ---------------------------------------------------------------------------
 //  Configuration loaded from JSON files
@@ -55,6 +59,8 @@ const DEFAULT_LONGITUDE: number = engineConfig.defaultCoordinates.longitude;
 const DEFAULT_TIMEZONE: string = engineConfig.defaultTimezone;
 const DEFAULT_UNKNOWN_HOUR = 12;
 const DEFAULT_UNKNOWN_MINUTE = 0;
+/** Hour-unknown mode runs branch i at (2i):30, inside the branch and on the same civil day. */
+const HOUR_SWEEP_MINUTE = 30;
 const DISTRIBUTION_ROUND_DIGITS = 1;
 const DEFICIENT_AVERAGE_RATIO = 0.5;
 const EXCESSIVE_AVERAGE_RATIO = 1.7;
@@ -161,6 +167,10 @@ const JIJI_RELATION_NOTE_KO_LABEL: Record<string, string> = {
   HAP: '\uC9C0\uC9C0 \uD569 \uAD00\uACC4',
   SAMHAP: '\uC9C0\uC9C0 \uC0BC\uD569 \uAD00\uACC4',
   BANGHAP: '\uC9C0\uC9C0 \uBC29\uD569 \uAD00\uACC4',
+  BANHAP: '\uC9C0\uC9C0 \uBC18\uD569 \uAD00\uACC4',
+  HEOHAP: '\uC9C0\uC9C0 \uD5C8\uD569 \uAD00\uACC4',
+  AMHAP: '\uC9C0\uC9C0 \uC554\uD569 \uAD00\uACC4',
+  GONGHYEOP: '\uC9C0\uC9C0 \uACF5\uD611 \uAD00\uACC4',
 };
 const JIJI_RELATION_OUTCOME_KO_LABEL: Record<string, string> = {
   CHUNG: '\uCDA9',
@@ -171,6 +181,10 @@ const JIJI_RELATION_OUTCOME_KO_LABEL: Record<string, string> = {
   HAP: '\uD569',
   SAMHAP: '\uC0BC\uD569',
   BANGHAP: '\uBC29\uD569',
+  BANHAP: '\uBC18\uD569',
+  HEOHAP: '\uD5C8\uD569',
+  AMHAP: '\uC554\uD569',
+  GONGHYEOP: '\uACF5\uD611',
 };
 const CHEONGAN_RELATION_NOTE_KO_LABEL: Record<string, string> = {
   HAP: '\uCC9C\uAC04 \uD569 \uAD00\uACC4',
@@ -187,6 +201,10 @@ const RELATION_TYPE_KO_LABEL: Record<string, string> = {
   HYEONG: '\uD615',
   SAMHAP: '\uC0BC\uD569',
   BANGHAP: '\uBC29\uD569',
+  BANHAP: '\uBC18\uD569',
+  HEOHAP: '\uD5C8\uD569',
+  AMHAP: '\uC554\uD569',
+  GONGHYEOP: '\uACF5\uD611',
 };
 const SHINSAL_TYPE_KO_LABEL: Record<string, string> = {
   // 관계 기반 살 (relation-based)
@@ -729,9 +747,12 @@ type SajuModule = {
   analyzeSaju: (input: any, config?: any, options?: any) => any;
   createBirthInput: (params: any) => any;
   configFromPreset?: (preset: string) => any;
+  periodPillarsAt?: (at: Date, birthInput: any, config?: any) => any;
 };
 
 let sajuModule: SajuModule | null = null;
+/** Last import failure, kept so every skipped analysis can report it. */
+let sajuModuleLoadError: unknown = null;
 
 async function loadSajuModule(): Promise<SajuModule | null> {
   if (sajuModule) return sajuModule;
@@ -739,8 +760,10 @@ async function loadSajuModule(): Promise<SajuModule | null> {
   try {
     // Vite alias @saju → ../lib/saju-ts/src (소스에서 직접 빌드, dist 불필요)
     sajuModule = await import('@saju/index') as SajuModule;
+    sajuModuleLoadError = null;
     return sajuModule;
   } catch (err) {
+    sajuModuleLoadError = err;
     console.warn('[spring-ts] failed to load saju-ts module; saju analysis will be disabled.', err);
     return null;
   }
@@ -870,6 +893,12 @@ function resolveKnownBirthParts(birth: BirthInfo): KnownBirthParts {
   };
 }
 
+/** Rejects solar dates that Date would silently roll over (e.g. 2월 30일). */
+function isExistingSolarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
 function hasAnyKnownBirthPart(parts: KnownBirthParts): boolean {
   return Object.values(parts).some((value) => value != null);
 }
@@ -961,20 +990,179 @@ function buildPartialSajuSummary(birth: BirthInfo, parts: KnownBirthParts): Saju
     calendarType: birth.calendarType ?? 'solar',
   };
 
-  return summary;
+  return withDiagnostics(summary, {
+    warnings: [sajuDiagnostic('PARTIAL_BIRTH_DATE', '생년월일 일부만 입력되어 연주·계절 경향만 추정했습니다.')],
+  });
+}
+
+// ---------------------------------------------------------------------------
+//  Diagnostics: why an analysis was skipped or degraded
+// ---------------------------------------------------------------------------
+
+function errorText(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function sajuDiagnostic(code: SajuDiagnosticCode, message: string, err?: unknown): SajuDiagnostic {
+  return err === undefined ? { code, message } : { code, message, detail: errorText(err) };
+}
+
+function withDiagnostics(
+  summary: SajuSummary,
+  added: { errors?: SajuDiagnostic[]; warnings?: SajuDiagnostic[] },
+): SajuSummary {
+  return {
+    ...summary,
+    diagnostics: {
+      errors: [...summary.diagnostics.errors, ...(added.errors ?? [])],
+      warnings: [...summary.diagnostics.warnings, ...(added.warnings ?? [])],
+    },
+  };
+}
+
+/** An empty summary carrying a single error that explains why it is empty. */
+function skippedSaju(error: SajuDiagnostic): SajuSummary {
+  return withDiagnostics(emptySaju(), { errors: [error] });
+}
+
+/** The `LunarDateIssue` code of a saju-ts `LunarDateError`, or null for any other error. */
+function lunarDateIssueOf(err: unknown): string | null {
+  if (!(err instanceof Error) || err.name !== 'LunarDateError') return null;
+  const issue = (err as Error & { issue?: unknown }).issue;
+  return typeof issue === 'string' ? issue : null;
+}
+
+/**
+ * Classifies an error thrown by saju-ts.
+ * Lunar births the converter rejects come as a LunarDateError: OUT_OF_RANGE is
+ * LUNAR_UNSUPPORTED, a leap month or day the year does not have is INVALID_DATE.
+ */
+function diagnosticFromSajuError(err: unknown, birth: BirthInfo): SajuDiagnostic {
+  if (birth.calendarType === 'lunar') {
+    switch (lunarDateIssueOf(err)) {
+      case 'OUT_OF_RANGE':
+        return sajuDiagnostic('LUNAR_UNSUPPORTED', '지원 범위를 벗어난 음력 생일이라 양력으로 변환하지 못해 사주 분석을 생략했습니다.', err);
+      case 'NO_SUCH_LEAP_MONTH':
+      case 'DAY_OUT_OF_RANGE':
+        return sajuDiagnostic('INVALID_DATE', '해당 연도에 존재하지 않는 음력 날짜(윤달/30일)라 사주 분석을 생략했습니다.', err);
+    }
+  }
+  if (/Invalid ISO|Invalid civil|Invalid date/i.test(errorText(err))) {
+    return sajuDiagnostic('INVALID_DATE', '생년월일을 해석할 수 없어 사주 분석을 생략했습니다.', err);
+  }
+  return sajuDiagnostic('ANALYSIS_FAILED', '사주 분석 중 오류가 발생해 결과를 생략했습니다.', err);
+}
+
+// ---------------------------------------------------------------------------
+//  Hour-unknown mode: one chart per possible hour branch
+// ---------------------------------------------------------------------------
+
+/**
+ * Time corrections only move the clock within or between branches, and the sweep
+ * already covers every branch; keeping them off pins each run to its branch and day.
+ */
+const HOUR_SWEEP_TIME_POLICY = {
+  trueSolarTimeEnabled: false,
+  includeEquationOfTime: false,
+  yazaEnabled: false,
+} as const;
+
+type HourScenario = { branch: string; summary: SajuSummary & Record<string, unknown> };
+
+function stabilityOf(byBranch: Record<string, string>): HourStability {
+  const counts = new Map<string, number>();
+  for (const outcome of Object.values(byBranch)) counts.set(outcome, (counts.get(outcome) ?? 0) + 1);
+
+  let dominant = '';
+  let dominantCount = 0;
+  for (const [outcome, count] of counts) {
+    if (count > dominantCount) {
+      dominant = outcome;
+      dominantCount = count;
+    }
+  }
+  const total = Object.keys(byBranch).length;
+  return {
+    stable: counts.size <= 1,
+    dominant,
+    agreement: total > 0 ? dominantCount / total : 0,
+    byBranch,
+  };
+}
+
+function outcomesByBranch(scenarios: HourScenario[], pick: (summary: SajuSummary) => string): Record<string, string> {
+  return Object.fromEntries(scenarios.map(({ branch, summary }) => [branch, pick(summary)]));
+}
+
+/**
+ * Folds the per-branch charts into one three-pillar summary: the hour pillar is left
+ * empty, elements are averaged, and conclusions come from a chart that agrees with
+ * the dominant yongshin (and strength, when possible).
+ */
+function summarizeHourScenarios(scenarios: HourScenario[]): SajuSummary & Record<string, unknown> {
+  const strength = stabilityOf(outcomesByBranch(scenarios, (s) => normalizeStrengthLevelCode(s.strength.level)));
+  const yongshin = stabilityOf(outcomesByBranch(scenarios, (s) => s.yongshin.element));
+  const gyeokguk = stabilityOf(outcomesByBranch(scenarios, (s) => normalizeGyeokgukTypeCode(s.gyeokguk.type)));
+
+  const shinsalSets = scenarios.map(({ summary }) => new Set(summary.shinsalHits.map((hit) => hit.type)));
+  const allShinsal = [...new Set(shinsalSets.flatMap((set) => [...set]))];
+  const always = allShinsal.filter((type) => shinsalSets.every((set) => set.has(type)));
+  const sometimes = allShinsal.filter((type) => !always.includes(type));
+
+  const elementRanges: Record<string, ElementRange> = {};
+  const meanDistribution: Record<string, number> = {};
+  for (const code of ELEMENT_CODES) {
+    const values = scenarios.map(({ summary }) => Number(summary.elementDistribution[code] ?? 0));
+    const mean = roundTo(values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length), DISTRIBUTION_ROUND_DIGITS);
+    elementRanges[code] = { min: Math.min(...values), mean, max: Math.max(...values) };
+    meanDistribution[code] = mean;
+  }
+
+  const representative = scenarios.find(({ summary }) =>
+    summary.yongshin.element === yongshin.dominant
+    && normalizeStrengthLevelCode(summary.strength.level) === strength.dominant)
+    ?? scenarios.find(({ summary }) => summary.yongshin.element === yongshin.dominant)
+    ?? scenarios[0]!;
+  const base = representative.summary;
+
+  const byPosition = base.tenGodAnalysis?.byPosition;
+  const tenGodAnalysis = base.tenGodAnalysis && byPosition
+    ? {
+        ...base.tenGodAnalysis,
+        byPosition: Object.fromEntries(Object.entries(byPosition).filter(([position]) => position !== 'HOUR')),
+      }
+    : base.tenGodAnalysis;
+
+  return {
+    ...base,
+    pillars: { ...base.pillars, hour: EMPTY_PILLAR },
+    elementDistribution: meanDistribution,
+    ...classifyDeficientAndExcessive(meanDistribution),
+    shinsalHits: base.shinsalHits.filter((hit) => always.includes(hit.type)),
+    tenGodAnalysis,
+    hourUnknown: {
+      hourBranches: scenarios.map(({ branch }) => branch),
+      strength,
+      yongshin,
+      gyeokguk,
+      shinsal: { always, sometimes },
+      elementRanges,
+    },
+  };
 }
 
 // ---------------------------------------------------------------------------
 //  Public: empty SajuSummary (fallback when analysis fails)
 // ---------------------------------------------------------------------------
 
+const EMPTY_PILLAR: PillarSummary = {
+  stem:   { code: '', hangul: '', hanja: '' },
+  branch: { code: '', hangul: '', hanja: '' },
+};
+
 export function emptySaju(): SajuSummary {
-  const emptyPillar: PillarSummary = {
-    stem:   { code: '', hangul: '', hanja: '' },
-    branch: { code: '', hangul: '', hanja: '' },
-  };
   return {
-    pillars: { year: emptyPillar, month: emptyPillar, day: emptyPillar, hour: emptyPillar },
+    pillars: { year: EMPTY_PILLAR, month: EMPTY_PILLAR, day: EMPTY_PILLAR, hour: EMPTY_PILLAR },
     timeCorrection: extractNumericFields(null, TC_KEYS) as any,
     dayMaster: { stem: '', element: '', polarity: '' },
     strength: {
@@ -996,6 +1184,7 @@ export function emptySaju(): SajuSummary {
     gongmang: null,
     tenGodAnalysis: null,
     shinsalHits: [],
+    diagnostics: { errors: [], warnings: [] },
   } as SajuSummary;
 }
 
@@ -1018,13 +1207,35 @@ export function collectElements(...sources: (string | null | undefined | string[
 //  Public: run the saju analysis
 // ---------------------------------------------------------------------------
 
+/** Legacy saju-ts config for a request: school preset, then time policy, then the caller's sajuConfig. */
+function buildLegacySajuConfig(
+  saju: SajuModule,
+  options: SpringRequest['options'] | undefined,
+  longitude: number,
+): any {
+  // Always seed legacy config from a preset first.
+  // Some saju-ts versions throw when only partial policy patch is provided.
+  let config: any = {};
+  if (saju.configFromPreset) {
+    const presetKey = options?.schoolPreset ?? 'korean';
+    const presetCode = PRESET_MAP[presetKey] ?? PRESET_MAP.korean ?? 'KOREAN_MAINSTREAM';
+    config = { ...(saju.configFromPreset(presetCode) ?? {}) };
+  }
+  const timePolicyConfig = toLegacySajuTimePolicyConfig(options, longitude);
+  if (Object.keys(timePolicyConfig).length) config = { ...config, ...timePolicyConfig };
+  if (options?.sajuConfig) config = { ...config, ...options.sajuConfig };
+  return Object.keys(config).length > 0 ? config : undefined;
+}
+
 export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['options']): Promise<SajuSummary> {
   const saju = await loadSajuModule();
-  if (!saju) return emptySaju();
+  if (!saju) {
+    return skippedSaju(sajuDiagnostic('MODULE_LOAD_FAILED', '사주 엔진을 불러오지 못해 사주 분석을 생략했습니다.', sajuModuleLoadError ?? undefined));
+  }
 
   const parts = resolveKnownBirthParts(birth);
   if (!hasAnyKnownBirthPart(parts)) {
-    return emptySaju();
+    return skippedSaju(sajuDiagnostic('MISSING_BIRTH_DATE', '생년월일 정보가 없어 사주 분석을 생략했습니다.'));
   }
 
   if (!canRunFullSaju(parts)) {
@@ -1037,21 +1248,16 @@ export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['opt
   if (birthYear == null || birthMonth == null || birthDay == null) {
     return buildPartialSajuSummary(birth, parts);
   }
+  if (birth.calendarType !== 'lunar' && !isExistingSolarDate(birthYear, birthMonth, birthDay)) {
+    return skippedSaju(sajuDiagnostic(
+      'INVALID_DATE',
+      `존재하지 않는 양력 날짜(${birthYear}-${birthMonth}-${birthDay})라 사주 분석을 생략했습니다.`,
+    ));
+  }
   const resolvedCoordinates = resolveBirthCoordinates(birth);
 
   try {
-    // Always seed legacy config from a preset first.
-    // Some saju-ts versions throw when only partial policy patch is provided.
-    let config: any = {};
-    if (saju.configFromPreset) {
-      const presetKey = options?.schoolPreset ?? 'korean';
-      const presetCode = PRESET_MAP[presetKey] ?? PRESET_MAP.korean ?? 'KOREAN_MAINSTREAM';
-      config = { ...(saju.configFromPreset(presetCode) ?? {}) };
-    }
-    const timePolicyConfig = toLegacySajuTimePolicyConfig(options, resolvedCoordinates.longitude);
-    if (Object.keys(timePolicyConfig).length) config = { ...config, ...timePolicyConfig };
-    if (options?.sajuConfig) config = { ...config, ...options.sajuConfig };
-    const finalConfig = Object.keys(config).length > 0 ? config : undefined;
+    const finalConfig = buildLegacySajuConfig(saju, options, resolvedCoordinates.longitude);
 
     const sajuOpts = options?.sajuOptions ? {
       daeunCount:     options.sajuOptions.daeunCount,
@@ -1059,13 +1265,18 @@ export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['opt
       saeunYearCount: options.sajuOptions.saeunYearCount,
     } : undefined;
 
-    const analyzeWithGender = (genderCode: 'MALE' | 'FEMALE'): SajuSummary & Record<string, unknown> => {
+    const analyzeAt = (
+      genderCode: 'MALE' | 'FEMALE',
+      birthHour: number,
+      birthMinute: number,
+      config: any = finalConfig,
+    ): SajuSummary & Record<string, unknown> => {
       const birthInput = saju.createBirthInput({
         birthYear,
         birthMonth,
         birthDay,
-        birthHour: parts.hour ?? DEFAULT_UNKNOWN_HOUR,
-        birthMinute: parts.minute ?? DEFAULT_UNKNOWN_MINUTE,
+        birthHour,
+        birthMinute,
         gender: genderCode,
         calendarType: birth.calendarType === 'lunar' ? 'LUNAR' : 'SOLAR',
         isLeapMonth: typeof birth.isLeapMonth === 'boolean' ? birth.isLeapMonth : undefined,
@@ -1074,8 +1285,10 @@ export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['opt
         longitude: resolvedCoordinates.longitude,
         name: birth.name,
       });
-      return extractSaju(saju.analyzeSaju(birthInput, finalConfig, sajuOpts)) as SajuSummary & Record<string, unknown>;
+      return extractSaju(saju.analyzeSaju(birthInput, config, sajuOpts)) as SajuSummary & Record<string, unknown>;
     };
+    const analyzeWithGender = (genderCode: 'MALE' | 'FEMALE') =>
+      analyzeAt(genderCode, parts.hour ?? DEFAULT_UNKNOWN_HOUR, parts.minute ?? DEFAULT_UNKNOWN_MINUTE);
 
     let summary: SajuSummary & Record<string, unknown>;
     let neutralBasis: 'MALE' | 'FEMALE' | null = null;
@@ -1086,11 +1299,12 @@ export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['opt
       let maleSummary: (SajuSummary & Record<string, unknown>) | null = null;
       let femaleSummary: (SajuSummary & Record<string, unknown>) | null = null;
 
-      try { maleSummary = analyzeWithGender('MALE'); } catch {}
-      try { femaleSummary = analyzeWithGender('FEMALE'); } catch {}
+      let neutralError: unknown = null;
+      try { maleSummary = analyzeWithGender('MALE'); } catch (err) { neutralError = err; }
+      try { femaleSummary = analyzeWithGender('FEMALE'); } catch (err) { neutralError = err; }
 
       if (!maleSummary && !femaleSummary) {
-        return emptySaju();
+        return skippedSaju(diagnosticFromSajuError(neutralError, birth));
       }
 
       neutralMaleConfidence = maleSummary?.yongshin?.confidence ?? null;
@@ -1113,18 +1327,36 @@ export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['opt
       summary = analyzeWithGender(birth.gender === 'female' ? 'FEMALE' : 'MALE');
     }
 
+    const sweepHours = parts.hour == null && options?.unknownHourMode !== 'noon';
+    if (sweepHours) {
+      // Gender only steers daeun direction, so one gender is enough for the sweep.
+      const genderCode = neutralBasis ?? (birth.gender === 'female' ? 'FEMALE' : 'MALE');
+      const sweepConfig = { ...(finalConfig ?? {}), ...HOUR_SWEEP_TIME_POLICY };
+      const scenarios = HOUR_BRANCH_CODES.map((branch, index) => ({
+        branch,
+        summary: analyzeAt(genderCode, index * 2, HOUR_SWEEP_MINUTE, sweepConfig),
+      }));
+      summary = summarizeHourScenarios(scenarios);
+    }
+
     const notes: string[] = [];
-    if (parts.hour == null || parts.minute == null) {
-      notes.push(
-        `출생 시/분 미상으로 ${String(DEFAULT_UNKNOWN_HOUR).padStart(2, '0')}:${String(DEFAULT_UNKNOWN_MINUTE).padStart(2, '0')} 기준 계산을 적용했습니다.`,
-      );
+    const warnings: SajuDiagnostic[] = [];
+    if (sweepHours) {
+      const agreement = Math.round((summary.hourUnknown?.yongshin.agreement ?? 0) * 100);
+      const note = `출생 시 미상으로 12개 시지(자시~해시)를 모두 계산해 시주 없이 세 기둥 기준으로 정리했습니다. (용신 일치도 ${agreement}%)`;
+      notes.push(note);
+      warnings.push(sajuDiagnostic('UNKNOWN_BIRTH_TIME', note));
+    } else if (parts.hour == null || parts.minute == null) {
+      const note = `출생 시/분 미상으로 ${String(DEFAULT_UNKNOWN_HOUR).padStart(2, '0')}:${String(DEFAULT_UNKNOWN_MINUTE).padStart(2, '0')} 기준 계산을 적용했습니다.`;
+      notes.push(note);
+      warnings.push(sajuDiagnostic('UNKNOWN_BIRTH_TIME', note));
     }
     if (birth.gender === 'neutral') {
       const maleConfidenceText = neutralMaleConfidence != null ? neutralMaleConfidence.toFixed(2) : '-';
       const femaleConfidenceText = neutralFemaleConfidence != null ? neutralFemaleConfidence.toFixed(2) : '-';
-      notes.push(
-        `중성 선택으로 남녀 기준을 모두 계산했고, 신뢰도 기준으로 ${neutralBasis ?? '중립'} 결과를 사용했습니다. (남성 ${maleConfidenceText}, 여성 ${femaleConfidenceText})`,
-      );
+      const note = `중성 선택으로 남녀 기준을 모두 계산했고, 신뢰도 기준으로 ${neutralBasis ?? '중립'} 결과를 사용했습니다. (남성 ${maleConfidenceText}, 여성 ${femaleConfidenceText})`;
+      notes.push(note);
+      warnings.push(sajuDiagnostic('NEUTRAL_GENDER_BASIS', note));
       summary.neutralGenderBasis = neutralBasis ?? 'UNKNOWN';
     }
     if (notes.length > 0) {
@@ -1133,8 +1365,10 @@ export async function analyzeSaju(birth: BirthInfo, options?: SpringRequest['opt
         : [];
       summary.partialInterpretation = [...existing, ...notes];
     }
-    return summary;
-  } catch { return emptySaju(); }
+    return withDiagnostics(summary, { warnings });
+  } catch (err) {
+    return skippedSaju(diagnosticFromSajuError(err, birth));
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -1177,6 +1411,7 @@ export function extractSaju(rawSajuOutput: any): SajuSummary {
     daeunInfo:            extractDaeunInfo(rawSajuOutput),
     saeunPillars:         extractSaeunPillars(rawSajuOutput),
     trace:                extractTrace(rawSajuOutput),
+    diagnostics:          { errors: [], warnings: [] },
   } as SajuSummary;
 }
 
@@ -1549,6 +1784,7 @@ function extractDaeunInfo(rawSajuOutput: any) {
       startAge: Number(pillarData.startAge)        || 0,
       endAge:   Number(pillarData.endAge)          || 0,
       order:    Number(pillarData.order)           || 0,
+      interaction: extractLuckInteraction(pillarData.interaction),
     })),
   };
 }
@@ -1562,9 +1798,36 @@ function extractSaeunPillars(rawSajuOutput: any) {
     year:   Number(saeun.year) || 0,
     stem:   String(saeun.pillar?.cheongan ?? ''),
     branch: String(saeun.pillar?.jiji     ?? ''),
+    interaction: extractLuckInteraction(saeun.interaction),
   }));
 }
 
+/** Luck-pillar × natal interaction from saju-ts; null when the engine did not compute it. */
+function extractLuckInteraction(raw: any): LuckInteractionSummary | null {
+  if (!raw || typeof raw !== 'object') return null;
+  return {
+    quality:           String(raw.quality ?? 'NEUTRAL'),
+    isYongshinElement: raw.isYongshinElement === true,
+    isGisinElement:    raw.isGisinElement === true,
+    sipseong:          String(raw.sipseong ?? ''),
+    branchSipseong:    String(raw.branchSipseong ?? ''),
+    sibiUnseong:       String(raw.sibiUnseong ?? ''),
+    stemRelations: ensureArray(raw.stemRelations).map((r: any) => ({
+      type:    String(r?.type ?? ''),
+      with:    ensureArray(r?.with).map(String),
+      members: ensureArray(r?.members).map(String),
+    })),
+    branchRelations: ensureArray(raw.branchRelations).map((r: any) => ({
+      type:    String(r?.type ?? ''),
+      with:    ensureArray(r?.with).map(String),
+      members: ensureArray(r?.members).map(String),
+    })),
+    strengthDelta: Number(raw.strengthDelta) || 0,
+    isTransitionPeriod: raw.isTransitionPeriod === true,
+    summary:           String(raw.summary ?? ''),
+  };
+}
+
 // ---------------------------------------------------------------------------
 //  Trace / audit log
 // ---------------------------------------------------------------------------
@@ -1592,8 +1855,81 @@ export async function analyzeSajuSafe(
     // If analyzeSaju returned an empty saju (module missing), detect via dayMaster
     const isRealAnalysis = !!summary.dayMaster?.element;
     return { summary, sajuEnabled: isRealAnalysis };
+  } catch (err) {
+    return {
+      summary: skippedSaju(sajuDiagnostic('ANALYSIS_FAILED', '사주 분석 중 오류가 발생해 결과를 생략했습니다.', err)),
+      sajuEnabled: false,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+//  Public: period pillars (세운/월운/일진) for a fortune report date
+// ---------------------------------------------------------------------------
+
+/**
+ * 세운/월운/일진 of `targetDate` from saju-ts, read with the same 절기 boundaries, day boundary and
+ * time-zone/longitude policy as the natal chart of `birth`. Returns null when saju-ts is unavailable.
+ */
+export async function calculateFortunePeriodPillars(
+  birth: BirthInfo, targetDate: Date, options?: SpringRequest['options'], saju?: SajuSummary,
+): Promise<FortunePeriodPillars | null> {
+  const sajuModule = await loadSajuModule();
+  if (!sajuModule?.periodPillarsAt) return null;
+
+  try {
+    const coordinates = resolveBirthCoordinates(birth);
+    const config = buildLegacySajuConfig(sajuModule, options, coordinates.longitude);
+    // The place fixes the period boundaries; the date/time come from targetDate.
+    const place = {
+      timezone:   coordinates.timezone,
+      latitude:   coordinates.latitude,
+      longitude:  coordinates.longitude,
+    };
+    const periodAt = (input: Record<string, unknown>) =>
+      sajuModule.periodPillarsAt!(targetDate, sajuModule.createBirthInput(input), config);
+
+    // With a full birth date the engine also reads each period pillar against the natal chart
+    // (same gender basis as the saju analysis, so the 대운 partner matches saeunPillars).
+    const parts = resolveKnownBirthParts(birth);
+    let raw: any;
+    if (canRunFullSaju(parts)) {
+      const basis = (saju as Record<string, unknown> | undefined)?.neutralGenderBasis;
+      try {
+        raw = periodAt({
+          ...place,
+          birthYear:    parts.year,
+          birthMonth:   parts.month,
+          birthDay:     parts.day,
+          birthHour:    parts.hour ?? DEFAULT_UNKNOWN_HOUR,
+          birthMinute:  parts.minute ?? DEFAULT_UNKNOWN_MINUTE,
+          gender:       basis === 'MALE' || basis === 'FEMALE' ? basis : birth.gender === 'female' ? 'FEMALE' : 'MALE',
+          calendarType: birth.calendarType === 'lunar' ? 'LUNAR' : 'SOLAR',
+          isLeapMonth:  typeof birth.isLeapMonth === 'boolean' ? birth.isLeapMonth : undefined,
+        });
+      } catch {
+        raw = null;
+      }
+    }
+    raw ??= periodAt(place);
+
+    const codes = (p: any) => ({ stem: String(p?.cheongan ?? ''), branch: String(p?.jiji ?? '') });
+    const interactions = raw.interactions
+      ? {
+          year:  extractLuckInteraction(raw.interactions.year),
+          month: extractLuckInteraction(raw.interactions.month),
+          day:   extractLuckInteraction(raw.interactions.day),
+        }
+      : null;
+    return {
+      saeunYear: Number(raw.saeunYear) || targetDate.getFullYear(),
+      year:      codes(raw.year),
+      month:     codes(raw.month),
+      day:       codes(raw.day),
+      ...(interactions ? { interactions } : {}),
+    };
   } catch {
-    return { summary: emptySaju(), sajuEnabled: false };
+    return null;
   }
 }
 
@@ -1616,6 +1952,8 @@ export function buildSajuContext(sajuSummary: SajuSummary): { dist: Record<Eleme
   const finalHeesin = normalizeElementCode(yongshinData.heeshin);
   const gisin = normalizeElementCode(yongshinData.gishin);
   const gusin = normalizeElementCode(yongshinData.gushin);
+  // Hour unknown: trust the yongshin only as far as the 12 possible hour branches agree on it.
+  const yongshinRobustness = sajuSummary.hourUnknown?.yongshin.agreement ?? 1;
 
   // Count ten-god group occurrences across all pillar positions
   let tenGod: { groupCounts: Record<string, number> } | undefined;
@@ -1644,7 +1982,7 @@ export function buildSajuContext(sajuSummary: SajuSummary): { dist: Record<Eleme
         finalHeesin:     finalHeesin ?? null,
         gisin:           gisin ?? null,
         gusin:           gusin ?? null,
-        finalConfidence: confidenceToRatio(yongshinData.confidence),
+        finalConfidence: confidenceToRatio(yongshinData.confidence) * yongshinRobustness,
         recommendations: yongshinData.recommendations.map(
           ({ type, primaryElement, secondaryElement, confidence, reasoning }) => ({
             type: normalizeYongshinTypeCode(type),
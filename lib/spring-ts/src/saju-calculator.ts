@@ -28,7 +28,11 @@
  *  Ohaeng (오행)    — the Five Elements (Wood, Fire, Earth, Metal, Water)
  * ─────────────────────────────────────────────────────────────────────────
  */
-import { type EvalContext, type AnalysisDetail, type CalculatorPacket, type EvaluableCalculator, putInsight, createSignal } from './core/evaluator.js';
+import {
+  type EvalContext, type AnalysisDetail, type CalculatorPacket, type EvaluableCalculator,
+  putInsight, createSignal, scoringProfileOf,
+} from './core/evaluator.js';
+import { DEFAULT_SCORING_PROFILE, type SajuScoringRules } from './core/scoring-profile.js';
 import type { HanjaEntry } from '../../seed-ts/src/database/hanja-repository.js';
 import { hangulElementFromSyllable } from '../../seed-ts/src/utils/hangul-name-entry.js';
 import type { SajuCompatibility, SajuOutputSummary, SajuYongshinSummary } from './types.js';
@@ -51,32 +55,14 @@ import {
 // ---------------------------------------------------------------------------
 import scoringConfig from '../config/saju-scoring.json';
 
-/** How much weight each yongshin recommendation type carries (1.0 = strongest). */
-const YONGSHIN_TYPE_WEIGHTS: Record<string, number> = scoringConfig.yongshinTypeWeights;
-
-/** Fallback weight when the recommendation type is not in the table. */
-const DEFAULT_TYPE_WEIGHT: number = scoringConfig.defaultTypeWeight;
-
-/** Fallback confidence when the saju engine does not report one. */
-const DEFAULT_CONFIDENCE: number = scoringConfig.defaultConfidence;
-
 /** Recommendation types that get contextual priority (school-specific methods). */
 const CONTEXTUAL_TYPES: readonly string[] = scoringConfig.contextualTypes;
 
 /** The five ten-god groups: friend, output, wealth, authority, resource. */
 const TEN_GOD_GROUPS: readonly string[] = scoringConfig.tenGodGroupNames;
 
-// Destructure the nested config sections for easier access
-const {
-  balanceScoring:   BALANCE,
-  yongshinScoring:  YONGSHIN,
-  strengthScoring:  STRENGTH,
-  tenGodScoring:    TEN_GOD,
-  adaptiveWeights:  ADAPTIVE,
-  penalties:        PENALTY,
-  deficiencyBonus:  DEFICIENCY,
-  passing:          PASSING,
-} = scoringConfig;
+// Weights and thresholds come from the scoring profile (ScoringProfile.saju);
+// every function below takes them as `rules`, defaulting to the bundled JSON.
 
 // ---------------------------------------------------------------------------
 //  Public interface — the shape of a saju name score result
@@ -88,6 +74,8 @@ export interface SajuNameScoreResult {
   combined: Record<ElementKey, number>;
   breakdown: {
     balance: number; yongshin: number; strength: number; tenGod: number;
+    /** Adaptive weights the four sub-scores were blended with. */
+    weights: { balance: number; yongshin: number; strength: number; tenGod: number };
     penalties: { gisin: number; gusin: number; gyeokguk: number; total: number };
     deficiencyBonus: number;
     elementMatches: { yongshin: number; heesin: number; gisin: number; gusin: number };
@@ -152,9 +140,10 @@ function computeOptimalSorted(initialCounts: number[], resourceCount: number): n
  * - 100 = perfectly optimal
  * - Loses points for: mismatch distance, extra zeros, extra spread
  */
-function computeBalanceScore(
+export function computeBalanceScore(
   sajuDist: Record<ElementKey, number>,
   rootDist: Record<ElementKey, number>,
+  rules: SajuScoringRules = DEFAULT_SCORING_PROFILE.saju,
 ): { score: number; isPassed: boolean; combined: Record<ElementKey, number> } {
 
   const initialDistribution = ELEMENT_KEYS.map(key => sajuDist[key] ?? 0);
@@ -179,16 +168,16 @@ function computeBalanceScore(
     const manhattanDistance = finalSorted.reduce((sum, value, index) => sum + Math.abs(value - optimalDistribution[index]), 0);
     score = clamp(
       100
-        - BALANCE.penaltyPerMismatch   * Math.floor(manhattanDistance / 2)
-        - BALANCE.penaltyPerExtraZero  * Math.max(0, finalZeroCount - optimalZeroCount)
-        - BALANCE.penaltyPerExtraSpread * Math.max(0, finalSpread - optimalSpread),
+        - rules.balanceScoring.penaltyPerMismatch   * Math.floor(manhattanDistance / 2)
+        - rules.balanceScoring.penaltyPerExtraZero  * Math.max(0, finalZeroCount - optimalZeroCount)
+        - rules.balanceScoring.penaltyPerExtraSpread * Math.max(0, finalSpread - optimalSpread),
       0, 100,
     );
   }
 
   return {
     score,
-    isPassed: isOptimal || (finalZeroCount <= optimalZeroCount && finalSpread <= optimalSpread && score >= BALANCE.minPassingScore),
+    isPassed: isOptimal || (finalZeroCount <= optimalZeroCount && finalSpread <= optimalSpread && score >= rules.balanceScoring.minPassingScore),
     combined: Object.fromEntries(ELEMENT_KEYS.map((key, index) => [key, finalDistribution[index]])) as Record<ElementKey, number>,
   };
 }
@@ -208,6 +197,7 @@ function computeBalanceScore(
 function computeRecommendationScore(
   rootDist: Record<ElementKey, number>,
   yongshinData: SajuYongshinSummary,
+  rules: SajuScoringRules,
 ): { score: number; contextualPriority: number } | null {
   if (yongshinData.recommendations.length === 0) return null;
 
@@ -222,15 +212,15 @@ function computeRecommendationScore(
 
     const confidence      = Number.isFinite(recommendation.confidence)
       ? clamp(recommendation.confidence, 0, 1)
-      : YONGSHIN.recommendationScoring.fallbackConfidence;
+      : rules.yongshinScoring.recommendationScoring.fallbackConfidence;
     const typeWeight      = Math.max(
-      YONGSHIN.recommendationScoring.minWeight,
-      confidence * (YONGSHIN_TYPE_WEIGHTS[recommendation.type] ?? DEFAULT_TYPE_WEIGHT),
+      rules.yongshinScoring.recommendationScoring.minWeight,
+      confidence * (rules.yongshinTypeWeights[recommendation.type] ?? rules.defaultTypeWeight),
     );
 
     weightedSum += weightedElementAverage(rootDist, element => {
-      if (primaryElement   && element === primaryElement)   return YONGSHIN.recommendationScoring.primaryWeight;
-      if (secondaryElement && element === secondaryElement) return YONGSHIN.recommendationScoring.secondaryWeight;
+      if (primaryElement   && element === primaryElement)   return rules.yongshinScoring.recommendationScoring.primaryWeight;
+      if (secondaryElement && element === secondaryElement) return rules.yongshinScoring.recommendationScoring.secondaryWeight;
       return 0;
     }) * typeWeight;
 
@@ -256,6 +246,7 @@ function computeRecommendationScore(
 function computeYongshinScore(
   rootDist: Record<ElementKey, number>,
   yongshinData: SajuYongshinSummary | null,
+  rules: SajuScoringRules,
 ) {
   if (!yongshinData) return {
     score: 50, confidence: 0, contextualPriority: 0,
@@ -271,11 +262,11 @@ function computeYongshinScore(
 
   const confidence = Number.isFinite(yongshinData.finalConfidence)
     ? clamp(yongshinData.finalConfidence, 0, 1)
-    : DEFAULT_CONFIDENCE;
+    : rules.defaultConfidence;
 
   // Step 1: Affinity — weighted average of how each name element aligns
   //   yongshin = +1, heesin = +0.65, gisin = -0.65, gusin = -1
-  const affinityWeights = YONGSHIN.affinityWeights;
+  const affinityWeights = rules.yongshinScoring.affinityWeights;
   const affinityValue = weightedElementAverage(rootDist, element => {
     if (gusinElement    && element === gusinElement)    return affinityWeights.gusin;
     if (gisinElement    && element === gisinElement)    return affinityWeights.gisin;
@@ -285,15 +276,15 @@ function computeYongshinScore(
   });
 
   // Step 2: Blend affinity with recommendation scores
-  const recommendationResult = computeRecommendationScore(rootDist, yongshinData);
+  const recommendationResult = computeRecommendationScore(rootDist, yongshinData, rules);
   const affinityScore        = normalizeSignedScore(affinityValue);
   const blendedRawScore      = recommendationResult === null
     ? affinityScore
-    : YONGSHIN.recommendationBlend.affinityRatio        * affinityScore
-    + YONGSHIN.recommendationBlend.recommendationRatio  * recommendationResult.score;
+    : rules.yongshinScoring.recommendationBlend.affinityRatio        * affinityScore
+    + rules.yongshinScoring.recommendationBlend.recommendationRatio  * recommendationResult.score;
 
   // Step 3: Scale by confidence — higher confidence = more impact on the score
-  const confidenceScaled = YONGSHIN.confidenceImpact.baseRatio + confidence * YONGSHIN.confidenceImpact.variableRatio;
+  const confidenceScaled = rules.yongshinScoring.confidenceImpact.baseRatio + confidence * rules.yongshinScoring.confidenceImpact.variableRatio;
   const score = clamp(50 + (blendedRawScore - 50) * confidenceScaled, 0, 100);
 
   // Step 4: Compute gisin/gusin penalties
@@ -304,14 +295,14 @@ function computeYongshinScore(
   const gusinRatio    = totalElements > 0 ? gusinCount / totalElements : 0;
 
   // Penalty scale: higher confidence = stricter penalty
-  const penaltyScale = YONGSHIN.penalties.penaltyScaleBase + YONGSHIN.penalties.penaltyScaleVariable * confidence;
+  const penaltyScale = rules.yongshinScoring.penalties.penaltyScaleBase + rules.yongshinScoring.penalties.penaltyScaleVariable * confidence;
 
   return {
     score,
     confidence,
     contextualPriority: recommendationResult?.contextualPriority ?? 0,
-    gisinPenalty: Math.round(gisinRatio * YONGSHIN.penalties.gisinMultiplier * penaltyScale),
-    gusinPenalty: Math.round(gusinRatio * YONGSHIN.penalties.gusinMultiplier * penaltyScale),
+    gisinPenalty: Math.round(gisinRatio * rules.yongshinScoring.penalties.gisinMultiplier * penaltyScale),
+    gusinPenalty: Math.round(gusinRatio * rules.yongshinScoring.penalties.gusinMultiplier * penaltyScale),
     gusinRatio,
     elementMatches: {
       yongshin: elementCount(rootDist, yongshinElement),
@@ -331,6 +322,7 @@ function computeYongshinScore(
 function computeStrengthScore(
   rootDist: Record<ElementKey, number>,
   sajuOutput: SajuOutputSummary | null,
+  rules: SajuScoringRules,
 ): number {
   const strengthData  = sajuOutput?.strength;
   const dayMasterElement = sajuOutput?.dayMaster?.element;
@@ -352,11 +344,11 @@ function computeStrengthScore(
   const totalMagnitude = support + oppose;
   const intensity = totalMagnitude > 0
     ? clamp(Math.abs(support - oppose) / totalMagnitude, 0, 1)
-    : STRENGTH.defaultIntensity;
+    : rules.strengthScoring.defaultIntensity;
 
   // Final score: centered at 50, scaled by intensity
   return clamp(
-    50 + (balanceDirection - 50) * (STRENGTH.confidenceImpact.baseRatio + intensity * STRENGTH.confidenceImpact.variableRatio),
+    50 + (balanceDirection - 50) * (rules.strengthScoring.confidenceImpact.baseRatio + intensity * rules.strengthScoring.confidenceImpact.variableRatio),
     0, 100,
   );
 }
@@ -371,6 +363,7 @@ function computeStrengthScore(
 function computeTenGodScore(
   rootDist: Record<ElementKey, number>,
   sajuOutput: SajuOutputSummary | null,
+  rules: SajuScoringRules,
 ): number {
   const tenGodData       = sajuOutput?.tenGod;
   const dayMasterElement = sajuOutput?.dayMaster?.element;
@@ -390,11 +383,11 @@ function computeTenGodScore(
     const targetElement = ELEMENT_KEYS[(ELEMENT_KEYS.indexOf(dayMasterElement) + TEN_GOD_GROUPS.indexOf(group)) % 5];
     // Positive deviation = group is under-represented, so its element is desirable.
     // Negative deviation (over-represented) is scaled down to avoid over-penalizing.
-    elementWeights[targetElement] += deviation >= 0 ? deviation : deviation * TEN_GOD.negativeScale;
+    elementWeights[targetElement] += deviation >= 0 ? deviation : deviation * rules.tenGodScoring.negativeScale;
   }
 
   return clamp(
-    50 + weightedElementAverage(rootDist, element => clamp(elementWeights[element], -1, 1)) * TEN_GOD.maxInfluence,
+    50 + weightedElementAverage(rootDist, element => clamp(elementWeights[element], -1, 1)) * rules.tenGodScoring.maxInfluence,
     0, 100,
   );
 }
@@ -409,22 +402,23 @@ function computeTenGodScore(
 function resolveAdaptiveWeights(
   balanceScore: number,
   yongshinInfo: { score: number; confidence: number; contextualPriority: number },
+  rules: SajuScoringRules,
 ): { balance: number; yongshin: number; strength: number; tenGod: number } {
 
   // How much the yongshin score exceeds the balance score (normalized)
-  const yongshinSurplusRatio = clamp((yongshinInfo.score - balanceScore) / ADAPTIVE.shiftDivisor, 0, 1);
+  const yongshinSurplusRatio = clamp((yongshinInfo.score - balanceScore) / rules.adaptiveWeights.shiftDivisor, 0, 1);
   const confidenceBound      = clamp(yongshinInfo.confidence, 0, 1);
 
   // The "weight shift" moves budget from balance to yongshin when warranted
   const weightShift =
-    ADAPTIVE.baseShiftRatio * yongshinSurplusRatio * (ADAPTIVE.baseConfidenceRatio + ADAPTIVE.confidenceWeight * confidenceBound)
-    + ADAPTIVE.confidenceBoost * confidenceBound * clamp(yongshinInfo.contextualPriority, 0, 1);
+    rules.adaptiveWeights.baseShiftRatio * yongshinSurplusRatio * (rules.adaptiveWeights.baseConfidenceRatio + rules.adaptiveWeights.confidenceWeight * confidenceBound)
+    + rules.adaptiveWeights.confidenceBoost * confidenceBound * clamp(yongshinInfo.contextualPriority, 0, 1);
 
   return {
-    balance:  clamp(ADAPTIVE.balanceBase  - weightShift, ADAPTIVE.balanceMin,  ADAPTIVE.balanceMax),
-    yongshin: clamp(ADAPTIVE.yongshinBase + weightShift, ADAPTIVE.yongshinMin, ADAPTIVE.yongshinMax),
-    strength: ADAPTIVE.strengthFixed,
-    tenGod:   ADAPTIVE.tenGodFixed,
+    balance:  clamp(rules.adaptiveWeights.balanceBase  - weightShift, rules.adaptiveWeights.balanceMin,  rules.adaptiveWeights.balanceMax),
+    yongshin: clamp(rules.adaptiveWeights.yongshinBase + weightShift, rules.adaptiveWeights.yongshinMin, rules.adaptiveWeights.yongshinMax),
+    strength: rules.adaptiveWeights.strengthFixed,
+    tenGod:   rules.adaptiveWeights.tenGodFixed,
   };
 }
 
@@ -441,9 +435,10 @@ function resolveAdaptiveWeights(
 function computeGyeokgukPenalty(
   rootDist: Record<ElementKey, number>,
   sajuOutput: SajuOutputSummary | null,
+  rules: SajuScoringRules,
 ): number {
   const gyeokgukData = sajuOutput?.gyeokguk;
-  if (!gyeokgukData || gyeokgukData.category !== PENALTY.jonggyeokCategory || gyeokgukData.confidence < PENALTY.gyeokgukMinConfidence) return 0;
+  if (!gyeokgukData || gyeokgukData.category !== rules.penalties.jonggyeokCategory || gyeokgukData.confidence < rules.penalties.gyeokgukMinConfidence) return 0;
 
   const gisinElement = elementFromSajuCode(sajuOutput?.yongshin?.gisin);
   const gusinElement = elementFromSajuCode(sajuOutput?.yongshin?.gusin);
@@ -456,7 +451,7 @@ function computeGyeokgukPenalty(
   const gusinCount      = elementCount(rootDist, gusinElement);
   const harmfulRatio    = (gisinCount + gusinCount) / totalElements;
 
-  return Math.round(harmfulRatio * PENALTY.gyeokgukMaxPenalty * clamp(gyeokgukData.confidence, 0.5, 1));
+  return Math.round(harmfulRatio * rules.penalties.gyeokgukMaxPenalty * clamp(gyeokgukData.confidence, 0.5, 1));
 }
 
 /**
@@ -467,6 +462,7 @@ function computeGyeokgukPenalty(
 function computeDeficiencyBonus(
   rootDist: Record<ElementKey, number>,
   sajuOutput: SajuOutputSummary | null,
+  rules: SajuScoringRules,
 ): number {
   const deficientElements = sajuOutput?.deficientElements;
   if (!deficientElements?.length) return 0;
@@ -479,10 +475,10 @@ function computeDeficiencyBonus(
     const elementKey = elementFromSajuCode(deficient);
     if (!elementKey || elementCount(rootDist, elementKey) === 0) continue;
 
-    if (elementKey === yongshinElement)    bonus += DEFICIENCY.yongshinMatch;
-    else if (elementKey === heesinElement) bonus += DEFICIENCY.heesinMatch;
+    if (elementKey === yongshinElement)    bonus += rules.deficiencyBonus.yongshinMatch;
+    else if (elementKey === heesinElement) bonus += rules.deficiencyBonus.heesinMatch;
   }
-  return Math.min(bonus, DEFICIENCY.maxBonus);
+  return Math.min(bonus, rules.deficiencyBonus.maxBonus);
 }
 
 // =========================================================================
@@ -493,16 +489,17 @@ export function computeSajuNameScore(
   sajuDist: Record<ElementKey, number>,
   rootDist: Record<ElementKey, number>,
   sajuOutput: SajuOutputSummary | null,
+  rules: SajuScoringRules = DEFAULT_SCORING_PROFILE.saju,
 ): SajuNameScoreResult {
 
   // --- Compute the four sub-scores ---
-  const balanceResult   = computeBalanceScore(sajuDist, rootDist);
-  const yongshinResult  = computeYongshinScore(rootDist, sajuOutput?.yongshin ?? null);
-  const strengthScore   = computeStrengthScore(rootDist, sajuOutput);
-  const tenGodScore     = computeTenGodScore(rootDist, sajuOutput);
+  const balanceResult   = computeBalanceScore(sajuDist, rootDist, rules);
+  const yongshinResult  = computeYongshinScore(rootDist, sajuOutput?.yongshin ?? null, rules);
+  const strengthScore   = computeStrengthScore(rootDist, sajuOutput, rules);
+  const tenGodScore     = computeTenGodScore(rootDist, sajuOutput, rules);
 
   // --- Resolve adaptive weights (balance vs. yongshin trade-off) ---
-  const weight = resolveAdaptiveWeights(balanceResult.score, yongshinResult);
+  const weight = resolveAdaptiveWeights(balanceResult.score, yongshinResult, rules);
 
   // --- Weighted blend of all four sub-scores ---
   const weightedBaseScore = clamp(
@@ -514,21 +511,21 @@ export function computeSajuNameScore(
   );
 
   // --- Add deficiency bonus ---
-  const deficiencyBonus = computeDeficiencyBonus(rootDist, sajuOutput);
+  const deficiencyBonus = computeDeficiencyBonus(rootDist, sajuOutput, rules);
   const adjustedScore   = clamp(weightedBaseScore + deficiencyBonus, 0, 100);
 
   // --- Subtract penalties ---
   // Note: gyeokguk penalty intentionally stacks with gisin/gusin penalties.
   // In jonggyeok charts, using gisin triggers a "破格" (broken pattern).
-  const gyeokgukPenalty = computeGyeokgukPenalty(rootDist, sajuOutput);
+  const gyeokgukPenalty = computeGyeokgukPenalty(rootDist, sajuOutput, rules);
   const totalPenalty    = yongshinResult.gisinPenalty + yongshinResult.gusinPenalty + gyeokgukPenalty;
   const score           = clamp(adjustedScore - totalPenalty, 0, 100);
 
   // --- Pass/fail determination ---
   const isPassed =
-    score >= PASSING.minScore
-    && balanceResult.score >= PASSING.minBalanceScore
-    && (sajuOutput?.yongshin == null || (yongshinResult.score >= PASSING.minYongshinScore && yongshinResult.gusinRatio < PASSING.maxGusinRatio));
+    score >= rules.passing.minScore
+    && balanceResult.score >= rules.passing.minBalanceScore
+    && (sajuOutput?.yongshin == null || (yongshinResult.score >= rules.passing.minYongshinScore && yongshinResult.gusinRatio < rules.passing.maxGusinRatio));
 
   return {
     score,
@@ -539,6 +536,7 @@ export function computeSajuNameScore(
       yongshin: yongshinResult.score,
       strength: strengthScore,
       tenGod:   tenGodScore,
+      weights:  weight,
       penalties: {
         gisin:    yongshinResult.gisinPenalty,
         gusin:    yongshinResult.gusinPenalty,
@@ -594,7 +592,7 @@ export class SajuCalculator implements EvaluableCalculator {
     const rootDist = distributionFromArrangement(
       arrangement,
     );
-    this.scoreResult = computeSajuNameScore(this.sajuDistribution, rootDist, this.sajuOutput);
+    this.scoreResult = computeSajuNameScore(this.sajuDistribution, rootDist, this.sajuOutput, scoringProfileOf(ctx).saju);
     putInsight(ctx, SAJU_FRAME, this.scoreResult.score, this.scoreResult.isPassed, 'SAJU+ELEMENT', {
       sajuDistribution: this.sajuDistribution,
       distributionSource: this.sajuOutput ? 'saju-ts' : 'fallback',
@@ -609,7 +607,7 @@ export class SajuCalculator implements EvaluableCalculator {
     if (!this.enabled) {
       return { signals: [] };
     }
-    return { signals: [createSignal(SAJU_FRAME, ctx, 1.0)] };
+    return { signals: [createSignal(SAJU_FRAME, ctx, scoringProfileOf(ctx).saju.signalWeight)] };
   }
 
   getCombinedDistribution(): Record<ElementKey, number> {
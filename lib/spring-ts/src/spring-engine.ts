@@ -6,8 +6,11 @@
 //   getNamingReport()   -- pure name analysis (no saju)
 //   getSajuReport()     -- saju analysis only
 //   getSpringReport()   -- single integrated report (name + saju)
+//   getNameTrend()      -- yearly births, growth, projection and uniqueness of a name
 //   getNameCandidates() -- name recommendations with saju integration
 //   getNameCandidateSummaries() -- lightweight recommendation list for UI
+//   streamNameCandidateSummaries() / getNameCandidatePage()
+//                       -- score-ordered (per beam) candidate stream with cursors (no cap)
 //   analyze()           -- legacy all-in-one entry point (backward compatible)
 //   close()             -- release database resources
 // ---------------------------------------------------------------------------
@@ -18,22 +21,45 @@ import {
   NameStatRepository,
   type NameStatEntry,
 } from '../../seed-ts/src/database/name-stat-repository.js';
+import type { StorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+import { legalNameHanjaStatus, type LegalNameHanjaList } from '../../seed-ts/src/utils/legal-name-hanja.js';
+import {
+  DEFAULT_STROKE_SYSTEM, isStrokeFallback, withStrokeSystem, type StrokeSystem,
+} from '../../seed-ts/src/utils/stroke-system.js';
 import { Polarity } from '../../seed-ts/src/model/polarity.js';
 import { HangulCalculator } from './calculator/hangul-calculator.js';
 import { HanjaCalculator } from './calculator/hanja-calculator.js';
 import { FrameCalculator } from './calculator/frame-calculator.js';
+import { PhoneticCalculator } from './calculator/phonetic-calculator.js';
+import {
+  FamilyCalculator, findSiblingNameConflict, type FamilyContext, type FamilySibling,
+} from './calculator/family-calculator.js';
 import { evaluateName, type EvalContext, type EvaluationResult } from './core/evaluator.js';
+import { fnv1a } from './core/hash.js';
+import { scoringProfileFrom, type ScoringProfile, type ScoringProfileSource } from './core/scoring-profile.js';
 import { type ElementKey, bucketFromFortune } from './core/scoring.js';
 import { FourFrameOptimizer } from './calculator/search.js';
+import { priorityFirstCombinations, type CombinationLane } from './calculator/candidate-search.js';
 import { makeFallbackEntry, buildInterpretation, parseJamoFilter, type JamoFilter } from './core/name-utils.js';
+import { findNegativeMeaning, screenName, type NameScreeningFlag } from './core/name-screening.js';
+import {
+  analyzeNameTrend, summarizeNameTrend, popularityRankingScore,
+  type NameTrend, type NameTrendSummary, type PopularityPreference,
+} from './core/name-trend.js';
 import type { SajuOutputSummary } from './types.js';
 import { SajuCalculator } from './saju-calculator.js';
 import { springEvaluateName, SAJU_FRAME } from './spring-evaluator.js';
-import { analyzeSaju, analyzeSajuSafe, buildSajuContext, collectElements } from './saju-adapter.js';
+import { explainEvaluation } from './spring-explanation.js';
+import {
+  analyzeSaju, analyzeSajuSafe, buildSajuContext, calculateFortunePeriodPillars, collectElements,
+} from './saju-adapter.js';
 import type {
   SpringRequest, SpringResponse, SpringCandidate, SajuSummary,
   SajuReport, NamingReport, NamingReportFrame, SpringReport, SpringCandidateSummary,
-  NameCharInput, CharDetail, NameGenderTendency,
+  NameCharInput, CharDetail, NameGenderTendency, NamingWarning,
+  CandidateStreamOptions, CandidatePageOptions, SpringCandidateStreamItem, SpringCandidatePage,
+  CandidateRunOptions, SpringProgressEvent, SpringDatabaseName, SpringOptions, DollimjaInput,
+  NamingReportPronunciation,
 } from './types.js';
 import engineConfig from '../config/engine.json';
 import { buildFortuneReport } from './report/buildFortuneReport.js';
@@ -47,18 +73,27 @@ const MAX_CANDIDATES            = engineConfig.maxCandidates;
 const POOL_LIMIT_SINGLE_CHAR    = engineConfig.candidatePoolLimits.singleCharPerStroke;
 const POOL_LIMIT_DOUBLE_CHAR    = engineConfig.candidatePoolLimits.doubleCharPerPosition;
 const POOL_LIMIT_JAMO_FILTERED  = engineConfig.candidatePoolLimits.jamoFilteredPerPosition;
+const POOL_LIMIT_DOLLIMJA_FREE  = engineConfig.candidatePoolLimits.dollimjaFreePerPosition;
 const STROKE_MIN                = engineConfig.strokeRange.min;
 const STROKE_MAX                = engineConfig.strokeRange.max;
 const DEFAULT_OFFSET            = engineConfig.pagination.defaultOffset;
 const DEFAULT_LIMIT             = engineConfig.pagination.defaultLimit;
+const STREAM_BEAM_WIDTH         = engineConfig.pagination.streamBeamWidth;
+const PARKED_STREAM_LIMIT       = engineConfig.pagination.parkedStreams;
+const FAMILY_CONTEXT_CACHE_LIMIT = engineConfig.familyContextCacheSize;
 const FOURFRAME_LOAD_LIMIT      = engineConfig.fourframeLoadLimit;
 const LUCKY_LEVEL_KEYWORDS      = engineConfig.luckyLevelKeywords;
 const DEFAULT_TARGET_ELEMENT    = engineConfig.defaultTargetElement;
 const ENGINE_VERSION            = engineConfig.version;
 const DEFAULT_PURE_HANGUL_MODE: 'auto' | 'on' | 'off' = 'auto';
 const DEFAULT_USE_SURNAME_HANJA_IN_PURE = false;
+const DEFAULT_LEGAL_NAME_HANJA_MODE: LegalNameHanjaMode = 'exclude';
+const DEFAULT_NAME_SCREENING_MODE: NameScreeningMode = 'exclude';
+const CANDIDATE_CURSOR_VERSION = 'c2';
 const ENABLE_HANJA_NAME_EVALUATION = true;
 const ENABLE_FOURFRAME_NAME_EVALUATION = true;
+/** Candidates scored between progress events (and event-loop yields when a signal is given). */
+const PROGRESS_INTERVAL = 200;
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -76,6 +111,47 @@ function toCharDetail(entry: HanjaEntry): CharDetail {
   };
 }
 
+/** Let queued tasks (e.g. a worker's cancel message) run before continuing. */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/** Warnings for a given name that drops the 돌림자 or clashes with a sibling's name. */
+function buildFamilyWarnings(
+  givenNameEntries: HanjaEntry[],
+  family: FamilyContext,
+  similarNames: readonly string[],
+): NamingWarning[] {
+  const warnings: NamingWarning[] = [];
+  const { dollimja } = family;
+  const atPosition = dollimja ? givenNameEntries[dollimja.position] : undefined;
+  if (dollimja && (!atPosition || atPosition.hangul !== dollimja.hangul || atPosition.hanja !== dollimja.hanja)) {
+    warnings.push({
+      code: 'DOLLIMJA_MISMATCH',
+      message: `${dollimja.position + 1}번째 글자가 돌림자 ${dollimja.hangul}(${dollimja.hanja})가 아닙니다.`,
+      position: dollimja.position,
+      hangul: atPosition?.hangul ?? '',
+      hanja: atPosition?.hanja ?? '',
+    });
+  }
+
+  const givenHangul = givenNameEntries.map(entry => entry.hangul).join('');
+  const conflict = findSiblingNameConflict(givenHangul, similarNames, family);
+  if (conflict) {
+    warnings.push({
+      code: conflict.code,
+      message: conflict.code === 'SIBLING_SAME_NAME'
+        ? `형제자매 이름 '${conflict.sibling}'과 발음이 같습니다.`
+        : `형제자매 이름 '${conflict.sibling}'과 발음이 비슷해 헷갈릴 수 있습니다.`,
+      position: 0,
+      hangul: givenHangul,
+      hanja: givenNameEntries.map(entry => entry.hanja).join(''),
+      sibling: conflict.sibling,
+    });
+  }
+  return warnings;
+}
+
 /** Round a score to one decimal place. */
 function roundScore(value: number): number {
   return Math.round(value * 10) / 10;
@@ -86,11 +162,132 @@ function toNameCharInput(entry: HanjaEntry): NameCharInput {
   return { hangul: entry.hangul, hanja: entry.hanja };
 }
 
+/** Warnings for given-name hanja that are not on the 인명용 한자 list (or not with that reading). */
+function buildLegalNameWarnings(givenNameEntries: HanjaEntry[]): NamingWarning[] {
+  const warnings: NamingWarning[] = [];
+  givenNameEntries.forEach((entry, position) => {
+    if (entry.is_legal_name !== false || !entry.hanja || entry.hanja === entry.hangul) return;
+
+    const readings = entry.legal_readings ?? [];
+    warnings.push(readings.length > 0
+      ? {
+        code: 'HANJA_READING_NOT_REGISTRABLE',
+        message: `${entry.hanja}은(는) 인명용 한자이지만 '${entry.hangul}' 음으로는 출생신고할 수 없습니다 (허용 음: ${readings.join(', ')}).`,
+        position,
+        hangul: entry.hangul,
+        hanja: entry.hanja,
+      }
+      : {
+        code: 'HANJA_NOT_REGISTRABLE',
+        message: `${entry.hanja}(${entry.hangul})은(는) 인명용 한자가 아니어서 출생신고할 수 없습니다.`,
+        position,
+        hangul: entry.hangul,
+        hanja: entry.hanja,
+      });
+  });
+  return warnings;
+}
+
+/** Warnings explaining why the lexicon in config/name-screening.json flagged the name. */
+function buildScreeningWarnings(flags: NameScreeningFlag[]): NamingWarning[] {
+  return flags.map((flag): NamingWarning => {
+    const base = { code: flag.code, position: flag.position, hangul: flag.hangul, hanja: flag.hanja };
+    switch (flag.code) {
+      case 'NEGATIVE_HANJA_MEANING':
+        return { ...base, message: `${flag.hanja}(${flag.hangul})의 뜻 '${flag.matched}'이(가) ${flag.label}을(를) 떠올리게 합니다.` };
+      case 'NEGATIVE_HANJA_RADICAL':
+        return { ...base, message: `${flag.hanja}(${flag.hangul})은(는) ${flag.label}과(와) 관련된 부수 ${flag.matched}을(를) 씁니다.` };
+      case 'TEASING_WORD':
+        return { ...base, message: `'${flag.hangul}'에 ${flag.label} '${flag.matched}'이(가) 들어 있어 놀림감이 될 수 있습니다.` };
+      case 'NEAR_HOMOPHONE':
+        return { ...base, message: `'${flag.hangul}'의 발음이 ${flag.label} '${flag.soundsLike}'와(과) 비슷하게 들립니다.` };
+    }
+  });
+}
+
+/** Warnings for characters scored with their 원획 count because the DB has no 필획 count for them. */
+function buildStrokeFallbackWarnings(
+  surnameEntries: HanjaEntry[],
+  givenNameEntries: HanjaEntry[],
+  strokeSystem: StrokeSystem,
+): NamingWarning[] {
+  const warnings: NamingWarning[] = [];
+  const collect = (entries: HanjaEntry[], part: 'surname' | 'givenName') => {
+    entries.forEach((entry, position) => {
+      if (!entry.hanja || entry.hanja === entry.hangul || !isStrokeFallback(entry, strokeSystem)) return;
+      warnings.push({
+        code: 'STROKE_COUNT_FALLBACK',
+        message: `${entry.hanja}(${entry.hangul})의 필획 획수가 없어 원획 ${entry.strokes}획으로 계산했습니다.`,
+        position,
+        part,
+        hangul: entry.hangul,
+        hanja: entry.hanja,
+      });
+    });
+  };
+  collect(surnameEntries, 'surname');
+  collect(givenNameEntries, 'givenName');
+  return warnings;
+}
+
+/** Everything that changes the candidate order (page size and offset do not). */
+function candidateRequestFingerprint(request: SpringRequest): string {
+  const { limit: _limit, offset: _offset, ...options } = request.options ?? {};
+  return fnv1a(JSON.stringify([
+    ENGINE_VERSION, request.birth, request.surname, request.givenName ?? null,
+    request.givenNameLength ?? null, request.mode ?? null, options,
+  ]));
+}
+
+/**
+ * Cursor format: `c2.<fingerprint>.<beamStart>.<emitted>.<position>` -- `beamStart` counts
+ * generated name inputs (including ones filtered out) before the current beam, `emitted`
+ * the beam's summaries already yielded, `position` all summaries yielded so far.
+ */
+function encodeCandidateCursor(fingerprint: string, position: CandidateStreamPosition): string {
+  return `${CANDIDATE_CURSOR_VERSION}.${fingerprint}.${position.beamStart}.${position.emitted}.${position.position}`;
+}
+
+function decodeCandidateCursor(cursor: string | null | undefined, fingerprint: string): CandidateStreamPosition {
+  if (!cursor) return { beamStart: 0, emitted: 0, position: 0 };
+
+  const [version, owner, ...fields] = cursor.split('.');
+  const [beamStart, emitted, position] = fields.map(Number);
+  if (version !== CANDIDATE_CURSOR_VERSION || fields.length !== 3
+    || ![beamStart, emitted, position].every(value => Number.isInteger(value) && value >= 0)) {
+    throw new Error(`Invalid candidate cursor: ${cursor}`);
+  }
+  if (owner !== fingerprint) {
+    throw new Error('Candidate cursor belongs to a different request.');
+  }
+  return { beamStart, emitted, position };
+}
+
+interface CandidateStreamPosition {
+  readonly beamStart: number;
+  readonly emitted: number;
+  readonly position: number;
+}
+
+/** A suspended streamNameCandidateSummaries() walk, parked under the cursor it last yielded. */
+interface CandidateStreamWalk {
+  readonly inputs: AsyncIterator<NameCharInput[]>;
+  /** name inputs taken from `inputs` so far */
+  consumed: number;
+  beamStart: number;
+  /** the current beam in score order, minus what was already yielded */
+  beam: SpringCandidateSummary[];
+  emitted: number;
+  position: number;
+}
+
 interface NameStatInfo {
   readonly exists: boolean;
+  readonly similarNames: readonly string[];
   readonly popularityRank: number | null;
   readonly maleRatio: number | null;
   readonly nameGender: NameGenderTendency;
+  readonly entry: NameStatEntry | null;
 }
 
 interface NameResolutionPolicy {
@@ -98,9 +295,41 @@ interface NameResolutionPolicy {
   readonly useSurnameHanjaInPureHangul: boolean;
 }
 
+type LegalNameHanjaMode = 'exclude' | 'flag' | 'off';
+type NameScreeningMode = 'exclude' | 'flag' | 'off';
+
+type SajuContext = ReturnType<typeof buildSajuContext>;
+
+/** Pools and settings shared by every candidate generation strategy. */
+interface CandidateGenerationPlan {
+  readonly surnameEntries: HanjaEntry[];
+  readonly nameLength: number;
+  readonly pools: Map<number, HanjaEntry[]>;
+  readonly targetElements: Set<string>;
+  readonly useStrokeStrategy: boolean;
+}
+
 interface ResolveEntriesOptions {
   readonly forceHangulOnly?: boolean;
   readonly isSurname?: boolean;
+  readonly strokeSystem?: StrokeSystem;
+}
+
+export interface SpringEngineOptions {
+  /**
+   * Where the hanja / fourframe / name-stat DBs are loaded from.
+   * Defaults to the browser fetch adapter; use NodeFsStorageAdapter or MemoryStorageAdapter offline.
+   */
+  readonly storage?: StorageAdapter;
+  /** Receives engine-wide progress, i.e. `db-load` events while init() opens the databases. */
+  readonly onProgress?: (event: SpringProgressEvent) => void;
+  /** Weights and thresholds for every request that does not set its own (default: 'default'). */
+  readonly scoringProfile?: ScoringProfileSource;
+  /**
+   * 인명용 한자 list (parseLegalNameHanjaList) for hanja DBs built without the is_legal_name column.
+   * Without either, the legal-name check is skipped.
+   */
+  readonly legalNameHanjaList?: LegalNameHanjaList;
 }
 
 // ---------------------------------------------------------------------------
@@ -108,14 +337,29 @@ interface ResolveEntriesOptions {
 // ---------------------------------------------------------------------------
 
 export class SpringEngine {
-  private hanjaRepo = new HanjaRepository();
-  private fourFrameRepo = new FourframeRepository();
-  private nameStatRepo = new NameStatRepository();
+  private readonly hanjaRepo: HanjaRepository;
+  private readonly fourFrameRepo: FourframeRepository;
+  private readonly nameStatRepo: NameStatRepository;
   private initialized = false;
   private luckyMap = new Map<number, string>();
   private validFourFrameNumbers = new Set<number>();
   private optimizer: FourFrameOptimizer | null = null;
   private readonly nameStatInfoCache = new Map<string, NameStatInfo>();
+  /** Least recently used first; at most FAMILY_CONTEXT_CACHE_LIMIT option sets. */
+  private readonly familyContextCache = new Map<string, Promise<FamilyContext | null>>();
+  /** Suspended candidate streams by cursor, oldest first; resuming one skips the re-walk. */
+  private readonly parkedStreams = new Map<string, CandidateStreamWalk>();
+  private readonly onProgress: ((event: SpringProgressEvent) => void) | null;
+  private readonly scoringProfile: ScoringProfile;
+
+  constructor(options: SpringEngineOptions = {}) {
+    this.hanjaRepo = new HanjaRepository(options.storage);
+    this.hanjaRepo.useLegalNameList(options.legalNameHanjaList ?? null);
+    this.fourFrameRepo = new FourframeRepository(options.storage);
+    this.nameStatRepo = new NameStatRepository(options.storage);
+    this.onProgress = options.onProgress ?? null;
+    this.scoringProfile = scoringProfileFrom(options.scoringProfile ?? 'default');
+  }
 
   /** Expose the hanja repository so the UI can perform hanja lookups. */
   getHanjaRepository(): HanjaRepository { return this.hanjaRepo; }
@@ -128,11 +372,17 @@ export class SpringEngine {
     if (this.initialized) return;
 
     // Step 1: Open repositories in parallel
-    await Promise.all([
-      this.hanjaRepo.init(),
-      this.fourFrameRepo.init(),
-      this.nameStatRepo.init(),
-    ]);
+    const repositories: [SpringDatabaseName, { init(): Promise<void> }][] = [
+      ['hanja', this.hanjaRepo],
+      ['fourframe', this.fourFrameRepo],
+      ['name-stat', this.nameStatRepo],
+    ];
+    let loaded = 0;
+    await Promise.all(repositories.map(async ([database, repository]) => {
+      await repository.init();
+      loaded++;
+      this.onProgress?.({ stage: 'db-load', database, loaded, total: repositories.length });
+    }));
 
     // Step 2: Load four-frame fortune data and build the lucky-number set
     await this.buildLuckyNumberSet();
@@ -166,6 +416,93 @@ export class SpringEngine {
     return 'auto';
   }
 
+  private resolveNameScreeningMode(options?: SpringRequest['options']): NameScreeningMode {
+    const raw = options?.nameScreening ?? DEFAULT_NAME_SCREENING_MODE;
+    if (raw === 'flag' || raw === 'off') {
+      return raw;
+    }
+    return 'exclude';
+  }
+
+  private resolveLegalNameHanjaMode(options?: SpringRequest['options']): LegalNameHanjaMode {
+    const raw = options?.legalNameHanja ?? DEFAULT_LEGAL_NAME_HANJA_MODE;
+    if (raw === 'flag' || raw === 'off') {
+      return raw;
+    }
+    return 'exclude';
+  }
+
+  private resolveScoringProfile(options?: SpringRequest['options']): ScoringProfile {
+    return options?.scoringProfile ? scoringProfileFrom(options.scoringProfile) : this.scoringProfile;
+  }
+
+  private resolvePopularityPreference(options?: SpringRequest['options']): PopularityPreference | null {
+    const raw = options?.popularityPreference;
+    return raw === 'classic' || raw === 'trending' || raw === 'rare' ? raw : null;
+  }
+
+  private resolveStrokeSystem(options?: SpringRequest['options']): StrokeSystem {
+    const raw = options?.strokeSystem ?? DEFAULT_STROKE_SYSTEM;
+    return raw === 'pilhoek' ? 'pilhoek' : 'wonhoek';
+  }
+
+  private resolveDollimja(options?: SpringRequest['options']): DollimjaInput | null {
+    const dollimja = options?.family?.dollimja;
+    if (!dollimja) return null;
+    if (!Number.isInteger(dollimja.position) || dollimja.position < 0) {
+      throw new Error(`Invalid dollimja position: ${dollimja.position}`);
+    }
+    if (!dollimja.hangul || !dollimja.hanja) {
+      throw new Error('Dollimja requires both hangul and hanja.');
+    }
+    return dollimja;
+  }
+
+  /**
+   * Siblings resolved once per option set: their name-stat neighbours and, when birth
+   * data is given and usable, their chart's element distribution. Null without options.family.
+   * Kept in a small LRU so a long-lived engine does not grow with every distinct request.
+   */
+  private resolveFamilyContext(options?: SpringOptions): Promise<FamilyContext | null> {
+    if (!options?.family) return Promise.resolve(null);
+
+    const key = JSON.stringify(options);
+    let pending = this.familyContextCache.get(key);
+    if (pending) {
+      // Move to the most recently used end
+      this.familyContextCache.delete(key);
+      this.familyContextCache.set(key, pending);
+    } else {
+      pending = (async () => {
+        const dollimja = this.resolveDollimja(options);
+        const siblings = await Promise.all((options.family?.siblings ?? []).map(async (member): Promise<FamilySibling> => {
+          const nameStatInfo = await this.getNameStatInfo(member.givenName);
+          let distribution: FamilySibling['distribution'] = null;
+          if (member.birth) {
+            const { summary, sajuEnabled } = await analyzeSajuSafe(member.birth, options);
+            const { dist, output } = buildSajuContext(summary);
+            distribution = sajuEnabled && output ? dist : null;
+          }
+          return {
+            hangul: this.givenNameHangulKey(member.givenName),
+            similarNames: nameStatInfo.similarNames,
+            distribution,
+          };
+        }));
+        return { dollimja, siblings };
+      })();
+      const created = pending;
+      created.catch(() => {
+        if (this.familyContextCache.get(key) === created) this.familyContextCache.delete(key);
+      });
+      this.familyContextCache.set(key, created);
+      while (this.familyContextCache.size > FAMILY_CONTEXT_CACHE_LIMIT) {
+        this.familyContextCache.delete(this.familyContextCache.keys().next().value!);
+      }
+    }
+    return pending;
+  }
+
   private hasExplicitHanja(char: NameCharInput): boolean {
     const hanja = String(char.hanja ?? '').trim();
     return hanja.length > 0 && hanja !== char.hangul;
@@ -205,16 +542,20 @@ export class SpringEngine {
       request.givenName,
       request.options,
     );
+    const strokeSystem = this.resolveStrokeSystem(request.options);
     const surnameEntries = await this.resolveEntries(request.surname, {
       forceHangulOnly: resolutionPolicy.pureHangulGivenName
         && !resolutionPolicy.useSurnameHanjaInPureHangul,
       isSurname: true,
+      strokeSystem,
     });
     const givenNameEntries = await this.resolveEntries(request.givenName!, {
       forceHangulOnly: resolutionPolicy.pureHangulGivenName,
+      strokeSystem,
     });
 
     const hangul = new HangulCalculator(surnameEntries, givenNameEntries);
+    const phonetic = new PhoneticCalculator(surnameEntries, givenNameEntries);
     const hanja = new HanjaCalculator(
       surnameEntries,
       givenNameEntries,
@@ -224,18 +565,25 @@ export class SpringEngine {
       surnameEntries,
       givenNameEntries,
       ENABLE_FOURFRAME_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
+      this.fourFrameRepo,
     );
 
+    const profile = this.resolveScoringProfile(request.options);
     const evalCtx: EvalContext = {
       surnameLength: surnameEntries.length,
       givenLength:   givenNameEntries.length,
       luckyMap:      this.luckyMap,
       insights:      {},
+      profile,
     };
 
     const evalResult = evaluateName([hangul, hanja, frame], evalCtx);
     await frame.ensureEntriesLoaded();
-    return this.buildNamingReport(surnameEntries, givenNameEntries, evalResult, hangul, hanja, frame);
+    return this.buildNamingReport(
+      surnameEntries, givenNameEntries, evalResult, hangul, hanja, frame, strokeSystem,
+      await this.describePronunciation(phonetic, surnameEntries, profile),
+      await this.collectRequestWarnings(request.givenName!, surnameEntries, givenNameEntries, request.options),
+    );
   }
 
   // -------------------------------------------------------------------------
@@ -264,21 +612,26 @@ export class SpringEngine {
     const sajuReport = sajuReportOverride ?? await this.getSajuReport(request);
     const { dist: sajuDistribution, output: sajuOutput } = buildSajuContext(sajuReport);
     const nameStatInfo = await this.getNameStatInfo(request.givenName);
+    const popularity = this.popularityOf(nameStatInfo, request.birth.year);
 
     const resolutionPolicy = this.resolveNameResolutionPolicy(
       request.givenName,
       request.options,
     );
+    const strokeSystem = this.resolveStrokeSystem(request.options);
     const surnameEntries = await this.resolveEntries(request.surname, {
       forceHangulOnly: resolutionPolicy.pureHangulGivenName
         && !resolutionPolicy.useSurnameHanjaInPureHangul,
       isSurname: true,
+      strokeSystem,
     });
     const givenNameEntries = await this.resolveEntries(request.givenName, {
       forceHangulOnly: resolutionPolicy.pureHangulGivenName,
+      strokeSystem,
     });
 
     const hangul = new HangulCalculator(surnameEntries, givenNameEntries);
+    const phonetic = new PhoneticCalculator(surnameEntries, givenNameEntries);
     const hanja  = new HanjaCalculator(
       surnameEntries,
       givenNameEntries,
@@ -288,6 +641,7 @@ export class SpringEngine {
       surnameEntries,
       givenNameEntries,
       ENABLE_FOURFRAME_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
+      this.fourFrameRepo,
     );
     const hasSajuContext = Boolean(sajuOutput);
     const saju   = new SajuCalculator(
@@ -301,36 +655,75 @@ export class SpringEngine {
       },
     );
 
+    const profile = this.resolveScoringProfile(request.options);
     const combinedCtx: EvalContext = {
       surnameLength: surnameEntries.length,
       givenLength:   givenNameEntries.length,
       luckyMap:      this.luckyMap,
       insights:      {},
+      profile,
     };
-    const combined = springEvaluateName([hangul, hanja, frame, saju], combinedCtx);
+    const family = new FamilyCalculator(
+      surnameEntries,
+      givenNameEntries,
+      hasSajuContext ? sajuDistribution : null,
+      await this.resolveFamilyContext(request.options),
+      { elementSource: resolutionPolicy.pureHangulGivenName ? 'hangul' : 'resource' },
+    );
+    const combined = springEvaluateName([hangul, hanja, frame, phonetic, saju, family], combinedCtx);
 
     const nameOnlyCtx: EvalContext = {
       surnameLength: surnameEntries.length,
       givenLength:   givenNameEntries.length,
       luckyMap:      this.luckyMap,
       insights:      {},
+      profile,
     };
     const nameOnly = evaluateName([hangul, hanja, frame], nameOnlyCtx);
     await frame.ensureEntriesLoaded();
 
     return {
       finalScore: roundScore(combined.score),
+      explanation: explainEvaluation(combined, profile),
       popularityRank: nameStatInfo.popularityRank,
       maleRatio: nameStatInfo.maleRatio,
       nameGender: nameStatInfo.nameGender,
-      namingReport: this.buildNamingReport(surnameEntries, givenNameEntries, nameOnly, hangul, hanja, frame),
+      popularity,
+      rankingScore: roundScore(popularityRankingScore(
+        combined.score, popularity, this.resolvePopularityPreference(request.options),
+      )),
+      namingReport: this.buildNamingReport(
+        surnameEntries, givenNameEntries, nameOnly, hangul, hanja, frame, strokeSystem,
+        await this.describePronunciation(phonetic, surnameEntries, profile),
+        await this.collectRequestWarnings(request.givenName, surnameEntries, givenNameEntries, request.options),
+      ),
       sajuReport,
       sajuCompatibility: saju.getAnalysis().data,
       combinedDistribution: saju.getCombinedDistribution(),
+      ...(family.getHarmony() ? { familyHarmony: family.getHarmony()! } : {}),
       rank: 0,
     };
   }
 
+  // -------------------------------------------------------------------------
+  // getNameTrend -- popularity trend of one explicit given name
+  // -------------------------------------------------------------------------
+
+  /**
+   * Yearly births and ranks of request.givenName with growth, peak, projected band and
+   * the uniqueness among children born around request.birth.year; null when the name
+   * is not in name-stat.
+   */
+  async getNameTrend(request: SpringRequest): Promise<NameTrend | null> {
+    await this.init();
+
+    if (!request.givenName?.length) {
+      throw new Error('getNameTrend requires givenName input.');
+    }
+    const { entry } = await this.getNameStatInfo(request.givenName);
+    return entry ? analyzeNameTrend(entry, request.birth.year) : null;
+  }
+
   // -------------------------------------------------------------------------
   // getNameCandidates -- name recommendations with saju integration
   // -------------------------------------------------------------------------
@@ -366,7 +759,7 @@ export class SpringEngine {
     }
 
     // Sort and assign ranks
-    results.sort((a, b) => b.finalScore - a.finalScore);
+    results.sort((a, b) => b.rankingScore - a.rankingScore);
     results.forEach((r, i) => { r.rank = i + 1; });
     return results;
   }
@@ -375,12 +768,17 @@ export class SpringEngine {
   // getNameCandidateSummaries -- lightweight candidates for list rendering
   // -------------------------------------------------------------------------
 
-  async getNameCandidateSummaries(request: SpringRequest): Promise<SpringCandidateSummary[]> {
+  async getNameCandidateSummaries(
+    request: SpringRequest,
+    options: CandidateRunOptions = {},
+  ): Promise<SpringCandidateSummary[]> {
+    const { signal, onProgress } = options;
+    signal?.throwIfAborted();
     await this.init();
 
     const sajuReport = await this.getSajuReport(request);
     const sajuSummary: SajuSummary = sajuReport;
-    const { dist: sajuDistribution, output: sajuOutput } = buildSajuContext(sajuSummary);
+    const sajuContext = buildSajuContext(sajuSummary);
 
     const jamoFilters = request.givenName?.map(
       char => char.hanja ? null : parseJamoFilter(char.hangul),
@@ -388,78 +786,292 @@ export class SpringEngine {
     const hasJamoInput = jamoFilters?.some(filter => filter !== null) ?? false;
     const mode = this.resolveMode(request, hasJamoInput);
 
+    signal?.throwIfAborted();
     const nameInputs = await this.collectNameInputs(
-      request, mode, hasJamoInput, jamoFilters, sajuSummary,
+      request, mode, hasJamoInput, jamoFilters, sajuSummary, options,
     );
+    const total = nameInputs.length;
     const results: SpringCandidateSummary[] = [];
 
-    for (const givenNameInput of nameInputs) {
-      const nameStatInfo = await this.getNameStatInfo(givenNameInput);
-      if (!nameStatInfo.exists) continue;
-      if (this.isGenderMismatch(request.birth.gender, nameStatInfo.nameGender)) continue;
-      const resolutionPolicy = this.resolveNameResolutionPolicy(
-        givenNameInput,
-        request.options,
-      );
-      const surnameEntries = await this.resolveEntries(request.surname, {
-        forceHangulOnly: resolutionPolicy.pureHangulGivenName
-          && !resolutionPolicy.useSurnameHanjaInPureHangul,
-        isSurname: true,
-      });
-      const givenNameEntries = await this.resolveEntries(givenNameInput, {
-        forceHangulOnly: resolutionPolicy.pureHangulGivenName,
-      });
-
-      const hangul = new HangulCalculator(surnameEntries, givenNameEntries);
-      const hanja  = new HanjaCalculator(
-        surnameEntries,
-        givenNameEntries,
-        ENABLE_HANJA_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
-      );
-      const frame  = new FrameCalculator(
-        surnameEntries,
-        givenNameEntries,
-        ENABLE_FOURFRAME_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
-      );
-      const hasSajuContext = Boolean(sajuOutput);
-      const saju   = new SajuCalculator(
-        surnameEntries,
-        givenNameEntries,
-        sajuDistribution,
-        sajuOutput,
-        {
-          elementSource: resolutionPolicy.pureHangulGivenName ? 'hangul' : 'resource',
-          enabled: hasSajuContext,
-        },
-      );
+    for (const [index, givenNameInput] of nameInputs.entries()) {
+      if (index > 0 && index % PROGRESS_INTERVAL === 0) {
+        onProgress?.({ stage: 'candidates-scored', scored: index, total });
+        if (signal) await yieldToEventLoop();
+      }
+      signal?.throwIfAborted();
 
-      const combinedCtx: EvalContext = {
-        surnameLength: surnameEntries.length,
-        givenLength:   givenNameEntries.length,
-        luckyMap:      this.luckyMap,
-        insights:      {},
-      };
-      const combined = springEvaluateName([hangul, hanja, frame, saju], combinedCtx);
-
-      const allEntries = [...surnameEntries, ...givenNameEntries];
-      results.push({
-        finalScore: roundScore(combined.score),
-        fullHangul: allEntries.map(entry => entry.hangul).join(''),
-        fullHanja: allEntries.map(entry => entry.hanja).join(''),
-        givenHangul: givenNameEntries.map(entry => entry.hangul).join(''),
-        givenName: givenNameEntries.map(toNameCharInput),
-        popularityRank: nameStatInfo.popularityRank,
-        maleRatio: nameStatInfo.maleRatio,
-        nameGender: nameStatInfo.nameGender,
-        rank: 0,
-      });
+      const summary = await this.summarizeCandidate(request, givenNameInput, sajuContext);
+      if (summary) results.push(summary);
     }
+    onProgress?.({ stage: 'candidates-scored', scored: total, total });
 
-    results.sort((a, b) => b.finalScore - a.finalScore);
+    results.sort((a, b) => b.rankingScore - a.rankingScore);
     results.forEach((result, index) => { result.rank = index + 1; });
     return results;
   }
 
+  // -------------------------------------------------------------------------
+  // streamNameCandidateSummaries -- candidate stream, score-ordered per beam
+  //
+  // Unlike getNameCandidateSummaries there is no maxCandidates cap and no
+  // global sort. Combinations come out of priorityFirstCombinations (target
+  // elements first, then pool order); every STREAM_BEAM_WIDTH accepted names
+  // form a beam that is sorted by rankingScore before it is yielded, so the
+  // order is exact within a beam and only approximate across beams.
+  //
+  // Every item carries a cursor; passing it back resumes right after that
+  // item. A stream stopped between items is parked under its last cursor,
+  // so the usual page-after-page resume continues the same walk; any other
+  // cursor re-walks the generator (unscored) and re-scores one beam.
+  // -------------------------------------------------------------------------
+
+  async *streamNameCandidateSummaries(
+    request: SpringRequest,
+    options: CandidateStreamOptions = {},
+  ): AsyncGenerator<SpringCandidateStreamItem> {
+    const { signal } = options;
+    signal?.throwIfAborted();
+    await this.init();
+
+    const fingerprint = candidateRequestFingerprint(request);
+    const start = decodeCandidateCursor(options.cursor, fingerprint);
+
+    const sajuReport = await this.getSajuReport(request);
+    signal?.throwIfAborted();
+    const sajuSummary: SajuSummary = sajuReport;
+    const sajuContext = buildSajuContext(sajuSummary);
+
+    const parked = options.cursor ? this.parkedStreams.get(options.cursor) : undefined;
+    if (parked) this.parkedStreams.delete(options.cursor!);
+    const walk: CandidateStreamWalk = parked ?? {
+      inputs: this.streamCandidateInputs(request, sajuSummary),
+      consumed: 0,
+      beamStart: start.beamStart,
+      beam: [],
+      emitted: 0,
+      position: start.position,
+    };
+
+    let suspended = false;
+    let exhausted = false;
+    let lastCursor: string | null = null;
+    try {
+      if (!parked) {
+        // Re-walk up to the cursor's beam, then rebuild that beam and drop what was already yielded
+        while (walk.consumed < start.beamStart) {
+          signal?.throwIfAborted();
+          if ((await walk.inputs.next()).done) break;
+          walk.consumed++;
+        }
+        if (start.emitted > 0) {
+          walk.beam = (await this.fillCandidateBeam(walk, request, sajuContext, signal)).slice(start.emitted);
+          walk.emitted = start.emitted;
+        }
+      }
+
+      for (;;) {
+        if (walk.beam.length === 0) {
+          walk.beamStart = walk.consumed;
+          walk.emitted = 0;
+          walk.beam = await this.fillCandidateBeam(walk, request, sajuContext, signal);
+          if (walk.beam.length === 0) break;
+        }
+        signal?.throwIfAborted();
+
+        const summary = walk.beam.shift()!;
+        walk.emitted++;
+        walk.position++;
+        lastCursor = encodeCandidateCursor(fingerprint, walk);
+        suspended = true;
+        yield { summary, position: walk.position, cursor: lastCursor };
+        suspended = false;
+      }
+      exhausted = true;
+    } finally {
+      if (suspended && !exhausted && lastCursor) {
+        this.parkCandidateStream(lastCursor, walk);
+      } else {
+        await walk.inputs.return?.();
+      }
+    }
+  }
+
+  /** One page of streamNameCandidateSummaries(); pass `nextCursor` back for the following page. */
+  async getNameCandidatePage(
+    request: SpringRequest,
+    options: CandidatePageOptions = {},
+  ): Promise<SpringCandidatePage> {
+    const limit = options.limit ?? request.options?.limit ?? DEFAULT_LIMIT;
+    const items: SpringCandidateSummary[] = [];
+    let lastCursor: string | null = null;
+    let lookahead: SpringCandidateStreamItem | null = null;
+
+    if (limit > 0) {
+      // Read one item past the page so a stream that ends exactly at `limit` gets no cursor
+      for await (const item of this.streamNameCandidateSummaries(request, options)) {
+        if (items.length >= limit) {
+          lookahead = item;
+          break;
+        }
+        items.push(item.summary);
+        lastCursor = item.cursor;
+      }
+    }
+    if (!lookahead || !lastCursor) return { items, nextCursor: null };
+
+    this.unreadCandidate(lookahead, lastCursor);
+    return { items, nextCursor: lastCursor };
+  }
+
+  /** Put a looked-ahead item back on its parked walk, re-parked under the cursor before it. */
+  private unreadCandidate(item: SpringCandidateStreamItem, cursor: string): void {
+    const walk = this.parkedStreams.get(item.cursor);
+    if (!walk) return;
+    this.parkedStreams.delete(item.cursor);
+    walk.beam.unshift(item.summary);
+    walk.emitted--;
+    walk.position--;
+    this.parkCandidateStream(cursor, walk);
+  }
+
+  /** Name inputs for a stream: mode resolution as in getNameCandidateSummaries. */
+  private streamCandidateInputs(request: SpringRequest, sajuSummary: SajuSummary): AsyncGenerator<NameCharInput[]> {
+    const jamoFilters = request.givenName?.map(
+      char => char.hanja ? null : parseJamoFilter(char.hangul),
+    );
+    const hasJamoInput = jamoFilters?.some(filter => filter !== null) ?? false;
+    const mode = this.resolveMode(request, hasJamoInput);
+    return this.streamNameInputs(request, mode, hasJamoInput, jamoFilters, sajuSummary);
+  }
+
+  /** Score name inputs until STREAM_BEAM_WIDTH are accepted (or the walk ends); best first. */
+  private async fillCandidateBeam(
+    walk: CandidateStreamWalk,
+    request: SpringRequest,
+    sajuContext: SajuContext,
+    signal?: AbortSignal,
+  ): Promise<SpringCandidateSummary[]> {
+    const beam: SpringCandidateSummary[] = [];
+    while (beam.length < STREAM_BEAM_WIDTH) {
+      signal?.throwIfAborted();
+      const next = await walk.inputs.next();
+      if (next.done) break;
+      walk.consumed++;
+
+      const summary = await this.summarizeCandidate(request, next.value, sajuContext);
+      if (summary) beam.push(summary);
+    }
+    // Stable: ties keep generation order, so a re-walked beam sorts the same way
+    return beam.sort((a, b) => b.rankingScore - a.rankingScore);
+  }
+
+  private parkCandidateStream(cursor: string, walk: CandidateStreamWalk): void {
+    this.parkedStreams.set(cursor, walk);
+    while (this.parkedStreams.size > PARKED_STREAM_LIMIT) {
+      const [oldestCursor, oldest] = this.parkedStreams.entries().next().value!;
+      this.parkedStreams.delete(oldestCursor);
+      void oldest.inputs.return?.();
+    }
+  }
+
+  /**
+   * Score one given-name input for a summary list, or null when the name is not in
+   * the name-stat DB or its gender tendency does not match the request.
+   */
+  private async summarizeCandidate(
+    request: SpringRequest,
+    givenNameInput: NameCharInput[],
+    sajuContext: SajuContext,
+  ): Promise<SpringCandidateSummary | null> {
+    const { dist: sajuDistribution, output: sajuOutput } = sajuContext;
+    const nameStatInfo = await this.getNameStatInfo(givenNameInput);
+    if (!nameStatInfo.exists) return null;
+    if (this.isGenderMismatch(request.birth.gender, nameStatInfo.nameGender)) return null;
+    const familyContext = await this.resolveFamilyContext(request.options);
+    if (this.clashesWithSibling(givenNameInput, nameStatInfo, familyContext)) return null;
+    const popularity = this.popularityOf(nameStatInfo, request.birth.year);
+
+    const resolutionPolicy = this.resolveNameResolutionPolicy(
+      givenNameInput,
+      request.options,
+    );
+    const strokeSystem = this.resolveStrokeSystem(request.options);
+    const surnameEntries = await this.resolveEntries(request.surname, {
+      forceHangulOnly: resolutionPolicy.pureHangulGivenName
+        && !resolutionPolicy.useSurnameHanjaInPureHangul,
+      isSurname: true,
+      strokeSystem,
+    });
+    const givenNameEntries = await this.resolveEntries(givenNameInput, {
+      forceHangulOnly: resolutionPolicy.pureHangulGivenName,
+      strokeSystem,
+    });
+
+    const screening = this.screenCandidate(request, givenNameInput, surnameEntries, givenNameEntries);
+    if (screening === null) return null;
+
+    const hangul = new HangulCalculator(surnameEntries, givenNameEntries);
+    const phonetic = new PhoneticCalculator(surnameEntries, givenNameEntries);
+    const hanja  = new HanjaCalculator(
+      surnameEntries,
+      givenNameEntries,
+      ENABLE_HANJA_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
+    );
+    const frame  = new FrameCalculator(
+      surnameEntries,
+      givenNameEntries,
+      ENABLE_FOURFRAME_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
+      this.fourFrameRepo,
+    );
+    const hasSajuContext = Boolean(sajuOutput);
+    const saju   = new SajuCalculator(
+      surnameEntries,
+      givenNameEntries,
+      sajuDistribution,
+      sajuOutput,
+      {
+        elementSource: resolutionPolicy.pureHangulGivenName ? 'hangul' : 'resource',
+        enabled: hasSajuContext,
+      },
+    );
+
+    const profile = this.resolveScoringProfile(request.options);
+    const combinedCtx: EvalContext = {
+      surnameLength: surnameEntries.length,
+      givenLength:   givenNameEntries.length,
+      luckyMap:      this.luckyMap,
+      insights:      {},
+      profile,
+    };
+    const family = new FamilyCalculator(
+      surnameEntries,
+      givenNameEntries,
+      hasSajuContext ? sajuDistribution : null,
+      familyContext,
+      { elementSource: resolutionPolicy.pureHangulGivenName ? 'hangul' : 'resource' },
+    );
+    const combined = springEvaluateName([hangul, hanja, frame, phonetic, saju, family], combinedCtx);
+
+    const allEntries = [...surnameEntries, ...givenNameEntries];
+    return {
+      finalScore: roundScore(combined.score),
+      explanation: explainEvaluation(combined, profile),
+      fullHangul: allEntries.map(entry => entry.hangul).join(''),
+      fullHanja: allEntries.map(entry => entry.hanja).join(''),
+      givenHangul: givenNameEntries.map(entry => entry.hangul).join(''),
+      givenName: givenNameEntries.map(toNameCharInput),
+      popularityRank: nameStatInfo.popularityRank,
+      maleRatio: nameStatInfo.maleRatio,
+      nameGender: nameStatInfo.nameGender,
+      popularity,
+      rankingScore: roundScore(popularityRankingScore(
+        combined.score, popularity, this.resolvePopularityPreference(request.options),
+      )),
+      ...(screening.length > 0 ? { screeningWarnings: buildScreeningWarnings(screening) } : {}),
+      rank: 0,
+    };
+  }
+
   // -------------------------------------------------------------------------
   // buildNamingReport -- assemble a NamingReport from calculator results
   // -------------------------------------------------------------------------
@@ -471,6 +1083,9 @@ export class SpringEngine {
     hangul: HangulCalculator,
     hanja: HanjaCalculator,
     frame: FrameCalculator,
+    strokeSystem: StrokeSystem,
+    pronunciation: NamingReportPronunciation,
+    requestWarnings: NamingWarning[] = [],
   ): NamingReport {
     const categoryMap = evalResult.categoryMap;
     const frames = frame.frames;
@@ -522,6 +1137,13 @@ export class SpringEngine {
         },
       },
       interpretation: buildInterpretation(evalResult),
+      strokeSystem,
+      pronunciation,
+      warnings: [
+        ...buildLegalNameWarnings(givenNameEntries),
+        ...buildStrokeFallbackWarnings(surnameEntries, givenNameEntries, strokeSystem),
+        ...requestWarnings,
+      ],
     };
   }
 
@@ -548,9 +1170,9 @@ export class SpringEngine {
       request, mode, hasJamoInput, jamoFilters, sajuSummary,
     );
 
-    // 4. Score every candidate and rank by total score (descending)
+    // 4. Score every candidate and rank by rankingScore (descending)
     const scoredCandidates = await this.scoreAllCandidates(
-      request.surname, nameInputs, sajuDistribution, sajuOutput, request.options,
+      request.surname, nameInputs, sajuDistribution, sajuOutput, request.options, request.birth.year,
     );
 
     // 5. Paginate and return
@@ -592,6 +1214,7 @@ export class SpringEngine {
     hasJamoInput: boolean,
     jamoFilters: (JamoFilter | null)[] | undefined,
     sajuSummary: SajuSummary,
+    run: CandidateRunOptions = {},
   ): Promise<NameCharInput[][]> {
     const hasExplicitGivenName = request.givenName?.length && !hasJamoInput;
 
@@ -612,14 +1235,52 @@ export class SpringEngine {
       if (hasExplicitGivenName) {
         candidates.unshift(request.givenName!);
       }
+      run.onProgress?.({ stage: 'candidates-generated', total: candidates.length });
 
-      return this.filterCandidatesByNameStat(candidates, request.birth.gender);
+      const known = await this.filterCandidatesByNameStat(
+        candidates, request.birth.gender, await this.resolveFamilyContext(request.options), run,
+      );
+      return this.filterScreenedCandidates(request, known);
     }
 
     // Fallback: just the explicit name, or nothing
     return request.givenName?.length ? [request.givenName] : [];
   }
 
+  /**
+   * Streaming counterpart of collectNameInputs: same modes and explicit-name
+   * handling, but generated candidates come from the uncapped priority-first walk
+   * and name-stat filtering is left to the consumer.
+   */
+  private async *streamNameInputs(
+    request: SpringRequest,
+    mode: 'evaluate' | 'recommend' | 'all',
+    hasJamoInput: boolean,
+    jamoFilters: (JamoFilter | null)[] | undefined,
+    sajuSummary: SajuSummary,
+  ): AsyncGenerator<NameCharInput[]> {
+    const hasExplicitGivenName = request.givenName?.length && !hasJamoInput;
+
+    if (mode === 'evaluate' && hasExplicitGivenName) {
+      yield request.givenName!;
+      return;
+    }
+
+    if (mode === 'recommend' || mode === 'all' || hasJamoInput) {
+      if (hasExplicitGivenName) yield request.givenName!;
+
+      const plan = await this.planCandidateGeneration(
+        request,
+        sajuSummary,
+        hasJamoInput ? jamoFilters! : undefined,
+      );
+      yield* this.generateViaPriorityFirst(plan);
+      return;
+    }
+
+    if (request.givenName?.length) yield request.givenName;
+  }
+
   private givenNameHangulKey(givenName: NameCharInput[]): string {
     return givenName.map((char) => String(char?.hangul ?? '')).join('').trim();
   }
@@ -727,9 +1388,11 @@ export class SpringEngine {
     if (!key) {
       return {
         exists: false,
+        similarNames: [],
         popularityRank: null,
         maleRatio: null,
         nameGender: 'unknown',
+        entry: null,
       };
     }
 
@@ -741,38 +1404,151 @@ export class SpringEngine {
       const genderInfo = this.getGenderInfoFromEntry(found);
       const info = {
         exists: Boolean(found),
+        similarNames: found?.similar_names ?? [],
         popularityRank: found ? this.latestPopularityRankFromEntry(found) : null,
         maleRatio: genderInfo.maleRatio,
         nameGender: genderInfo.nameGender,
+        entry: found,
       };
       this.nameStatInfoCache.set(key, info);
       return info;
     } catch {
       const fallback: NameStatInfo = {
         exists: false,
+        similarNames: [],
         popularityRank: null,
         maleRatio: null,
         nameGender: 'unknown',
+        entry: null,
       };
       this.nameStatInfoCache.set(key, fallback);
       return fallback;
     }
   }
 
+  private popularityOf(info: NameStatInfo, birthYear?: number | null): NameTrendSummary | null {
+    return info.entry ? summarizeNameTrend(analyzeNameTrend(info.entry, birthYear)) : null;
+  }
+
+  /** True when the name sounds the same as, or is easily confused with, a sibling's name. */
+  private clashesWithSibling(
+    givenName: NameCharInput[],
+    info: NameStatInfo,
+    family: FamilyContext | null,
+  ): boolean {
+    if (!family?.siblings.length) return false;
+    return findSiblingNameConflict(this.givenNameHangulKey(givenName), info.similarNames, family) !== null;
+  }
+
+  /** Spoken form plus every reading the surname's first hanja is registered under (李: 이, 리). */
+  private async describePronunciation(
+    phonetic: PhoneticCalculator,
+    surnameEntries: HanjaEntry[],
+    profile: ScoringProfile,
+  ): Promise<NamingReportPronunciation> {
+    const first = surnameEntries[0];
+    const rows = first?.hanja ? await this.hanjaRepo.findAllByHanja(first.hanja) : [];
+    const surnameReadings = [...new Set([first?.hangul ?? '', ...rows.map(row => row.hangul)])].filter(Boolean);
+    return { ...phonetic.analyze(profile.frames.phoneticFlow), surnameReadings };
+  }
+
+  /** Warnings that depend on request options: name screening, then sibling mode. */
+  private async collectRequestWarnings(
+    givenName: NameCharInput[],
+    surnameEntries: HanjaEntry[],
+    givenNameEntries: HanjaEntry[],
+    options?: SpringOptions,
+  ): Promise<NamingWarning[]> {
+    const warnings = this.resolveNameScreeningMode(options) === 'off'
+      ? []
+      : buildScreeningWarnings(screenName(surnameEntries, givenNameEntries));
+
+    const family = await this.resolveFamilyContext(options);
+    if (!family) return warnings;
+    const info = await this.getNameStatInfo(givenName);
+    return [...warnings, ...buildFamilyWarnings(givenNameEntries, family, info.similarNames)];
+  }
+
   private async filterCandidatesByNameStat(
     nameInputs: NameCharInput[][],
     userGender: 'male' | 'female' | 'neutral',
+    family: FamilyContext | null,
+    run: CandidateRunOptions = {},
   ): Promise<NameCharInput[][]> {
+    const { signal, onProgress } = run;
+    const total = nameInputs.length;
     const filtered: NameCharInput[][] = [];
-    for (const givenNameInput of nameInputs) {
+    for (const [index, givenNameInput] of nameInputs.entries()) {
+      if (index > 0 && index % PROGRESS_INTERVAL === 0) {
+        onProgress?.({ stage: 'candidates-filtered', checked: index, total });
+        if (signal) await yieldToEventLoop();
+      }
+      signal?.throwIfAborted();
+
       const info = await this.getNameStatInfo(givenNameInput);
       if (!info.exists) continue;
       if (this.isGenderMismatch(userGender, info.nameGender)) continue;
+      if (this.clashesWithSibling(givenNameInput, info, family)) continue;
       filtered.push(givenNameInput);
     }
+    onProgress?.({ stage: 'candidates-filtered', checked: total, total });
     return filtered;
   }
 
+  /** Drops generated names that name screening flags (nameScreening 'exclude', the default). */
+  private async filterScreenedCandidates(
+    request: SpringRequest,
+    nameInputs: NameCharInput[][],
+  ): Promise<NameCharInput[][]> {
+    if (this.resolveNameScreeningMode(request.options) !== 'exclude') return nameInputs;
+
+    const strokeSystem = this.resolveStrokeSystem(request.options);
+    const kept: NameCharInput[][] = [];
+    for (const givenNameInput of nameInputs) {
+      const resolutionPolicy = this.resolveNameResolutionPolicy(givenNameInput, request.options);
+      const surnameEntries = await this.resolveEntries(request.surname, {
+        forceHangulOnly: resolutionPolicy.pureHangulGivenName
+          && !resolutionPolicy.useSurnameHanjaInPureHangul,
+        isSurname: true,
+        strokeSystem,
+      });
+      const givenNameEntries = await this.resolveEntries(givenNameInput, {
+        forceHangulOnly: resolutionPolicy.pureHangulGivenName,
+        strokeSystem,
+      });
+      if (this.screenCandidate(request, givenNameInput, surnameEntries, givenNameEntries)) {
+        kept.push(givenNameInput);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Name-screening flags for one candidate, or null when nameScreening 'exclude' drops it.
+   * Names the caller typed in are never dropped, only warned about.
+   */
+  private screenCandidate(
+    request: SpringRequest,
+    givenNameInput: NameCharInput[],
+    surnameEntries: HanjaEntry[],
+    givenNameEntries: HanjaEntry[],
+  ): NameScreeningFlag[] | null {
+    const screenMode = this.resolveNameScreeningMode(request.options);
+    const flags = screenMode === 'off' ? [] : screenName(surnameEntries, givenNameEntries);
+    if (flags.length > 0 && screenMode === 'exclude' && !this.isRequestedGivenName(request, givenNameInput)) {
+      return null;
+    }
+    return flags;
+  }
+
+  /** True when `givenName` is the name in the request itself rather than a generated candidate. */
+  private isRequestedGivenName(request: SpringRequest, givenName: NameCharInput[]): boolean {
+    const requested = request.givenName ?? [];
+    return requested.length === givenName.length
+      && requested.every((char, index) => char.hangul === givenName[index].hangul
+        && String(char.hanja ?? '') === String(givenName[index].hanja ?? ''));
+  }
+
   // -------------------------------------------------------------------------
   // analyze() helper -- score all candidates and sort
   // -------------------------------------------------------------------------
@@ -783,6 +1559,7 @@ export class SpringEngine {
     sajuDistribution: Record<ElementKey, number>,
     sajuOutput: SajuOutputSummary | null,
     requestOptions?: SpringRequest['options'],
+    birthYear?: number | null,
   ): Promise<SpringCandidate[]> {
     const scored: SpringCandidate[] = [];
 
@@ -794,11 +1571,12 @@ export class SpringEngine {
           sajuDistribution,
           sajuOutput,
           requestOptions,
+          birthYear,
         ),
       );
     }
 
-    scored.sort((a, b) => b.scores.total - a.scores.total);
+    scored.sort((a, b) => b.rankingScore - a.rankingScore);
     return scored;
   }
 
@@ -814,6 +1592,7 @@ export class SpringEngine {
   ): SpringResponse {
     const offset = request.options?.offset ?? DEFAULT_OFFSET;
     const limit  = request.options?.limit  ?? DEFAULT_LIMIT;
+    const profile = this.resolveScoringProfile(request.options);
 
     const page = scoredCandidates
       .slice(offset, offset + limit)
@@ -825,7 +1604,11 @@ export class SpringEngine {
       saju: sajuSummary,
       candidates: page,
       totalCount: scoredCandidates.length,
-      meta: { version: ENGINE_VERSION, timestamp: new Date().toISOString() },
+      meta: {
+        version: ENGINE_VERSION,
+        timestamp: new Date().toISOString(),
+        scoringProfile: { id: profile.id, digest: profile.digest },
+      },
     };
   }
 
@@ -839,19 +1622,24 @@ export class SpringEngine {
     sajuDistribution: Record<ElementKey, number>,
     sajuOutput: SajuOutputSummary | null,
     requestOptions?: SpringRequest['options'],
+    birthYear?: number | null,
   ): Promise<SpringCandidate> {
     const resolutionPolicy = this.resolveNameResolutionPolicy(givenName, requestOptions);
+    const strokeSystem = this.resolveStrokeSystem(requestOptions);
     const surnameEntries = await this.resolveEntries(surname, {
       forceHangulOnly: resolutionPolicy.pureHangulGivenName
         && !resolutionPolicy.useSurnameHanjaInPureHangul,
       isSurname: true,
+      strokeSystem,
     });
     const givenNameEntries = await this.resolveEntries(givenName, {
       forceHangulOnly: resolutionPolicy.pureHangulGivenName,
+      strokeSystem,
     });
 
     // Build one calculator per scoring category
     const hangul = new HangulCalculator(surnameEntries, givenNameEntries);
+    const phonetic = new PhoneticCalculator(surnameEntries, givenNameEntries);
     const hanja  = new HanjaCalculator(
       surnameEntries,
       givenNameEntries,
@@ -861,6 +1649,7 @@ export class SpringEngine {
       surnameEntries,
       givenNameEntries,
       ENABLE_FOURFRAME_NAME_EVALUATION && !resolutionPolicy.pureHangulGivenName,
+      this.fourFrameRepo,
     );
     const hasSajuContext = Boolean(sajuOutput);
     const saju   = new SajuCalculator(
@@ -875,14 +1664,23 @@ export class SpringEngine {
     );
 
     // Evaluate all calculators together
+    const profile = this.resolveScoringProfile(requestOptions);
     const evalContext: EvalContext = {
       surnameLength: surnameEntries.length,
       givenLength:   givenNameEntries.length,
       luckyMap:      this.luckyMap,
       insights:      {},
+      profile,
     };
 
-    const evaluationResult = springEvaluateName([hangul, hanja, frame, saju], evalContext);
+    const family = new FamilyCalculator(
+      surnameEntries,
+      givenNameEntries,
+      hasSajuContext ? sajuDistribution : null,
+      await this.resolveFamilyContext(requestOptions),
+      { elementSource: resolutionPolicy.pureHangulGivenName ? 'hangul' : 'resource' },
+    );
+    const evaluationResult = springEvaluateName([hangul, hanja, frame, phonetic, saju, family], evalContext);
     const categoryMap      = evaluationResult.categoryMap;
 
     // Assemble the full name strings
@@ -898,6 +1696,12 @@ export class SpringEngine {
       ((categoryMap.STROKE_POLARITY?.score ?? 0) + (categoryMap.STROKE_ELEMENT?.score ?? 0)) / 2,
     );
 
+    // Popularity only matters when the request states a preference
+    const preference = this.resolvePopularityPreference(requestOptions);
+    const popularity = preference
+      ? this.popularityOf(await this.getNameStatInfo(givenName), birthYear)
+      : null;
+
     return {
       name: {
         surname:    surnameEntries.map(toCharDetail),
@@ -919,6 +1723,8 @@ export class SpringEngine {
         saju:      saju.getAnalysis().data,
       },
       interpretation: buildInterpretation(evaluationResult),
+      explanation: explainEvaluation(evaluationResult, profile),
+      rankingScore: roundScore(popularityRankingScore(evaluationResult.score, popularity, preference)),
       rank: 0,
     };
   }
@@ -939,9 +1745,29 @@ export class SpringEngine {
     sajuSummary: SajuSummary,
     jamoFilters?: (JamoFilter | null)[],
   ): Promise<NameCharInput[][]> {
-    const surnameEntries = await this.resolveEntries(request.surname, { isSurname: true });
+    const plan = await this.planCandidateGeneration(request, sajuSummary, jamoFilters);
+
+    return plan.useStrokeStrategy
+      ? this.generateViaStrokeOptimizer(plan.surnameEntries, plan.pools, plan.nameLength)
+      : this.generateViaDepthFirstSearch(plan.pools, plan.nameLength);
+  }
+
+  /** Resolve the surname, target/avoid elements and per-position pools for generation. */
+  private async planCandidateGeneration(
+    request: SpringRequest,
+    sajuSummary: SajuSummary,
+    jamoFilters?: (JamoFilter | null)[],
+  ): Promise<CandidateGenerationPlan> {
+    const strokeSystem   = this.resolveStrokeSystem(request.options);
+    const surnameEntries = await this.resolveEntries(request.surname, { isSurname: true, strokeSystem });
     const nameLength     = request.givenNameLength ?? jamoFilters?.length ?? 2;
     const hasJamoFilter  = jamoFilters?.some(filter => filter !== null) ?? false;
+    const dollimja       = this.resolveDollimja(request.options);
+    if (dollimja && dollimja.position >= nameLength) {
+      throw new Error(`Dollimja position ${dollimja.position} is outside a ${nameLength}-character given name.`);
+    }
+    // A 돌림자 pins one position, so generation needs per-position pools
+    const usePositionPools = hasJamoFilter || dollimja !== null;
 
     // Determine which elements to favour / avoid based on saju analysis
     const targetElements = collectElements(
@@ -958,16 +1784,17 @@ export class SpringEngine {
 
     // Build per-position character pools
     const pools = await this.buildPositionPools(
-      request, nameLength, jamoFilters, hasJamoFilter,
+      request, nameLength, jamoFilters, usePositionPools, dollimja,
       surnameEntries, targetElements, avoidElements,
+      this.resolveLegalNameHanjaMode(request.options),
+      this.resolveNameScreeningMode(request.options),
+      strokeSystem,
     );
 
     // Choose the generation strategy
-    const useStrokeStrategy = !hasJamoFilter && nameLength <= 2;
+    const useStrokeStrategy = !usePositionPools && nameLength <= 2;
 
-    return useStrokeStrategy
-      ? this.generateViaStrokeOptimizer(surnameEntries, pools, nameLength)
-      : this.generateViaDepthFirstSearch(pools, nameLength);
+    return { surnameEntries, nameLength, pools, targetElements, useStrokeStrategy };
   }
 
   // -------------------------------------------------------------------------
@@ -1071,28 +1898,70 @@ export class SpringEngine {
     return results;
   }
 
+  // -------------------------------------------------------------------------
+  // Strategy 3: Priority-first stream (streamNameCandidateSummaries)
+  //
+  // Same pools as strategies 1 and 2, but nothing is capped or sliced:
+  // lanes are the optimizer's stroke combinations (or the position pools),
+  // walked lazily in target-element-first order.
+  // -------------------------------------------------------------------------
+
+  private *generateViaPriorityFirst(plan: CandidateGenerationPlan): Generator<NameCharInput[]> {
+    const { pools, nameLength, targetElements } = plan;
+    const priority = (entry: HanjaEntry) => (targetElements.has(entry.resource_element) ? 1 : 0);
+    // Stable sort: stroke pools are already target-first, fixed-character pools may not be
+    const sortedPools = new Map<number, HanjaEntry[]>();
+    for (const [key, pool] of pools) {
+      sortedPools.set(key, [...pool].sort((a, b) => priority(b) - priority(a)));
+    }
+
+    let lanes: CombinationLane<HanjaEntry>[];
+    if (plan.useStrokeStrategy) {
+      const surnameStrokes = plan.surnameEntries.map(entry => entry.strokes);
+      lanes = [...this.optimizer!.getValidCombinations(surnameStrokes, nameLength)].map(key =>
+        key.split(',').map(stroke => sortedPools.get(Number(stroke)) ?? []),
+      );
+    } else {
+      lanes = [Array.from({ length: nameLength }, (_, position) => sortedPools.get(position) ?? [])];
+    }
+
+    for (const combination of priorityFirstCombinations(lanes, priority)) {
+      // Skip if the same hanja character appears twice in the combination
+      if (new Set(combination.map(entry => entry.hanja)).size < combination.length) continue;
+      yield combination.map(toNameCharInput);
+    }
+  }
+
   // -------------------------------------------------------------------------
   // buildPositionPools -- prepare hanja options for each name position
   //
   // Two modes:
-  //   Stroke mode (no jamo, <= 2 chars): pools keyed by stroke count
-  //   Jamo mode (jamo filter or 3+ chars): pools keyed by position index
+  //   Stroke mode (no jamo, no 돌림자, <= 2 chars): pools keyed by stroke count
+  //   Jamo mode (jamo filter, 돌림자 or 3+ chars): pools keyed by position index
   // -------------------------------------------------------------------------
 
   private async buildPositionPools(
     request: SpringRequest,
     nameLength: number,
     jamoFilters: (JamoFilter | null)[] | undefined,
-    hasJamoFilter: boolean,
+    usePositionPools: boolean,
+    dollimja: DollimjaInput | null,
     surnameEntries: HanjaEntry[],
     targetElements: Set<string>,
     avoidElements: Set<string>,
+    legalMode: LegalNameHanjaMode,
+    screenMode: NameScreeningMode,
+    strokeSystem: StrokeSystem,
   ): Promise<Map<number, HanjaEntry[]>> {
-    const useStrokeMode = !hasJamoFilter && nameLength <= 2;
+    const useStrokeMode = !usePositionPools && nameLength <= 2;
 
     return useStrokeMode
-      ? this.buildStrokeBasedPools(surnameEntries, nameLength, targetElements, avoidElements)
-      : this.buildJamoBasedPools(request, nameLength, jamoFilters, targetElements, avoidElements);
+      ? this.buildStrokeBasedPools(
+        surnameEntries, nameLength, targetElements, avoidElements, legalMode, screenMode, strokeSystem,
+      )
+      : this.buildJamoBasedPools(
+        request, nameLength, jamoFilters, dollimja, targetElements, avoidElements, legalMode, screenMode, strokeSystem,
+      );
   }
 
   // -------------------------------------------------------------------------
@@ -1100,7 +1969,10 @@ export class SpringEngine {
   //
   // 1. Ask the optimizer which stroke-count combinations are valid.
   // 2. Fetch all hanja in the needed stroke range.
-  // 3. Group by stroke count, excluding surnames and avoided elements.
+  // 3. Group by stroke count under the requested stroke system, excluding
+  //    surnames, avoided elements and (legalMode 'exclude') hanja that
+  //    cannot be registered in a name, and (screenMode 'exclude') hanja
+  //    with a negative meaning.
   // 4. Sort each group so target-element characters come first.
   // -------------------------------------------------------------------------
 
@@ -1109,6 +1981,9 @@ export class SpringEngine {
     nameLength: number,
     targetElements: Set<string>,
     avoidElements: Set<string>,
+    legalMode: LegalNameHanjaMode,
+    screenMode: NameScreeningMode,
+    strokeSystem: StrokeSystem,
   ): Promise<Map<number, HanjaEntry[]>> {
     const surnameStrokes = surnameEntries.map(entry => entry.strokes);
     const validCombinations = this.optimizer!.getValidCombinations(surnameStrokes, nameLength);
@@ -1125,13 +2000,17 @@ export class SpringEngine {
     const allHanja = await this.hanjaRepo.findByStrokeRange(
       Math.min(...neededStrokes),
       Math.max(...neededStrokes),
+      strokeSystem,
     );
 
-    // Group into pools, filtering out surnames and avoided elements
+    // Group into pools, filtering out surnames, avoided elements and unregistrable hanja
     const pools = new Map<number, HanjaEntry[]>();
 
-    for (const hanjaEntry of allHanja) {
+    for (const rawEntry of allHanja) {
+      const hanjaEntry = withStrokeSystem(rawEntry, strokeSystem);
       if (hanjaEntry.is_surname) continue;
+      if (legalMode === 'exclude' && hanjaEntry.is_legal_name === false) continue;
+      if (screenMode === 'exclude' && findNegativeMeaning(hanjaEntry)) continue;
       if (!neededStrokes.has(hanjaEntry.strokes)) continue;
       if (avoidElements.has(hanjaEntry.resource_element)) continue;
 
@@ -1158,21 +2037,29 @@ export class SpringEngine {
   // Pool builder: jamo-based (or 3+ character names)
   //
   // Each position is resolved independently:
+  //   - The 돌림자 position always holds the 돌림자.
   //   - If the user pinned a specific hanja or hangul, use that directly.
   //   - Otherwise, filter the full hanja set by jamo onset/nucleus and
-  //     sort by target-element affinity.
+  //     sort by target-element affinity. With a 돌림자, unfiltered
+  //     positions get a wider pool since only they vary.
   // -------------------------------------------------------------------------
 
   private async buildJamoBasedPools(
     request: SpringRequest,
     nameLength: number,
     jamoFilters: (JamoFilter | null)[] | undefined,
+    dollimja: DollimjaInput | null,
     targetElements: Set<string>,
     avoidElements: Set<string>,
+    legalMode: LegalNameHanjaMode,
+    screenMode: NameScreeningMode,
+    strokeSystem: StrokeSystem,
   ): Promise<Map<number, HanjaEntry[]>> {
-    // Pre-load the full hanja pool (excluding surnames and avoided elements)
-    const fullPool = (await this.hanjaRepo.findByStrokeRange(STROKE_MIN, STROKE_MAX))
-      .filter(entry => !entry.is_surname && !avoidElements.has(entry.resource_element));
+    // Pre-load the full hanja pool (excluding surnames, avoided elements, unregistrable and negative-meaning hanja)
+    const fullPool = (await this.hanjaRepo.findByStrokeRange(STROKE_MIN, STROKE_MAX, strokeSystem))
+      .filter(entry => !entry.is_surname && !avoidElements.has(entry.resource_element))
+      .filter(entry => legalMode !== 'exclude' || entry.is_legal_name !== false)
+      .filter(entry => screenMode !== 'exclude' || !findNegativeMeaning(entry));
 
     const pools = new Map<number, HanjaEntry[]>();
 
@@ -1180,6 +2067,11 @@ export class SpringEngine {
       const jamoFilter    = jamoFilters?.[position];
       const givenNameChar = request.givenName?.[position];
 
+      if (dollimja?.position === position) {
+        pools.set(position, await this.resolveFixedCharPool(dollimja));
+        continue;
+      }
+
       // Case A: no jamo filter at this position and user supplied a character
       if (jamoFilter === null && givenNameChar) {
         pools.set(position, await this.resolveFixedCharPool(givenNameChar));
@@ -1196,7 +2088,8 @@ export class SpringEngine {
         - (targetElements.has(a.resource_element) ? 1 : 0),
       );
 
-      pools.set(position, filtered.slice(0, POOL_LIMIT_JAMO_FILTERED));
+      const limit = dollimja && !jamoFilter ? POOL_LIMIT_DOLLIMJA_FREE : POOL_LIMIT_JAMO_FILTERED;
+      pools.set(position, filtered.slice(0, limit));
     }
 
     return pools;
@@ -1227,8 +2120,9 @@ export class SpringEngine {
   ): Promise<HanjaEntry[]> {
     const forceHangulOnly = options.forceHangulOnly ?? false;
     const isSurname = options.isSurname ?? false;
+    const strokeSystem = options.strokeSystem ?? DEFAULT_STROKE_SYSTEM;
 
-    return Promise.all(chars.map(async (char) => {
+    const entries = await Promise.all(chars.map(async (char) => {
       const hasHanjaField = Object.prototype.hasOwnProperty.call(char, 'hanja');
       const normalizedHanja = String(char.hanja ?? '').trim();
 
@@ -1240,8 +2134,15 @@ export class SpringEngine {
       }
 
       if (normalizedHanja.length > 0) {
-        const entry = await this.hanjaRepo.findByHanja(normalizedHanja);
-        if (entry) return entry;
+        if (isSurname) {
+          // Surnames are registered under either 두음 reading (李 리/이, 柳 류/유): keep the one entered
+          const rows = await this.hanjaRepo.findAllByHanja(normalizedHanja);
+          const entry = rows.find(row => row.hangul === char.hangul) ?? rows[0];
+          if (entry) return entry;
+        } else {
+          const entry = await this.hanjaRepo.findByHanja(normalizedHanja);
+          if (entry) return this.withLegalNameStatus(entry, char.hangul);
+        }
       }
       const byHangul = await this.hanjaRepo.findByHangul(char.hangul);
       return byHangul[0] ?? makeFallbackEntry(char.hangul, {
@@ -1249,6 +2150,23 @@ export class SpringEngine {
         isSurname,
       });
     }));
+    return entries.map(entry => withStrokeSystem(entry, strokeSystem));
+  }
+
+  /**
+   * Re-check 인명용 한자 status for the reading the user actually entered:
+   * findByHanja returns the first row (e.g. 樂/락) while the user may have typed 요.
+   */
+  private async withLegalNameStatus(entry: HanjaEntry, hangul: string): Promise<HanjaEntry> {
+    const rows = await this.hanjaRepo.findAllByHanja(entry.hanja);
+    const status = legalNameHanjaStatus(rows, hangul);
+    if (status === 'unknown') return entry;
+
+    return {
+      ...entry,
+      is_legal_name: status === 'allowed',
+      legal_readings: [...new Set(rows.flatMap(row => row.legal_readings ?? []))],
+    };
   }
 
   // -------------------------------------------------------------------------
@@ -1294,8 +2212,11 @@ export class SpringEngine {
       ? new Date()
       : parsedTargetDate;
 
-    // 4. Build the fortune report
-    return buildFortuneReport(saju, targetDate, springReport);
+    // 4. Period pillars (세운/월운/일진) with the natal chart's 절기 and day-boundary policy
+    const periodPillars = await calculateFortunePeriodPillars(request.birth, targetDate, request.options, saju);
+
+    // 5. Build the fortune report
+    return buildFortuneReport(saju, targetDate, springReport, periodPillars);
   }
 
   // -------------------------------------------------------------------------
@@ -1303,6 +2224,8 @@ export class SpringEngine {
   // -------------------------------------------------------------------------
 
   close() {
+    for (const walk of this.parkedStreams.values()) void walk.inputs.return?.();
+    this.parkedStreams.clear();
     this.hanjaRepo.close();
     this.fourFrameRepo.close();
     this.nameStatRepo.close();
@@ -1,33 +1,25 @@
 import {
   type EvalContext, type FrameInsight, type EvaluationResult,
-  type EvaluableCalculator, type CalculatorSignal,
+  type EvaluableCalculator, type CalculatorSignal, scoringProfileOf,
 } from './core/evaluator.js';
 import { clamp } from './core/scoring.js';
+import type { EvaluatorPolicy } from './core/scoring-profile.js';
 import evaluatorPolicy from '../config/evaluator-policy.json';
 
 // ---------------------------------------------------------------------------
-//  Configuration (loaded from config/evaluator-policy.json)
+//  Configuration
 //
-//  Every numeric threshold, weight, and frame list lives in the config file.
-//  Nothing in this module should contain a "magic number".
+//  Every numeric threshold, weight, and frame list comes from the evaluation's
+//  scoring profile (ScoringProfile.evaluator; the default is
+//  config/evaluator-policy.json). Nothing in this module should contain a
+//  "magic number".
 // ---------------------------------------------------------------------------
 
-const {
-  sajuPriority: SAJU_PRIORITY_CONFIG,
-  weightMultipliers: WEIGHT_MULTIPLIER_CONFIG,
-  adaptiveMode: ADAPTIVE_CONFIG,
-  strictMode: STRICT_CONFIG,
-  nameFrames: NAME_FRAMES,
-  sajuFrameId: SAJU_FRAME_ID,
-} = evaluatorPolicy;
-
 // ---------------------------------------------------------------------------
 //  Public constants (unchanged API)
 // ---------------------------------------------------------------------------
 
-export const SAJU_FRAME = SAJU_FRAME_ID;
-
-const RELAXABLE_FRAMES = new Set<string>(NAME_FRAMES);
+export const SAJU_FRAME = evaluatorPolicy.sajuFrameId;
 
 // ---------------------------------------------------------------------------
 //  Internal type for a signal enriched with adaptive-weight data
@@ -38,6 +30,34 @@ interface WeightedSignal extends CalculatorSignal {
   adjustedWeighted: number;
 }
 
+// ---------------------------------------------------------------------------
+//  Shape of the TOTAL insight's details (read by spring-explanation.ts)
+// ---------------------------------------------------------------------------
+
+export interface SpringFrameContribution {
+  readonly rawScore: number;
+  readonly weight: number;
+  readonly weightMultiplier: number;
+  readonly adjustedWeight: number;
+  readonly weighted: number;
+  readonly isPassed: boolean;
+}
+
+export interface SpringPolicyDecision {
+  readonly mode: 'adaptive' | 'strict';
+  readonly sajuPriority: number;
+  readonly allowedFailures: number;
+  readonly threshold: number;
+  readonly relaxableFailures: string[];
+}
+
+export interface SpringTotalDetails {
+  readonly contributions: Record<string, SpringFrameContribution>;
+  readonly failedFrames: string[];
+  readonly mutedFrames: string[];
+  readonly adaptivePolicy: SpringPolicyDecision;
+}
+
 // =========================================================================
 //  Helper: look up a frame insight, returning a safe placeholder if missing
 // =========================================================================
@@ -57,19 +77,23 @@ function getInsight(ctx: EvalContext, frame: string): FrameInsight {
 //
 //  Run every calculator's two-phase pipeline (visit then backward) and
 //  gather the resulting signals. Signals with zero weight are discarded
-//  because they do not contribute to the final score.
+//  because they do not contribute to the final score; their frames are
+//  "muted" by the scoring profile and are left out of the pass/fail policy
+//  as well.
 // =========================================================================
 
 function collectCalculatorSignals(
   calculators: EvaluableCalculator[],
   ctx: EvalContext,
-): CalculatorSignal[] {
-  return calculators
-    .flatMap(calculator => {
-      calculator.visit(ctx);
-      return calculator.backward(ctx).signals;
-    })
-    .filter(signal => signal.weight > 0);
+): { signals: CalculatorSignal[]; mutedFrames: Set<string> } {
+  const allSignals = calculators.flatMap(calculator => {
+    calculator.visit(ctx);
+    return calculator.backward(ctx).signals;
+  });
+  return {
+    signals: allSignals.filter(signal => signal.weight > 0),
+    mutedFrames: new Set(allSignals.filter(signal => signal.weight <= 0).map(signal => signal.frame)),
+  };
 }
 
 // =========================================================================
@@ -85,13 +109,17 @@ function collectCalculatorSignals(
 //    2. Compute a "signal strength" from balance + yongshin, scaled by
 //       how confident the analysis engine was
 //    3. Subtract a penalty factor so that noisy saju data gets demoted
+//
+//  A muted saju frame has no priority: it cannot drive the adaptive policy.
 // =========================================================================
 
-function extractSajuPriority(ctx: EvalContext): number {
+function extractSajuPriority(ctx: EvalContext, mutedFrames: ReadonlySet<string>): number {
+  const policy = scoringProfileOf(ctx).evaluator;
+
   // -- Step 1: Retrieve the raw scoring data from the saju insight ----------
 
   const sajuInsight = ctx.insights[SAJU_FRAME];
-  if (!sajuInsight) return 0;
+  if (!sajuInsight || mutedFrames.has(SAJU_FRAME)) return 0;
 
   const details    = sajuInsight.details as Record<string, any>;
   const scoringData = details?.scoring as Record<string, any> | undefined;
@@ -113,17 +141,17 @@ function extractSajuPriority(ctx: EvalContext): number {
   const confidence = clamp(
     typeof rawConfidence === 'number'
       ? rawConfidence
-      : SAJU_PRIORITY_CONFIG.defaultConfidence,
+      : policy.sajuPriority.defaultConfidence,
     0,
     1,
   );
 
   const confidenceMultiplier =
-    SAJU_PRIORITY_CONFIG.confidenceBaseRatio
-    + confidence * SAJU_PRIORITY_CONFIG.confidenceVariableRatio;
+    policy.sajuPriority.confidenceBaseRatio
+    + confidence * policy.sajuPriority.confidenceVariableRatio;
 
   const signalStrength =
-    ((balanceScore + yongshinValue) / SAJU_PRIORITY_CONFIG.balanceWeight)
+    ((balanceScore + yongshinValue) / policy.sajuPriority.balanceWeight)
     * confidenceMultiplier;
 
   // -- Step 3: Subtract a penalty factor ------------------------------------
@@ -131,8 +159,8 @@ function extractSajuPriority(ctx: EvalContext): number {
   //  Penalties reduce the signal. The penalty fraction is capped at 1 so
   //  that extremely large penalty totals do not produce negative values.
 
-  const penaltyFraction = Math.min(1, penaltyTotal / SAJU_PRIORITY_CONFIG.penaltyDivisor);
-  const penaltyDeduction = penaltyFraction * SAJU_PRIORITY_CONFIG.maxPenaltyImpact;
+  const penaltyFraction = Math.min(1, penaltyTotal / policy.sajuPriority.penaltyDivisor);
+  const penaltyDeduction = penaltyFraction * policy.sajuPriority.maxPenaltyImpact;
 
   return clamp(signalStrength - penaltyDeduction, 0, 1);
 }
@@ -148,14 +176,18 @@ function extractSajuPriority(ctx: EvalContext): number {
 //  The final score is the weighted average of all adjusted signals.
 // =========================================================================
 
-function computeFrameWeightMultiplier(frame: string, sajuPriorityLevel: number): number {
+function computeFrameWeightMultiplier(
+  frame: string,
+  sajuPriorityLevel: number,
+  policy: EvaluatorPolicy,
+): number {
   if (frame === SAJU_FRAME) {
-    return WEIGHT_MULTIPLIER_CONFIG.sajuBoostBase
-         + sajuPriorityLevel * WEIGHT_MULTIPLIER_CONFIG.sajuBoostFactor;
+    return policy.weightMultipliers.sajuBoostBase
+         + sajuPriorityLevel * policy.weightMultipliers.sajuBoostFactor;
   }
-  if (RELAXABLE_FRAMES.has(frame)) {
-    return WEIGHT_MULTIPLIER_CONFIG.relaxReductionBase
-         - sajuPriorityLevel * WEIGHT_MULTIPLIER_CONFIG.relaxReductionFactor;
+  if (policy.nameFrames.includes(frame)) {
+    return policy.weightMultipliers.relaxReductionBase
+         - sajuPriorityLevel * policy.weightMultipliers.relaxReductionFactor;
   }
   return 1;
 }
@@ -163,10 +195,11 @@ function computeFrameWeightMultiplier(frame: string, sajuPriorityLevel: number):
 function computeAdaptiveWeightedScore(
   signals: CalculatorSignal[],
   sajuPriorityLevel: number,
+  policy: EvaluatorPolicy,
 ): { weightedSignals: WeightedSignal[]; score: number } {
 
   const weightedSignals: WeightedSignal[] = signals.map(signal => {
-    const adjustedWeight = signal.weight * computeFrameWeightMultiplier(signal.frame, sajuPriorityLevel);
+    const adjustedWeight = signal.weight * computeFrameWeightMultiplier(signal.frame, sajuPriorityLevel, policy);
     return {
       ...signal,
       adjustedWeight,
@@ -192,7 +225,7 @@ function computeAdaptiveWeightedScore(
 //
 //  STRICT MODE (default):
 //    Every single frame must pass AND the score must meet the minimum.
-//    No exceptions.
+//    No exceptions (frames muted by the scoring profile are not checked).
 //
 //  ADAPTIVE MODE (activated when saju data is strong):
 //    The evaluator relaxes name-based frame requirements because we trust
@@ -212,13 +245,15 @@ function determinePassStatus(
   ctx: EvalContext,
   sajuPriorityLevel: number,
   score: number,
+  mutedFrames: ReadonlySet<string>,
 ): boolean {
-  const useAdaptivePolicy = sajuPriorityLevel >= ADAPTIVE_CONFIG.activationThreshold;
+  const policy = scoringProfileOf(ctx).evaluator;
+  const useAdaptivePolicy = sajuPriorityLevel >= policy.adaptiveMode.activationThreshold;
 
   if (useAdaptivePolicy) {
     return evaluateAdaptivePolicy(weightedSignals, ctx, sajuPriorityLevel, score);
   }
-  return evaluateStrictPolicy(ctx, score);
+  return evaluateStrictPolicy(ctx, score, mutedFrames);
 }
 
 // -- Adaptive policy (saju-informed relaxed evaluation) --------------------
@@ -229,35 +264,37 @@ function evaluateAdaptivePolicy(
   sajuPriorityLevel: number,
   score: number,
 ): boolean {
+  const policy = scoringProfileOf(ctx).evaluator;
+
   // Condition 1: The saju frame itself must have passed.
   const sajuFrameInsight     = getInsight(ctx, SAJU_FRAME);
   const sajuFramePassed      = sajuFrameInsight.isPassed;
 
   // Condition 2: Four-frame luck must reach a minimum quality bar.
   const fourframeLuckInsight  = getInsight(ctx, 'FOURFRAME_LUCK');
-  const fourframeLuckSufficient = fourframeLuckInsight.score >= ADAPTIVE_CONFIG.minFourframeLuckScore;
+  const fourframeLuckSufficient = fourframeLuckInsight.score >= policy.adaptiveMode.minFourframeLuckScore;
 
   // Condition 3: The adaptive threshold is lower than the strict one,
   //   scaled down proportionally to how strong the saju signal is.
-  const adaptiveThreshold     = ADAPTIVE_CONFIG.basePassingScore
-                              - ADAPTIVE_CONFIG.scoreReductionFactor * sajuPriorityLevel;
+  const adaptiveThreshold     = policy.adaptiveMode.basePassingScore
+                              - policy.adaptiveMode.scoreReductionFactor * sajuPriorityLevel;
   const scoreAboveThreshold   = score >= adaptiveThreshold;
 
   // Condition 4: No relaxable frame may have failed so badly that its
   //   score falls below the minimum acceptable floor.
   const relaxableFailures     = weightedSignals.filter(
-    signal => RELAXABLE_FRAMES.has(signal.frame) && !signal.isPassed,
+    signal => policy.nameFrames.includes(signal.frame) && !signal.isPassed,
   );
   const noSevereFrameFailures = !relaxableFailures.some(
-    signal => signal.score < ADAPTIVE_CONFIG.minRelaxableFrameScore,
+    signal => signal.score < policy.adaptiveMode.minRelaxableFrameScore,
   );
 
   // Condition 5: The total number of relaxable-frame failures must stay
   //   within the allowed limit. A very high saju priority permits more.
-  const isHighPriority        = sajuPriorityLevel >= ADAPTIVE_CONFIG.highPriorityThreshold;
+  const isHighPriority        = sajuPriorityLevel >= policy.adaptiveMode.highPriorityThreshold;
   const allowedFailures       = isHighPriority
-    ? ADAPTIVE_CONFIG.highPriorityAllowedFailures
-    : ADAPTIVE_CONFIG.lowPriorityAllowedFailures;
+    ? policy.adaptiveMode.highPriorityAllowedFailures
+    : policy.adaptiveMode.lowPriorityAllowedFailures;
   const failureCountAcceptable = relaxableFailures.length <= allowedFailures;
 
   return sajuFramePassed
@@ -269,10 +306,11 @@ function evaluateAdaptivePolicy(
 
 // -- Strict policy (all frames must independently pass) --------------------
 
-function evaluateStrictPolicy(ctx: EvalContext, score: number): boolean {
-  const allFrames = [...NAME_FRAMES, SAJU_FRAME];
+function evaluateStrictPolicy(ctx: EvalContext, score: number, mutedFrames: ReadonlySet<string>): boolean {
+  const policy = scoringProfileOf(ctx).evaluator;
+  const allFrames = [...policy.nameFrames, SAJU_FRAME].filter(frame => !mutedFrames.has(frame));
   const everyFramePassed = allFrames.every(frame => getInsight(ctx, frame).isPassed);
-  return everyFramePassed && score >= STRICT_CONFIG.passingScore;
+  return everyFramePassed && score >= policy.strictMode.passingScore;
 }
 
 // =========================================================================
@@ -288,28 +326,31 @@ function buildEvaluationResult(
   score: number,
   isPassed: boolean,
   sajuPriorityLevel: number,
+  mutedFrames: ReadonlySet<string>,
 ): EvaluationResult {
 
   // -- Compute diagnostic metadata for the TOTAL insight --------------------
 
-  const useAdaptivePolicy = sajuPriorityLevel >= ADAPTIVE_CONFIG.activationThreshold;
-  const isHighPriority    = sajuPriorityLevel >= ADAPTIVE_CONFIG.highPriorityThreshold;
+  const policy = scoringProfileOf(ctx).evaluator;
+
+  const useAdaptivePolicy = sajuPriorityLevel >= policy.adaptiveMode.activationThreshold;
+  const isHighPriority    = sajuPriorityLevel >= policy.adaptiveMode.highPriorityThreshold;
 
   const allowedFailures = useAdaptivePolicy
     ? (isHighPriority
-        ? ADAPTIVE_CONFIG.highPriorityAllowedFailures
-        : ADAPTIVE_CONFIG.lowPriorityAllowedFailures)
+        ? policy.adaptiveMode.highPriorityAllowedFailures
+        : policy.adaptiveMode.lowPriorityAllowedFailures)
     : 0;
 
   const threshold = useAdaptivePolicy
-    ? ADAPTIVE_CONFIG.basePassingScore - ADAPTIVE_CONFIG.scoreReductionFactor * sajuPriorityLevel
-    : STRICT_CONFIG.passingScore;
+    ? policy.adaptiveMode.basePassingScore - policy.adaptiveMode.scoreReductionFactor * sajuPriorityLevel
+    : policy.strictMode.passingScore;
 
   const relaxableFailures = weightedSignals.filter(
-    signal => RELAXABLE_FRAMES.has(signal.frame) && !signal.isPassed,
+    signal => policy.nameFrames.includes(signal.frame) && !signal.isPassed,
   );
 
-  const contributions = Object.fromEntries(
+  const contributions: Record<string, SpringFrameContribution> = Object.fromEntries(
     weightedSignals.map(signal => [
       signal.frame,
       {
@@ -329,22 +370,25 @@ function buildEvaluationResult(
 
   // -- Store the TOTAL insight into the context -----------------------------
 
+  const details: SpringTotalDetails = {
+    contributions,
+    failedFrames,
+    mutedFrames: [...mutedFrames],
+    adaptivePolicy: {
+      mode: useAdaptivePolicy ? 'adaptive' : 'strict',
+      sajuPriority: sajuPriorityLevel,
+      allowedFailures,
+      threshold,
+      relaxableFailures: relaxableFailures.map(signal => signal.frame),
+    },
+  };
+
   (ctx.insights as Record<string, FrameInsight>)['TOTAL'] = {
     frame: 'TOTAL',
     score,
     isPassed,
     label: 'ROOT',
-    details: {
-      contributions,
-      failedFrames,
-      adaptivePolicy: {
-        mode: useAdaptivePolicy ? 'adaptive' : 'strict',
-        sajuPriority: sajuPriorityLevel,
-        allowedFailures,
-        threshold,
-        relaxableFailures: relaxableFailures.map(signal => signal.frame),
-      },
-    },
+    details: { ...details },
   };
 
   // -- Build the category map and return ------------------------------------
@@ -383,17 +427,19 @@ export function springEvaluateName(
 ): EvaluationResult {
 
   // Stage 1: Run calculators and gather their signals.
-  const signals = collectCalculatorSignals(calculators, ctx);
+  const { signals, mutedFrames } = collectCalculatorSignals(calculators, ctx);
 
   // Stage 2: Determine how strongly saju data should influence the result,
   //          then compute an adjusted weighted-average score.
-  const sajuPriorityLevel = extractSajuPriority(ctx);
-  const { weightedSignals, score } = computeAdaptiveWeightedScore(signals, sajuPriorityLevel);
+  const sajuPriorityLevel = extractSajuPriority(ctx, mutedFrames);
+  const { weightedSignals, score } = computeAdaptiveWeightedScore(
+    signals, sajuPriorityLevel, scoringProfileOf(ctx).evaluator,
+  );
 
   // Stage 3: Apply the pass/fail policy (adaptive if saju is strong,
   //          strict otherwise).
-  const isPassed = determinePassStatus(weightedSignals, ctx, sajuPriorityLevel, score);
+  const isPassed = determinePassStatus(weightedSignals, ctx, sajuPriorityLevel, score, mutedFrames);
 
   // Stage 4: Assemble and return the evaluation result.
-  return buildEvaluationResult(weightedSignals, ctx, score, isPassed, sajuPriorityLevel);
+  return buildEvaluationResult(weightedSignals, ctx, score, isPassed, sajuPriorityLevel, mutedFrames);
 }
@@ -0,0 +1,214 @@
+import type { EvaluationResult, FrameInsight } from './core/evaluator.js';
+import { FRAME_LABELS } from './core/name-utils.js';
+import type { ScoringProfile } from './core/scoring-profile.js';
+import type { PhoneticFlowIssue, PhoneticFlowIssueCode } from './core/model-types.js';
+import type { SajuNameScoreResult } from './saju-calculator.js';
+import { SAJU_FRAME, type SpringTotalDetails } from './spring-evaluator.js';
+import { FAMILY_FRAME } from './calculator/family-calculator.js';
+import { PHONETIC_FRAME } from './calculator/phonetic-calculator.js';
+import type {
+  CandidateComparison, FrameComparison, FrameComparisonSide, FrameVerdict,
+  ScoreExplanation, ScoreExplanationComponent, ScoreExplanationFrame,
+  SpringCandidate, SpringCandidateSummary, SpringReport,
+} from './types.js';
+
+// ---------------------------------------------------------------------------
+// Score explanations
+//
+// springEvaluateName leaves its decision in the TOTAL insight (contributions,
+// adaptive/strict policy, saju priority); every other insight carries the
+// calculator's own details. This module turns both into a ScoreExplanation and
+// diffs two explanations for compareCandidates().
+// ---------------------------------------------------------------------------
+
+const RULE_FAILURE_REASONS: Readonly<Record<string, string>> = {
+  HANGUL_ELEMENT: '상극 배열, 한 오행 쏠림 또는 인접 점수 부족',
+  FOURFRAME_ELEMENT: '상극 배열, 한 오행 쏠림 또는 인접 점수 부족',
+  HANGUL_POLARITY: '음양 배열 기준 미충족',
+  STROKE_POLARITY: '음양 배열 기준 미충족',
+  FOURFRAME_LUCK: '흉수에 해당하는 격이 있음',
+  [SAJU_FRAME]: '오행 균형 · 용신 점수 또는 구신 비율 기준 미충족',
+};
+
+const PHONETIC_ISSUE_LABELS: Readonly<Record<PhoneticFlowIssueCode, string>> = {
+  CODA_LIAISON: '연음',
+  ASSIMILATION: '자음 동화',
+  HARD_CLUSTER: '된소리 · 거센소리',
+  REPEATED_ONSET: '같은 초성 반복',
+};
+
+function round(value: number, digits = 1): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+function frameLabel(frame: string): string {
+  return FRAME_LABELS[frame] ?? frame;
+}
+
+/** The profile's passing score for a frame, or null when passing is decided by rules alone. */
+function minPassingScore(frame: string, profile: ScoringProfile): number | null {
+  switch (frame) {
+    case 'HANGUL_ELEMENT': return profile.frames.hangulElement.minPassingScore;
+    case 'FOURFRAME_ELEMENT': return profile.frames.fourframeElement.minPassingScore;
+    case PHONETIC_FRAME: return profile.frames.phoneticFlow.minPassingScore;
+    case FAMILY_FRAME: return profile.frames.familyElement.minPassingScore;
+    case SAJU_FRAME: return profile.saju.passing.minScore;
+    default: return null;
+  }
+}
+
+function judgeFrame(
+  insight: FrameInsight,
+  total: SpringTotalDetails,
+  totalPassed: boolean,
+  profile: ScoringProfile,
+): { verdict: FrameVerdict; reason: string } {
+  if (insight.label.startsWith('DISABLED')) {
+    return { verdict: 'DISABLED', reason: '평가하지 않음 (100점으로 계산)' };
+  }
+  if (insight.isPassed) return { verdict: 'PASSED', reason: '기준 통과' };
+
+  if (totalPassed && total.adaptivePolicy.relaxableFailures.includes(insight.frame)) {
+    return { verdict: 'RELAXED', reason: '기준 미달이지만 사주가 분명해 적응형 정책이 허용' };
+  }
+  const minScore = minPassingScore(insight.frame, profile);
+  if (minScore !== null && insight.score < minScore) {
+    return { verdict: 'BELOW_MIN_SCORE', reason: `합격 점수 ${minScore}점 미만` };
+  }
+  return { verdict: 'RULE_FAILED', reason: RULE_FAILURE_REASONS[insight.frame] ?? '점수 외 조건 미충족' };
+}
+
+/** Sub-scores a calculator left in its insight details. */
+function frameComponents(insight: FrameInsight): ScoreExplanationComponent[] {
+  const details = insight.details as Record<string, any>;
+
+  if (insight.frame === SAJU_FRAME && details.scoring) {
+    const scoring = details.scoring as SajuNameScoreResult['breakdown'];
+    return [
+      { key: 'balance', label: '오행 균형', score: round(scoring.balance), weight: round(scoring.weights.balance, 3) },
+      { key: 'yongshin', label: '용신 부합', score: round(scoring.yongshin), weight: round(scoring.weights.yongshin, 3) },
+      { key: 'strength', label: '신강 · 신약 보완', score: round(scoring.strength), weight: round(scoring.weights.strength, 3) },
+      { key: 'tenGod', label: '십성 보완', score: round(scoring.tenGod), weight: round(scoring.weights.tenGod, 3) },
+      { key: 'deficiencyBonus', label: '부족 오행 가산', score: round(scoring.deficiencyBonus) },
+      { key: 'penalties', label: '기신 · 구신 · 격국 감점', score: -round(scoring.penalties.total) },
+    ];
+  }
+  if (insight.frame === PHONETIC_FRAME && Array.isArray(details.issues)) {
+    return (details.issues as PhoneticFlowIssue[]).map(issue => ({
+      key: issue.code,
+      label: `${PHONETIC_ISSUE_LABELS[issue.code]} (${issue.written} → [${issue.spoken}])`,
+      score: -issue.penalty,
+    }));
+  }
+  if (typeof details.adjacencyScore === 'number' && typeof details.balanceScore === 'number') {
+    return [
+      { key: 'adjacency', label: '인접 상생', score: round(details.adjacencyScore), weight: 0.5 },
+      { key: 'balance', label: '오행 균형', score: round(details.balanceScore), weight: 0.5 },
+    ];
+  }
+  return [];
+}
+
+/** Builds the explanation of a springEvaluateName() result. */
+export function explainEvaluation(result: EvaluationResult, profile: ScoringProfile): ScoreExplanation {
+  const total = result.categoryMap.TOTAL.details as unknown as SpringTotalDetails;
+  const totalWeight = Object.values(total.contributions)
+    .reduce((sum, contribution) => sum + contribution.adjustedWeight, 0);
+
+  const frames: ScoreExplanationFrame[] = result.categories.map(insight => {
+    const contribution = total.contributions[insight.frame];
+    return {
+      frame: insight.frame,
+      label: frameLabel(insight.frame),
+      rawScore: round(contribution.rawScore),
+      weight: contribution.weight,
+      weightMultiplier: round(contribution.weightMultiplier, 3),
+      adjustedWeight: round(contribution.adjustedWeight, 3),
+      contribution: totalWeight > 0 ? round(contribution.weighted / totalWeight) : 0,
+      isPassed: contribution.isPassed,
+      ...judgeFrame(insight, total, result.isPassed, profile),
+      relaxable: profile.evaluator.nameFrames.includes(insight.frame),
+      components: frameComponents(insight),
+    };
+  });
+  frames.sort((a, b) => b.contribution - a.contribution);
+
+  return {
+    total: round(result.score),
+    isPassed: result.isPassed,
+    policy: total.adaptivePolicy.mode,
+    sajuPriority: round(total.adaptivePolicy.sajuPriority, 3),
+    threshold: round(total.adaptivePolicy.threshold),
+    allowedFailures: total.adaptivePolicy.allowedFailures,
+    failedFrames: total.failedFrames,
+    mutedFrames: total.mutedFrames,
+    scoringProfile: { id: profile.id, digest: profile.digest },
+    frames,
+  };
+}
+
+/** Anything the engine returns with an explanation. */
+export type ExplainedCandidate = SpringCandidateSummary | SpringCandidate | SpringReport;
+
+function candidateName(candidate: ExplainedCandidate): string {
+  if ('fullHangul' in candidate) return candidate.fullHangul;
+  if ('name' in candidate) return candidate.name.fullHangul;
+  return candidate.namingReport.name.fullHangul;
+}
+
+function comparisonSide(frame: ScoreExplanationFrame | undefined): FrameComparisonSide | null {
+  return frame ? { rawScore: frame.rawScore, contribution: frame.contribution, verdict: frame.verdict } : null;
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+/**
+ * Diffs two candidates frame by frame: which frames put `a` above (or below) `b`.
+ * Both must come from the same scoring profile.
+ */
+export function compareCandidates(a: ExplainedCandidate, b: ExplainedCandidate): CandidateComparison {
+  const left = a.explanation;
+  const right = b.explanation;
+  if (left.scoringProfile.digest !== right.scoringProfile.digest) {
+    throw new Error('Cannot compare candidates scored with different scoring profiles.');
+  }
+
+  const nameA = candidateName(a);
+  const nameB = candidateName(b);
+  const leftFrames = new Map(left.frames.map(frame => [frame.frame, frame]));
+  const rightFrames = new Map(right.frames.map(frame => [frame.frame, frame]));
+  const frameIds = [...new Set([...leftFrames.keys(), ...rightFrames.keys()])];
+
+  const frames: FrameComparison[] = frameIds.map(frame => {
+    const sideA = comparisonSide(leftFrames.get(frame));
+    const sideB = comparisonSide(rightFrames.get(frame));
+    return {
+      frame,
+      label: frameLabel(frame),
+      a: sideA,
+      b: sideB,
+      rawScoreDelta: round((sideA?.rawScore ?? 0) - (sideB?.rawScore ?? 0)),
+      contributionDelta: round((sideA?.contribution ?? 0) - (sideB?.contribution ?? 0)),
+    };
+  });
+  frames.sort((x, y) => Math.abs(y.contributionDelta) - Math.abs(x.contributionDelta));
+
+  const totalDelta = round(left.total - right.total);
+  const sentences = [`${nameA} ${left.total}점, ${nameB} ${right.total}점 (차이 ${signed(totalDelta)}점).`];
+  const drivers = frames.filter(frame => Math.abs(frame.contributionDelta) >= 0.1).slice(0, 3);
+  if (drivers.length > 0) {
+    sentences.push(`차이가 큰 항목: ${drivers.map(frame => `${frame.label} ${signed(frame.contributionDelta)}`).join(', ')}.`);
+  }
+  if (left.policy !== right.policy) {
+    const policyName = (policy: ScoreExplanation['policy']) => (policy === 'adaptive' ? '적응형' : '엄격');
+    sentences.push(`평가 정책: ${nameA} ${policyName(left.policy)}, ${nameB} ${policyName(right.policy)}.`);
+  }
+  if (left.isPassed !== right.isPassed) {
+    sentences.push(`${left.isPassed ? nameA : nameB}만 합격 기준을 충족합니다.`);
+  }
+
+  return { a: nameA, b: nameB, totalDelta, frames, summary: sentences.join(' ') };
+}
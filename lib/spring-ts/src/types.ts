@@ -1,6 +1,9 @@
-import type { HangulAnalysis, HanjaAnalysis, FourFrameAnalysis } from './core/model-types.js';
+import type { HangulAnalysis, HanjaAnalysis, FourFrameAnalysis, PhoneticAnalysis } from './core/model-types.js';
 import type { FourframeMeaningEntry } from '../../seed-ts/src/database/fourframe-repository.js';
+import type { StrokeSystem } from '../../seed-ts/src/utils/stroke-system.js';
 import type { ElementKey } from './core/scoring.js';
+import type { ScoringProfileSource } from './core/scoring-profile.js';
+import type { NameTrendSummary, PopularityPreference } from './core/name-trend.js';
 
 // ─────────────────────────────────────────────────────────────────────────────
 //  1. INPUT TYPES
@@ -52,6 +55,65 @@ export interface SpringOptions {
   readonly sajuOptions?: SajuRequestOptions;
   readonly pureHangulNameMode?: 'auto' | 'on' | 'off';
   readonly useSurnameHanjaInPureHangul?: boolean;
+  /**
+   * What to do when the birth hour is missing.
+   * 'allBranches' (default) evaluates all 12 hour branches; 'noon' assumes 12:00 as before.
+   */
+  readonly unknownHourMode?: 'allBranches' | 'noon';
+  /**
+   * 인명용 한자 handling in name generation.
+   * 'exclude' (default) drops characters that cannot be registered, 'flag' keeps them
+   * and lets NamingReport.warnings say so, 'off' ignores the list.
+   */
+  readonly legalNameHanja?: 'exclude' | 'flag' | 'off';
+  /**
+   * Negative-meaning / teasing-risk screening (config/name-screening.json).
+   * 'exclude' (default) drops flagged candidates, 'flag' keeps them with
+   * SpringCandidateSummary.screeningWarnings, 'off' skips the check.
+   * Names the caller supplies are never dropped, only warned about.
+   */
+  readonly nameScreening?: 'exclude' | 'flag' | 'off';
+  /**
+   * Stroke-count system for four-frame sums, stroke polarity and stroke-based generation.
+   * 'wonhoek' (default, 원획법) counts radicals in their original form (氵 = 4);
+   * 'pilhoek' (필획법) counts what is written (氵 = 3).
+   */
+  readonly strokeSystem?: StrokeSystem;
+  /** Existing siblings and the 돌림자 the new name should share with them. */
+  readonly family?: FamilyOptions;
+  /**
+   * Weights and thresholds for this request: a built-in id ('default', 'saju-first',
+   * 'four-frame-first', 'phonetics-only') or a profile object (see defineScoringProfile).
+   * Overrides SpringEngineOptions.scoringProfile.
+   */
+  readonly scoringProfile?: ScoringProfileSource;
+  /**
+   * Popularity the ranking should lean towards: 'classic' (long-established), 'trending'
+   * (rising) or 'rare' (few children born around the birth year). Blends into
+   * rankingScore, which every candidate path sorts by (streams within each beam);
+   * finalScore and scores.total are unchanged.
+   */
+  readonly popularityPreference?: PopularityPreference;
+}
+
+/** Sibling mode: names to harmonise with and the generational syllable to keep. */
+export interface FamilyOptions {
+  readonly siblings?: FamilyMemberInput[];
+  readonly dollimja?: DollimjaInput;
+}
+
+/** An existing sibling. Birth data is optional and only used for element complementarity. */
+export interface FamilyMemberInput {
+  readonly givenName: NameCharInput[];
+  readonly birth?: BirthInfo;
+}
+
+/** 돌림자: the syllable (and hanja) every sibling carries at the same given-name position. */
+export interface DollimjaInput {
+  /** 0-based index within the given name. */
+  readonly position: number;
+  readonly hangul: string;
+  readonly hanja: string;
 }
 
 /** High-level time-policy toggles bridged to saju-ts legacy config. */
@@ -84,10 +146,12 @@ export interface SpringResponse {
   readonly meta: ResponseMeta;
 }
 
-/** Version and timestamp attached to every response. */
+/** Version, timestamp and scoring profile attached to every response. */
 export interface ResponseMeta {
   readonly version: string;
   readonly timestamp: string;
+  /** The profile the scores were computed with; compare digests, ids are only labels. */
+  readonly scoringProfile: { readonly id: string; readonly digest: string };
 }
 
 /** A single name candidate with scores and detailed analysis. */
@@ -96,6 +160,10 @@ export interface SpringCandidate {
   readonly scores: Record<'total' | 'hangul' | 'hanja' | 'fourFrame' | 'saju', number>;
   readonly analysis: CandidateAnalysis;
   readonly interpretation: string;
+  /** Frame-by-frame breakdown of scores.total. */
+  readonly explanation: ScoreExplanation;
+  /** scores.total blended with options.popularityPreference; the sort key of analyze(). */
+  readonly rankingScore: number;
   readonly rank: number;
 }
 
@@ -152,9 +220,94 @@ export interface SajuSummary {
   readonly tenGodAnalysis: TenGodSummary | null;
   readonly shinsalHits: ShinsalHitSummary[];
   readonly gongmang: [string, string] | null;
+  /** Why the analysis was skipped (errors) or degraded (warnings). Empty on a clean run. */
+  readonly diagnostics: SajuDiagnostics;
+  /** Present when the birth hour was unknown and all 12 hour branches were evaluated. */
+  readonly hourUnknown?: HourUnknownSummary;
   readonly [key: string]: unknown;
 }
 
+/** Hour-unknown mode: the chart evaluated once per possible hour branch. */
+export interface HourUnknownSummary {
+  /** Hour branch codes evaluated (JA..HAE). */
+  readonly hourBranches: string[];
+  readonly strength: HourStability;
+  readonly yongshin: HourStability;
+  readonly gyeokguk: HourStability;
+  /** Shinsal found for every hour branch vs. only for some. */
+  readonly shinsal: { readonly always: string[]; readonly sometimes: string[] };
+  /** Per-element count range across the hour branches. */
+  readonly elementRanges: Record<string, ElementRange>;
+}
+
+/** How one conclusion behaves across the 12 possible hour branches. */
+export interface HourStability {
+  /** True when every hour branch yields the same outcome. */
+  readonly stable: boolean;
+  /** Most common outcome. */
+  readonly dominant: string;
+  /** Share of hour branches that yield `dominant` (0..1). */
+  readonly agreement: number;
+  /** Outcome per hour branch code. */
+  readonly byBranch: Record<string, string>;
+}
+
+/** Min / mean / max of one element's count. */
+export interface ElementRange {
+  readonly min: number;
+  readonly mean: number;
+  readonly max: number;
+}
+
+/**
+ * How one 대운/세운 pillar interacts with the natal chart, as computed by the
+ * saju engine (`fortune.interactions`). Attached to `daeunInfo.pillars[]` and
+ * `saeunPillars[]` when available.
+ */
+export interface LuckInteractionSummary {
+  /** VERY_FAVORABLE | FAVORABLE | NEUTRAL | UNFAVORABLE | VERY_UNFAVORABLE */
+  readonly quality: string;
+  readonly isYongshinElement: boolean;
+  readonly isGisinElement: boolean;
+  readonly sipseong: string;
+  readonly branchSipseong: string;
+  readonly sibiUnseong: string;
+  /** Partner is a natal position (year/month/day/hour) or 'decade'. */
+  readonly stemRelations: ReadonlyArray<{ readonly type: string; readonly with: string[]; readonly members: string[] }>;
+  readonly branchRelations: ReadonlyArray<{ readonly type: string; readonly with: string[]; readonly members: string[] }>;
+  /** Change in strength index when this pillar is in force. */
+  readonly strengthDelta: number;
+  /** 교운기: the decade changes during this pillar (always false for the first decade). */
+  readonly isTransitionPeriod: boolean;
+  /** One-line label from saju-ts, e.g. "임자운: 편인(偏印) / 목욕(沐浴) -- 길 [용신운]". */
+  readonly summary: string;
+}
+
+/** Machine-readable reason attached to a SajuDiagnostic. */
+export type SajuDiagnosticCode =
+  | 'MODULE_LOAD_FAILED'
+  | 'LUNAR_UNSUPPORTED'
+  | 'INVALID_DATE'
+  | 'MISSING_BIRTH_DATE'
+  | 'PARTIAL_BIRTH_DATE'
+  | 'UNKNOWN_BIRTH_TIME'
+  | 'NEUTRAL_GENDER_BASIS'
+  | 'ANALYSIS_FAILED';
+
+/** One skipped-or-degraded reason, with a user-facing Korean message. */
+export interface SajuDiagnostic {
+  readonly code: SajuDiagnosticCode;
+  readonly message: string;
+  /** Underlying error text, when the diagnostic wraps a thrown error. */
+  readonly detail?: string;
+}
+
+/** Errors mean no real chart was computed; warnings mean the chart rests on assumptions. */
+export interface SajuDiagnostics {
+  readonly errors: SajuDiagnostic[];
+  readonly warnings: SajuDiagnostic[];
+}
+
 /** The heavenly stem and earthly branch that form one pillar. */
 export interface PillarSummary {
   readonly stem: PillarCode;
@@ -335,6 +488,51 @@ export interface NamingReport {
     readonly fourFrame: NamingReportFourFrame;
   };
   readonly interpretation: string;
+  /** Stroke-count system behind `name.*.strokes`, the frame sums and stroke polarity. */
+  readonly strokeSystem: StrokeSystem;
+  /** How the full name is actually said: spoken form, romanization and flow issues. */
+  readonly pronunciation: NamingReportPronunciation;
+  /** Problems with the name itself (e.g. a given-name hanja that cannot be registered). */
+  readonly warnings: NamingWarning[];
+}
+
+/** Spoken-form analysis of the full name (see PhoneticCalculator). */
+export interface NamingReportPronunciation extends PhoneticAnalysis {
+  /**
+   * Readings the surname's first hanja is registered under (李: 이, 리; 柳: 유, 류), written one first.
+   * The spoken form follows the written reading; 두음법칙 only decides which ones exist.
+   */
+  readonly surnameReadings: string[];
+}
+
+/** Machine-readable reason attached to a NamingWarning. */
+export type NamingWarningCode =
+  | 'HANJA_NOT_REGISTRABLE'
+  | 'HANJA_READING_NOT_REGISTRABLE'
+  | 'STROKE_COUNT_FALLBACK'
+  | 'DOLLIMJA_MISMATCH'
+  | 'SIBLING_SAME_NAME'
+  | 'SIBLING_SIMILAR_NAME'
+  | 'NEGATIVE_HANJA_MEANING'
+  | 'NEGATIVE_HANJA_RADICAL'
+  | 'TEASING_WORD'
+  | 'NEAR_HOMOPHONE';
+
+/** One warning about a given-name character, with a user-facing Korean message. */
+export interface NamingWarning {
+  readonly code: NamingWarningCode;
+  readonly message: string;
+  /** Index of the character within the given name (or the surname when `part` is 'surname'). */
+  readonly position: number;
+  /** Which part of the name `position` refers to; absent means the given name. */
+  readonly part?: 'surname' | 'givenName';
+  readonly hangul: string;
+  readonly hanja: string;
+  /**
+   * Sibling the name clashes with (SIBLING_* codes, where hangul/hanja hold the whole given name).
+   * TEASING_WORD / NEAR_HOMOPHONE likewise put the name text they matched in `hangul`.
+   */
+  readonly sibling?: string;
 }
 
 /** Saju analysis result with module availability flag. Returned by getSajuReport(). */
@@ -351,13 +549,121 @@ export interface SpringReport {
   readonly popularityRank: number | null;
   readonly maleRatio: number | null;
   readonly nameGender: NameGenderTendency;
+  /** Popularity trend from name-stat; null when the name is not in it. */
+  readonly popularity: NameTrendSummary | null;
+  /** finalScore blended with options.popularityPreference; the sort key of getNameCandidates(). */
+  readonly rankingScore: number;
   readonly namingReport: NamingReport;
   readonly sajuReport: SajuReport;
   readonly sajuCompatibility: SajuCompatibility;
   readonly combinedDistribution: Record<ElementKey, number>;
+  /** Present when options.family lists siblings with usable birth data. */
+  readonly familyHarmony?: FamilyHarmony;
+  /** Frame-by-frame breakdown of finalScore. */
+  readonly explanation: ScoreExplanation;
   rank: number;
 }
 
+/** How the name fills the gaps of the family's combined five-element spread. */
+export interface FamilyHarmony {
+  readonly score: number;
+  readonly isPassed: boolean;
+  /** The child's chart plus every sibling chart with birth data. */
+  readonly familyDistribution: Record<ElementKey, number>;
+  /** familyDistribution plus the name's elements. */
+  readonly combinedDistribution: Record<ElementKey, number>;
+  /** Siblings whose chart was included. */
+  readonly siblings: string[];
+}
+
+/**
+ * Why a candidate scored what it did: the springEvaluateName policy decision at
+ * the root, one node per scored frame, and the sub-scores a frame is made of.
+ */
+export interface ScoreExplanation {
+  readonly total: number;
+  readonly isPassed: boolean;
+  /** 'adaptive' when the saju priority reached evaluator.adaptiveMode.activationThreshold. */
+  readonly policy: 'adaptive' | 'strict';
+  /** 0..1; how strongly the saju frame was boosted and the name frames relaxed. */
+  readonly sajuPriority: number;
+  /** Total score the policy required. */
+  readonly threshold: number;
+  /** Name-frame failures the adaptive policy tolerates (0 in strict mode). */
+  readonly allowedFailures: number;
+  readonly failedFrames: string[];
+  /** Frames with a zero weight in the scoring profile; not scored, not checked. */
+  readonly mutedFrames: string[];
+  readonly scoringProfile: { readonly id: string; readonly digest: string };
+  /** Largest contribution first. */
+  readonly frames: ScoreExplanationFrame[];
+}
+
+/**
+ * PASSED, RELAXED (failed, but tolerated by the adaptive policy), BELOW_MIN_SCORE
+ * (under the profile's passing score), RULE_FAILED (failed a rule other than the
+ * score, e.g. clashing neighbours), DISABLED (not evaluated, counted as 100).
+ */
+export type FrameVerdict = 'PASSED' | 'RELAXED' | 'BELOW_MIN_SCORE' | 'RULE_FAILED' | 'DISABLED';
+
+/** One frame's part of the total. */
+export interface ScoreExplanationFrame {
+  readonly frame: string;
+  readonly label: string;
+  readonly rawScore: number;
+  /** Signal weight from the scoring profile. */
+  readonly weight: number;
+  /** Saju boost or name-frame relaxation applied by the adaptive policy. */
+  readonly weightMultiplier: number;
+  readonly adjustedWeight: number;
+  /** Points added to the total: rawScore × adjustedWeight / Σ adjustedWeight. */
+  readonly contribution: number;
+  readonly isPassed: boolean;
+  readonly verdict: FrameVerdict;
+  /** Korean one-liner for the verdict. */
+  readonly reason: string;
+  /** Whether the adaptive policy may relax the frame (evaluator.nameFrames). */
+  readonly relaxable: boolean;
+  readonly components: ScoreExplanationComponent[];
+}
+
+/** A sub-score inside a frame. */
+export interface ScoreExplanationComponent {
+  readonly key: string;
+  readonly label: string;
+  readonly score: number;
+  /** Share of the frame score; absent for bonuses and penalties, which are added as they are. */
+  readonly weight?: number;
+}
+
+/** compareCandidates(a, b): where the gap between two names comes from. */
+export interface CandidateComparison {
+  readonly a: string;
+  readonly b: string;
+  /** a.total - b.total */
+  readonly totalDelta: number;
+  /** Largest |contributionDelta| first. */
+  readonly frames: FrameComparison[];
+  /** Korean one-paragraph answer to "why is a above b?". */
+  readonly summary: string;
+}
+
+export interface FrameComparison {
+  readonly frame: string;
+  readonly label: string;
+  /** Null when the frame was not scored for that name. */
+  readonly a: FrameComparisonSide | null;
+  readonly b: FrameComparisonSide | null;
+  readonly rawScoreDelta: number;
+  readonly contributionDelta: number;
+}
+
+export interface FrameComparisonSide {
+  readonly rawScore: number;
+  readonly contribution: number;
+  readonly verdict: FrameVerdict;
+}
+
 /** Lightweight candidate item for list pages. */
 export interface SpringCandidateSummary {
   readonly finalScore: number;
@@ -368,9 +674,65 @@ export interface SpringCandidateSummary {
   readonly popularityRank: number | null;
   readonly maleRatio: number | null;
   readonly nameGender: NameGenderTendency;
+  /** Popularity trend from name-stat; null when the name is not in it. */
+  readonly popularity: NameTrendSummary | null;
+  /** finalScore blended with options.popularityPreference; the sort key of getNameCandidateSummaries(). */
+  readonly rankingScore: number;
+  /** Why screening flagged the name; present with options.nameScreening 'flag', and on the caller's own name with 'exclude'. */
+  readonly screeningWarnings?: NamingWarning[];
+  /** Frame-by-frame breakdown of finalScore. */
+  readonly explanation: ScoreExplanation;
+  /** 1-based rank by rankingScore in getNameCandidateSummaries(); 0 for streamed summaries (see SpringCandidateStreamItem.position). */
   rank: number;
 }
 
+/** Options for SpringEngine.streamNameCandidateSummaries(). */
+export interface CandidateStreamOptions {
+  /** Resume right after the item that carried this cursor; omit to start from the best candidate. */
+  readonly cursor?: string | null;
+  /** Aborting stops the stream; the pending iteration rejects with the signal's reason. */
+  readonly signal?: AbortSignal;
+}
+
+/** Options for SpringEngine.getNameCandidatePage(). */
+export interface CandidatePageOptions extends CandidateStreamOptions {
+  /** Items per page (defaults to engine.json pagination.defaultLimit). */
+  readonly limit?: number;
+}
+
+/** One streamed candidate and the cursor that resumes the stream after it. */
+export interface SpringCandidateStreamItem {
+  readonly summary: SpringCandidateSummary;
+  /** 1-based position in the stream; score order holds within a beam only, so this is not a global rank. */
+  readonly position: number;
+  readonly cursor: string;
+}
+
+/** One page of streamed candidates. */
+export interface SpringCandidatePage {
+  readonly items: SpringCandidateSummary[];
+  /** Cursor for the next page; null when no candidate follows this page. */
+  readonly nextCursor: string | null;
+}
+
+/** Databases the engine opens in init(). */
+export type SpringDatabaseName = 'hanja' | 'fourframe' | 'name-stat';
+
+/** Progress reported while the engine loads its databases or scores candidates. */
+export type SpringProgressEvent =
+  | { readonly stage: 'db-load'; readonly database: SpringDatabaseName; readonly loaded: number; readonly total: number }
+  | { readonly stage: 'candidates-generated'; readonly total: number }
+  /** generated candidates checked against the name-stat DB (unknown names and gender mismatches drop out) */
+  | { readonly stage: 'candidates-filtered'; readonly checked: number; readonly total: number }
+  | { readonly stage: 'candidates-scored'; readonly scored: number; readonly total: number };
+
+/** Options for SpringEngine.getNameCandidateSummaries(). */
+export interface CandidateRunOptions {
+  /** Aborting stops scoring; the call rejects with the signal's reason. */
+  readonly signal?: AbortSignal;
+  readonly onProgress?: (event: SpringProgressEvent) => void;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 //  4-B. COMPATIBILITY & ADAPTER TYPES
 //       Used to bridge saju analysis with name scoring.
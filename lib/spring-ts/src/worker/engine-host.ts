@@ -0,0 +1,146 @@
+/**
+ * Worker side of the engine facade: hosts one SpringEngine and answers
+ * SpringWorkerRequest messages (see protocol.ts).
+ *
+ * The worker entry only needs `hostSpringEngine(self)`; bundler-specific worker
+ * construction stays in the app.
+ */
+
+import { FetchStorageAdapter, type FetchStorageOptions } from '../../../seed-ts/src/database/storage-adapter.js';
+import { SpringEngine } from '../spring-engine.js';
+import type { SpringProgressEvent } from '../types.js';
+import type {
+  SpringWorkerCallMessage, SpringWorkerInitMessage, SpringWorkerRequest, SpringWorkerResponse,
+} from './protocol.js';
+
+/** The part of DedicatedWorkerGlobalScope the host uses. */
+export interface SpringWorkerScope {
+  postMessage(message: SpringWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<SpringWorkerRequest>) => void): void;
+}
+
+/**
+ * Fetch adapter that serves databases transferred from the main thread first.
+ * Buffers are dropped once opened (sql.js copies them into its own heap).
+ */
+class TransferredStorageAdapter extends FetchStorageAdapter {
+  private readonly buffers = new Map<string, Uint8Array>();
+
+  constructor(databases: Record<string, ArrayBuffer>, options: FetchStorageOptions) {
+    super(options);
+    for (const [assetPath, buffer] of Object.entries(databases)) {
+      this.buffers.set(assetPath.replace(/^\/+/, ''), new Uint8Array(buffer));
+    }
+  }
+
+  protected override async readBytes(assetPath: string): Promise<Uint8Array> {
+    const key = assetPath.replace(/^\/+/, '');
+    const bytes = this.buffers.get(key);
+    if (!bytes) return super.readBytes(assetPath);
+    this.buffers.delete(key);
+    return bytes;
+  }
+}
+
+function toAbortError(): Error {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function hostSpringEngine(scope: SpringWorkerScope): void {
+  let engine: SpringEngine | null = null;
+  let ready: Promise<void> | null = null;
+  let initId: number | null = null;
+  const controllers = new Map<number, AbortController>();
+
+  const post = (message: SpringWorkerResponse): void => scope.postMessage(message);
+
+  const postError = (id: number, err: unknown): void => {
+    const error = err instanceof Error ? err : new Error(String(err));
+    post({ type: 'error', id, error: { name: error.name, message: error.message } });
+  };
+
+  // db-load events belong to whichever request triggered init()
+  const onEngineProgress = (event: SpringProgressEvent): void => {
+    if (initId !== null) post({ type: 'progress', id: initId, event });
+  };
+
+  const start = (message: SpringWorkerInitMessage | null): Promise<void> => {
+    if (!ready) {
+      engine = new SpringEngine({
+        storage: new TransferredStorageAdapter(message?.databases ?? {}, {
+          baseUrl: message?.baseUrl,
+          wasmUrl: message?.wasmUrl,
+        }),
+        onProgress: onEngineProgress,
+      });
+      ready = engine.init().catch((err) => {
+        ready = null;
+        throw err;
+      });
+    }
+    return ready;
+  };
+
+  const handleInit = async (message: SpringWorkerInitMessage): Promise<void> => {
+    initId = message.id;
+    try {
+      await start(message);
+      post({ type: 'result', id: message.id, result: null });
+    } catch (err) {
+      postError(message.id, err);
+    } finally {
+      initId = null;
+    }
+  };
+
+  const run = async (message: SpringWorkerCallMessage, signal: AbortSignal): Promise<unknown> => {
+    await start(null);
+    signal.throwIfAborted();
+    const current = engine!;
+
+    switch (message.type) {
+      case 'getNameCandidateSummaries':
+        return current.getNameCandidateSummaries(message.request, {
+          signal,
+          onProgress: event => post({ type: 'progress', id: message.id, event }),
+        });
+      case 'getSpringReport':
+        return current.getSpringReport(message.request);
+      case 'getSajuReport':
+        return current.getSajuReport(message.request);
+      case 'getFortuneReport':
+        return current.getFortuneReport(message.request);
+    }
+  };
+
+  const handleCall = async (message: SpringWorkerCallMessage): Promise<void> => {
+    const controller = new AbortController();
+    controllers.set(message.id, controller);
+    try {
+      const result = await run(message, controller.signal);
+      // Reports without abort support still finish; their result is not wanted any more.
+      if (controller.signal.aborted) throw toAbortError();
+      post({ type: 'result', id: message.id, result });
+    } catch (err) {
+      postError(message.id, controller.signal.aborted ? toAbortError() : err);
+    } finally {
+      controllers.delete(message.id);
+    }
+  };
+
+  scope.addEventListener('message', (event) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'init':
+        void handleInit(message);
+        break;
+      case 'cancel':
+        controllers.get(message.id)?.abort(toAbortError());
+        break;
+      default:
+        void handleCall(message);
+    }
+  });
+}
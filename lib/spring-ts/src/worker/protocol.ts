@@ -0,0 +1,62 @@
+/**
+ * Message protocol between SpringWorkerClient (main thread) and hostSpringEngine (worker).
+ *
+ * Every request carries an `id`; the worker answers it with any number of `progress`
+ * messages followed by exactly one `result` or `error`. `cancel` has no answer of its
+ * own: the cancelled request ends with an `error` named `AbortError` (or its result is
+ * simply dropped by the client, which has already rejected).
+ */
+
+import type {
+  SpringRequest, SpringReport, SajuReport, SpringCandidateSummary, SpringProgressEvent,
+} from '../types.js';
+import type { FortuneReportRequest, FortuneReport } from '../report/types.js';
+
+/** Worker-side engine calls: request payload and result per method. */
+export interface SpringWorkerMethods {
+  getNameCandidateSummaries: { request: SpringRequest; result: SpringCandidateSummary[] };
+  getSpringReport: { request: SpringRequest; result: SpringReport };
+  getSajuReport: { request: SpringRequest; result: SajuReport };
+  getFortuneReport: { request: FortuneReportRequest; result: FortuneReport };
+}
+
+export type SpringWorkerMethod = keyof SpringWorkerMethods;
+
+export interface SpringWorkerInitMessage {
+  readonly type: 'init';
+  readonly id: number;
+  /** Database bytes keyed by asset path (e.g. `data/hanja.db`); sent as transferables. */
+  readonly databases: Record<string, ArrayBuffer>;
+  /** Data root for databases not in `databases` (workers have no document base URL). */
+  readonly baseUrl?: string;
+  readonly wasmUrl?: string;
+}
+
+export type SpringWorkerCallMessage = {
+  [M in SpringWorkerMethod]: {
+    readonly type: M;
+    readonly id: number;
+    readonly request: SpringWorkerMethods[M]['request'];
+  };
+}[SpringWorkerMethod];
+
+export interface SpringWorkerCancelMessage {
+  readonly type: 'cancel';
+  /** id of the request to cancel */
+  readonly id: number;
+}
+
+/** Main thread → worker. */
+export type SpringWorkerRequest = SpringWorkerInitMessage | SpringWorkerCallMessage | SpringWorkerCancelMessage;
+
+/** Worker → main thread. */
+export type SpringWorkerResponse =
+  | { readonly type: 'progress'; readonly id: number; readonly event: SpringProgressEvent }
+  | { readonly type: 'result'; readonly id: number; readonly result: unknown }
+  | { readonly type: 'error'; readonly id: number; readonly error: SpringWorkerError };
+
+/** Errors are sent as plain data; the client rebuilds an Error with the same name. */
+export interface SpringWorkerError {
+  readonly name: string;
+  readonly message: string;
+}
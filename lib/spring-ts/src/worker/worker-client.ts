@@ -0,0 +1,222 @@
+/**
+ * Main-thread side of the engine facade: the SpringEngine report/candidate
+ * methods, answered by a worker running hostSpringEngine().
+ *
+ *   const worker = new Worker(new URL('./spring-engine.worker.js', import.meta.url), { type: 'module' });
+ *   const engine = new SpringWorkerClient(worker);
+ *   await engine.init({ databases: await fetchDatabaseBuffers(SPRING_PRELOAD_DATABASES) });
+ *   const list = await engine.getNameCandidateSummaries(request, { signal, onProgress });
+ */
+
+import { resolvePublicAssetUrl } from '../../../seed-ts/src/database/runtime-url.js';
+import type { SpringProgressEvent } from '../types.js';
+import type {
+  SpringWorkerCallMessage, SpringWorkerError, SpringWorkerInitMessage,
+  SpringWorkerMethod, SpringWorkerMethods, SpringWorkerResponse,
+} from './protocol.js';
+
+/** Databases worth sending up front; name-stat shards are fetched by the worker on demand. */
+export const SPRING_PRELOAD_DATABASES = ['data/hanja.db', 'data/fourframe.db'] as const;
+
+export interface SpringWorkerInitOptions {
+  /** Database bytes keyed by asset path. The buffers are transferred, i.e. detached here. */
+  readonly databases?: Record<string, ArrayBuffer>;
+  /** Data root for the remaining databases. Defaults to the page's public path. */
+  readonly baseUrl?: string;
+  readonly wasmUrl?: string;
+  /** Receives `db-load` events. */
+  readonly onProgress?: (event: SpringProgressEvent) => void;
+}
+
+export interface SpringWorkerCallOptions {
+  /** Aborting rejects the call right away and asks the worker to stop. */
+  readonly signal?: AbortSignal;
+  readonly onProgress?: (event: SpringProgressEvent) => void;
+}
+
+interface PendingCall {
+  resolve(result: unknown): void;
+  reject(error: unknown): void;
+  onProgress?: (event: SpringProgressEvent) => void;
+}
+
+function toError(error: SpringWorkerError): Error {
+  const rebuilt = new Error(error.message);
+  rebuilt.name = error.name;
+  return rebuilt;
+}
+
+/** Fetch database files as ArrayBuffers, ready to be transferred to the worker. */
+export async function fetchDatabaseBuffers(
+  assetPaths: readonly string[],
+  options: { readonly baseUrl?: string; readonly fetch?: typeof fetch } = {},
+): Promise<Record<string, ArrayBuffer>> {
+  const baseUrl = options.baseUrl ? options.baseUrl.replace(/\/+$/, '') : null;
+  const entries = await Promise.all(assetPaths.map(async (assetPath) => {
+    const relative = assetPath.replace(/^\/+/, '');
+    const url = baseUrl ? `${baseUrl}/${relative}` : resolvePublicAssetUrl(relative);
+    const response = await (options.fetch ?? fetch)(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch DB (${assetPath}): ${response.status} ${response.statusText}`);
+    }
+    return [relative, await response.arrayBuffer()] as const;
+  }));
+  return Object.fromEntries(entries);
+}
+
+export class SpringWorkerClient {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingCall>();
+  private initPromise: Promise<void> | null = null;
+  /** Calls waiting on init() also receive its db-load events; the latest one is replayed on join. */
+  private readonly initListeners = new Set<(event: SpringProgressEvent) => void>();
+  private lastInitEvent: SpringProgressEvent | null = null;
+
+  constructor(private readonly worker: Worker) {
+    worker.addEventListener('message', (event: MessageEvent<SpringWorkerResponse>) => this.handleMessage(event.data));
+    worker.addEventListener('error', (event) => {
+      this.rejectAll(new Error(`Spring worker failed: ${event.message}`));
+    });
+  }
+
+  /** Open the databases in the worker. Called implicitly (without buffers) by the first request. */
+  init(options: SpringWorkerInitOptions = {}): Promise<void> {
+    if (!this.initPromise) {
+      const databases = options.databases ?? {};
+      const id = this.nextId++;
+      const message: SpringWorkerInitMessage = {
+        type: 'init',
+        id,
+        databases,
+        baseUrl: options.baseUrl ?? resolvePublicAssetUrl('.'),
+        wasmUrl: options.wasmUrl,
+      };
+      const onProgress = (event: SpringProgressEvent): void => {
+        this.lastInitEvent = event;
+        options.onProgress?.(event);
+        for (const listener of this.initListeners) listener(event);
+      };
+      this.initPromise = new Promise<void>((resolve, reject) => {
+        this.pending.set(id, {
+          resolve: () => {
+            this.lastInitEvent = null;
+            resolve();
+          },
+          reject,
+          onProgress,
+        });
+        this.worker.postMessage(message, Object.values(databases));
+      }).catch((err) => {
+        this.initPromise = null;
+        throw err;
+      });
+    }
+    return this.initPromise;
+  }
+
+  getNameCandidateSummaries(
+    request: SpringWorkerMethods['getNameCandidateSummaries']['request'],
+    options: SpringWorkerCallOptions = {},
+  ): Promise<SpringWorkerMethods['getNameCandidateSummaries']['result']> {
+    return this.call('getNameCandidateSummaries', request, options);
+  }
+
+  getSpringReport(
+    request: SpringWorkerMethods['getSpringReport']['request'],
+    options: SpringWorkerCallOptions = {},
+  ): Promise<SpringWorkerMethods['getSpringReport']['result']> {
+    return this.call('getSpringReport', request, options);
+  }
+
+  getSajuReport(
+    request: SpringWorkerMethods['getSajuReport']['request'],
+    options: SpringWorkerCallOptions = {},
+  ): Promise<SpringWorkerMethods['getSajuReport']['result']> {
+    return this.call('getSajuReport', request, options);
+  }
+
+  getFortuneReport(
+    request: SpringWorkerMethods['getFortuneReport']['request'],
+    options: SpringWorkerCallOptions = {},
+  ): Promise<SpringWorkerMethods['getFortuneReport']['result']> {
+    return this.call('getFortuneReport', request, options);
+  }
+
+  /** Stop the worker; pending calls reject. */
+  close(): void {
+    this.worker.terminate();
+    this.rejectAll(new Error('Spring worker closed.'));
+  }
+
+  private async call<M extends SpringWorkerMethod>(
+    type: M,
+    request: SpringWorkerMethods[M]['request'],
+    options: SpringWorkerCallOptions,
+  ): Promise<SpringWorkerMethods[M]['result']> {
+    const { signal, onProgress } = options;
+    signal?.throwIfAborted();
+    await this.waitForInit(onProgress);
+    signal?.throwIfAborted();
+
+    const id = this.nextId++;
+    return new Promise<SpringWorkerMethods[M]['result']>((resolve, reject) => {
+      const onAbort = (): void => {
+        if (!this.pending.delete(id)) return;
+        this.worker.postMessage({ type: 'cancel', id });
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as SpringWorkerMethods[M]['result']);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress,
+      });
+      this.worker.postMessage({ type, id, request } as SpringWorkerCallMessage);
+    });
+  }
+
+  private async waitForInit(onProgress?: (event: SpringProgressEvent) => void): Promise<void> {
+    const ready = this.init();
+    if (!onProgress) return ready;
+
+    if (this.lastInitEvent) onProgress(this.lastInitEvent);
+    this.initListeners.add(onProgress);
+    try {
+      await ready;
+    } finally {
+      this.initListeners.delete(onProgress);
+    }
+  }
+
+  private handleMessage(message: SpringWorkerResponse): void {
+    const call = this.pending.get(message.id);
+    if (!call) return;
+
+    switch (message.type) {
+      case 'progress':
+        call.onProgress?.(message.event);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        call.resolve(message.result);
+        break;
+      case 'error':
+        this.pending.delete(message.id);
+        call.reject(toError(message.error));
+        break;
+    }
+  }
+
+  private rejectAll(error: Error): void {
+    const calls = [...this.pending.values()];
+    this.pending.clear();
+    for (const call of calls) call.reject(error);
+  }
+}
@@ -9,6 +9,8 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
@@ -23,35 +25,15 @@ if (!WASM_PATH) {
   throw new Error(`sql-wasm.wasm not found. candidates=${WASM_CANDIDATES.join(', ')}`);
 }
 
-// ── Patch fetch() for Node.js file system access ──
-const originalFetch = globalThis.fetch;
-(globalThis as any).fetch = async (url: string | URL | Request, options?: any) => {
-  const urlStr = typeof url === 'string' ? url : url instanceof URL ? url.toString() : '';
-  if (urlStr.startsWith('/data/')) {
-    const filePath = path.join(DATA_DIR, urlStr.replace('/data/', ''));
-    if (!fs.existsSync(filePath)) return new Response(null, { status: 404, statusText: `Not found: ${filePath}` });
-    return new Response(fs.readFileSync(filePath), { status: 200 });
-  }
-  // sql.js WASM loading — serve from local node_modules
-  if (urlStr.includes('sql-wasm.wasm') || urlStr === WASM_PATH) {
-    return new Response(fs.readFileSync(WASM_PATH), { status: 200 });
-  }
-  return originalFetch(url as any, options);
-};
-
-import { SpringEngine } from '../src/spring-engine.js';
-
 // ── Load baseline ──
 const baseline = JSON.parse(fs.readFileSync(path.resolve(__dirname, 'baseline.json'), 'utf-8'));
 
 const birth = { year: 1986, month: 4, day: 19, hour: 5, minute: 45, gender: 'male' as const };
 
-const engine = new SpringEngine();
-const repos = [(engine as any).hanjaRepo, (engine as any).fourFrameRepo];
-for (const repo of repos) {
-  if (!repo) continue;
-  (repo as any).wasmUrl = WASM_PATH;
-}
+// DBs and sql.js WASM come straight from disk (no fetch, no network)
+const engine = new SpringEngine({
+  storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+});
 
 let pass = 0;
 let fail = 0;
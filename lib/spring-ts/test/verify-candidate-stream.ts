@@ -0,0 +1,183 @@
+/**
+ * streamNameCandidateSummaries / getNameCandidatePage: score order within a beam,
+ * cursor round-trips (parked and re-walked), page boundaries across beams,
+ * no cursor when the stream ends at the page limit, fingerprint mismatch and AbortSignal.
+ *
+ * npx tsx test/verify-candidate-stream.ts
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import type { SpringCandidateStreamItem, SpringRequest } from '../src/types.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+import engineConfig from '../config/engine.json';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
+const WASM_PATH = [
+  path.resolve(__dirname, '../node_modules/sql.js/dist/sql-wasm.wasm'),
+  path.resolve(__dirname, '../../seed-ts/node_modules/sql.js/dist/sql-wasm.wasm'),
+].find((candidatePath) => fs.existsSync(candidatePath));
+
+const BEAM_WIDTH = engineConfig.pagination.streamBeamWidth;
+const REFERENCE_LENGTH = BEAM_WIDTH + 10;
+
+const REQUEST: SpringRequest = {
+  birth: { year: 1986, month: 4, day: 19, hour: 5, minute: 45, gender: 'male' },
+  surname: [{ hangul: '최', hanja: '崔' }],
+  givenNameLength: 2,
+  mode: 'recommend',
+};
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+async function assertRejects(label: string, run: () => Promise<unknown>, pattern: RegExp): Promise<void> {
+  try {
+    await run();
+  } catch (error) {
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    if (!pattern.test(message)) fail(`${label}: unexpected error ${message}`);
+    return;
+  }
+  fail(`${label}: expected a rejection`);
+}
+
+function makeEngine(): SpringEngine {
+  if (!WASM_PATH) fail('sql-wasm.wasm not found');
+  return new SpringEngine({
+    storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+  });
+}
+
+function names(items: readonly { fullHanja: string }[]): string[] {
+  return items.map((item) => item.fullHanja);
+}
+
+async function take(
+  engine: SpringEngine,
+  count: number,
+  cursor?: string | null,
+): Promise<SpringCandidateStreamItem[]> {
+  const items: SpringCandidateStreamItem[] = [];
+  for await (const item of engine.streamNameCandidateSummaries(REQUEST, { cursor })) {
+    items.push(item);
+    if (items.length >= count) break;
+  }
+  return items;
+}
+
+async function main(): Promise<void> {
+  const engine = makeEngine();
+  const reference = await take(engine, REFERENCE_LENGTH);
+  if (reference.length < REFERENCE_LENGTH) fail(`stream ended early (${reference.length} items)`);
+  const referenceNames = names(reference.map((item) => item.summary));
+
+  // Positions count the stream; rank stays reserved for getNameCandidateSummaries
+  assertEqual('positions', reference.map((item) => item.position), reference.map((_, index) => index + 1));
+  assertEqual('streamed rank', reference.every((item) => item.summary.rank === 0), true);
+
+  // Score order within the first beam
+  const firstBeam = reference.slice(0, BEAM_WIDTH).map((item) => item.summary.rankingScore);
+  firstBeam.forEach((score, index) => {
+    if (index > 0 && score > firstBeam[index - 1]) {
+      fail(`first beam not score-ordered at position ${index + 1}: ${firstBeam[index - 1]} < ${score}`);
+    }
+  });
+
+  // Page round-trip: the second page resumes the walk parked by the first
+  const page1 = await engine.getNameCandidatePage(REQUEST, { limit: 5 });
+  assertEqual('page 1', names(page1.items), referenceNames.slice(0, 5));
+  const cursor = page1.nextCursor ?? fail('page 1 has no nextCursor');
+  const page2 = await engine.getNameCandidatePage(REQUEST, { limit: 5, cursor });
+  assertEqual('page 2 (parked walk)', names(page2.items), referenceNames.slice(5, 10));
+
+  // A fresh engine has nothing parked and re-walks to the same place
+  const freshEngine = makeEngine();
+  const rewalked = await freshEngine.getNameCandidatePage(REQUEST, { limit: 5, cursor });
+  assertEqual('page 2 (re-walked)', names(rewalked.items), referenceNames.slice(5, 10));
+
+  // Page boundary across beams, from a cursor in the middle of the first beam
+  const crossing = await freshEngine.getNameCandidatePage(REQUEST, {
+    limit: 10,
+    cursor: reference[BEAM_WIDTH - 6].cursor,
+  });
+  assertEqual('page across beams', names(crossing.items), referenceNames.slice(BEAM_WIDTH - 5, BEAM_WIDTH + 5));
+  const resumedPositions = await take(freshEngine, 2, reference[BEAM_WIDTH - 1].cursor);
+  assertEqual('positions after resume', resumedPositions.map((item) => item.position), [BEAM_WIDTH + 1, BEAM_WIDTH + 2]);
+
+  // The same cursor can be used twice (the second use re-walks)
+  const again = await engine.getNameCandidatePage(REQUEST, { limit: 5, cursor });
+  assertEqual('cursor reuse', names(again.items), referenceNames.slice(5, 10));
+
+  const empty = await engine.getNameCandidatePage(REQUEST, { limit: 0 });
+  assertEqual('limit 0', [empty.items.length, empty.nextCursor], [0, null]);
+
+  // A page ending on a beam boundary looks ahead into the next beam and still resumes in order
+  const fullBeam = await freshEngine.getNameCandidatePage(REQUEST, { limit: BEAM_WIDTH });
+  const beamCursor = fullBeam.nextCursor ?? fail('full-beam page has no nextCursor');
+  const afterBeam = await freshEngine.getNameCandidatePage(REQUEST, { limit: 5, cursor: beamCursor });
+  assertEqual('page after a full beam (parked walk)', names(afterBeam.items), referenceNames.slice(BEAM_WIDTH, BEAM_WIDTH + 5));
+  const rewalkEngine = makeEngine();
+  const afterBeamRewalked = await rewalkEngine.getNameCandidatePage(REQUEST, { limit: 5, cursor: beamCursor });
+  assertEqual('page after a full beam (re-walked)', names(afterBeamRewalked.items), names(afterBeam.items));
+  rewalkEngine.close();
+
+  // A stream that ends exactly at the limit has no next page
+  const single: SpringRequest = { ...REQUEST, mode: 'evaluate', givenName: reference[0].summary.givenName };
+  const exact = await engine.getNameCandidatePage(single, { limit: 1 });
+  assertEqual('stream ending at the limit', [names(exact.items), exact.nextCursor], [referenceNames.slice(0, 1), null]);
+  const short = await engine.getNameCandidatePage(single, { limit: 2 });
+  assertEqual('stream ending before the limit', [short.items.length, short.nextCursor], [1, null]);
+
+  // Cursors are bound to the request and validated
+  await assertRejects(
+    'fingerprint mismatch',
+    () => engine.getNameCandidatePage({ ...REQUEST, givenNameLength: 1 }, { cursor }),
+    /different request/,
+  );
+  await assertRejects(
+    'malformed cursor',
+    () => engine.getNameCandidatePage(REQUEST, { cursor: cursor.replace(/\.\d+$/, '.x') }),
+    /Invalid candidate cursor/,
+  );
+  await assertRejects(
+    'old cursor version',
+    () => engine.getNameCandidatePage(REQUEST, { cursor: 'c1.0.5.5' }),
+    /Invalid candidate cursor/,
+  );
+
+  // AbortSignal: before the first item and between items
+  const preAborted = new AbortController();
+  preAborted.abort();
+  await assertRejects(
+    'pre-aborted signal',
+    () => engine.streamNameCandidateSummaries(REQUEST, { signal: preAborted.signal }).next(),
+    /AbortError/,
+  );
+
+  const controller = new AbortController();
+  const stream = engine.streamNameCandidateSummaries(REQUEST, { signal: controller.signal });
+  const first = await stream.next();
+  assertEqual('first item before abort', first.done ? null : first.value.summary.fullHanja, referenceNames[0]);
+  controller.abort();
+  await assertRejects('abort between items', () => stream.next(), /AbortError/);
+  assertEqual('stream closed after abort', (await stream.next()).done, true);
+
+  engine.close();
+  freshEngine.close();
+  console.log('PASS: candidate stream ordering, cursors, page boundaries and abort');
+}
+
+main().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,169 @@
+/**
+ * 인명용 한자 list parsing, 두음 variants and the exclude/flag modes of name generation.
+ *
+ * The bundled hanja.db carries no is_legal_name column, so the engine checks run
+ * against a list loaded at runtime (SpringEngineOptions.legalNameHanjaList).
+ *
+ * npx tsx test/verify-legal-name-hanja.ts
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import type { SpringReport, SpringRequest } from '../src/types.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+import type { HanjaEntry } from '../../seed-ts/src/database/hanja-repository.js';
+import {
+  dueumVariant,
+  legalNameHanjaStatus,
+  parseLegalNameHanjaList,
+  withDueumVariants,
+  type LegalNameHanjaList,
+} from '../../seed-ts/src/utils/legal-name-hanja.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
+const WASM_PATH = [
+  path.resolve(__dirname, '../node_modules/sql.js/dist/sql-wasm.wasm'),
+  path.resolve(__dirname, '../../seed-ts/node_modules/sql.js/dist/sql-wasm.wasm'),
+].find((candidatePath) => fs.existsSync(candidatePath));
+
+const BASE_REQUEST: SpringRequest = {
+  birth: { year: 1986, month: 4, day: 19, hour: 5, minute: 45, gender: 'male' },
+  surname: [{ hangul: '최', hanja: '崔' }],
+  givenNameLength: 2,
+  mode: 'recommend',
+  options: { limit: 5 },
+};
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+function makeEngine(list?: LegalNameHanjaList): SpringEngine {
+  if (!WASM_PATH) fail('sql-wasm.wasm not found');
+  return new SpringEngine({
+    storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+    legalNameHanjaList: list,
+  });
+}
+
+function row(hangul: string, overrides: Partial<HanjaEntry>): HanjaEntry {
+  return {
+    id: 0, hangul, hanja: '樂', onset: '', nucleus: '', strokes: 15, stroke_element: '',
+    resource_element: '', meaning: '', radical: '', is_surname: false, ...overrides,
+  };
+}
+
+function givenHanja(report: SpringReport): string[] {
+  return report.namingReport.name.givenName.map((char) => char.hanja);
+}
+
+function verifyParsing(): void {
+  const list = parseLegalNameHanjaList([
+    '# 대법원 인명용 한자표',
+    '# version: 2024-06-11',
+    '',
+    '李\t리',
+    '樂\t락,악,요',
+    '樂\t요,낙',
+    '  梁   량  ',
+  ].join('\r\n'));
+
+  assertEqual('version header', list.version, '2024-06-11');
+  assertEqual('character count', list.readings.size, 3);
+  assertEqual('single reading', list.readings.get('李'), ['리']);
+  assertEqual('repeated line merges without duplicates', list.readings.get('樂'), ['락', '악', '요', '낙']);
+  assertEqual('surrounding whitespace', list.readings.get('梁'), ['량']);
+  assertEqual('no version header', parseLegalNameHanjaList('李\t리').version, null);
+}
+
+function verifyDueum(): void {
+  assertEqual('리 -> 이', dueumVariant('리'), '이');
+  assertEqual('량 -> 양', dueumVariant('량'), '양');
+  assertEqual('라 -> 나', dueumVariant('라'), '나');
+  assertEqual('녀 -> 여', dueumVariant('녀'), '여');
+  assertEqual('락 -> 낙', dueumVariant('락'), '낙');
+  assertEqual('나 has no variant', dueumVariant('나'), null);
+  assertEqual('이 has no variant', dueumVariant('이'), null);
+  assertEqual('non-syllable', dueumVariant('A'), null);
+
+  assertEqual('withDueumVariants 리', withDueumVariants(['리']), ['리', '이']);
+  assertEqual('withDueumVariants 량', withDueumVariants(['량']), ['량', '양']);
+  assertEqual('withDueumVariants 녀', withDueumVariants(['녀']), ['녀', '여']);
+  assertEqual('withDueumVariants 락,악,요', withDueumVariants(['락', '악', '요']), ['락', '낙', '악', '요']);
+  assertEqual('withDueumVariants dedupes', withDueumVariants(['리', '이']), ['리', '이']);
+}
+
+function verifyStatus(): void {
+  const listed = [row('락', { is_legal_name: true, legal_readings: ['락', '낙', '악', '요'] })];
+  assertEqual('status allowed', legalNameHanjaStatus(listed, '요'), 'allowed');
+  assertEqual('status allowed (두음)', legalNameHanjaStatus(listed, '낙'), 'allowed');
+  assertEqual('status reading-not-allowed', legalNameHanjaStatus(listed, '륙'), 'reading-not-allowed');
+  assertEqual('status not-listed', legalNameHanjaStatus([row('락', { is_legal_name: false, legal_readings: [] })], '락'), 'not-listed');
+  assertEqual('status unknown (no flag)', legalNameHanjaStatus([row('락', { is_legal_name: null })], '락'), 'unknown');
+  assertEqual('status unknown (no rows)', legalNameHanjaStatus([], '락'), 'unknown');
+}
+
+async function verifyEngineModes(): Promise<void> {
+  // Baseline run without any list: pick a hanja the top candidate uses
+  const plainEngine = makeEngine();
+  const plain = await plainEngine.getNameCandidates(BASE_REQUEST);
+  if (plain.length === 0) fail('no candidates without a legal-name list');
+  const target = givenHanja(plain[0])[0];
+
+  // Every DB character is listed under its DB readings, except the target
+  const allRows = await plainEngine.getHanjaRepository().findByStrokeRange(1, 99);
+  plainEngine.close();
+  const readings = new Map<string, string[]>();
+  for (const entry of allRows) {
+    if (entry.hanja === target) continue;
+    readings.set(entry.hanja, [...(readings.get(entry.hanja) ?? []), entry.hangul]);
+  }
+  const list: LegalNameHanjaList = { version: 'test', readings };
+
+  const engine = makeEngine(list);
+  await engine.init();
+  assertEqual('runtime list version', await engine.getHanjaRepository().getLegalNameListVersion(), 'test');
+
+  const excluded = await engine.getNameCandidates({
+    ...BASE_REQUEST,
+    options: { ...BASE_REQUEST.options, legalNameHanja: 'exclude' },
+  });
+  if (excluded.length === 0) fail('exclude mode returned no candidates');
+  if (excluded.some((report) => givenHanja(report).includes(target))) {
+    fail(`exclude mode still recommends the unlisted hanja ${target}`);
+  }
+
+  const flagged = await engine.getNameCandidates({
+    ...BASE_REQUEST,
+    options: { ...BASE_REQUEST.options, legalNameHanja: 'flag' },
+  });
+  const kept = flagged.find((report) => givenHanja(report).includes(target));
+  if (!kept) fail(`flag mode dropped the unlisted hanja ${target}`);
+  assertEqual(
+    'flag mode warning',
+    kept.namingReport.warnings.some((warning) => warning.code === 'HANJA_NOT_REGISTRABLE' && warning.hanja === target),
+    true,
+  );
+  engine.close();
+}
+
+async function main(): Promise<void> {
+  verifyParsing();
+  verifyDueum();
+  verifyStatus();
+  await verifyEngineModes();
+  console.log('PASS: legal-name hanja list parsing, 두음 variants, and exclude/flag modes');
+}
+
+main().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
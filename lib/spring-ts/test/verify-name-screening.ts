@@ -0,0 +1,107 @@
+/**
+ * Name screening in every candidate path: getNameCandidates, analyze and
+ * getNameCandidateSummaries drop flagged names under 'exclude', keep them under
+ * 'flag', and never drop the name the caller supplied.
+ *
+ * npx tsx test/verify-name-screening.ts
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import type { SpringOptions, SpringReport, SpringRequest } from '../src/types.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
+const WASM_PATH = [
+  path.resolve(__dirname, '../node_modules/sql.js/dist/sql-wasm.wasm'),
+  path.resolve(__dirname, '../../seed-ts/node_modules/sql.js/dist/sql-wasm.wasm'),
+].find((candidatePath) => fs.existsSync(candidatePath));
+
+const REQUEST: SpringRequest = {
+  birth: { year: 1986, month: 4, day: 19, hour: 5, minute: 45, gender: 'male' },
+  surname: [{ hangul: '김', hanja: '金' }],
+  givenNameLength: 2,
+  mode: 'recommend',
+};
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+function fullHanja(report: SpringReport): string {
+  const { surname, givenName } = report.namingReport.name;
+  return [...surname, ...givenName].map((char) => char.hanja).join('');
+}
+
+async function candidateNames(engine: SpringEngine, nameScreening: SpringOptions['nameScreening']) {
+  const request: SpringRequest = { ...REQUEST, options: { nameScreening, limit: 500 } };
+  const reports = await engine.getNameCandidates(request);
+  const analyzed = await engine.analyze(request);
+  const summaries = await engine.getNameCandidateSummaries(request);
+  return {
+    reports: reports.map(fullHanja),
+    analyzed: analyzed.candidates.map((candidate) => candidate.name.fullHanja),
+    summaries: summaries.map((summary) => summary.fullHanja),
+    screened: summaries.filter((summary) => summary.screeningWarnings?.length),
+  };
+}
+
+async function main(): Promise<void> {
+  if (!WASM_PATH) fail('sql-wasm.wasm not found');
+  const engine = new SpringEngine({
+    storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+  });
+
+  // 'flag' keeps the flagged names (e.g. 金鑽害, 害: 해칠 해) in every path
+  const flagged = await candidateNames(engine, 'flag');
+  const screened = flagged.screened.map((summary) => summary.fullHanja);
+  if (screened.length === 0) fail('flag mode flagged no candidates; pick another request');
+  const kept = (names: string[]) => screened.filter((name) => names.includes(name));
+  assertEqual('flag keeps getNameCandidates', kept(flagged.reports), screened);
+  assertEqual('flag keeps analyze', kept(flagged.analyzed), screened);
+
+  const excluded = await candidateNames(engine, 'exclude');
+  if (excluded.reports.length === 0) fail('exclude mode returned no candidates');
+  assertEqual('exclude drops from getNameCandidates', kept(excluded.reports), []);
+  assertEqual('exclude drops from analyze', kept(excluded.analyzed), []);
+  assertEqual('exclude drops from summaries', kept(excluded.summaries), []);
+
+  // The caller's own name stays in the list and carries the reason
+  const [ownName] = flagged.screened;
+  const surnameLength = REQUEST.surname.length;
+  const ownRequest: SpringRequest = {
+    ...REQUEST,
+    givenName: [...ownName.fullHanja].slice(surnameLength).map((hanja, index) => ({
+      hangul: ownName.fullHangul[surnameLength + index],
+      hanja,
+    })),
+    options: { limit: 500 },
+  };
+  const own = (await engine.getNameCandidates(ownRequest)).find((report) => fullHanja(report) === ownName.fullHanja);
+  if (!own) fail(`getNameCandidates dropped the caller-supplied name ${ownName.fullHanja}`);
+  assertEqual(
+    'caller-supplied name warning',
+    own.namingReport.warnings.some((warning) => warning.code.startsWith('NEGATIVE_HANJA_')),
+    true,
+  );
+  const ownSummary = (await engine.getNameCandidateSummaries(ownRequest))
+    .find((summary) => summary.fullHanja === ownName.fullHanja);
+  if (!ownSummary) fail(`getNameCandidateSummaries dropped the caller-supplied name ${ownName.fullHanja}`);
+  assertEqual('caller-supplied summary warnings', (ownSummary.screeningWarnings?.length ?? 0) > 0, true);
+
+  engine.close();
+  console.log('PASS: name screening in getNameCandidates, analyze and summaries, and caller-supplied names');
+}
+
+main().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
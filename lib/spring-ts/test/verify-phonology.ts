@@ -0,0 +1,149 @@
+/**
+ * Spoken form of names (hangul-phonology.ts) and the phonetic flow frame
+ * (PhoneticCalculator): 연음, 받침 neutralization, assimilation, 두음 surname readings
+ * and the flow penalties.
+ *
+ * npx tsx test/verify-phonology.ts
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import { PhoneticCalculator } from '../src/calculator/phonetic-calculator.js';
+import { makeFallbackEntry } from '../src/core/name-utils.js';
+import { DEFAULT_SCORING_PROFILE } from '../src/core/scoring-profile.js';
+import type { SpringRequest } from '../src/types.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+import { pronounceSyllables, romanizeSpokenSyllables } from '../../seed-ts/src/utils/hangul-phonology.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
+const WASM_PATH = [
+  path.resolve(__dirname, '../node_modules/sql.js/dist/sql-wasm.wasm'),
+  path.resolve(__dirname, '../../seed-ts/node_modules/sql.js/dist/sql-wasm.wasm'),
+].find((candidatePath) => fs.existsSync(candidatePath));
+
+const PENALTIES = DEFAULT_SCORING_PROFILE.frames.phoneticFlow.penalties;
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+function spoken(word: string): string {
+  return pronounceSyllables([...word]).spoken.join('');
+}
+
+function changeKinds(word: string): string[] {
+  return pronounceSyllables([...word]).changes.map((change) => `${change.position}:${change.kind}`);
+}
+
+function verifySpokenForms(): void {
+  // 연음: the coda moves into a following ㅇ, syllable by syllable
+  assertEqual('김은아', spoken('김은아'), '기므나');
+  assertEqual('김은아 changes', changeKinds('김은아'), ['0:liaison', '1:liaison']);
+  assertEqual('cluster coda 닭이', spoken('닭이'), '달기');
+  assertEqual('ㅇ coda stays 강아', spoken('강아'), '강아');
+  assertEqual('ㅎ drops 좋아', changeKinds('좋아'), ['0:h-deletion']);
+  assertEqual('ㄶ drops its ㅎ 많아', spoken('많아'), '마나');
+  assertEqual('palatalization 밭이', spoken('밭이'), '바치');
+
+  // 받침 neutralization: final codas and codas before consonants
+  assertEqual('final ㅋ 부엌', spoken('부엌'), '부억');
+  assertEqual('final ㅅ 옷', changeKinds('옷'), ['0:coda-neutralization']);
+  assertEqual('final ㄺ 닭', spoken('닭'), '닥');
+  assertEqual('ㅅ before a consonant 옷감', spoken('옷감'), '옫깜');
+
+  // Assimilation, tensing and aspiration across the boundary
+  assertEqual('nasalization 박민', spoken('박민'), '방민');
+  assertEqual('ㄹ after ㅇ 종로', spoken('종로'), '종노');
+  assertEqual('liquidization 신라', spoken('신라'), '실라');
+  assertEqual('liquidization 설나', spoken('설나'), '설라');
+  assertEqual('tensification 국보', spoken('국보'), '국뽀');
+  assertEqual('aspiration 백호', spoken('백호'), '배코');
+  assertEqual('ㅎ coda aspirates 놓고', spoken('놓고'), '노코');
+
+  // Non-hangul characters end the word and pass through
+  assertEqual('non-hangul', pronounceSyllables(['김', 'A', '아']).spoken, ['김', 'A', '아']);
+  assertEqual('syllable count kept', pronounceSyllables([...'제갈공명']).spoken.length, 4);
+
+  assertEqual('romanize 기므나', romanizeSpokenSyllables(['기', '므', '나']), ['gi', 'meu', 'na']);
+  assertEqual('romanize 실라', romanizeSpokenSyllables(['실', '라']), ['sil', 'la']);
+  assertEqual('romanize 방민', romanizeSpokenSyllables(['방', '민']), ['bang', 'min']);
+}
+
+function analyzeName(surname: string, givenName: string) {
+  const entries = (text: string, isSurname: boolean) => [...text].map((hangul) => makeFallbackEntry(hangul, { isSurname }));
+  return new PhoneticCalculator(entries(surname, true), entries(givenName, false)).analyze();
+}
+
+function verifyFlowPenalties(): void {
+  const kimEuna = analyzeName('김', '은아');
+  assertEqual('김은아 spoken', kimEuna.spoken, '기므나');
+  assertEqual('김은아 romanization', kimEuna.romanization, 'Gi Meuna');
+  assertEqual('김은아 issues', kimEuna.issues.map((issue) => `${issue.position}:${issue.code}`), ['0:CODA_LIAISON', '1:CODA_LIAISON']);
+  assertEqual('김은아 score', kimEuna.score, 100 - 2 * PENALTIES.liaison);
+
+  const kimGaeun = analyzeName('김', '가은');
+  assertEqual('김가은 repeated onset', kimGaeun.issues.map((issue) => issue.code), ['REPEATED_ONSET']);
+  assertEqual('김가은 score', kimGaeun.score, 100 - PENALTIES.repeatedOnset);
+
+  const parkMin = analyzeName('박', '민');
+  assertEqual('박민 assimilation', parkMin.issues.map((issue) => `${issue.code}:${issue.written}>${issue.spoken}`), ['ASSIMILATION:박민>방민']);
+  assertEqual('박민 score', parkMin.score, 100 - PENALTIES.assimilation);
+
+  const gukBo = analyzeName('국', '보');
+  assertEqual('국보 hard cluster', gukBo.issues.map((issue) => issue.code), ['HARD_CLUSTER']);
+  assertEqual('국보 score', gukBo.score, 100 - PENALTIES.hardCluster);
+
+  // Final-coda neutralization is not a flow issue
+  const final = analyzeName('최', '서윤');
+  assertEqual('최서윤 issues', final.issues, []);
+  assertEqual('최서윤 score', final.score, 100);
+
+  const floor = analyzeName('박', '박박박박박박박박');
+  assertEqual('score floor', floor.score, 0);
+}
+
+async function verifySurnameReadings(): Promise<void> {
+  if (!WASM_PATH) fail('sql-wasm.wasm not found');
+  const engine = new SpringEngine({
+    storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+  });
+  const report = (surname: SpringRequest['surname']) => engine.getNamingReport({
+    birth: { year: 1990, month: 1, day: 1, hour: 12, minute: 0, gender: 'female' },
+    surname,
+    givenName: [{ hangul: '서', hanja: '瑞' }, { hangul: '연', hanja: '姸' }],
+  });
+
+  const lee = await report([{ hangul: '이', hanja: '李' }]);
+  assertEqual('李 as 이 spoken', lee.pronunciation.spoken, '이서연');
+  assertEqual('李 as 이 readings', lee.pronunciation.surnameReadings, ['이', '리']);
+  assertEqual('李 as 이 romanization', lee.pronunciation.romanization, 'I Seoyeon');
+
+  const ri = await report([{ hangul: '리', hanja: '李' }]);
+  assertEqual('李 as 리 spoken', ri.pronunciation.spoken, '리서연');
+  assertEqual('李 as 리 readings', ri.pronunciation.surnameReadings, ['리', '이']);
+
+  const yu = await report([{ hangul: '유', hanja: '柳' }]);
+  assertEqual('柳 as 유 readings', yu.pronunciation.surnameReadings, ['유', '류']);
+  assertEqual('柳 as 유 spoken', yu.pronunciation.spoken, '유서연');
+  engine.close();
+}
+
+async function main(): Promise<void> {
+  verifySpokenForms();
+  verifyFlowPenalties();
+  await verifySurnameReadings();
+  console.log('PASS: spoken forms, phonetic flow penalties and 두음 surname readings');
+}
+
+main().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
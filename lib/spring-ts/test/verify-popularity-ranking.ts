@@ -0,0 +1,87 @@
+/**
+ * options.popularityPreference: analyze() ranks by the same rankingScore as
+ * getNameCandidateSummaries(), and scores.total / finalScore stay unblended.
+ *
+ * npx tsx test/verify-popularity-ranking.ts
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import type { SpringRequest } from '../src/types.js';
+import type { PopularityPreference } from '../src/core/name-trend.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
+const WASM_PATH = [
+  path.resolve(__dirname, '../node_modules/sql.js/dist/sql-wasm.wasm'),
+  path.resolve(__dirname, '../../seed-ts/node_modules/sql.js/dist/sql-wasm.wasm'),
+].find((candidatePath) => fs.existsSync(candidatePath));
+
+const REQUEST: SpringRequest = {
+  birth: { year: 1986, month: 4, day: 19, hour: 5, minute: 45, gender: 'male' },
+  surname: [{ hangul: '최', hanja: '崔' }],
+  givenNameLength: 2,
+  mode: 'recommend',
+};
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+async function ranking(engine: SpringEngine, popularityPreference?: PopularityPreference) {
+  const request: SpringRequest = { ...REQUEST, options: { popularityPreference, limit: 500 } };
+  const analyzed = (await engine.analyze(request)).candidates;
+  const summaries = await engine.getNameCandidateSummaries(request);
+  if (analyzed.length === 0) fail(`analyze returned no candidates (${popularityPreference ?? 'none'})`);
+
+  const label = popularityPreference ?? 'no preference';
+  assertEqual(
+    `${label}: analyze order matches summaries`,
+    analyzed.map((candidate) => [candidate.name.fullHanja, candidate.rankingScore]),
+    summaries.map((summary) => [summary.fullHanja, summary.rankingScore]),
+  );
+  assertEqual(
+    `${label}: scores.total matches finalScore`,
+    analyzed.map((candidate) => candidate.scores.total),
+    summaries.map((summary) => summary.finalScore),
+  );
+  assertEqual(`${label}: ranks`, analyzed.map((candidate) => candidate.rank), analyzed.map((_, index) => index + 1));
+  return analyzed;
+}
+
+async function main(): Promise<void> {
+  if (!WASM_PATH) fail('sql-wasm.wasm not found');
+  const engine = new SpringEngine({
+    storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+  });
+
+  const plain = await ranking(engine);
+  assertEqual(
+    'no preference: rankingScore is scores.total',
+    plain.every((candidate) => candidate.rankingScore === candidate.scores.total),
+    true,
+  );
+
+  for (const preference of ['classic', 'trending', 'rare'] as const) {
+    const preferred = await ranking(engine, preference);
+    if (preferred.every((candidate) => candidate.rankingScore === candidate.scores.total)) {
+      fail(`${preference}: rankingScore ignores the preference`);
+    }
+  }
+
+  engine.close();
+  console.log('PASS: analyze() ranks by popularity-blended rankingScore like the summaries');
+}
+
+main().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
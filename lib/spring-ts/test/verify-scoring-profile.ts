@@ -0,0 +1,63 @@
+/**
+ * scoringProfileFrom memoizes profile objects by content: a profile object that is
+ * mutated and sent again is resolved afresh, and equal contents share one profile.
+ *
+ * npx tsx test/verify-scoring-profile.ts
+ */
+import {
+  DEFAULT_SCORING_PROFILE,
+  scoringProfileFrom,
+  type ScoringProfileInput,
+} from '../src/core/scoring-profile.js';
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+function main(): void {
+  const input: { id: string; frames: ScoringProfileInput['frames'] } = {
+    id: 'phonetic-heavy',
+    frames: { phoneticFlow: { signalWeight: 1.2 } },
+  };
+
+  const first = scoringProfileFrom(input);
+  assertEqual('first weight', first.frames.phoneticFlow.signalWeight, 1.2);
+  if (scoringProfileFrom(input) !== first) fail('the same object should resolve to the memoized profile');
+  if (scoringProfileFrom({ ...input }) !== first) fail('an equal copy should resolve to the memoized profile');
+
+  // Mutate and send again
+  input.frames = { phoneticFlow: { signalWeight: 0.3 } };
+  const mutated = scoringProfileFrom(input);
+  assertEqual('mutated weight', mutated.frames.phoneticFlow.signalWeight, 0.3);
+  if (mutated.digest === first.digest) fail('the mutated profile kept the old digest');
+  assertEqual('first profile unchanged', first.frames.phoneticFlow.signalWeight, 1.2);
+
+  // Back to default weights: same values, so same digest as the built-in
+  input.frames = {};
+  assertEqual('default digest', scoringProfileFrom(input).digest, DEFAULT_SCORING_PROFILE.digest);
+
+  // A mutation that makes the profile invalid is rejected rather than served from the memo
+  input.frames = { phoneticFlow: { signalWeight: -1 } };
+  let rejected = false;
+  try {
+    scoringProfileFrom(input);
+  } catch {
+    rejected = true;
+  }
+  assertEqual('invalid mutation rejected', rejected, true);
+
+  console.log('PASS: scoring profile memo follows the profile contents');
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
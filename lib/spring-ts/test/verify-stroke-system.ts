@@ -0,0 +1,122 @@
+/**
+ * 원획법 / 필획법: 필획 derivation, the written-stroke table format, and how the
+ * stroke system changes the four frames and scores of a name with 氵 / 扌 characters.
+ *
+ * npx tsx test/verify-stroke-system.ts
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { SpringEngine } from '../src/spring-engine.js';
+import type { NamingReport, SpringRequest } from '../src/types.js';
+import { NodeFsStorageAdapter } from '../../seed-ts/src/database/storage-adapter.js';
+import { deriveWrittenStrokes, parseWrittenStrokeList } from '../../seed-ts/src/utils/stroke-system.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.resolve(__dirname, '../../../namespring/public/data');
+const WRITTEN_STROKES_PATH = path.resolve(__dirname, '../../seed-ts/data/written_strokes.txt');
+const WASM_PATH = [
+  path.resolve(__dirname, '../node_modules/sql.js/dist/sql-wasm.wasm'),
+  path.resolve(__dirname, '../../seed-ts/node_modules/sql.js/dist/sql-wasm.wasm'),
+].find((candidatePath) => fs.existsSync(candidatePath));
+
+// 김하진(金河振): 河 = 氵 + 可, 振 = 扌 + 辰
+const REQUEST: SpringRequest = {
+  birth: { year: 1990, month: 1, day: 1, hour: 12, minute: 0, gender: 'male' },
+  surname: [{ hangul: '김', hanja: '金' }],
+  givenName: [{ hangul: '하', hanja: '河' }, { hangul: '진', hanja: '振' }],
+};
+
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function assertEqual<T>(label: string, actual: T, expected: T): void {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    fail(`${label}: expected=${JSON.stringify(expected)} actual=${JSON.stringify(actual)}`);
+  }
+}
+
+function frameSums(report: NamingReport): Record<string, number> {
+  return Object.fromEntries(report.analysis.fourFrame.frames.map((frame) => [frame.type, frame.strokeSum]));
+}
+
+function verifyDerivation(): void {
+  assertEqual('氵 drops one stroke (河)', deriveWrittenStrokes('河', 9, '氵'), 8);
+  assertEqual('扌 drops one stroke (振)', deriveWrittenStrokes('振', 11, '扌'), 10);
+  assertEqual('艹 drops two strokes (英)', deriveWrittenStrokes('英', 11, '艹'), 9);
+  assertEqual('辶 drops three strokes (道)', deriveWrittenStrokes('道', 16, '辶'), 13);
+  assertEqual('left 阝 drops five strokes (陽)', deriveWrittenStrokes('陽', 17, '⻖'), 12);
+  assertEqual('numeral by written form (九)', deriveWrittenStrokes('九', 9, '乙'), 2);
+  assertEqual('numeral without radical (四)', deriveWrittenStrokes('四', 4, ''), 5);
+  assertEqual('radical without variant keeps the count (金)', deriveWrittenStrokes('金', 8, '金'), 8);
+  assertEqual('full-form radical is ambiguous (泰)', deriveWrittenStrokes('泰', 10, '水'), null);
+  assertEqual('missing radical', deriveWrittenStrokes('河', 9, ''), null);
+  assertEqual('non-positive result', deriveWrittenStrokes('x', 3, '⻖'), null);
+}
+
+function verifyTableParsing(): void {
+  const table = parseWrittenStrokeList([
+    '# 필획 table',
+    '',
+    '河\t8',
+    '  振   10  ',
+    '英 9 trailing',
+    '泰\t',
+    '江\tx',
+    '川\t0',
+  ].join('\r\n'));
+
+  assertEqual('parsed entries', [...table.entries()], [['河', 8], ['振', 10], ['英', 9]]);
+
+  const bundled = parseWrittenStrokeList(fs.readFileSync(WRITTEN_STROKES_PATH, 'utf8'));
+  assertEqual('bundled table 河', bundled.get('河'), 8);
+  assertEqual('bundled table 振', bundled.get('振'), 10);
+  assertEqual('bundled table leaves out 泰', bundled.has('泰'), false);
+}
+
+async function verifyScoring(): Promise<void> {
+  if (!WASM_PATH) fail('sql-wasm.wasm not found');
+  const engine = new SpringEngine({
+    storage: new NodeFsStorageAdapter({ rootDir: path.dirname(DATA_DIR), wasmPath: WASM_PATH }),
+  });
+
+  const wonhoek = await engine.getNamingReport(REQUEST);
+  const pilhoek = await engine.getNamingReport({ ...REQUEST, options: { strokeSystem: 'pilhoek' } });
+
+  assertEqual('default stroke system', wonhoek.strokeSystem, 'wonhoek');
+  assertEqual('원획 given-name strokes', wonhoek.name.givenName.map((char) => char.strokes), [9, 11]);
+  assertEqual('필획 given-name strokes', pilhoek.name.givenName.map((char) => char.strokes), [8, 10]);
+  assertEqual('원획 frames', frameSums(wonhoek), { won: 20, hyung: 17, lee: 19, jung: 28 });
+  assertEqual('필획 frames', frameSums(pilhoek), { won: 18, hyung: 16, lee: 18, jung: 26 });
+  if (wonhoek.scores.fourFrame === pilhoek.scores.fourFrame) {
+    fail(`four-frame score should follow the stroke system (both ${wonhoek.scores.fourFrame})`);
+  }
+  assertEqual('no fallback with 필획 data', pilhoek.warnings.some((w) => w.code === 'STROKE_COUNT_FALLBACK'), false);
+
+  // 泰 has no 필획 count: scored by 원획 and reported
+  const fallback = await engine.getNamingReport({
+    ...REQUEST,
+    givenName: [{ hangul: '태', hanja: '泰' }, { hangul: '진', hanja: '振' }],
+    options: { strokeSystem: 'pilhoek' },
+  });
+  assertEqual('fallback strokes', fallback.name.givenName.map((char) => char.strokes), [9, 10]);
+  assertEqual(
+    'fallback warning',
+    fallback.warnings.filter((w) => w.code === 'STROKE_COUNT_FALLBACK').map((w) => w.hanja),
+    ['泰'],
+  );
+  engine.close();
+}
+
+async function main(): Promise<void> {
+  verifyDerivation();
+  verifyTableParsing();
+  await verifyScoring();
+  console.log('PASS: 필획 derivation, written-stroke table, and 원획/필획 scoring');
+}
+
+main().catch((error) => {
+  console.error('FAIL:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { SeedTs } from "@seed/seed";
 import { HanjaRepository } from '@seed/database/hanja-repository';
-import { SpringEngine } from '@spring/spring-engine';
+import { SpringWorkerClient, fetchDatabaseBuffers, SPRING_PRELOAD_DATABASES } from '@spring/worker/worker-client';
 import DevDbViewer from './DevDbViewer';
 import DevHanjaDbViewer from './DevHanjaDbViewer';
 import DevNameStatDbViewer from './DevNameStatDbViewer';
@@ -323,7 +323,7 @@ function App() {
   const [selectedCandidateSummary, setSelectedCandidateSummary] = useState(null);
   const [page, setPage] = useState(initialAppState.page);
   const hanjaRepo = useMemo(() => new HanjaRepository(), []);
-  const springEngine = useMemo(() => new SpringEngine(), []);
+  const springEngineRef = useRef(null);
   const recommendResultCacheRef = useRef(new Map());
   const currentNameReportCacheRef = useRef(new Map());
 
@@ -332,11 +332,31 @@ function App() {
     hanjaRepo.init().then(() => setIsDbReady(true));
   }, [hanjaRepo]);
 
+  // The engine runs in a worker so scoring never blocks the UI; created here (not in useMemo)
+  // so StrictMode's unmount/remount gets a fresh worker instead of a terminated one.
+  const getSpringEngine = useCallback(() => {
+    if (!springEngineRef.current) {
+      springEngineRef.current = new SpringWorkerClient(
+        new Worker(new URL('./spring-engine.worker.js', import.meta.url), { type: 'module' })
+      );
+    }
+    return springEngineRef.current;
+  }, []);
+
   useEffect(() => {
+    const springEngine = getSpringEngine();
+    // Fetch on the main thread and transfer the buffers; on failure the worker fetches them itself.
+    fetchDatabaseBuffers(SPRING_PRELOAD_DATABASES)
+      .catch(() => ({}))
+      .then((databases) => springEngine.init({ databases }))
+      .catch(() => {});
     return () => {
       springEngine.close();
+      if (springEngineRef.current === springEngine) {
+        springEngineRef.current = null;
+      }
     };
-  }, [springEngine]);
+  }, [getSpringEngine]);
 
   useEffect(() => {
     if (isDevSagyeoksuViewerMode || isDevHanjaViewerMode || isDevNameStatViewerMode) return;
@@ -375,7 +395,7 @@ function App() {
     return engine.analyze(normalizeEntryUserInfo(userInfo));
   };
 
-  const handleRecommendAsync = useCallback(async (userInfo) => {
+  const handleRecommendAsync = useCallback(async (userInfo, { signal, onProgress } = {}) => {
     const springRequest = toSpringRequest(userInfo);
     const cacheKey = toRequestCacheKey(springRequest);
     const cachedPromise = recommendResultCacheRef.current.get(cacheKey);
@@ -383,24 +403,32 @@ function App() {
       return cachedPromise;
     }
 
-    const requestPromise = springEngine.getNameCandidateSummaries(springRequest)
+    const requestPromise = getSpringEngine().getNameCandidateSummaries(springRequest, { signal, onProgress })
       .catch((error) => {
-        recommendResultCacheRef.current.delete(cacheKey);
+        if (recommendResultCacheRef.current.get(cacheKey) === requestPromise) {
+          recommendResultCacheRef.current.delete(cacheKey);
+        }
         throw error;
       });
     recommendResultCacheRef.current.set(cacheKey, requestPromise);
+    // Drop a cancelled request right away so an immediate retry does not reuse it.
+    signal?.addEventListener('abort', () => {
+      if (recommendResultCacheRef.current.get(cacheKey) === requestPromise) {
+        recommendResultCacheRef.current.delete(cacheKey);
+      }
+    }, { once: true });
     return requestPromise;
-  }, [springEngine]);
+  }, [getSpringEngine]);
 
   const handleLoadCombinedReportAsync = async (userInfo, candidate) => {
     const fortuneRequest = toFortuneReportRequest(userInfo, candidate?.givenName);
     if (!fortuneRequest.givenName?.length) {
       throw new Error('선택한 후보 이름 정보가 없습니다.');
     }
-    return springEngine.getFortuneReport(fortuneRequest);
+    return getSpringEngine().getFortuneReport(fortuneRequest);
   };
 
-  const handleLoadCurrentNameReportAsync = useCallback(async (userInfo) => {
+  const handleLoadCurrentNameReportAsync = useCallback(async (userInfo, { signal } = {}) => {
     const springRequest = toCurrentNameSpringReportRequest(userInfo);
     const cacheKey = toRequestCacheKey(springRequest);
     const cachedPromise = currentNameReportCacheRef.current.get(cacheKey);
@@ -408,18 +436,25 @@ function App() {
       return cachedPromise;
     }
 
-    const requestPromise = springEngine.getSpringReport(springRequest)
+    const requestPromise = getSpringEngine().getSpringReport(springRequest, { signal })
       .catch((error) => {
-        currentNameReportCacheRef.current.delete(cacheKey);
+        if (currentNameReportCacheRef.current.get(cacheKey) === requestPromise) {
+          currentNameReportCacheRef.current.delete(cacheKey);
+        }
         throw error;
       });
     currentNameReportCacheRef.current.set(cacheKey, requestPromise);
+    signal?.addEventListener('abort', () => {
+      if (currentNameReportCacheRef.current.get(cacheKey) === requestPromise) {
+        currentNameReportCacheRef.current.delete(cacheKey);
+      }
+    }, { once: true });
     return requestPromise;
-  }, [springEngine]);
+  }, [getSpringEngine]);
 
   const handleLoadSajuReportAsync = async (userInfo) => {
     const springRequest = toSpringRequest(userInfo);
-    return springEngine.getSajuReport(springRequest);
+    return getSpringEngine().getSajuReport(springRequest);
   };
 
   const handleOpenCombinedReportFromHome = useCallback(() => {
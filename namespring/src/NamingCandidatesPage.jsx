@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   NAMING_CANDIDATES_CARD_THEME,
   buildReportCardStyle,
@@ -112,6 +112,41 @@ function getRecommendationSortScore(
   return S + P;
 }
 
+// Share of the progress bar per engine stage: DB load, name-stat filtering, scoring.
+const PROGRESS_STAGE_RANGES = {
+  'db-load': [0, 0.1],
+  'candidates-generated': [0.15, 0.15],
+  'candidates-filtered': [0.15, 0.6],
+  'candidates-scored': [0.6, 1],
+};
+
+function describeProgress(event) {
+  if (!event) return { ratio: 0, label: '준비 중...' };
+  const [start, end] = PROGRESS_STAGE_RANGES[event.stage] || [0, 0];
+  const done = event.stage === 'db-load'
+    ? event.loaded
+    : event.stage === 'candidates-filtered'
+      ? event.checked
+      : event.stage === 'candidates-scored'
+        ? event.scored
+        : 0;
+  const fraction = event.total > 0 ? clamp(done / event.total, 0, 1) : 1;
+  const ratio = start + (end - start) * fraction;
+
+  switch (event.stage) {
+    case 'db-load':
+      return { ratio, label: `데이터를 불러오는 중... (${event.loaded}/${event.total})` };
+    case 'candidates-generated':
+      return { ratio, label: `후보 ${event.total.toLocaleString()}개를 만들었어요.` };
+    case 'candidates-filtered':
+      return { ratio, label: `이름 통계 확인 중... (${event.checked.toLocaleString()}/${event.total.toLocaleString()})` };
+    case 'candidates-scored':
+      return { ratio, label: `후보 채점 중... (${event.scored.toLocaleString()}/${event.total.toLocaleString()})` };
+    default:
+      return { ratio, label: '작명 중입니다.' };
+  }
+}
+
 function getNameCardTheme(index) {
   const themes = NAMING_CANDIDATES_CARD_THEME.candidates || [];
   if (!themes.length) return null;
@@ -127,6 +162,8 @@ function NamingCandidatesPage({ entryUserInfo, onRecommendAsync, onLoadCurrentSp
   const [showFavoriteOnly, setShowFavoriteOnly] = useState(false);
   const [candidates, setCandidates] = useState([]);
   const [currentSpringReport, setCurrentSpringReport] = useState(null);
+  const [progress, setProgress] = useState(null);
+  const abortControllerRef = useRef(null);
   const [favoriteCandidateKeys, setFavoriteCandidateKeys] = useState(() => {
     try {
       const raw = localStorage.getItem(FAVORITE_STORAGE_KEY);
@@ -159,6 +196,8 @@ function NamingCandidatesPage({ entryUserInfo, onRecommendAsync, onLoadCurrentSp
 
   useEffect(() => {
     let cancelled = false;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     const run = async () => {
       if (!entryUserInfo || !onRecommendAsync) {
@@ -174,13 +213,21 @@ function NamingCandidatesPage({ entryUserInfo, onRecommendAsync, onLoadCurrentSp
       setError('');
       setCandidates([]);
       setCurrentSpringReport(null);
+      setProgress(null);
       setIsLoading(true);
       setIsCurrentLoading(true);
 
       try {
         const [reports, currentReport] = await Promise.all([
-          onRecommendAsync(entryUserInfo),
-          onLoadCurrentSpringReport ? onLoadCurrentSpringReport(entryUserInfo) : Promise.resolve(null),
+          onRecommendAsync(entryUserInfo, {
+            signal: controller.signal,
+            onProgress: (event) => {
+              if (!cancelled) setProgress(event);
+            },
+          }),
+          onLoadCurrentSpringReport
+            ? onLoadCurrentSpringReport(entryUserInfo, { signal: controller.signal })
+            : Promise.resolve(null),
         ]);
         if (cancelled) return;
         const safeReports = Array.isArray(reports) ? reports : [];
@@ -191,7 +238,7 @@ function NamingCandidatesPage({ entryUserInfo, onRecommendAsync, onLoadCurrentSp
         }
       } catch {
         if (!cancelled) {
-          setError('작명 결과를 불러오지 못했습니다.');
+          setError(controller.signal.aborted ? '작명을 취소했습니다.' : '작명 결과를 불러오지 못했습니다.');
         }
       } finally {
         if (!cancelled) {
@@ -204,9 +251,16 @@ function NamingCandidatesPage({ entryUserInfo, onRecommendAsync, onLoadCurrentSp
     void run();
     return () => {
       cancelled = true;
+      controller.abort();
     };
   }, [entryUserInfo, onRecommendAsync, onLoadCurrentSpringReport]);
 
+  const handleCancelRecommend = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const progressView = useMemo(() => describeProgress(progress), [progress]);
+
   const normalizedSearchKeyword = useMemo(
     () => normalizeSearchKeyword(searchKeyword),
     [searchKeyword]
@@ -396,9 +450,29 @@ function NamingCandidatesPage({ entryUserInfo, onRecommendAsync, onLoadCurrentSp
           </div>
 
           {isLoading && (
-            <div className="h-40 rounded-xl border flex flex-col items-center justify-center gap-3" style={loadingCardStyle}>
+            <div className="rounded-xl border flex flex-col items-center justify-center gap-3 px-4 py-6" style={loadingCardStyle}>
               <div className="h-12 w-12 rounded-full border-4 border-[var(--ns-primary)] border-t-transparent animate-spin" />
               <p className="text-sm font-bold text-[var(--ns-muted)]">작명 중입니다. 잠시만 기다려주세요.</p>
+              <div
+                className="w-full max-w-sm h-2 rounded-full bg-[var(--ns-surface-soft)] border border-[var(--ns-border)] overflow-hidden"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(progressView.ratio * 100)}
+              >
+                <div
+                  className="h-full rounded-full bg-[var(--ns-primary)] transition-[width] duration-300"
+                  style={{ width: `${Math.round(progressView.ratio * 100)}%` }}
+                />
+              </div>
+              <p className="text-xs font-semibold text-[var(--ns-muted)]">{progressView.label}</p>
+              <button
+                type="button"
+                onClick={handleCancelRecommend}
+                className="px-3 py-1.5 rounded-xl border border-[var(--ns-border)] bg-[var(--ns-surface)] text-xs font-black text-[var(--ns-muted)]"
+              >
+                작명 취소
+              </button>
             </div>
           )}
 
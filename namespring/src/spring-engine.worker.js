@@ -0,0 +1,4 @@
+// Hosts SpringEngine off the main thread; App.jsx talks to it through SpringWorkerClient.
+import { hostSpringEngine } from '@spring/worker/engine-host';
+
+hostSpringEngine(self);
@@ -34,6 +34,10 @@ export default defineConfig(({ mode }) => {
         'fflate': path.resolve(__dirname, 'node_modules/fflate/esm/browser.js'),
       }
     },
+    worker: {
+      // The engine worker lazy-loads saju-ts, which needs code splitting (not available for iife workers).
+      format: 'es',
+    },
     optimizeDeps: {
       exclude: ['react-day-picker'],
     },